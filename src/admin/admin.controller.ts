@@ -1,51 +1,66 @@
 import {
+  Body,
   Controller,
   Delete,
   Get,
   HttpCode,
   HttpStatus,
   Param,
+  ParseUUIDPipe,
   Post,
+  Query,
+  Req,
   UseGuards,
 } from '@nestjs/common';
 import {
   ApiBearerAuth,
+  ApiExtraModels,
   ApiOperation,
   ApiParam,
   ApiResponse,
   ApiTags,
+  getSchemaPath,
 } from '@nestjs/swagger';
-import { TEST_DATA } from '../common/constants';
-import { Roles } from '../common/decorators/roles.decorator';
+import type { AuthenticatedRequest } from '../auth/interfaces/authenticated-user.interface';
+import { LoginThrottleService } from '../auth/services/login-throttle.service';
+import { PermissionKey } from '../authorization/constants';
+import { RequirePermissions } from '../authorization/decorators/require-permissions.decorator';
+import { PermissionsGuard } from '../authorization/guards/permissions.guard';
+import { CurrentUser } from '../common/decorators/current-user.decorator';
+import { DateRangeFilterDto } from '../common/dto/date-range-filter.dto';
 import { AuthGuard } from '../common/guards/auth.guard';
-import { RolesGuard } from '../common/guards/roles.guard';
-import { UserRole } from '../users/entities/user.entity';
+import { DisallowImpersonation } from '../impersonation/decorators/disallow-impersonation.decorator';
+import { UserResponseDto } from '../users/dto/user-response.dto';
+import { UsersService } from '../users/providers/users.service';
+import { AnalyticsDto, DashboardStatsDto } from './dto/admin-stats.dto';
+import {
+  AdminUserListQueryDto,
+  DeleteUserQueryDto,
+  SuspendUserDto,
+  UserDeletionMode,
+} from './dto/admin-users.dto';
+import { AdminStatsService } from './services/admin-stats.service';
+import { AdminUsersService } from './services/admin-users.service';
 
 @Controller('admin')
 @ApiTags('admin')
 @ApiBearerAuth()
-@UseGuards(AuthGuard, RolesGuard)
+@ApiExtraModels(UserResponseDto)
+@UseGuards(AuthGuard, PermissionsGuard)
 export class AdminController {
+  constructor(
+    private readonly usersService: UsersService,
+    private readonly loginThrottleService: LoginThrottleService,
+    private readonly adminStatsService: AdminStatsService,
+    private readonly adminUsersService: AdminUsersService,
+  ) {}
+
   @Get('dashboard')
   @ApiOperation({ summary: 'Get admin dashboard statistics' })
   @ApiResponse({
     status: 200,
     description: 'Dashboard data retrieved successfully',
-    schema: {
-      type: 'object',
-      properties: {
-        message: { type: 'string', example: 'Welcome to Admin Dashboard' },
-        data: {
-          type: 'object',
-          properties: {
-            totalUsers: { type: 'number', example: 150 },
-            totalCourses: { type: 'number', example: 25 },
-            totalEnrollments: { type: 'number', example: 1200 },
-            systemStatus: { type: 'string', example: 'Healthy' },
-          },
-        },
-      },
-    },
+    type: DashboardStatsDto,
   })
   @ApiResponse({
     status: 400,
@@ -59,49 +74,35 @@ export class AdminController {
       },
     },
   })
-  @Roles(UserRole.ADMIN)
+  @RequirePermissions(PermissionKey.ANALYTICS_READ)
   @HttpCode(HttpStatus.OK)
-  getDashboardPage() {
+  async getDashboardPage(@Query() filters: DateRangeFilterDto) {
     return {
       message: 'Welcome to Admin Dashboard',
-      data: {
-        totalUsers: 150,
-        totalCourses: TEST_DATA.TOTAL_COURSES,
-        totalEnrollments: 1200,
-        systemStatus: 'Healthy',
-      },
+      data: await this.adminStatsService.getDashboard(filters),
     };
   }
 
   @Get('users')
-  @ApiOperation({ summary: 'Get all users for admin management' })
+  @ApiOperation({
+    summary: 'Search users for admin management',
+    description:
+      'Filter by email, role, linked wallet, account status and signup date',
+  })
   @ApiResponse({
     status: 200,
     description: 'Users retrieved successfully',
     schema: {
       type: 'object',
       properties: {
-        message: {
-          type: 'string',
-          example: 'User management - Admin/Moderator access required',
-        },
+        message: { type: 'string', example: 'Users retrieved successfully' },
         data: {
-          type: 'object',
-          properties: {
-            users: {
-              type: 'array',
-              items: {
-                type: 'object',
-                properties: {
-                  id: { type: 'string', example: '1' },
-                  name: { type: 'string', example: 'John Doe' },
-                  email: { type: 'string', example: 'john@example.com' },
-                  role: { type: 'string', example: 'user' },
-                },
-              },
-            },
-          },
+          type: 'array',
+          items: { $ref: getSchemaPath(UserResponseDto) },
         },
+        total: { type: 'number', example: 150 },
+        page: { type: 'number', example: 1 },
+        limit: { type: 'number', example: 20 },
       },
     },
   })
@@ -117,133 +118,179 @@ export class AdminController {
       },
     },
   })
-  @Roles(UserRole.ADMIN, UserRole.MODERATOR)
+  @RequirePermissions(PermissionKey.USER_READ)
   @HttpCode(HttpStatus.OK)
-  getAllUsers() {
+  async getAllUsers(@Query() query: AdminUserListQueryDto) {
+    const { page = 1, limit = 20, ...filters } = query;
+    const { users, total } = await this.usersService.findAll(
+      page,
+      limit,
+      filters,
+    );
+
     return {
-      message: 'User management - Admin/Moderator access required',
-      data: {
-        users: [
-          {
-            id: '1',
-            name: 'John Doe',
-            email: 'john@example.com',
-            role: 'user',
-          },
-          {
-            id: '2',
-            name: 'Jane Smith',
-            email: 'jane@example.com',
-            role: 'moderator',
-          },
-        ],
-      },
+      message: 'Users retrieved successfully',
+      data: users,
+      total,
+      page,
+      limit,
     };
   }
 
-  @Post('system/maintenance')
-  @ApiOperation({ summary: 'Start system maintenance mode' })
-  @ApiResponse({
-    status: 200,
-    description: 'Maintenance mode started successfully',
-    schema: {
-      type: 'object',
-      properties: {
-        message: {
-          type: 'string',
-          example: 'System maintenance started - Admin access required',
-        },
-        data: {
-          type: 'object',
-          properties: {
-            status: { type: 'string', example: 'Maintenance mode activated' },
-            timestamp: { type: 'string', example: '2023-01-01T00:00:00.000Z' },
-          },
-        },
-      },
-    },
+  @Post('users/:id/suspend')
+  @DisallowImpersonation()
+  @ApiOperation({
+    summary: 'Suspend a user',
+    description:
+      'Revokes every session; sign-in, tokens and API keys are refused until the user is reactivated.',
   })
-  @ApiResponse({
-    status: 400,
-    description: 'Bad request',
-    schema: {
-      type: 'object',
-      properties: {
-        message: { type: 'string', example: 'Invalid request parameters' },
-        error: { type: 'string', example: 'Bad Request' },
-        statusCode: { type: 'number', example: 400 },
-      },
-    },
+  @ApiParam({ name: 'id', description: 'The ID of the user to suspend' })
+  @ApiResponse({ status: 200, description: 'User suspended' })
+  @ApiResponse({ status: 404, description: 'User not found' })
+  @ApiResponse({ status: 409, description: 'User is already suspended' })
+  @RequirePermissions(PermissionKey.USER_MANAGE)
+  @HttpCode(HttpStatus.OK)
+  async suspendUser(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() dto: SuspendUserDto,
+    @CurrentUser('id') adminId: string,
+  ) {
+    const { revokedSessions } = await this.adminUsersService.suspend(
+      adminId,
+      id,
+      dto.reason,
+    );
+    return {
+      message: 'User suspended',
+      data: await this.withRevokedSessions(id, revokedSessions),
+    };
+  }
+
+  @Post('users/:id/reactivate')
+  @DisallowImpersonation()
+  @ApiOperation({ summary: 'Lift a suspension' })
+  @ApiParam({ name: 'id', description: 'The ID of the user to reactivate' })
+  @ApiResponse({ status: 200, description: 'User reactivated' })
+  @ApiResponse({ status: 404, description: 'User not found' })
+  @ApiResponse({ status: 409, description: 'User is not suspended' })
+  @RequirePermissions(PermissionKey.USER_MANAGE)
+  @HttpCode(HttpStatus.OK)
+  async reactivateUser(
+    @Param('id', ParseUUIDPipe) id: string,
+    @CurrentUser('id') adminId: string,
+  ) {
+    await this.adminUsersService.reactivate(adminId, id);
+    return {
+      message: 'User reactivated',
+      data: await this.usersService.findById(id),
+    };
+  }
+
+  @Post('users/:id/force-password-reset')
+  @DisallowImpersonation()
+  @ApiOperation({
+    summary: 'Force a password reset',
+    description:
+      'Revokes every session, mails a reset link and refuses password sign-in until the password is changed.',
   })
-  @Roles(UserRole.ADMIN)
+  @ApiParam({ name: 'id', description: 'The ID of the user' })
+  @ApiResponse({ status: 200, description: 'Password reset forced' })
+  @ApiResponse({ status: 404, description: 'User not found' })
+  @RequirePermissions(PermissionKey.USER_MANAGE)
   @HttpCode(HttpStatus.OK)
-  startMaintenanceTime() {
+  async forcePasswordReset(
+    @Param('id', ParseUUIDPipe) id: string,
+    @CurrentUser('id') adminId: string,
+  ) {
+    const { revokedSessions } = await this.adminUsersService.forcePasswordReset(
+      adminId,
+      id,
+    );
     return {
-      message: 'System maintenance started - Admin access required',
-      data: {
-        status: 'Maintenance mode activated',
-        timestamp: new Date().toISOString(),
-      },
+      message: 'Password reset forced',
+      data: await this.withRevokedSessions(id, revokedSessions),
     };
   }
 
   @Delete('users/:id')
-  @ApiOperation({ summary: 'Delete a user by ID' })
-  @ApiParam({
-    name: 'id',
-    description: 'The ID of the user to delete',
-    type: 'string',
-    example: '1',
-  })
-  @ApiResponse({
-    status: 204,
-    description: 'User deleted successfully',
+  @ApiOperation({
+    summary: 'Delete a user',
+    description:
+      'By default the account is anonymised: personal data and credentials are removed, learning records stay. mode=hard removes the account entirely.',
   })
+  @ApiParam({ name: 'id', description: 'The ID of the user to delete' })
+  @ApiResponse({ status: 204, description: 'User deleted' })
+  @ApiResponse({ status: 404, description: 'User not found' })
   @ApiResponse({
-    status: 400,
-    description: 'Bad request',
-    schema: {
-      type: 'object',
-      properties: {
-        message: { type: 'string', example: 'Invalid request parameters' },
-        error: { type: 'string', example: 'Bad Request' },
-        statusCode: { type: 'number', example: 400 },
-      },
-    },
+    status: 409,
+    description: 'Already anonymised, or hard delete of a course owner',
   })
-  @Roles(UserRole.ADMIN)
+  @RequirePermissions(PermissionKey.USER_MANAGE)
   @HttpCode(HttpStatus.NO_CONTENT)
-  deleteUserById(@Param('id') _id: string) {
-    return;
+  async deleteUserById(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Query() query: DeleteUserQueryDto,
+    @CurrentUser('id') adminId: string,
+  ): Promise<void> {
+    await this.adminUsersService.delete(
+      adminId,
+      id,
+      query.mode ?? UserDeletionMode.ANONYMIZE,
+    );
   }
-  @Get('analytics')
-  @ApiOperation({ summary: 'Get system analytics data' })
+
+  @Post('users/:id/unlock')
+  @ApiOperation({
+    summary: 'Lift a login lockout caused by repeated failed attempts',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'The ID of the user to unlock',
+    type: 'string',
+  })
   @ApiResponse({
     status: 200,
-    description: 'Analytics data retrieved successfully',
+    description: 'Lockout lifted (or the account was not throttled)',
     schema: {
       type: 'object',
       properties: {
-        message: {
-          type: 'string',
-          example: 'Analytics data - Admin/Moderator access required',
-        },
+        message: { type: 'string', example: 'User login unlocked' },
         data: {
           type: 'object',
           properties: {
-            monthlyStats: {
-              type: 'object',
-              properties: {
-                newUsers: { type: 'number', example: 45 },
-                courseCompletions: { type: 'number', example: 120 },
-                revenue: { type: 'number', example: 15000 },
-              },
-            },
+            userId: { type: 'string' },
+            wasLocked: { type: 'boolean', example: true },
           },
         },
       },
     },
   })
+  @ApiResponse({ status: 404, description: 'User not found' })
+  @RequirePermissions(PermissionKey.USER_UNLOCK)
+  @HttpCode(HttpStatus.OK)
+  async unlockUser(@Param('id') id: string, @Req() req: AuthenticatedRequest) {
+    const user = await this.usersService.findById(id);
+    const wasLocked = await this.loginThrottleService.unlockAccount(
+      user.email,
+      req.user.id,
+    );
+
+    return {
+      message: 'User login unlocked',
+      data: { userId: user.id, wasLocked },
+    };
+  }
+
+  @Get('analytics')
+  @ApiOperation({
+    summary: 'Get month-by-month platform analytics',
+    description: 'Defaults to the last 12 months when no startDate is given',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Analytics data retrieved successfully',
+    type: AnalyticsDto,
+  })
   @ApiResponse({
     status: 400,
     description: 'Bad request',
@@ -256,18 +303,16 @@ export class AdminController {
       },
     },
   })
-  @Roles(UserRole.ADMIN, UserRole.MODERATOR)
+  @RequirePermissions(PermissionKey.ANALYTICS_READ)
   @HttpCode(HttpStatus.OK)
-  getDataAnalytics() {
+  async getDataAnalytics(@Query() filters: DateRangeFilterDto) {
     return {
-      message: 'Analytics data - Admin/Moderator access required',
-      data: {
-        monthlyStats: {
-          newUsers: 45,
-          courseCompletions: 120,
-          revenue: 15000,
-        },
-      },
+      message: 'Analytics data retrieved successfully',
+      data: await this.adminStatsService.getAnalytics(filters),
     };
   }
+
+  private async withRevokedSessions(id: string, revokedSessions: number) {
+    return { ...(await this.usersService.findById(id)), revokedSessions };
+  }
 }
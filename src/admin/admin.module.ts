@@ -1,11 +1,32 @@
 import { Module } from '@nestjs/common';
 import { TypeOrmModule } from '@nestjs/typeorm';
+import { AuthModule } from '../auth/auth.module';
+import { Course } from '../courses/entities/course.entity';
+import { Enrollment } from '../enrollment/entities/enrollment.entity';
+import { LessonResource } from '../entities/lesson-resource.entity';
+import { QuizAttempt } from '../quiz/entities/quiz-attempt.entity';
+import { Review } from '../reviews/entities/reviews.entity';
 import { User } from '../users/entities/user.entity';
+import { UsersModule } from '../users/users.module';
 import { AdminController } from './admin.controller';
+import { AdminStatsService } from './services/admin-stats.service';
+import { AdminUsersService } from './services/admin-users.service';
 
 @Module({
   controllers: [AdminController],
-  imports: [TypeOrmModule.forFeature([User])],
+  imports: [
+    TypeOrmModule.forFeature([
+      User,
+      Course,
+      Enrollment,
+      QuizAttempt,
+      Review,
+      LessonResource,
+    ]),
+    AuthModule,
+    UsersModule,
+  ],
+  providers: [AdminStatsService, AdminUsersService],
   exports: [TypeOrmModule],
 })
 export class AdminModule {}
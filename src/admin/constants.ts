@@ -0,0 +1,14 @@
+// How long dashboard and analytics aggregates are reused before being recomputed
+export const ADMIN_STATS_CACHE_TTL_MS = 5 * 60 * 1000;
+
+// Months covered by the analytics series when no start date is given
+export const ADMIN_ANALYTICS_DEFAULT_MONTHS = 12;
+
+// Longest analytics series returned, to bound the grouped queries
+export const ADMIN_ANALYTICS_MAX_MONTHS = 60;
+
+// Name given to anonymised accounts
+export const ANONYMIZED_USER_NAME = 'Deleted user';
+
+// Anonymised accounts get `<id>@` this reserved domain so the unique email stays free
+export const ANONYMIZED_EMAIL_DOMAIN = 'anonymized.invalid';
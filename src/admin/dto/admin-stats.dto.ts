@@ -0,0 +1,118 @@
+import { ApiProperty } from '@nestjs/swagger';
+
+export class UserStatsDto {
+  @ApiProperty({ example: 150 })
+  total: number;
+
+  @ApiProperty({
+    description: 'Users per legacy role',
+    example: { admin: 2, moderator: 5, user: 143 },
+  })
+  byRole: Record<string, number>;
+
+  @ApiProperty({ example: 120 })
+  emailVerified: number;
+}
+
+export class CourseStatsDto {
+  @ApiProperty({ example: 25 })
+  total: number;
+
+  @ApiProperty({ example: 20 })
+  published: number;
+}
+
+export class EnrollmentStatsDto {
+  @ApiProperty({ example: 1200 })
+  total: number;
+
+  @ApiProperty({ example: 950 })
+  active: number;
+
+  @ApiProperty({ description: 'Enrollments with an issued certificate' })
+  completed: number;
+}
+
+export class QuizAttemptStatsDto {
+  @ApiProperty({ description: 'Completed attempts', example: 800 })
+  total: number;
+
+  @ApiProperty({ example: 610 })
+  passed: number;
+
+  @ApiProperty({ description: 'Share of passed attempts, 0-100' })
+  passRate: number;
+
+  @ApiProperty({ description: 'Mean score percentage, 0-100' })
+  averagePercentage: number;
+}
+
+export class ReviewStatsDto {
+  @ApiProperty({ example: 340 })
+  total: number;
+
+  @ApiProperty({ description: 'Mean rating from 1 to 5, or 0 without reviews' })
+  averageRating: number;
+}
+
+export class StorageStatsDto {
+  @ApiProperty({ description: 'Active lesson resource files' })
+  files: number;
+
+  @ApiProperty({ description: 'Total size of those files in bytes' })
+  bytes: number;
+}
+
+export class DashboardStatsDto {
+  @ApiProperty({ type: UserStatsDto })
+  users: UserStatsDto;
+
+  @ApiProperty({ type: CourseStatsDto })
+  courses: CourseStatsDto;
+
+  @ApiProperty({ type: EnrollmentStatsDto })
+  enrollments: EnrollmentStatsDto;
+
+  @ApiProperty({ type: QuizAttemptStatsDto })
+  quizAttempts: QuizAttemptStatsDto;
+
+  @ApiProperty({ type: ReviewStatsDto })
+  reviews: ReviewStatsDto;
+
+  @ApiProperty({ type: StorageStatsDto })
+  storage: StorageStatsDto;
+
+  @ApiProperty({ description: 'When the figures were computed' })
+  generatedAt: Date;
+}
+
+export class MonthlyStatsDto {
+  @ApiProperty({ example: '2026-01' })
+  month: string;
+
+  @ApiProperty({ example: 45 })
+  newUsers: number;
+
+  @ApiProperty({ example: 130 })
+  enrollments: number;
+
+  @ApiProperty({ description: 'Certificates issued', example: 120 })
+  courseCompletions: number;
+
+  @ApiProperty({ description: 'Completed quiz attempts', example: 300 })
+  quizAttempts: number;
+}
+
+export class AnalyticsDto {
+  @ApiProperty()
+  from: Date;
+
+  @ApiProperty()
+  to: Date;
+
+  @ApiProperty({ type: [MonthlyStatsDto] })
+  monthlyStats: MonthlyStatsDto[];
+
+  @ApiProperty({ description: 'When the figures were computed' })
+  generatedAt: Date;
+}
@@ -0,0 +1,71 @@
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import {
+  IsEnum,
+  IsOptional,
+  IsString,
+  MaxLength,
+  MinLength,
+} from 'class-validator';
+import { FilteredPaginationQueryDto } from '../../common/dto/filtered-pagination-query.dto';
+import { UserAccountStatus } from '../../users/enums/user-account-status.enum';
+import { UserRole } from '../../users/enums/user-role.enum';
+
+export enum UserDeletionMode {
+  ANONYMIZE = 'anonymize',
+  HARD = 'hard',
+}
+
+export class AdminUserListQueryDto extends FilteredPaginationQueryDto {
+  @ApiPropertyOptional({
+    description: 'Part of the email address, case-insensitive',
+    example: 'example.com',
+  })
+  @IsOptional()
+  @IsString()
+  @MinLength(2)
+  @MaxLength(255)
+  email?: string;
+
+  @ApiPropertyOptional({ enum: UserRole })
+  @IsOptional()
+  @IsEnum(UserRole)
+  role?: UserRole;
+
+  @ApiPropertyOptional({
+    description: 'Full address of a wallet linked to the account',
+    example: 'GB...',
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(56)
+  wallet?: string;
+
+  @ApiPropertyOptional({ enum: UserAccountStatus })
+  @IsOptional()
+  @IsEnum(UserAccountStatus)
+  status?: UserAccountStatus;
+}
+
+export class SuspendUserDto {
+  @ApiPropertyOptional({
+    description: 'Why the account is suspended, kept for other admins',
+    example: 'Chargeback fraud under investigation',
+    maxLength: 500,
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(500)
+  reason?: string;
+}
+
+export class DeleteUserQueryDto {
+  @ApiPropertyOptional({
+    enum: UserDeletionMode,
+    default: UserDeletionMode.ANONYMIZE,
+    description:
+      'anonymize scrubs personal data but keeps enrollments, attempts and reviews; hard removes the account and everything attached to it',
+  })
+  @IsOptional()
+  @IsEnum(UserDeletionMode)
+  mode?: UserDeletionMode = UserDeletionMode.ANONYMIZE;
+}
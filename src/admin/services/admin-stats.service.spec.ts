@@ -0,0 +1,164 @@
+import { BadRequestException } from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { queryBuilderRepository } from '../../common/testing/query-builder.stub';
+import {
+  createTestDataSource,
+  recordQueries,
+  repositoryProviders,
+} from '../../common/testing/test-data-source';
+import { Course } from '../../courses/entities/course.entity';
+import { Enrollment } from '../../enrollment/entities/enrollment.entity';
+import { LessonResource } from '../../entities/lesson-resource.entity';
+import { QuizAttempt } from '../../quiz/entities/quiz-attempt.entity';
+import { Review } from '../../reviews/entities/reviews.entity';
+import { User } from '../../users/entities/user.entity';
+import { AdminStatsService } from './admin-stats.service';
+
+describe('AdminStatsService', () => {
+  let service: AdminStatsService;
+
+  const userRepository = queryBuilderRepository({
+    many: [
+      [
+        { role: 'user', count: '8', verified: '5', month: '2026-02' },
+        { role: 'admin', count: '2', verified: '2', month: '2026-03' },
+      ],
+    ],
+  });
+  const attemptRepository = queryBuilderRepository({
+    one: { total: '4', passed: '3', average: '71.255' },
+  });
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        AdminStatsService,
+        { provide: getRepositoryToken(User), useValue: userRepository },
+        {
+          provide: getRepositoryToken(Course),
+          useValue: queryBuilderRepository({
+            one: { total: '5', published: '4' },
+          }),
+        },
+        {
+          provide: getRepositoryToken(Enrollment),
+          useValue: queryBuilderRepository({
+            one: { total: '12', active: '10', completed: '3' },
+          }),
+        },
+        {
+          provide: getRepositoryToken(QuizAttempt),
+          useValue: attemptRepository,
+        },
+        {
+          provide: getRepositoryToken(Review),
+          useValue: queryBuilderRepository({
+            one: { total: '2', average: '4.5' },
+          }),
+        },
+        {
+          provide: getRepositoryToken(LessonResource),
+          useValue: queryBuilderRepository({
+            one: { files: '3', bytes: '2048' },
+          }),
+        },
+      ],
+    }).compile();
+
+    service = module.get<AdminStatsService>(AdminStatsService);
+  });
+
+  it('should aggregate live figures for the dashboard', async () => {
+    const stats = await service.getDashboard({});
+
+    expect(stats.users).toEqual({
+      total: 10,
+      byRole: { user: 8, admin: 2 },
+      emailVerified: 7,
+    });
+    expect(stats.courses).toEqual({ total: 5, published: 4 });
+    expect(stats.quizAttempts).toEqual({
+      total: 4,
+      passed: 3,
+      passRate: 75,
+      averagePercentage: 71.26,
+    });
+    expect(stats.storage).toEqual({ files: 3, bytes: 2048 });
+  });
+
+  it('should reuse cached aggregates for the same range', async () => {
+    const filters = { startDate: '2026-01-01T00:00:00.000Z' };
+
+    await service.getDashboard(filters);
+    await service.getDashboard(filters);
+    await service.getDashboard({});
+
+    expect(userRepository.createQueryBuilder).toHaveBeenCalledTimes(2);
+  });
+
+  it('should return one entry per month, filling gaps with zeros', async () => {
+    const analytics = await service.getAnalytics({
+      startDate: '2026-01-15T00:00:00.000Z',
+      endDate: '2026-03-10T00:00:00.000Z',
+    });
+
+    expect(analytics.monthlyStats.map((entry) => entry.month)).toEqual([
+      '2026-01',
+      '2026-02',
+      '2026-03',
+    ]);
+    expect(analytics.monthlyStats[0].newUsers).toBe(0);
+    expect(analytics.monthlyStats[1].newUsers).toBe(8);
+  });
+
+  it('should reject a range that ends before it starts', async () => {
+    await expect(
+      service.getDashboard({
+        startDate: '2026-02-01T00:00:00.000Z',
+        endDate: '2026-01-01T00:00:00.000Z',
+      }),
+    ).rejects.toThrow(BadRequestException);
+  });
+
+  describe('against the entity metadata', () => {
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    it('should count monthly signups by the snake_case columns', async () => {
+      const dataSource = await createTestDataSource();
+      const queries = recordQueries();
+      const module: TestingModule = await Test.createTestingModule({
+        providers: [
+          AdminStatsService,
+          ...repositoryProviders(dataSource, [
+            User,
+            Course,
+            Enrollment,
+            QuizAttempt,
+            Review,
+            LessonResource,
+          ]),
+        ],
+      }).compile();
+
+      await module.get(AdminStatsService).getAnalytics({
+        startDate: '2026-01-01T00:00:00.000Z',
+        endDate: '2026-02-01T00:00:00.000Z',
+      });
+
+      expect(queries[0].sql).toBe(
+        `SELECT TO_CHAR(DATE_TRUNC('month', "user"."created_at"), 'YYYY-MM') AS "month", COUNT(*) AS "count" ` +
+          `FROM "users" "user" WHERE "user"."is_service_account" = false ` +
+          `AND "user"."created_at" >= $1 AND "user"."created_at" <= $2 GROUP BY month`,
+      );
+      expect(queries[0].parameters).toEqual([
+        new Date('2026-01-01T00:00:00.000Z'),
+        new Date('2026-02-01T00:00:00.000Z'),
+      ]);
+    });
+  });
+});
@@ -0,0 +1,351 @@
+import { BadRequestException, Injectable } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { ObjectLiteral, Repository, SelectQueryBuilder } from 'typeorm';
+import { DateRangeFilterDto } from '../../common/dto/date-range-filter.dto';
+import { Course } from '../../courses/entities/course.entity';
+import { Enrollment } from '../../enrollment/entities/enrollment.entity';
+import { LessonResource } from '../../entities/lesson-resource.entity';
+import {
+  AttemptStatus,
+  QuizAttempt,
+} from '../../quiz/entities/quiz-attempt.entity';
+import { Review } from '../../reviews/entities/reviews.entity';
+import { User } from '../../users/entities/user.entity';
+import {
+  ADMIN_ANALYTICS_DEFAULT_MONTHS,
+  ADMIN_ANALYTICS_MAX_MONTHS,
+  ADMIN_STATS_CACHE_TTL_MS,
+} from '../constants';
+import { AnalyticsDto, DashboardStatsDto } from '../dto/admin-stats.dto';
+
+interface StatsRange {
+  start?: Date;
+  end?: Date;
+}
+
+interface CacheEntry {
+  value: unknown;
+  expiresAt: number;
+}
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+const monthKey = (date: Date) => date.toISOString().slice(0, 7);
+
+/**
+ * Platform-wide figures for the admin dashboard. Counts cover records created
+ * within the requested range, or all time without one. Results are cached per
+ * range for ADMIN_STATS_CACHE_TTL_MS since each call scans several tables.
+ */
+@Injectable()
+export class AdminStatsService {
+  private readonly cache = new Map<string, CacheEntry>();
+
+  constructor(
+    @InjectRepository(User)
+    private readonly userRepository: Repository<User>,
+    @InjectRepository(Course)
+    private readonly courseRepository: Repository<Course>,
+    @InjectRepository(Enrollment)
+    private readonly enrollmentRepository: Repository<Enrollment>,
+    @InjectRepository(QuizAttempt)
+    private readonly attemptRepository: Repository<QuizAttempt>,
+    @InjectRepository(Review)
+    private readonly reviewRepository: Repository<Review>,
+    @InjectRepository(LessonResource)
+    private readonly resourceRepository: Repository<LessonResource>,
+  ) {}
+
+  async getDashboard(filters: DateRangeFilterDto): Promise<DashboardStatsDto> {
+    const range = this.parseRange(filters);
+
+    return this.cached(this.cacheKey('dashboard', range), async () => {
+      const [users, courses, enrollments, quizAttempts, reviews, storage] =
+        await Promise.all([
+          this.getUserStats(range),
+          this.getCourseStats(range),
+          this.getEnrollmentStats(range),
+          this.getQuizAttemptStats(range),
+          this.getReviewStats(range),
+          this.getStorageStats(range),
+        ]);
+
+      return {
+        users,
+        courses,
+        enrollments,
+        quizAttempts,
+        reviews,
+        storage,
+        generatedAt: new Date(),
+      };
+    });
+  }
+
+  /** Month-by-month series, defaulting to the last twelve months. */
+  async getAnalytics(filters: DateRangeFilterDto): Promise<AnalyticsDto> {
+    const requested = this.parseRange(filters);
+    const to = requested.end ?? new Date();
+    const from =
+      requested.start ??
+      new Date(
+        Date.UTC(
+          to.getUTCFullYear(),
+          to.getUTCMonth() - (ADMIN_ANALYTICS_DEFAULT_MONTHS - 1),
+          1,
+        ),
+      );
+    const months = this.listMonths(from, to);
+    if (months.length > ADMIN_ANALYTICS_MAX_MONTHS) {
+      throw new BadRequestException(
+        `Analytics cover at most ${ADMIN_ANALYTICS_MAX_MONTHS} months`,
+      );
+    }
+
+    const range = { start: from, end: to };
+    return this.cached(this.cacheKey('analytics', requested), async () => {
+      const [newUsers, enrollments, completions, attempts] = await Promise.all([
+        this.countByMonth(
+          this.userRepository
+            .createQueryBuilder('user')
+            .where('user.isServiceAccount = false'),
+          'user.createdAt',
+          range,
+        ),
+        this.countByMonth(
+          this.enrollmentRepository.createQueryBuilder('enrollment'),
+          'enrollment.enrolledAt',
+          range,
+        ),
+        this.countByMonth(
+          this.enrollmentRepository.createQueryBuilder('enrollment'),
+          'enrollment.issuedAt',
+          range,
+        ),
+        this.countByMonth(
+          this.attemptRepository
+            .createQueryBuilder('attempt')
+            .where('attempt.status = :status', {
+              status: AttemptStatus.COMPLETED,
+            }),
+          'attempt.completed_at',
+          range,
+        ),
+      ]);
+
+      return {
+        from,
+        to,
+        monthlyStats: months.map((month) => ({
+          month,
+          newUsers: newUsers.get(month) ?? 0,
+          enrollments: enrollments.get(month) ?? 0,
+          courseCompletions: completions.get(month) ?? 0,
+          quizAttempts: attempts.get(month) ?? 0,
+        })),
+        generatedAt: new Date(),
+      };
+    });
+  }
+
+  private async getUserStats(
+    range: StatsRange,
+  ): Promise<DashboardStatsDto['users']> {
+    const rows = await this.inRange(
+      this.userRepository
+        .createQueryBuilder('user')
+        .where('user.isServiceAccount = false'),
+      'user.createdAt',
+      range,
+    )
+      .select('user.role', 'role')
+      .addSelect('COUNT(*)', 'count')
+      .addSelect('COUNT(user.emailVerifiedAt)', 'verified')
+      .groupBy('user.role')
+      .getRawMany<{ role: string; count: string; verified: string }>();
+
+    return {
+      total: rows.reduce((sum, row) => sum + Number(row.count), 0),
+      byRole: Object.fromEntries(
+        rows.map((row) => [row.role, Number(row.count)]),
+      ),
+      emailVerified: rows.reduce((sum, row) => sum + Number(row.verified), 0),
+    };
+  }
+
+  private async getCourseStats(
+    range: StatsRange,
+  ): Promise<DashboardStatsDto['courses']> {
+    const row = await this.inRange(
+      this.courseRepository.createQueryBuilder('course'),
+      'course.createdAt',
+      range,
+    )
+      .select('COUNT(*)', 'total')
+      .addSelect('COUNT(*) FILTER (WHERE course.isPublished)', 'published')
+      .getRawOne<{ total: string; published: string }>();
+
+    return {
+      total: Number(row?.total ?? 0),
+      published: Number(row?.published ?? 0),
+    };
+  }
+
+  private async getEnrollmentStats(
+    range: StatsRange,
+  ): Promise<DashboardStatsDto['enrollments']> {
+    const row = await this.inRange(
+      this.enrollmentRepository.createQueryBuilder('enrollment'),
+      'enrollment.enrolledAt',
+      range,
+    )
+      .select('COUNT(*)', 'total')
+      .addSelect('COUNT(*) FILTER (WHERE enrollment.isActive)', 'active')
+      .addSelect('COUNT(enrollment.issuedAt)', 'completed')
+      .getRawOne<{ total: string; active: string; completed: string }>();
+
+    return {
+      total: Number(row?.total ?? 0),
+      active: Number(row?.active ?? 0),
+      completed: Number(row?.completed ?? 0),
+    };
+  }
+
+  private async getQuizAttemptStats(
+    range: StatsRange,
+  ): Promise<DashboardStatsDto['quizAttempts']> {
+    const row = await this.inRange(
+      this.attemptRepository
+        .createQueryBuilder('attempt')
+        .where('attempt.status = :status', { status: AttemptStatus.COMPLETED }),
+      'attempt.completed_at',
+      range,
+    )
+      .select('COUNT(*)', 'total')
+      .addSelect('COUNT(*) FILTER (WHERE attempt.passed)', 'passed')
+      .addSelect('COALESCE(AVG(attempt.percentage), 0)', 'average')
+      .getRawOne<{ total: string; passed: string; average: string }>();
+
+    const total = Number(row?.total ?? 0);
+    const passed = Number(row?.passed ?? 0);
+    return {
+      total,
+      passed,
+      passRate: total ? round((passed / total) * 100) : 0,
+      averagePercentage: round(Number(row?.average ?? 0)),
+    };
+  }
+
+  private async getReviewStats(
+    range: StatsRange,
+  ): Promise<DashboardStatsDto['reviews']> {
+    const row = await this.inRange(
+      this.reviewRepository.createQueryBuilder('review'),
+      'review.createdAt',
+      range,
+    )
+      .select('COUNT(*)', 'total')
+      .addSelect('COALESCE(AVG(review.rating), 0)', 'average')
+      .getRawOne<{ total: string; average: string }>();
+
+    return {
+      total: Number(row?.total ?? 0),
+      averageRating: round(Number(row?.average ?? 0)),
+    };
+  }
+
+  private async getStorageStats(
+    range: StatsRange,
+  ): Promise<DashboardStatsDto['storage']> {
+    const row = await this.inRange(
+      this.resourceRepository
+        .createQueryBuilder('resource')
+        .where('resource.is_active = true'),
+      'resource.created_at',
+      range,
+    )
+      .select('COUNT(*)', 'files')
+      .addSelect('COALESCE(SUM(resource.size), 0)', 'bytes')
+      .getRawOne<{ files: string; bytes: string }>();
+
+    return {
+      files: Number(row?.files ?? 0),
+      bytes: Number(row?.bytes ?? 0),
+    };
+  }
+
+  private async countByMonth<T extends ObjectLiteral>(
+    query: SelectQueryBuilder<T>,
+    column: string,
+    range: StatsRange,
+  ): Promise<Map<string, number>> {
+    const rows = await this.inRange(query, column, range)
+      .select(`TO_CHAR(DATE_TRUNC('month', ${column}), 'YYYY-MM')`, 'month')
+      .addSelect('COUNT(*)', 'count')
+      .groupBy('month')
+      .getRawMany<{ month: string; count: string }>();
+
+    return new Map(rows.map((row) => [row.month, Number(row.count)]));
+  }
+
+  private inRange<T extends ObjectLiteral>(
+    query: SelectQueryBuilder<T>,
+    column: string,
+    { start, end }: StatsRange,
+  ): SelectQueryBuilder<T> {
+    if (start) {
+      query.andWhere(`${column} >= :start`, { start });
+    }
+    if (end) {
+      query.andWhere(`${column} <= :end`, { end });
+    }
+    return query;
+  }
+
+  private parseRange({ startDate, endDate }: DateRangeFilterDto): StatsRange {
+    const range: StatsRange = {
+      start: startDate ? new Date(startDate) : undefined,
+      end: endDate ? new Date(endDate) : undefined,
+    };
+    if (range.start && range.end && range.start > range.end) {
+      throw new BadRequestException('startDate must be before endDate');
+    }
+    return range;
+  }
+
+  private listMonths(from: Date, to: Date): string[] {
+    const months: string[] = [];
+    const cursor = new Date(
+      Date.UTC(from.getUTCFullYear(), from.getUTCMonth(), 1),
+    );
+    while (cursor <= to) {
+      months.push(monthKey(cursor));
+      cursor.setUTCMonth(cursor.getUTCMonth() + 1);
+    }
+    return months;
+  }
+
+  private cacheKey(kind: string, { start, end }: StatsRange): string {
+    return [kind, start?.toISOString() ?? '', end?.toISOString() ?? ''].join(
+      ':',
+    );
+  }
+
+  private async cached<T>(key: string, compute: () => Promise<T>): Promise<T> {
+    const now = Date.now();
+    const hit = this.cache.get(key);
+    if (hit && hit.expiresAt > now) {
+      return hit.value as T;
+    }
+
+    const value = await compute();
+    // Drop stale ranges so arbitrary date filters cannot grow the cache
+    for (const [staleKey, entry] of this.cache) {
+      if (entry.expiresAt <= now) {
+        this.cache.delete(staleKey);
+      }
+    }
+    this.cache.set(key, { value, expiresAt: now + ADMIN_STATS_CACHE_TTL_MS });
+    return value;
+  }
+}
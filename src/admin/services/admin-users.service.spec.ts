@@ -0,0 +1,126 @@
+import { BadRequestException, ConflictException } from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { AuthService } from '../../auth/auth.service';
+import { SessionRevocationReason } from '../../auth/entities/auth-session.entity';
+import { SessionService } from '../../auth/services/session.service';
+import { CentralizedLoggerService } from '../../common/logger/services/centralized-logger.service';
+import { Course } from '../../courses/entities/course.entity';
+import { Review } from '../../reviews/entities/reviews.entity';
+import { User } from '../../users/entities/user.entity';
+import { ANONYMIZED_EMAIL_DOMAIN } from '../constants';
+import { UserDeletionMode } from '../dto/admin-users.dto';
+import { AdminUsersService } from './admin-users.service';
+
+describe('AdminUsersService', () => {
+  let service: AdminUsersService;
+  let user: Partial<User>;
+
+  const manager = { delete: jest.fn(), update: jest.fn() };
+  const userRepository = {
+    findOne: jest.fn(() => Promise.resolve(user)),
+    update: jest.fn(),
+    manager: {
+      transaction: jest.fn((work: (m: typeof manager) => Promise<void>) =>
+        work(manager),
+      ),
+    },
+  };
+  const courseRepository = { count: jest.fn() };
+  const sessionService = { revokeAllForUser: jest.fn() };
+  const authService = { requestPasswordReset: jest.fn() };
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    user = {
+      id: 'user-1',
+      email: 'learner@example.com',
+      suspendedAt: null,
+      anonymizedAt: null,
+      isServiceAccount: false,
+    };
+    sessionService.revokeAllForUser.mockResolvedValue(2);
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        AdminUsersService,
+        { provide: getRepositoryToken(User), useValue: userRepository },
+        { provide: getRepositoryToken(Course), useValue: courseRepository },
+        { provide: SessionService, useValue: sessionService },
+        { provide: AuthService, useValue: authService },
+        {
+          provide: CentralizedLoggerService,
+          useValue: { setContext: jest.fn(), info: jest.fn(), warn: jest.fn() },
+        },
+      ],
+    }).compile();
+
+    service = module.get<AdminUsersService>(AdminUsersService);
+  });
+
+  it('should suspend the user and revoke their sessions', async () => {
+    await expect(
+      service.suspend('admin-1', 'user-1', 'Fraud'),
+    ).resolves.toEqual({ revokedSessions: 2 });
+
+    expect(userRepository.update).toHaveBeenCalledWith('user-1', {
+      suspendedAt: expect.any(Date),
+      suspensionReason: 'Fraud',
+    });
+    expect(sessionService.revokeAllForUser).toHaveBeenCalledWith(
+      'user-1',
+      SessionRevocationReason.ACCOUNT_SUSPENDED,
+    );
+  });
+
+  it('should refuse to act on the calling admin', async () => {
+    await expect(service.suspend('user-1', 'user-1')).rejects.toThrow(
+      BadRequestException,
+    );
+    expect(userRepository.update).not.toHaveBeenCalled();
+  });
+
+  it('should flag the account and mail a link on a forced reset', async () => {
+    await service.forcePasswordReset('admin-1', 'user-1');
+
+    expect(userRepository.update).toHaveBeenCalledWith('user-1', {
+      passwordResetRequired: true,
+    });
+    expect(authService.requestPasswordReset).toHaveBeenCalledWith(
+      'learner@example.com',
+    );
+  });
+
+  it('should scrub personal data when anonymising', async () => {
+    await service.delete('admin-1', 'user-1', UserDeletionMode.ANONYMIZE);
+
+    expect(manager.update).toHaveBeenCalledWith(
+      User,
+      'user-1',
+      expect.objectContaining({
+        email: `user-1@${ANONYMIZED_EMAIL_DOMAIN}`,
+        stellarPublicKey: null,
+        anonymizedAt: expect.any(Date),
+      }),
+    );
+    expect(manager.delete).not.toHaveBeenCalledWith(User, expect.anything());
+  });
+
+  it('should refuse to hard delete a course owner', async () => {
+    courseRepository.count.mockResolvedValue(1);
+
+    await expect(
+      service.delete('admin-1', 'user-1', UserDeletionMode.HARD),
+    ).rejects.toThrow(ConflictException);
+    expect(manager.delete).not.toHaveBeenCalled();
+  });
+
+  it('should remove reviews and the account on a hard delete', async () => {
+    courseRepository.count.mockResolvedValue(0);
+
+    await service.delete('admin-1', 'user-1', UserDeletionMode.HARD);
+
+    expect(manager.delete).toHaveBeenCalledWith(Review, { userId: 'user-1' });
+    expect(manager.delete).toHaveBeenCalledWith(User, { id: 'user-1' });
+  });
+});
@@ -0,0 +1,202 @@
+import {
+  BadRequestException,
+  ConflictException,
+  Inject,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import * as bcrypt from 'bcrypt';
+import { randomBytes } from 'crypto';
+import { Repository } from 'typeorm';
+import { ApiKey } from '../../api-keys/entities/api-key.entity';
+import { AuthService } from '../../auth/auth.service';
+import { SessionRevocationReason } from '../../auth/entities/auth-session.entity';
+import { MfaRecoveryCode } from '../../auth/entities/mfa-recovery-code.entity';
+import { UserMfa } from '../../auth/entities/user-mfa.entity';
+import { UserToken } from '../../auth/entities/user-token.entity';
+import { SessionService } from '../../auth/services/session.service';
+import { PASSWORD_SALT_ROUNDS } from '../../common/constants';
+import { CentralizedLoggerService } from '../../common/logger/services/centralized-logger.service';
+import { Course } from '../../courses/entities/course.entity';
+import { Review } from '../../reviews/entities/reviews.entity';
+import { UserWallet } from '../../users/entities/user-wallet.entity';
+import { User } from '../../users/entities/user.entity';
+import { ANONYMIZED_EMAIL_DOMAIN, ANONYMIZED_USER_NAME } from '../constants';
+import { UserDeletionMode } from '../dto/admin-users.dto';
+
+/** Account actions admins take on other users, each logged with the admin. */
+@Injectable()
+export class AdminUsersService {
+  constructor(
+    @InjectRepository(User)
+    private readonly userRepository: Repository<User>,
+    @InjectRepository(Course)
+    private readonly courseRepository: Repository<Course>,
+    private readonly sessionService: SessionService,
+    private readonly authService: AuthService,
+    @Inject(CentralizedLoggerService)
+    private readonly logger: CentralizedLoggerService,
+  ) {
+    this.logger.setContext(AdminUsersService.name);
+  }
+
+  async suspend(
+    adminId: string,
+    userId: string,
+    reason?: string,
+  ): Promise<{ revokedSessions: number }> {
+    const user = await this.findManageableUser(adminId, userId);
+    if (user.suspendedAt) {
+      throw new ConflictException('User is already suspended');
+    }
+
+    await this.userRepository.update(user.id, {
+      suspendedAt: new Date(),
+      suspensionReason: reason ?? null,
+    });
+    const revokedSessions = await this.sessionService.revokeAllForUser(
+      user.id,
+      SessionRevocationReason.ACCOUNT_SUSPENDED,
+    );
+
+    this.logger.warn('User suspended', {
+      userId: user.id,
+      adminId,
+      revokedSessions,
+    });
+    return { revokedSessions };
+  }
+
+  async reactivate(adminId: string, userId: string): Promise<void> {
+    const user = await this.findManageableUser(adminId, userId);
+    if (!user.suspendedAt) {
+      throw new ConflictException('User is not suspended');
+    }
+
+    await this.userRepository.update(user.id, {
+      suspendedAt: null,
+      suspensionReason: null,
+    });
+    this.logger.info('User reactivated', { userId: user.id, adminId });
+  }
+
+  /**
+   * Signs the user out everywhere and refuses password sign-in until they
+   * set a new password through the emailed reset link.
+   */
+  async forcePasswordReset(
+    adminId: string,
+    userId: string,
+  ): Promise<{ revokedSessions: number }> {
+    const user = await this.findManageableUser(adminId, userId);
+    if (user.isServiceAccount) {
+      throw new BadRequestException('Service accounts have no password');
+    }
+
+    await this.userRepository.update(user.id, { passwordResetRequired: true });
+    const revokedSessions = await this.sessionService.revokeAllForUser(
+      user.id,
+      SessionRevocationReason.PASSWORD_RESET,
+    );
+    await this.authService.requestPasswordReset(user.email);
+
+    this.logger.warn('Password reset forced', {
+      userId: user.id,
+      adminId,
+      revokedSessions,
+    });
+    return { revokedSessions };
+  }
+
+  async delete(
+    adminId: string,
+    userId: string,
+    mode: UserDeletionMode,
+  ): Promise<void> {
+    const user = await this.findManageableUser(adminId, userId, true);
+
+    if (mode === UserDeletionMode.HARD) {
+      await this.hardDelete(user);
+    } else {
+      await this.anonymize(user);
+    }
+
+    this.logger.warn('User deleted', { userId: user.id, adminId, mode });
+  }
+
+  /** Removes the account; enrollments, attempts and keys go with it. */
+  private async hardDelete(user: User): Promise<void> {
+    const ownedCourses = await this.courseRepository.count({
+      where: { professorId: user.id },
+    });
+    if (ownedCourses) {
+      throw new ConflictException(
+        `User still owns ${ownedCourses} course(s). Reassign them or anonymise the account instead`,
+      );
+    }
+
+    await this.userRepository.manager.transaction(async (manager) => {
+      // Reviews are the only user records without a cascading foreign key
+      await manager.delete(Review, { userId: user.id });
+      await manager.delete(User, { id: user.id });
+    });
+  }
+
+  /**
+   * Scrubs personal data and every credential while keeping the row, so
+   * course statistics and owned courses stay intact.
+   */
+  private async anonymize(user: User): Promise<void> {
+    if (user.anonymizedAt) {
+      throw new ConflictException('User is already anonymised');
+    }
+
+    const password = await bcrypt.hash(
+      randomBytes(32).toString('base64url'),
+      PASSWORD_SALT_ROUNDS,
+    );
+    await this.userRepository.manager.transaction(async (manager) => {
+      await manager.delete(UserWallet, { userId: user.id });
+      await manager.delete(UserMfa, { userId: user.id });
+      await manager.delete(MfaRecoveryCode, { userId: user.id });
+      await manager.delete(UserToken, { userId: user.id });
+      await manager.delete(ApiKey, { userId: user.id });
+      await manager.update(User, user.id, {
+        name: ANONYMIZED_USER_NAME,
+        email: `${user.id}@${ANONYMIZED_EMAIL_DOMAIN}`,
+        password,
+        stellarPublicKey: null,
+        walletAddress: null,
+        passwordResetRequired: false,
+        anonymizedAt: new Date(),
+      });
+    });
+    await this.sessionService.revokeAllForUser(
+      user.id,
+      SessionRevocationReason.REVOKED_BY_ADMIN,
+    );
+  }
+
+  private async findManageableUser(
+    adminId: string,
+    userId: string,
+    allowAnonymized = false,
+  ): Promise<User> {
+    if (userId === adminId) {
+      throw new BadRequestException(
+        'Use the account endpoints to manage your own account',
+      );
+    }
+
+    const user = await this.userRepository.findOne({ where: { id: userId } });
+    if (!user) {
+      throw new NotFoundException(`User with ID ${userId} not found`);
+    }
+    // Anonymised rows only keep records attached; deletion is all that is left
+    if (user.anonymizedAt && !allowAnonymized) {
+      throw new ConflictException('User has been anonymised');
+    }
+    return user;
+  }
+}
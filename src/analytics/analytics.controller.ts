@@ -0,0 +1,39 @@
+import { Controller, Get, Query, UseGuards } from '@nestjs/common';
+import {
+  ApiBearerAuth,
+  ApiOperation,
+  ApiResponse,
+  ApiTags,
+} from '@nestjs/swagger';
+import { PermissionKey } from '../authorization/constants';
+import { RequirePermissions } from '../authorization/decorators/require-permissions.decorator';
+import { PermissionsGuard } from '../authorization/guards/permissions.guard';
+import { AuthGuard } from '../common/guards/auth.guard';
+import {
+  AnalyticsSeriesDto,
+  AnalyticsSeriesQueryDto,
+} from './dto/analytics.dto';
+import { AnalyticsService } from './services/analytics.service';
+
+@Controller('analytics')
+@ApiTags('analytics')
+@ApiBearerAuth()
+@UseGuards(AuthGuard, PermissionsGuard)
+@RequirePermissions(PermissionKey.ANALYTICS_READ)
+export class AnalyticsController {
+  constructor(private readonly analyticsService: AnalyticsService) {}
+
+  @Get('series')
+  @ApiOperation({
+    summary: 'Platform activity as a daily, weekly or monthly series',
+    description:
+      'Computed from daily rollups refreshed hourly, so the current day may lag behind.',
+  })
+  @ApiResponse({ status: 200, type: AnalyticsSeriesDto })
+  @ApiResponse({ status: 400, description: 'Range too long or reversed' })
+  getSeries(
+    @Query() query: AnalyticsSeriesQueryDto,
+  ): Promise<AnalyticsSeriesDto> {
+    return this.analyticsService.getSeries(query);
+  }
+}
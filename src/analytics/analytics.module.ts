@@ -0,0 +1,31 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { CourseProgress } from '../course-progress/entities/course-progress.entity';
+import { Enrollment } from '../enrollment/entities/enrollment.entity';
+import { Lesson } from '../lessons/entities/lesson.entity';
+import { Quiz } from '../quiz/entities/quiz.entity';
+import { Review } from '../reviews/entities/reviews.entity';
+import { AnalyticsController } from './analytics.controller';
+import { AnalyticsDailyRollup } from './entities/analytics-daily-rollup.entity';
+import { AnalyticsRollupDay } from './entities/analytics-rollup-day.entity';
+import { AnalyticsRollupService } from './services/analytics-rollup.service';
+import { AnalyticsService } from './services/analytics.service';
+import { CourseAnalyticsService } from './services/course-analytics.service';
+
+@Module({
+  imports: [
+    TypeOrmModule.forFeature([
+      AnalyticsDailyRollup,
+      AnalyticsRollupDay,
+      Enrollment,
+      CourseProgress,
+      Lesson,
+      Quiz,
+      Review,
+    ]),
+  ],
+  controllers: [AnalyticsController],
+  providers: [AnalyticsService, AnalyticsRollupService, CourseAnalyticsService],
+  exports: [AnalyticsService, CourseAnalyticsService],
+})
+export class AnalyticsModule {}
@@ -0,0 +1,17 @@
+// How often each instance refreshes the rollups of the most recent days
+export const ANALYTICS_ROLLUP_INTERVAL_MINUTES = 60;
+
+// Recent days recomputed on every run, so late writes still land in the rollups
+export const ANALYTICS_ROLLUP_REFRESH_DAYS = 2;
+
+// Oldest day rolled up when the rollups are first built
+export const ANALYTICS_ROLLUP_BACKFILL_DAYS = 730;
+
+// Largest number of periods one series request may cover
+export const ANALYTICS_MAX_SERIES_POINTS = 366;
+
+// Periods covered when the request gives no start date
+export const ANALYTICS_DEFAULT_SERIES_POINTS = 30;
+
+// Learners count as active in a course when their progress changed within this many days
+export const ANALYTICS_ACTIVE_LEARNER_DAYS = 30;
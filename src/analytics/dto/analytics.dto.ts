@@ -0,0 +1,94 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { IsEnum, IsOptional, IsUUID } from 'class-validator';
+import { DateRangeFilterDto } from '../../common/dto/date-range-filter.dto';
+import { AnalyticsGranularity } from '../enums/analytics-granularity.enum';
+
+export class AnalyticsSeriesQueryDto extends DateRangeFilterDto {
+  @ApiPropertyOptional({
+    enum: AnalyticsGranularity,
+    default: AnalyticsGranularity.DAY,
+  })
+  @IsOptional()
+  @IsEnum(AnalyticsGranularity)
+  granularity?: AnalyticsGranularity = AnalyticsGranularity.DAY;
+
+  @ApiPropertyOptional({ description: 'Only count activity in this course' })
+  @IsOptional()
+  @IsUUID()
+  courseId?: string;
+
+  @ApiPropertyOptional({
+    description: 'Only count activity in courses of this category',
+  })
+  @IsOptional()
+  @IsUUID()
+  categoryId?: string;
+
+  @ApiPropertyOptional({
+    description: 'Only count activity in courses taught by this professor',
+  })
+  @IsOptional()
+  @IsUUID()
+  professorId?: string;
+}
+
+export class AnalyticsPointDto {
+  @ApiProperty({
+    description: 'First day of the period (UTC)',
+    example: '2026-01-05',
+  })
+  period: string;
+
+  @ApiProperty({
+    description: 'New accounts; null when filtering by course',
+    example: 12,
+    nullable: true,
+    type: Number,
+  })
+  signups: number | null;
+
+  @ApiProperty({ example: 40 })
+  enrollments: number;
+
+  @ApiProperty({ description: 'Lessons marked completed', example: 310 })
+  lessonCompletions: number;
+
+  @ApiProperty({ description: 'Completed quiz attempts', example: 95 })
+  quizAttempts: number;
+
+  @ApiProperty({ example: 71 })
+  quizPasses: number;
+
+  @ApiProperty({ description: 'Share of passed attempts, 0-100' })
+  quizPassRate: number;
+
+  @ApiProperty({ description: 'Mean score percentage, 0-100' })
+  averageQuizScore: number;
+
+  @ApiProperty({ example: 8 })
+  reviews: number;
+
+  @ApiProperty({ description: 'Mean rating from 1 to 5, or 0 without reviews' })
+  averageRating: number;
+}
+
+export class AnalyticsSeriesDto {
+  @ApiProperty({ enum: AnalyticsGranularity })
+  granularity: AnalyticsGranularity;
+
+  @ApiProperty({ example: '2026-01-01' })
+  from: string;
+
+  @ApiProperty({ example: '2026-01-31' })
+  to: string;
+
+  @ApiProperty({ type: [AnalyticsPointDto] })
+  points: AnalyticsPointDto[];
+
+  @ApiProperty({
+    description: 'Last time the most recent day was rolled up',
+    nullable: true,
+    type: Date,
+  })
+  rolledUpAt: Date | null;
+}
@@ -0,0 +1,129 @@
+import { ApiProperty, PickType } from '@nestjs/swagger';
+import { AnalyticsSeriesQueryDto } from './analytics.dto';
+
+export class CourseAnalyticsQueryDto extends PickType(AnalyticsSeriesQueryDto, [
+  'granularity',
+  'startDate',
+  'endDate',
+] as const) {}
+
+export class CourseEnrollmentStatsDto {
+  @ApiProperty({ example: 120 })
+  total: number;
+
+  @ApiProperty({ description: 'Enrollments not withdrawn', example: 104 })
+  active: number;
+
+  @ApiProperty({ description: 'Enrollments with an issued certificate' })
+  completed: number;
+}
+
+export class CourseActivityPointDto {
+  @ApiProperty({
+    description: 'First day of the period (UTC)',
+    example: '2026-01-05',
+  })
+  period: string;
+
+  @ApiProperty({ example: 14 })
+  enrollments: number;
+
+  @ApiProperty({ description: 'Lessons marked completed', example: 61 })
+  lessonCompletions: number;
+}
+
+export class LessonFunnelStepDto {
+  @ApiProperty()
+  lessonId: string;
+
+  @ApiProperty()
+  lessonTitle: string;
+
+  @ApiProperty()
+  moduleTitle: string;
+
+  @ApiProperty({ description: 'Learners who opened the lesson' })
+  started: number;
+
+  @ApiProperty({ description: 'Learners who completed the lesson' })
+  completed: number;
+
+  @ApiProperty({ description: 'Share of all enrollments completing it, 0-100' })
+  completionRate: number;
+
+  @ApiProperty({
+    description:
+      'Share of the previous step (or of all enrollments for the first lesson) not completing this one, 0-100',
+  })
+  dropOff: number;
+}
+
+export class QuizPassRateDto {
+  @ApiProperty()
+  quizId: string;
+
+  @ApiProperty()
+  title: string;
+
+  @ApiProperty()
+  lessonId: string;
+
+  @ApiProperty({ description: 'Completed attempts' })
+  attempts: number;
+
+  @ApiProperty()
+  passes: number;
+
+  @ApiProperty({ description: 'Share of passed attempts, 0-100' })
+  passRate: number;
+
+  @ApiProperty({ description: 'Mean score percentage, 0-100' })
+  averageScore: number;
+}
+
+export class CourseReviewStatsDto {
+  @ApiProperty({ example: 18 })
+  count: number;
+
+  @ApiProperty({ description: 'Mean rating from 1 to 5, or 0 without reviews' })
+  averageRating: number;
+}
+
+export class CourseAnalyticsDto {
+  @ApiProperty()
+  courseId: string;
+
+  @ApiProperty({ type: CourseEnrollmentStatsDto })
+  enrollments: CourseEnrollmentStatsDto;
+
+  @ApiProperty({
+    description:
+      'Learners with an active enrollment whose progress changed in the last 30 days',
+  })
+  activeLearners: number;
+
+  @ApiProperty({
+    description: 'Mean days from enrolling to the certificate being issued',
+    nullable: true,
+    type: Number,
+  })
+  averageDaysToCompletion: number | null;
+
+  @ApiProperty({ type: [CourseActivityPointDto] })
+  activity: CourseActivityPointDto[];
+
+  @ApiProperty({
+    type: [LessonFunnelStepDto],
+    description: 'Lessons in course order',
+  })
+  lessonFunnel: LessonFunnelStepDto[];
+
+  @ApiProperty({ type: [QuizPassRateDto] })
+  quizzes: QuizPassRateDto[];
+
+  @ApiProperty({ type: CourseReviewStatsDto })
+  reviews: CourseReviewStatsDto;
+
+  @ApiProperty({ description: 'When the figures were computed' })
+  generatedAt: Date;
+}
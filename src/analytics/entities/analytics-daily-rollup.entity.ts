@@ -0,0 +1,49 @@
+import { Column, Entity, Index, PrimaryGeneratedColumn } from 'typeorm';
+
+export enum AnalyticsMetric {
+  SIGNUPS = 'signups',
+  ENROLLMENTS = 'enrollments',
+  LESSON_COMPLETIONS = 'lesson_completions',
+  QUIZ_ATTEMPTS = 'quiz_attempts',
+  QUIZ_PASSES = 'quiz_passes',
+  REVIEWS = 'reviews',
+}
+
+/**
+ * Pre-aggregated count of one metric for one course on one UTC day. Course
+ * dimensions are copied in so series can be filtered without joins; signups
+ * belong to no course and leave them null. Rows are rebuilt per day by
+ * AnalyticsRollupService and never edited elsewhere.
+ */
+@Entity('analytics_daily_rollups')
+@Index(['day', 'metric'])
+export class AnalyticsDailyRollup {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  // UTC calendar day, YYYY-MM-DD
+  @Column({ type: 'date' })
+  day: string;
+
+  @Column({ type: 'enum', enum: AnalyticsMetric })
+  metric: AnalyticsMetric;
+
+  @Index()
+  @Column({ type: 'uuid', nullable: true, default: null })
+  courseId: string | null;
+
+  @Index()
+  @Column({ type: 'uuid', nullable: true, default: null })
+  categoryId: string | null;
+
+  @Index()
+  @Column({ type: 'uuid', nullable: true, default: null })
+  professorId: string | null;
+
+  @Column({ type: 'int', default: 0 })
+  count: number;
+
+  // Sum of the measured values behind averages: ratings for reviews, score percentages for quiz attempts
+  @Column({ type: 'double precision', default: 0 })
+  valueSum: number;
+}
@@ -0,0 +1,15 @@
+import { Column, Entity, PrimaryColumn } from 'typeorm';
+
+/**
+ * Marks a day as rolled up, including days without any activity. The row is
+ * also locked while the day is rebuilt so instances never rebuild it at once.
+ */
+@Entity('analytics_rollup_days')
+export class AnalyticsRollupDay {
+  // UTC calendar day, YYYY-MM-DD
+  @PrimaryColumn({ type: 'date' })
+  day: string;
+
+  @Column({ type: 'timestamp' })
+  rolledUpAt: Date;
+}
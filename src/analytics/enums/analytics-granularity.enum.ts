@@ -0,0 +1,6 @@
+export enum AnalyticsGranularity {
+  DAY = 'day',
+  // ISO weeks, starting on Monday
+  WEEK = 'week',
+  MONTH = 'month',
+}
@@ -0,0 +1,219 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { DataSource, EntityTarget, FindOperator, ObjectLiteral } from 'typeorm';
+import { CentralizedLoggerService } from '../../common/logger/services/centralized-logger.service';
+import {
+  createTestDataSource,
+  RecordedQuery,
+  recordQueries,
+} from '../../common/testing/test-data-source';
+import {
+  AnalyticsDailyRollup,
+  AnalyticsMetric,
+} from '../entities/analytics-daily-rollup.entity';
+import { AnalyticsRollupDay } from '../entities/analytics-rollup-day.entity';
+import { AnalyticsRollupService } from './analytics-rollup.service';
+
+describe('AnalyticsRollupService', () => {
+  let service: AnalyticsRollupService;
+  let dataSource: DataSource;
+  let queries: RecordedQuery[];
+  let firstSignup: string | null;
+  let rolledUpDays: string[];
+  let quiet: boolean;
+
+  // Writes are recorded here; the reads run through real query builders
+  const manager = {
+    transaction: jest.fn(
+      (work: (m: unknown) => Promise<unknown>): Promise<unknown> =>
+        work(manager),
+    ),
+    upsert: jest.fn(),
+    delete: jest.fn(),
+    insert: jest.fn(),
+    createQueryBuilder: jest.fn(
+      (entity: EntityTarget<ObjectLiteral>, alias: string) =>
+        dataSource.createQueryBuilder(entity, alias),
+    ),
+  };
+  const rollupDayRepository = {
+    find: jest.fn(() => Promise.resolve(rolledUpDays.map((day) => ({ day })))),
+    manager,
+  };
+
+  const course = (count: string) => ({
+    courseId: 'course-1',
+    categoryId: 'category-1',
+    professorId: 'professor-1',
+    count,
+  });
+  const rowsFor = (sql: string): unknown[] => {
+    if (sql.includes('MIN(')) {
+      return [{ first: firstSignup }];
+    }
+    if (quiet) {
+      return sql.includes('FROM "users"') ? [{ count: '0' }] : [];
+    }
+    if (sql.includes('FROM "users"')) {
+      return [{ count: '3' }];
+    }
+    if (sql.includes('FROM "enrollments"')) {
+      return [course('2')];
+    }
+    if (sql.includes('FROM "quiz_attempts"')) {
+      return [{ ...course('4'), valueSum: '310', passes: '3' }];
+    }
+    if (sql.includes('FROM "reviews"')) {
+      return [{ ...course('1'), valueSum: '5' }];
+    }
+    return [];
+  };
+  const queryOn = (table: string) =>
+    queries.find(({ sql }) => sql.includes(`FROM "${table}"`))!;
+
+  beforeAll(async () => {
+    dataSource = await createTestDataSource();
+  });
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    jest.useFakeTimers({ now: new Date('2024-03-10T12:00:00.000Z') });
+    queries = recordQueries(rowsFor);
+    firstSignup = '2024-03-05T08:00:00.000Z';
+    rolledUpDays = [];
+    quiet = false;
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        AnalyticsRollupService,
+        {
+          provide: getRepositoryToken(AnalyticsRollupDay),
+          useValue: rollupDayRepository,
+        },
+        {
+          provide: CentralizedLoggerService,
+          useValue: {
+            setContext: jest.fn(),
+            info: jest.fn(),
+            error: jest.fn(),
+          },
+        },
+      ],
+    }).compile();
+
+    service = module.get<AnalyticsRollupService>(AnalyticsRollupService);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+  });
+
+  describe('rollupDay', () => {
+    it("should replace the day's rows with the metrics of its source rows", async () => {
+      await service.rollupDay('2024-03-04');
+
+      expect(manager.upsert).toHaveBeenCalledWith(
+        AnalyticsRollupDay,
+        { day: '2024-03-04', rolledUpAt: expect.any(Date) as Date },
+        ['day'],
+      );
+      expect(manager.delete).toHaveBeenCalledWith(AnalyticsDailyRollup, {
+        day: '2024-03-04',
+      });
+      const [[, rows]] = manager.insert.mock.calls as [
+        [unknown, Partial<AnalyticsDailyRollup>[]],
+      ];
+      const courseKeys = {
+        day: '2024-03-04',
+        courseId: 'course-1',
+        categoryId: 'category-1',
+        professorId: 'professor-1',
+      };
+      expect(rows).toEqual([
+        { day: '2024-03-04', metric: AnalyticsMetric.SIGNUPS, count: 3 },
+        { ...courseKeys, metric: AnalyticsMetric.ENROLLMENTS, count: 2 },
+        {
+          ...courseKeys,
+          metric: AnalyticsMetric.QUIZ_ATTEMPTS,
+          count: 4,
+          valueSum: 310,
+        },
+        { ...courseKeys, metric: AnalyticsMetric.QUIZ_PASSES, count: 3 },
+        {
+          ...courseKeys,
+          metric: AnalyticsMetric.REVIEWS,
+          count: 1,
+          valueSum: 5,
+        },
+      ]);
+      expect(manager.delete.mock.invocationCallOrder[0]).toBeLessThan(
+        manager.insert.mock.invocationCallOrder[0],
+      );
+    });
+
+    it('should bound every source query to the UTC day', async () => {
+      await service.rollupDay('2024-03-04');
+
+      const range = [
+        new Date('2024-03-04T00:00:00.000Z'),
+        new Date('2024-03-05T00:00:00.000Z'),
+      ];
+      for (const table of ['users', 'enrollments', 'reviews']) {
+        expect(queryOn(table).parameters).toEqual(range);
+      }
+      const attempts = queryOn('quiz_attempts');
+      expect(attempts.sql).toContain('INNER JOIN "lessons" "lesson"');
+      expect(attempts.sql).toContain('INNER JOIN "modules" "module"');
+      expect(attempts.parameters).toEqual(expect.arrayContaining(range));
+    });
+
+    it('should insert nothing for a day without activity', async () => {
+      quiet = true;
+
+      await service.rollupDay('2024-03-04');
+
+      expect(manager.delete).toHaveBeenCalled();
+      expect(manager.insert).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('catchUp', () => {
+    beforeEach(() => {
+      jest.spyOn(service, 'rollupDay').mockResolvedValue();
+    });
+
+    const rolledUp = () =>
+      (service.rollupDay as jest.Mock).mock.calls.map(([day]: [string]) => day);
+
+    it('should roll up the missing days and refresh the recent ones', async () => {
+      rolledUpDays = ['2024-03-05', '2024-03-06', '2024-03-08'];
+
+      await expect(service.catchUp()).resolves.toBe(3);
+
+      expect(rolledUp()).toEqual(['2024-03-07', '2024-03-09', '2024-03-10']);
+      const [[{ where }]] = rollupDayRepository.find.mock.calls as unknown as [
+        [{ where: { day: FindOperator<string[]> } }],
+      ];
+      expect(where.day.value).toEqual(['2024-03-05', '2024-03-08']);
+    });
+
+    it('should start no earlier than the backfill window', async () => {
+      firstSignup = '2010-01-01T00:00:00.000Z';
+
+      await service.catchUp();
+
+      const days = rolledUp();
+      expect(days[0]).toBe('2022-03-11');
+      expect(days).toHaveLength(731);
+    });
+
+    it('should only roll up today before anyone signed up', async () => {
+      firstSignup = null;
+
+      await expect(service.catchUp()).resolves.toBe(1);
+
+      expect(rolledUp()).toEqual(['2024-03-10']);
+    });
+  });
+});
@@ -0,0 +1,297 @@
+import {
+  Inject,
+  Injectable,
+  OnApplicationBootstrap,
+  OnModuleDestroy,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import {
+  Between,
+  EntityManager,
+  ObjectLiteral,
+  Repository,
+  SelectQueryBuilder,
+} from 'typeorm';
+import { CentralizedLoggerService } from '../../common/logger/services/centralized-logger.service';
+import {
+  CourseProgress,
+  ProgressStatus,
+} from '../../course-progress/entities/course-progress.entity';
+import { Course } from '../../courses/entities/course.entity';
+import { Enrollment } from '../../enrollment/entities/enrollment.entity';
+import { Lesson } from '../../lessons/entities/lesson.entity';
+import { Module } from '../../modules/entities/module.entity';
+import {
+  AttemptStatus,
+  QuizAttempt,
+} from '../../quiz/entities/quiz-attempt.entity';
+import { Review } from '../../reviews/entities/reviews.entity';
+import { User } from '../../users/entities/user.entity';
+import {
+  ANALYTICS_ROLLUP_BACKFILL_DAYS,
+  ANALYTICS_ROLLUP_INTERVAL_MINUTES,
+  ANALYTICS_ROLLUP_REFRESH_DAYS,
+} from '../constants';
+import {
+  AnalyticsDailyRollup,
+  AnalyticsMetric,
+} from '../entities/analytics-daily-rollup.entity';
+import { AnalyticsRollupDay } from '../entities/analytics-rollup-day.entity';
+import { addDays, toDay } from '../utils/periods';
+
+interface DayRange {
+  start: Date;
+  end: Date;
+}
+
+interface CourseRollupRow {
+  courseId: string;
+  categoryId: string | null;
+  professorId: string | null;
+  count: string;
+  valueSum?: string;
+  passes?: string;
+}
+
+/**
+ * Builds the daily rollups behind the analytics series. Each day is rebuilt
+ * as a whole from the source tables, so a run can be repeated safely. Past
+ * days are rolled up once; the most recent ones are refreshed on a timer.
+ */
+@Injectable()
+export class AnalyticsRollupService
+  implements OnApplicationBootstrap, OnModuleDestroy
+{
+  private timer?: NodeJS.Timeout;
+  private running = false;
+
+  constructor(
+    @InjectRepository(AnalyticsRollupDay)
+    private readonly rollupDayRepository: Repository<AnalyticsRollupDay>,
+    @Inject(CentralizedLoggerService)
+    private readonly logger: CentralizedLoggerService,
+  ) {
+    this.logger.setContext(AnalyticsRollupService.name);
+  }
+
+  onApplicationBootstrap(): void {
+    // Not awaited: a first backfill can take a while and must not delay startup
+    void this.run();
+
+    this.timer = setInterval(
+      () => void this.run(),
+      ANALYTICS_ROLLUP_INTERVAL_MINUTES * 60 * 1000,
+    );
+    this.timer.unref();
+  }
+
+  onModuleDestroy(): void {
+    clearInterval(this.timer);
+  }
+
+  /** Rolls up the days never rolled up, then refreshes the recent ones. */
+  async catchUp(): Promise<number> {
+    const today = toDay(new Date());
+    const refreshFrom = addDays(today, 1 - ANALYTICS_ROLLUP_REFRESH_DAYS);
+    const from = await this.findFirstDay(
+      addDays(today, -ANALYTICS_ROLLUP_BACKFILL_DAYS),
+    );
+
+    const done = new Set(
+      (
+        await this.rollupDayRepository.find({
+          select: { day: true },
+          where: { day: Between(from, addDays(refreshFrom, -1)) },
+        })
+      ).map(({ day }) => day),
+    );
+
+    let rolledUp = 0;
+    for (let day = from; day <= today; day = addDays(day, 1)) {
+      if (day < refreshFrom && done.has(day)) {
+        continue;
+      }
+      await this.rollupDay(day);
+      rolledUp++;
+    }
+    return rolledUp;
+  }
+
+  /** Rebuilds every metric of one UTC day. */
+  async rollupDay(day: string): Promise<void> {
+    const range = {
+      start: new Date(`${day}T00:00:00.000Z`),
+      end: new Date(`${addDays(day, 1)}T00:00:00.000Z`),
+    };
+
+    await this.rollupDayRepository.manager.transaction(async (manager) => {
+      // The upsert locks the day's row until commit, so instances rebuilding
+      // the same day wait for each other instead of duplicating rows
+      await manager.upsert(
+        AnalyticsRollupDay,
+        { day, rolledUpAt: new Date() },
+        ['day'],
+      );
+
+      const rows = [
+        ...(await this.collectSignups(manager, day, range)),
+        ...(await this.collectCourseMetrics(manager, day, range)),
+      ];
+
+      await manager.delete(AnalyticsDailyRollup, { day });
+      if (rows.length) {
+        await manager.insert(AnalyticsDailyRollup, rows);
+      }
+    });
+  }
+
+  private async run(): Promise<void> {
+    // A slow backfill must not overlap the next timer tick
+    if (this.running) {
+      return;
+    }
+    this.running = true;
+    try {
+      const rolledUp = await this.catchUp();
+      this.logger.info('Analytics rollups updated', { days: rolledUp });
+    } catch (error) {
+      this.logger.error('Failed to update analytics rollups', error as Error);
+    } finally {
+      this.running = false;
+    }
+  }
+
+  /** First day worth rolling up: the first signup, but no earlier than `floor`. */
+  private async findFirstDay(floor: string): Promise<string> {
+    const row = await this.rollupDayRepository.manager
+      .createQueryBuilder(User, 'user')
+      .select('MIN(user.createdAt)', 'first')
+      .getRawOne<{ first: Date | null }>();
+
+    const first = row?.first ? toDay(new Date(row.first)) : toDay(new Date());
+    return first > floor ? first : floor;
+  }
+
+  private async collectSignups(
+    manager: EntityManager,
+    day: string,
+    range: DayRange,
+  ): Promise<Partial<AnalyticsDailyRollup>[]> {
+    const row = await manager
+      .createQueryBuilder(User, 'user')
+      .select('COUNT(*)', 'count')
+      .where('user.isServiceAccount = false')
+      .andWhere('user.createdAt >= :start AND user.createdAt < :end', range)
+      .getRawOne<{ count: string }>();
+
+    const count = Number(row?.count ?? 0);
+    return count ? [{ day, metric: AnalyticsMetric.SIGNUPS, count }] : [];
+  }
+
+  private async collectCourseMetrics(
+    manager: EntityManager,
+    day: string,
+    range: DayRange,
+  ): Promise<Partial<AnalyticsDailyRollup>[]> {
+    const enrollments = await this.groupByCourse(
+      manager
+        .createQueryBuilder(Enrollment, 'enrollment')
+        .innerJoin('enrollment.course', 'course')
+        .where(
+          'enrollment.enrolledAt >= :start AND enrollment.enrolledAt < :end',
+          range,
+        ),
+    );
+    // Progress rows keep no completion time; a completed row was last updated when it completed
+    const completions = await this.groupByCourse(
+      manager
+        .createQueryBuilder(CourseProgress, 'progress')
+        .innerJoin('progress.enrollment', 'enrollment')
+        .innerJoin('enrollment.course', 'course')
+        .where('progress.status = :completed', {
+          completed: ProgressStatus.COMPLETED,
+        })
+        .andWhere(
+          'progress.updatedAt >= :start AND progress.updatedAt < :end',
+          range,
+        ),
+    );
+    const attempts = await this.groupByCourse(
+      manager
+        .createQueryBuilder(QuizAttempt, 'attempt')
+        .innerJoin('attempt.quiz', 'quiz')
+        // Lessons map no relation to their module, so join on the keys
+        .innerJoin(Lesson, 'lesson', 'lesson.id = quiz.lesson_id')
+        .innerJoin(Module, 'module', 'module.id = lesson.module_id')
+        .innerJoin(Course, 'course', 'course.id = module.course_id')
+        .where('attempt.status = :status', { status: AttemptStatus.COMPLETED })
+        .andWhere(
+          'attempt.completed_at >= :start AND attempt.completed_at < :end',
+          range,
+        ),
+      {
+        valueSum: 'COALESCE(SUM(attempt.percentage), 0)',
+        passes: 'COUNT(*) FILTER (WHERE attempt.passed)',
+      },
+    );
+    const reviews = await this.groupByCourse(
+      manager
+        .createQueryBuilder(Review, 'review')
+        .innerJoin('review.course', 'course')
+        .where('review.createdAt >= :start AND review.createdAt < :end', range),
+      { valueSum: 'COALESCE(SUM(review.rating), 0)' },
+    );
+
+    const toRows = (
+      metric: AnalyticsMetric,
+      rows: CourseRollupRow[],
+      value: (row: CourseRollupRow) => { count: number; valueSum?: number },
+    ): Partial<AnalyticsDailyRollup>[] =>
+      rows
+        .map((row) => ({
+          day,
+          metric,
+          courseId: row.courseId,
+          categoryId: row.categoryId,
+          professorId: row.professorId,
+          ...value(row),
+        }))
+        .filter((row) => row.count > 0);
+
+    return [
+      ...toRows(AnalyticsMetric.ENROLLMENTS, enrollments, (row) => ({
+        count: Number(row.count),
+      })),
+      ...toRows(AnalyticsMetric.LESSON_COMPLETIONS, completions, (row) => ({
+        count: Number(row.count),
+      })),
+      ...toRows(AnalyticsMetric.QUIZ_ATTEMPTS, attempts, (row) => ({
+        count: Number(row.count),
+        valueSum: Number(row.valueSum ?? 0),
+      })),
+      ...toRows(AnalyticsMetric.QUIZ_PASSES, attempts, (row) => ({
+        count: Number(row.passes ?? 0),
+      })),
+      ...toRows(AnalyticsMetric.REVIEWS, reviews, (row) => ({
+        count: Number(row.count),
+        valueSum: Number(row.valueSum ?? 0),
+      })),
+    ];
+  }
+
+  /** Counts per course; the query must join the course as `course`. */
+  private async groupByCourse<T extends ObjectLiteral>(
+    query: SelectQueryBuilder<T>,
+    extra: Record<string, string> = {},
+  ): Promise<CourseRollupRow[]> {
+    query
+      .select('course.id', 'courseId')
+      .addSelect('course.categoryId', 'categoryId')
+      .addSelect('course.professorId', 'professorId')
+      .addSelect('COUNT(*)', 'count');
+    for (const [alias, expression] of Object.entries(extra)) {
+      query.addSelect(expression, alias);
+    }
+    return query.groupBy('course.id').getRawMany<CourseRollupRow>();
+  }
+}
@@ -0,0 +1,177 @@
+import { BadRequestException } from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import {
+  QueryBuilderStub,
+  queryBuilderStub,
+} from '../../common/testing/query-builder.stub';
+import {
+  createTestDataSource,
+  recordQueries,
+  repositoryProviders,
+} from '../../common/testing/test-data-source';
+import { AnalyticsDailyRollup } from '../entities/analytics-daily-rollup.entity';
+import { AnalyticsRollupDay } from '../entities/analytics-rollup-day.entity';
+import { AnalyticsGranularity } from '../enums/analytics-granularity.enum';
+import { AnalyticsService } from './analytics.service';
+
+describe('AnalyticsService', () => {
+  let service: AnalyticsService;
+  let rows: Record<string, string>[];
+  let builder: QueryBuilderStub;
+
+  const rollupDayRepository = {
+    find: jest.fn(
+      (): Promise<Partial<AnalyticsRollupDay>[]> => Promise.resolve([]),
+    ),
+  };
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    rows = [];
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        AnalyticsService,
+        {
+          provide: getRepositoryToken(AnalyticsDailyRollup),
+          useValue: {
+            createQueryBuilder: jest.fn(
+              () => (builder = queryBuilderStub({ many: [rows] })),
+            ),
+          },
+        },
+        {
+          provide: getRepositoryToken(AnalyticsRollupDay),
+          useValue: rollupDayRepository,
+        },
+      ],
+    }).compile();
+
+    service = module.get<AnalyticsService>(AnalyticsService);
+  });
+
+  it('should fill periods without activity and derive rates', async () => {
+    rows = [
+      { period: '2026-03-02', metric: 'signups', count: '4', valueSum: '0' },
+      {
+        period: '2026-03-02',
+        metric: 'quiz_attempts',
+        count: '4',
+        valueSum: '290',
+      },
+      {
+        period: '2026-03-02',
+        metric: 'quiz_passes',
+        count: '3',
+        valueSum: '0',
+      },
+    ];
+
+    const series = await service.getSeries({
+      granularity: AnalyticsGranularity.WEEK,
+      startDate: '2026-03-02',
+      endDate: '2026-03-15',
+    });
+
+    expect(series.points).toEqual([
+      expect.objectContaining({
+        period: '2026-03-02',
+        signups: 4,
+        quizAttempts: 4,
+        quizPassRate: 75,
+        averageQuizScore: 72.5,
+      }),
+      expect.objectContaining({
+        period: '2026-03-09',
+        signups: 0,
+        quizAttempts: 0,
+        quizPassRate: 0,
+      }),
+    ]);
+  });
+
+  it('should leave signups out of course-filtered series', async () => {
+    const series = await service.getSeries({
+      granularity: AnalyticsGranularity.DAY,
+      startDate: '2026-03-01',
+      endDate: '2026-03-01',
+      courseId: 'course-1',
+    });
+
+    expect(builder.andWhere).toHaveBeenCalledWith(
+      'rollup.courseId = :courseId',
+      { courseId: 'course-1' },
+    );
+    expect(series.points[0].signups).toBeNull();
+  });
+
+  it('should report when the latest rollup was built', async () => {
+    const rolledUpAt = new Date('2026-03-02T01:00:00.000Z');
+    rollupDayRepository.find.mockResolvedValueOnce([
+      { day: '2026-03-01', rolledUpAt },
+    ]);
+
+    const series = await service.getSeries({
+      granularity: AnalyticsGranularity.DAY,
+      startDate: '2026-03-01',
+      endDate: '2026-03-01',
+    });
+
+    expect(rollupDayRepository.find).toHaveBeenCalledWith({
+      order: { day: 'DESC' },
+      take: 1,
+    });
+    expect(series.rolledUpAt).toBe(rolledUpAt);
+  });
+
+  it('should reject series longer than the point limit', async () => {
+    await expect(
+      service.getSeries({
+        granularity: AnalyticsGranularity.DAY,
+        startDate: '2024-01-01',
+        endDate: '2026-01-01',
+      }),
+    ).rejects.toThrow(BadRequestException);
+  });
+
+  describe('against the entity metadata', () => {
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    it('should sum the rollups of a course per period', async () => {
+      const dataSource = await createTestDataSource();
+      const queries = recordQueries();
+      const module: TestingModule = await Test.createTestingModule({
+        providers: [
+          AnalyticsService,
+          ...repositoryProviders(dataSource, [
+            AnalyticsDailyRollup,
+            AnalyticsRollupDay,
+          ]),
+        ],
+      }).compile();
+
+      await module.get(AnalyticsService).getSeries({
+        granularity: AnalyticsGranularity.WEEK,
+        startDate: '2026-03-02',
+        endDate: '2026-03-15',
+        courseId: 'course-1',
+      });
+
+      expect(queries[0].sql).toBe(
+        `SELECT "rollup"."metric" AS "metric", TO_CHAR(DATE_TRUNC('week', "rollup"."day"), 'YYYY-MM-DD') AS "period", ` +
+          `SUM("rollup"."count") AS "count", SUM("rollup"."value_sum") AS "valueSum" ` +
+          `FROM "analytics_daily_rollups" "rollup" ` +
+          `WHERE "rollup"."day" BETWEEN $1 AND $2 AND "rollup"."course_id" = $3 ` +
+          `GROUP BY period, "rollup"."metric"`,
+      );
+      expect(queries[0].parameters).toEqual([
+        '2026-03-02',
+        '2026-03-15',
+        'course-1',
+      ]);
+    });
+  });
+});
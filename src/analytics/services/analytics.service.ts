@@ -0,0 +1,166 @@
+import { BadRequestException, Injectable } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import {
+  ANALYTICS_DEFAULT_SERIES_POINTS,
+  ANALYTICS_MAX_SERIES_POINTS,
+} from '../constants';
+import {
+  AnalyticsPointDto,
+  AnalyticsSeriesDto,
+  AnalyticsSeriesQueryDto,
+} from '../dto/analytics.dto';
+import {
+  AnalyticsDailyRollup,
+  AnalyticsMetric,
+} from '../entities/analytics-daily-rollup.entity';
+import { AnalyticsRollupDay } from '../entities/analytics-rollup-day.entity';
+import { AnalyticsGranularity } from '../enums/analytics-granularity.enum';
+import { addPeriods, listPeriods, periodStart, toDay } from '../utils/periods';
+import { percentage, round } from '../utils/rates';
+
+interface MetricTotals {
+  count: number;
+  valueSum: number;
+}
+
+/** Platform time series read from the daily rollups. */
+@Injectable()
+export class AnalyticsService {
+  constructor(
+    @InjectRepository(AnalyticsDailyRollup)
+    private readonly rollupRepository: Repository<AnalyticsDailyRollup>,
+    @InjectRepository(AnalyticsRollupDay)
+    private readonly rollupDayRepository: Repository<AnalyticsRollupDay>,
+  ) {}
+
+  /**
+   * One point per day, week or month, defaulting to the last thirty periods.
+   * Periods without activity are returned with zeros.
+   */
+  async getSeries(query: AnalyticsSeriesQueryDto): Promise<AnalyticsSeriesDto> {
+    const granularity = query.granularity ?? AnalyticsGranularity.DAY;
+    const to = toDay(query.endDate ? new Date(query.endDate) : new Date());
+    const from = query.startDate
+      ? toDay(new Date(query.startDate))
+      : addPeriods(
+          periodStart(to, granularity),
+          granularity,
+          1 - ANALYTICS_DEFAULT_SERIES_POINTS,
+        );
+    if (from > to) {
+      throw new BadRequestException('startDate must be before endDate');
+    }
+
+    const periods = listPeriods(from, to, granularity);
+    if (periods.length > ANALYTICS_MAX_SERIES_POINTS) {
+      throw new BadRequestException(
+        `A series covers at most ${ANALYTICS_MAX_SERIES_POINTS} ${granularity} periods`,
+      );
+    }
+
+    const totals = await this.sumByPeriod(query, granularity, from, to);
+    // Signups belong to no course, so they mean nothing once filtered by one
+    const courseFiltered = Boolean(
+      query.courseId || query.categoryId || query.professorId,
+    );
+
+    // findOne refuses to run without a where clause
+    const [latest] = await this.rollupDayRepository.find({
+      order: { day: 'DESC' },
+      take: 1,
+    });
+
+    return {
+      granularity,
+      from,
+      to,
+      points: periods.map((period) =>
+        this.toPoint(period, courseFiltered, totals.get(period)),
+      ),
+      rolledUpAt: latest?.rolledUpAt ?? null,
+    };
+  }
+
+  private async sumByPeriod(
+    query: AnalyticsSeriesQueryDto,
+    granularity: AnalyticsGranularity,
+    from: string,
+    to: string,
+  ): Promise<Map<string, Map<AnalyticsMetric, MetricTotals>>> {
+    // The granularity is a validated enum whose values are DATE_TRUNC units
+    const qb = this.rollupRepository
+      .createQueryBuilder('rollup')
+      .select(
+        `TO_CHAR(DATE_TRUNC('${granularity}', rollup.day), 'YYYY-MM-DD')`,
+        'period',
+      )
+      .addSelect('rollup.metric', 'metric')
+      .addSelect('SUM(rollup.count)', 'count')
+      .addSelect('SUM(rollup.valueSum)', 'valueSum')
+      .where('rollup.day BETWEEN :from AND :to', { from, to })
+      .groupBy('period')
+      .addGroupBy('rollup.metric');
+
+    if (query.courseId) {
+      qb.andWhere('rollup.courseId = :courseId', { courseId: query.courseId });
+    }
+    if (query.categoryId) {
+      qb.andWhere('rollup.categoryId = :categoryId', {
+        categoryId: query.categoryId,
+      });
+    }
+    if (query.professorId) {
+      qb.andWhere('rollup.professorId = :professorId', {
+        professorId: query.professorId,
+      });
+    }
+
+    const rows = await qb.getRawMany<{
+      period: string;
+      metric: AnalyticsMetric;
+      count: string;
+      valueSum: string;
+    }>();
+
+    const totals = new Map<string, Map<AnalyticsMetric, MetricTotals>>();
+    for (const row of rows) {
+      const metrics = totals.get(row.period) ?? new Map();
+      metrics.set(row.metric, {
+        count: Number(row.count),
+        valueSum: Number(row.valueSum),
+      });
+      totals.set(row.period, metrics);
+    }
+    return totals;
+  }
+
+  private toPoint(
+    period: string,
+    courseFiltered: boolean,
+    metrics = new Map<AnalyticsMetric, MetricTotals>(),
+  ): AnalyticsPointDto {
+    const total = (metric: AnalyticsMetric) =>
+      metrics.get(metric) ?? { count: 0, valueSum: 0 };
+    const attempts = total(AnalyticsMetric.QUIZ_ATTEMPTS);
+    const passes = total(AnalyticsMetric.QUIZ_PASSES).count;
+    const reviews = total(AnalyticsMetric.REVIEWS);
+
+    return {
+      period,
+      signups: courseFiltered ? null : total(AnalyticsMetric.SIGNUPS).count,
+      enrollments: total(AnalyticsMetric.ENROLLMENTS).count,
+      lessonCompletions: total(AnalyticsMetric.LESSON_COMPLETIONS).count,
+      quizAttempts: attempts.count,
+      quizPasses: passes,
+      quizPassRate: percentage(passes, attempts.count),
+      averageQuizScore: attempts.count
+        ? round(attempts.valueSum / attempts.count)
+        : 0,
+      reviews: reviews.count,
+      averageRating: reviews.count
+        ? round(reviews.valueSum / reviews.count)
+        : 0,
+    };
+  }
+}
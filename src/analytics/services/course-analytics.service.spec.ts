@@ -0,0 +1,203 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import {
+  queryBuilderRepository,
+  queryBuilderStub,
+} from '../../common/testing/query-builder.stub';
+import {
+  createTestDataSource,
+  recordQueries,
+  repositoryProviders,
+} from '../../common/testing/test-data-source';
+import { CourseProgress } from '../../course-progress/entities/course-progress.entity';
+import { Enrollment } from '../../enrollment/entities/enrollment.entity';
+import { Lesson } from '../../lessons/entities/lesson.entity';
+import { Quiz } from '../../quiz/entities/quiz.entity';
+import { Review } from '../../reviews/entities/reviews.entity';
+import { AnalyticsService } from './analytics.service';
+import { CourseAnalyticsService } from './course-analytics.service';
+
+describe('CourseAnalyticsService', () => {
+  let service: CourseAnalyticsService;
+
+  const analyticsService = {
+    getSeries: jest.fn(() =>
+      Promise.resolve({
+        points: [
+          { period: '2026-03-01', enrollments: 3, lessonCompletions: 5 },
+        ],
+      }),
+    ),
+  };
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        CourseAnalyticsService,
+        {
+          provide: getRepositoryToken(Enrollment),
+          useValue: queryBuilderRepository({
+            one: {
+              total: '10',
+              active: '8',
+              completed: '2',
+              secondsToCompletion: String(3.5 * 24 * 60 * 60),
+            },
+          }),
+        },
+        {
+          provide: getRepositoryToken(CourseProgress),
+          useValue: {
+            createQueryBuilder: jest
+              .fn()
+              // Active learners
+              .mockReturnValueOnce(queryBuilderStub({ one: { count: '6' } }))
+              // Progress per lesson
+              .mockReturnValueOnce(
+                queryBuilderStub({
+                  many: [
+                    [
+                      { lessonId: 'lesson-1', started: '9', completed: '8' },
+                      { lessonId: 'lesson-2', started: '5', completed: '4' },
+                    ],
+                  ],
+                }),
+              ),
+          },
+        },
+        {
+          provide: getRepositoryToken(Lesson),
+          useValue: queryBuilderRepository({
+            many: [
+              [
+                {
+                  lessonId: 'lesson-1',
+                  lessonTitle: 'Intro',
+                  moduleTitle: 'A',
+                },
+                { lessonId: 'lesson-2', lessonTitle: 'Next', moduleTitle: 'A' },
+                { lessonId: 'lesson-3', lessonTitle: 'Last', moduleTitle: 'B' },
+              ],
+            ],
+          }),
+        },
+        {
+          provide: getRepositoryToken(Quiz),
+          useValue: queryBuilderRepository({
+            many: [
+              [
+                {
+                  quizId: 'quiz-1',
+                  title: 'Check',
+                  lessonId: 'lesson-2',
+                  attempts: '4',
+                  passes: '3',
+                  averageScore: '71.255',
+                },
+              ],
+            ],
+          }),
+        },
+        {
+          provide: getRepositoryToken(Review),
+          useValue: queryBuilderRepository({
+            one: { count: '2', average: '4.5' },
+          }),
+        },
+        { provide: AnalyticsService, useValue: analyticsService },
+      ],
+    }).compile();
+
+    service = module.get<CourseAnalyticsService>(CourseAnalyticsService);
+  });
+
+  it('should combine live course figures with the course series', async () => {
+    const analytics = await service.getCourseAnalytics('course-1', {});
+
+    expect(analyticsService.getSeries).toHaveBeenCalledWith({
+      courseId: 'course-1',
+    });
+    expect(analytics).toMatchObject({
+      enrollments: { total: 10, active: 8, completed: 2 },
+      activeLearners: 6,
+      averageDaysToCompletion: 3.5,
+      activity: [
+        { period: '2026-03-01', enrollments: 3, lessonCompletions: 5 },
+      ],
+      quizzes: [{ quizId: 'quiz-1', passRate: 75, averageScore: 71.26 }],
+      reviews: { count: 2, averageRating: 4.5 },
+    });
+  });
+
+  it('should measure drop-off against the previous lesson', async () => {
+    const { lessonFunnel } = await service.getCourseAnalytics('course-1', {});
+
+    expect(lessonFunnel).toEqual([
+      expect.objectContaining({
+        lessonId: 'lesson-1',
+        completed: 8,
+        completionRate: 80,
+        dropOff: 20,
+      }),
+      expect.objectContaining({
+        lessonId: 'lesson-2',
+        completed: 4,
+        completionRate: 40,
+        dropOff: 50,
+      }),
+      expect.objectContaining({
+        lessonId: 'lesson-3',
+        started: 0,
+        completed: 0,
+        dropOff: 100,
+      }),
+    ]);
+  });
+
+  describe('against the entity metadata', () => {
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    it('should resolve course relations to their foreign key columns', async () => {
+      const dataSource = await createTestDataSource();
+      const queries = recordQueries();
+      const module: TestingModule = await Test.createTestingModule({
+        providers: [
+          CourseAnalyticsService,
+          ...repositoryProviders(dataSource, [
+            Enrollment,
+            CourseProgress,
+            Lesson,
+            Quiz,
+            Review,
+          ]),
+          { provide: AnalyticsService, useValue: analyticsService },
+        ],
+      }).compile();
+
+      await module
+        .get(CourseAnalyticsService)
+        .getCourseAnalytics('course-1', {});
+
+      const [enrollments] = queries;
+      expect(enrollments.sql).toContain(
+        'FROM "enrollments" "enrollment" WHERE "enrollment"."course_id" = $1',
+      );
+      expect(enrollments.parameters).toEqual(['course-1']);
+      const passRates = queries.find(({ sql }) =>
+        sql.includes('FROM "quizzes" "quiz"'),
+      )!;
+      expect(passRates.sql).toContain(
+        'INNER JOIN "lessons" "lesson" ON "lesson"."id"="quiz"."lesson_id"',
+      );
+      expect(passRates.sql).toContain(
+        'LEFT JOIN "quiz_attempts" "attempt" ON "attempt"."quiz_id" = "quiz"."id" AND "attempt"."status" = $1 ' +
+          'WHERE "module"."course_id" = $2',
+      );
+      expect(passRates.parameters).toEqual(['completed', 'course-1']);
+    });
+  });
+});
@@ -0,0 +1,257 @@
+import { Injectable } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import {
+  CourseProgress,
+  ProgressStatus,
+} from '../../course-progress/entities/course-progress.entity';
+import { Enrollment } from '../../enrollment/entities/enrollment.entity';
+import { Lesson } from '../../lessons/entities/lesson.entity';
+import { Module } from '../../modules/entities/module.entity';
+import {
+  AttemptStatus,
+  QuizAttempt,
+} from '../../quiz/entities/quiz-attempt.entity';
+import { Quiz } from '../../quiz/entities/quiz.entity';
+import { Review } from '../../reviews/entities/reviews.entity';
+import { ANALYTICS_ACTIVE_LEARNER_DAYS } from '../constants';
+import {
+  CourseAnalyticsDto,
+  CourseAnalyticsQueryDto,
+  LessonFunnelStepDto,
+  QuizPassRateDto,
+} from '../dto/course-analytics.dto';
+import { percentage, round } from '../utils/rates';
+import { AnalyticsService } from './analytics.service';
+
+const DAY_IN_SECONDS = 24 * 60 * 60;
+
+/** Per-course figures for the course professor and admins. */
+@Injectable()
+export class CourseAnalyticsService {
+  constructor(
+    @InjectRepository(Enrollment)
+    private readonly enrollmentRepository: Repository<Enrollment>,
+    @InjectRepository(CourseProgress)
+    private readonly progressRepository: Repository<CourseProgress>,
+    @InjectRepository(Lesson)
+    private readonly lessonRepository: Repository<Lesson>,
+    @InjectRepository(Quiz)
+    private readonly quizRepository: Repository<Quiz>,
+    @InjectRepository(Review)
+    private readonly reviewRepository: Repository<Review>,
+    private readonly analyticsService: AnalyticsService,
+  ) {}
+
+  /**
+   * Live counts for the course, plus its activity series read from the
+   * platform rollups.
+   */
+  async getCourseAnalytics(
+    courseId: string,
+    query: CourseAnalyticsQueryDto,
+  ): Promise<CourseAnalyticsDto> {
+    const [
+      enrollments,
+      activeLearners,
+      lessonFunnel,
+      quizzes,
+      reviews,
+      series,
+    ] = await Promise.all([
+      this.getEnrollmentStats(courseId),
+      this.countActiveLearners(courseId),
+      this.getLessonFunnel(courseId),
+      this.getQuizPassRates(courseId),
+      this.getReviewStats(courseId),
+      this.analyticsService.getSeries({ ...query, courseId }),
+    ]);
+
+    return {
+      courseId,
+      enrollments: enrollments.counts,
+      activeLearners,
+      averageDaysToCompletion: enrollments.averageDaysToCompletion,
+      activity: series.points.map(
+        ({ period, enrollments, lessonCompletions }) => ({
+          period,
+          enrollments,
+          lessonCompletions,
+        }),
+      ),
+      lessonFunnel: this.toFunnel(lessonFunnel, enrollments.counts.total),
+      quizzes,
+      reviews,
+      generatedAt: new Date(),
+    };
+  }
+
+  private async getEnrollmentStats(courseId: string) {
+    const row = await this.enrollmentRepository
+      .createQueryBuilder('enrollment')
+      .select('COUNT(*)', 'total')
+      .addSelect('COUNT(*) FILTER (WHERE enrollment.isActive)', 'active')
+      .addSelect('COUNT(enrollment.issuedAt)', 'completed')
+      .addSelect(
+        'AVG(EXTRACT(EPOCH FROM enrollment.issuedAt - enrollment.enrolledAt))',
+        'secondsToCompletion',
+      )
+      .where('enrollment.course = :courseId', { courseId })
+      .getRawOne<{
+        total: string;
+        active: string;
+        completed: string;
+        secondsToCompletion: string | null;
+      }>();
+
+    return {
+      counts: {
+        total: Number(row?.total ?? 0),
+        active: Number(row?.active ?? 0),
+        completed: Number(row?.completed ?? 0),
+      },
+      averageDaysToCompletion:
+        row?.secondsToCompletion == null
+          ? null
+          : round(Number(row.secondsToCompletion) / DAY_IN_SECONDS),
+    };
+  }
+
+  private async countActiveLearners(courseId: string): Promise<number> {
+    const since = new Date(
+      Date.now() - ANALYTICS_ACTIVE_LEARNER_DAYS * DAY_IN_SECONDS * 1000,
+    );
+    const row = await this.progressRepository
+      .createQueryBuilder('progress')
+      .innerJoin('progress.enrollment', 'enrollment')
+      .select('COUNT(DISTINCT enrollment.id)', 'count')
+      .where('enrollment.course = :courseId', { courseId })
+      .andWhere('enrollment.isActive = true')
+      .andWhere('progress.updatedAt >= :since', { since })
+      .getRawOne<{ count: string }>();
+
+    return Number(row?.count ?? 0);
+  }
+
+  /** Every lesson in course order with how many learners started and completed it. */
+  private async getLessonFunnel(courseId: string) {
+    const [lessons, progress] = await Promise.all([
+      this.lessonRepository
+        .createQueryBuilder('lesson')
+        .innerJoin(Module, 'module', 'module.id = lesson.module_id')
+        .select('lesson.id', 'lessonId')
+        .addSelect('lesson.title', 'lessonTitle')
+        .addSelect('module.title', 'moduleTitle')
+        .where('module.course_id = :courseId', { courseId })
+        .orderBy('module.created_at', 'ASC')
+        .addOrderBy('lesson.created_at', 'ASC')
+        .getRawMany<{
+          lessonId: string;
+          lessonTitle: string;
+          moduleTitle: string;
+        }>(),
+      this.progressRepository
+        .createQueryBuilder('progress')
+        .innerJoin('progress.enrollment', 'enrollment')
+        .innerJoin('progress.lesson', 'lesson')
+        .select('lesson.id', 'lessonId')
+        .addSelect(
+          'COUNT(*) FILTER (WHERE progress.status <> :notStarted)',
+          'started',
+        )
+        .addSelect(
+          'COUNT(*) FILTER (WHERE progress.status = :completed)',
+          'completed',
+        )
+        .where('enrollment.course = :courseId', { courseId })
+        .setParameters({
+          notStarted: ProgressStatus.NOT_STARTED,
+          completed: ProgressStatus.COMPLETED,
+        })
+        .groupBy('lesson.id')
+        .getRawMany<{ lessonId: string; started: string; completed: string }>(),
+    ]);
+
+    const byLesson = new Map(progress.map((row) => [row.lessonId, row]));
+    return lessons.map((lesson) => ({
+      ...lesson,
+      started: Number(byLesson.get(lesson.lessonId)?.started ?? 0),
+      completed: Number(byLesson.get(lesson.lessonId)?.completed ?? 0),
+    }));
+  }
+
+  private toFunnel(
+    lessons: Omit<LessonFunnelStepDto, 'completionRate' | 'dropOff'>[],
+    enrolled: number,
+  ): LessonFunnelStepDto[] {
+    let previous = enrolled;
+    return lessons.map((lesson) => {
+      const step = {
+        ...lesson,
+        completionRate: percentage(lesson.completed, enrolled),
+        // Lessons can be completed out of order, so a step may exceed the previous one
+        dropOff: percentage(Math.max(previous - lesson.completed, 0), previous),
+      };
+      previous = lesson.completed;
+      return step;
+    });
+  }
+
+  private async getQuizPassRates(courseId: string): Promise<QuizPassRateDto[]> {
+    const rows = await this.quizRepository
+      .createQueryBuilder('quiz')
+      .innerJoin('quiz.lesson', 'lesson')
+      .innerJoin(Module, 'module', 'module.id = lesson.module_id')
+      .leftJoin(
+        QuizAttempt,
+        'attempt',
+        'attempt.quiz_id = quiz.id AND attempt.status = :status',
+        { status: AttemptStatus.COMPLETED },
+      )
+      .select('quiz.id', 'quizId')
+      .addSelect('quiz.title', 'title')
+      .addSelect('quiz.lesson_id', 'lessonId')
+      .addSelect('COUNT(attempt.id)', 'attempts')
+      .addSelect('COUNT(attempt.id) FILTER (WHERE attempt.passed)', 'passes')
+      .addSelect('COALESCE(AVG(attempt.percentage), 0)', 'averageScore')
+      .where('module.course_id = :courseId', { courseId })
+      .groupBy('quiz.id')
+      .addGroupBy('lesson.id')
+      .addGroupBy('module.id')
+      .orderBy('module.created_at', 'ASC')
+      .addOrderBy('lesson.created_at', 'ASC')
+      .addOrderBy('quiz.created_at', 'ASC')
+      .getRawMany<{
+        quizId: string;
+        title: string;
+        lessonId: string;
+        attempts: string;
+        passes: string;
+        averageScore: string;
+      }>();
+
+    return rows.map((row) => ({
+      quizId: row.quizId,
+      title: row.title,
+      lessonId: row.lessonId,
+      attempts: Number(row.attempts),
+      passes: Number(row.passes),
+      passRate: percentage(Number(row.passes), Number(row.attempts)),
+      averageScore: round(Number(row.averageScore)),
+    }));
+  }
+
+  private async getReviewStats(courseId: string) {
+    const row = await this.reviewRepository
+      .createQueryBuilder('review')
+      .select('COUNT(*)', 'count')
+      .addSelect('COALESCE(AVG(review.rating), 0)', 'average')
+      .where('review.courseId = :courseId', { courseId })
+      .getRawOne<{ count: string; average: string }>();
+
+    return {
+      count: Number(row?.count ?? 0),
+      averageRating: round(Number(row?.average ?? 0)),
+    };
+  }
+}
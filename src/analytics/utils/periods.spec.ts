@@ -0,0 +1,23 @@
+import { AnalyticsGranularity } from '../enums/analytics-granularity.enum';
+import { listPeriods, periodStart } from './periods';
+
+describe('analytics periods', () => {
+  it('should start weeks on Monday', () => {
+    // 2026-03-01 is a Sunday
+    expect(periodStart('2026-03-01', AnalyticsGranularity.WEEK)).toBe(
+      '2026-02-23',
+    );
+    expect(periodStart('2026-03-02', AnalyticsGranularity.WEEK)).toBe(
+      '2026-03-02',
+    );
+  });
+
+  it('should list every period overlapping the range', () => {
+    expect(
+      listPeriods('2026-01-31', '2026-03-01', AnalyticsGranularity.MONTH),
+    ).toEqual(['2026-01-01', '2026-02-01', '2026-03-01']);
+    expect(
+      listPeriods('2026-02-27', '2026-03-02', AnalyticsGranularity.DAY),
+    ).toEqual(['2026-02-27', '2026-02-28', '2026-03-01', '2026-03-02']);
+  });
+});
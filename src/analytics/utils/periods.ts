@@ -0,0 +1,61 @@
+import { AnalyticsGranularity } from '../enums/analytics-granularity.enum';
+
+const DAY_IN_MS = 24 * 60 * 60 * 1000;
+
+/** UTC calendar day of a date, as YYYY-MM-DD. */
+export const toDay = (date: Date): string => date.toISOString().slice(0, 10);
+
+export const addDays = (day: string, days: number): string =>
+  toDay(new Date(Date.parse(day) + days * DAY_IN_MS));
+
+/** First day of the period containing `day`; weeks start on Monday. */
+export function periodStart(
+  day: string,
+  granularity: AnalyticsGranularity,
+): string {
+  const date = new Date(day);
+  switch (granularity) {
+    case AnalyticsGranularity.WEEK:
+      return addDays(day, -((date.getUTCDay() + 6) % 7));
+    case AnalyticsGranularity.MONTH:
+      return `${day.slice(0, 7)}-01`;
+    default:
+      return day;
+  }
+}
+
+/** Start of the period `count` periods after (or before) the one at `start`. */
+export function addPeriods(
+  start: string,
+  granularity: AnalyticsGranularity,
+  count: number,
+): string {
+  switch (granularity) {
+    case AnalyticsGranularity.WEEK:
+      return addDays(start, 7 * count);
+    case AnalyticsGranularity.MONTH: {
+      const date = new Date(start);
+      date.setUTCMonth(date.getUTCMonth() + count);
+      return toDay(date);
+    }
+    default:
+      return addDays(start, count);
+  }
+}
+
+/** Starts of every period overlapping the inclusive day range. */
+export function listPeriods(
+  from: string,
+  to: string,
+  granularity: AnalyticsGranularity,
+): string[] {
+  const periods: string[] = [];
+  for (
+    let start = periodStart(from, granularity);
+    start <= to;
+    start = addPeriods(start, granularity, 1)
+  ) {
+    periods.push(start);
+  }
+  return periods;
+}
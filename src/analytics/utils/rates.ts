@@ -0,0 +1,6 @@
+/** Rounds to two decimals. */
+export const round = (value: number) => Math.round(value * 100) / 100;
+
+/** `part` as a rounded percentage of `whole`, or 0 when there is no whole. */
+export const percentage = (part: number, whole: number) =>
+  whole ? round((part / whole) * 100) : 0;
@@ -0,0 +1,18 @@
+import { Global, Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { User } from '../users/entities/user.entity';
+import { ApiKeysController } from './controllers/api-keys.controller';
+import { ServiceAccountsController } from './controllers/service-accounts.controller';
+import { ApiKey } from './entities/api-key.entity';
+import { ApiKeysService } from './services/api-keys.service';
+import { ServiceAccountsService } from './services/service-accounts.service';
+
+/** Global because AuthGuard, used by every module, authenticates API keys. */
+@Global()
+@Module({
+  imports: [TypeOrmModule.forFeature([ApiKey, User])],
+  controllers: [ApiKeysController, ServiceAccountsController],
+  providers: [ApiKeysService, ServiceAccountsService],
+  exports: [ApiKeysService],
+})
+export class ApiKeysModule {}
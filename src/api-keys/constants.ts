@@ -0,0 +1,37 @@
+// Request header carrying an API key; JWTs keep using `Authorization: Bearer`
+export const API_KEY_HEADER = 'x-api-key';
+
+// Every key starts with this, followed by its public id and the secret
+export const API_KEY_PREFIX = 'sk';
+
+// Random bytes in the public id and the secret part of a key
+export const API_KEY_ID_BYTES = 6;
+export const API_KEY_SECRET_BYTES = 32;
+
+// `lastUsedAt` is only written when older than this, to avoid a write per request
+export const API_KEY_LAST_USED_RESOLUTION_MS = 60 * 1000;
+
+// Domain of the synthetic email addresses given to service accounts
+export const SERVICE_ACCOUNT_EMAIL_DOMAIN = 'service-accounts.invalid';
+
+/** Route groups an API key can be scoped to; see `@ApiKeyResource()`. */
+export type ApiKeyResourceName =
+  | 'courses'
+  | 'quizzes'
+  | 'enrollments'
+  | 'progress';
+
+/**
+ * `<resource>:read` covers GET and HEAD requests, `<resource>:write` every
+ * other method.
+ */
+export enum ApiKeyScope {
+  COURSES_READ = 'courses:read',
+  COURSES_WRITE = 'courses:write',
+  QUIZZES_READ = 'quizzes:read',
+  QUIZZES_WRITE = 'quizzes:write',
+  ENROLLMENTS_READ = 'enrollments:read',
+  ENROLLMENTS_WRITE = 'enrollments:write',
+  PROGRESS_READ = 'progress:read',
+  PROGRESS_WRITE = 'progress:write',
+}
@@ -0,0 +1,68 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  ParseUUIDPipe,
+  Post,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiBearerAuth,
+  ApiOperation,
+  ApiParam,
+  ApiResponse,
+  ApiTags,
+} from '@nestjs/swagger';
+import { CurrentUser } from '../../common/decorators/current-user.decorator';
+import { AuthGuard } from '../../common/guards/auth.guard';
+import { DisallowImpersonation } from '../../impersonation/decorators/disallow-impersonation.decorator';
+import {
+  ApiKeyResponseDto,
+  CreateApiKeyDto,
+  CreatedApiKeyDto,
+} from '../dto/api-key.dto';
+import { ApiKeysService } from '../services/api-keys.service';
+
+/** Personal API keys, acting as the current user within their scopes. */
+@Controller('api-keys')
+@DisallowImpersonation()
+@ApiTags('api-keys')
+@ApiBearerAuth()
+@UseGuards(AuthGuard)
+export class ApiKeysController {
+  constructor(private readonly apiKeysService: ApiKeysService) {}
+
+  @Get()
+  @ApiOperation({ summary: 'List your API keys' })
+  @ApiResponse({ status: 200, type: [ApiKeyResponseDto] })
+  findAll(@CurrentUser('id') userId: string): Promise<ApiKeyResponseDto[]> {
+    return this.apiKeysService.findAll(userId);
+  }
+
+  @Post()
+  @ApiOperation({ summary: 'Create an API key; the key is only shown once' })
+  @ApiResponse({ status: 201, type: CreatedApiKeyDto })
+  create(
+    @CurrentUser('id') userId: string,
+    @Body() dto: CreateApiKeyDto,
+  ): Promise<CreatedApiKeyDto> {
+    return this.apiKeysService.create(userId, dto, userId);
+  }
+
+  @Delete(':id')
+  @ApiOperation({ summary: 'Revoke one of your API keys' })
+  @ApiParam({ name: 'id', description: 'API key ID' })
+  @ApiResponse({ status: 204, description: 'API key revoked' })
+  @ApiResponse({ status: 404, description: 'API key not found' })
+  @HttpCode(HttpStatus.NO_CONTENT)
+  revoke(
+    @CurrentUser('id') userId: string,
+    @Param('id', ParseUUIDPipe) id: string,
+  ): Promise<void> {
+    return this.apiKeysService.revoke(userId, id);
+  }
+}
@@ -0,0 +1,116 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  ParseUUIDPipe,
+  Post,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiBearerAuth,
+  ApiOperation,
+  ApiParam,
+  ApiResponse,
+  ApiTags,
+} from '@nestjs/swagger';
+import { PermissionKey } from '../../authorization/constants';
+import { RequirePermissions } from '../../authorization/decorators/require-permissions.decorator';
+import { PermissionsGuard } from '../../authorization/guards/permissions.guard';
+import { CurrentUser } from '../../common/decorators/current-user.decorator';
+import { AuthGuard } from '../../common/guards/auth.guard';
+import { DisallowImpersonation } from '../../impersonation/decorators/disallow-impersonation.decorator';
+import {
+  ApiKeyResponseDto,
+  CreateApiKeyDto,
+  CreatedApiKeyDto,
+  CreateServiceAccountDto,
+  ServiceAccountResponseDto,
+} from '../dto/api-key.dto';
+import { ApiKeysService } from '../services/api-keys.service';
+import { ServiceAccountsService } from '../services/service-accounts.service';
+
+@Controller('admin/service-accounts')
+@DisallowImpersonation()
+@ApiTags('admin')
+@ApiBearerAuth()
+@UseGuards(AuthGuard, PermissionsGuard)
+@RequirePermissions(PermissionKey.SERVICE_ACCOUNT_MANAGE)
+export class ServiceAccountsController {
+  constructor(
+    private readonly serviceAccountsService: ServiceAccountsService,
+    private readonly apiKeysService: ApiKeysService,
+  ) {}
+
+  @Get()
+  @ApiOperation({ summary: 'List service accounts' })
+  @ApiResponse({ status: 200, type: [ServiceAccountResponseDto] })
+  findAll(): Promise<ServiceAccountResponseDto[]> {
+    return this.serviceAccountsService.findAll();
+  }
+
+  @Post()
+  @ApiOperation({
+    summary: 'Create a service account',
+    description:
+      'It starts with the user role; assign another one through PUT /admin/users/:id/role.',
+  })
+  @ApiResponse({ status: 201, type: ServiceAccountResponseDto })
+  create(
+    @Body() dto: CreateServiceAccountDto,
+  ): Promise<ServiceAccountResponseDto> {
+    return this.serviceAccountsService.create(dto);
+  }
+
+  @Delete(':id')
+  @ApiOperation({ summary: 'Delete a service account and its API keys' })
+  @ApiParam({ name: 'id', description: 'Service account ID' })
+  @ApiResponse({ status: 204, description: 'Service account deleted' })
+  @ApiResponse({ status: 404, description: 'Service account not found' })
+  @HttpCode(HttpStatus.NO_CONTENT)
+  remove(@Param('id', ParseUUIDPipe) id: string): Promise<void> {
+    return this.serviceAccountsService.remove(id);
+  }
+
+  @Get(':id/api-keys')
+  @ApiOperation({ summary: "List a service account's API keys" })
+  @ApiParam({ name: 'id', description: 'Service account ID' })
+  @ApiResponse({ status: 200, type: [ApiKeyResponseDto] })
+  async findApiKeys(
+    @Param('id', ParseUUIDPipe) id: string,
+  ): Promise<ApiKeyResponseDto[]> {
+    await this.serviceAccountsService.findOne(id);
+    return this.apiKeysService.findAll(id);
+  }
+
+  @Post(':id/api-keys')
+  @ApiOperation({
+    summary: 'Create an API key for a service account; shown only once',
+  })
+  @ApiParam({ name: 'id', description: 'Service account ID' })
+  @ApiResponse({ status: 201, type: CreatedApiKeyDto })
+  async createApiKey(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() dto: CreateApiKeyDto,
+    @CurrentUser('id') adminId: string,
+  ): Promise<CreatedApiKeyDto> {
+    await this.serviceAccountsService.findOne(id);
+    return this.apiKeysService.create(id, dto, adminId);
+  }
+
+  @Delete(':id/api-keys/:keyId')
+  @ApiOperation({ summary: "Revoke a service account's API key" })
+  @ApiParam({ name: 'id', description: 'Service account ID' })
+  @ApiParam({ name: 'keyId', description: 'API key ID' })
+  @ApiResponse({ status: 204, description: 'API key revoked' })
+  @HttpCode(HttpStatus.NO_CONTENT)
+  revokeApiKey(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Param('keyId', ParseUUIDPipe) keyId: string,
+  ): Promise<void> {
+    return this.apiKeysService.revoke(id, keyId);
+  }
+}
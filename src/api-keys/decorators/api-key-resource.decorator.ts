@@ -0,0 +1,12 @@
+import { SetMetadata } from '@nestjs/common';
+import { ApiKeyResourceName } from '../constants';
+
+export const API_KEY_RESOURCE_KEY = 'apiKeyResource';
+
+/**
+ * Opens a controller (or route) to API keys holding the matching
+ * `<resource>:read` / `<resource>:write` scope. Routes without it only
+ * accept JWT bearer tokens.
+ */
+export const ApiKeyResource = (resource: ApiKeyResourceName) =>
+  SetMetadata(API_KEY_RESOURCE_KEY, resource);
@@ -0,0 +1,99 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+import {
+  ArrayNotEmpty,
+  ArrayUnique,
+  IsArray,
+  IsDate,
+  IsEnum,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  MaxLength,
+  MinDate,
+} from 'class-validator';
+import { ApiKeyScope } from '../constants';
+
+export class CreateApiKeyDto {
+  @ApiProperty({ example: 'Nightly grading script' })
+  @IsNotEmpty()
+  @IsString()
+  @MaxLength(100)
+  name: string;
+
+  @ApiProperty({
+    enum: ApiKeyScope,
+    isArray: true,
+    example: [ApiKeyScope.QUIZZES_READ, ApiKeyScope.PROGRESS_WRITE],
+  })
+  @IsArray()
+  @ArrayNotEmpty()
+  @ArrayUnique()
+  @IsEnum(ApiKeyScope, { each: true })
+  scopes: ApiKeyScope[];
+
+  @ApiPropertyOptional({
+    description: 'When the key stops working; never when omitted',
+    example: '2030-01-01T00:00:00.000Z',
+  })
+  @IsOptional()
+  @Type(() => Date)
+  @IsDate()
+  @MinDate(() => new Date(), { message: 'expiresAt must be in the future' })
+  expiresAt?: Date;
+}
+
+export class ApiKeyResponseDto {
+  @ApiProperty()
+  id: string;
+
+  @ApiProperty()
+  name: string;
+
+  @ApiProperty({ example: 'sk_3f9a1c0b7e2d' })
+  prefix: string;
+
+  @ApiProperty({ enum: ApiKeyScope, isArray: true })
+  scopes: ApiKeyScope[];
+
+  @ApiProperty({ nullable: true })
+  expiresAt: Date | null;
+
+  @ApiProperty({ nullable: true })
+  lastUsedAt: Date | null;
+
+  @ApiProperty({ nullable: true })
+  revokedAt: Date | null;
+
+  @ApiProperty()
+  createdAt: Date;
+}
+
+export class CreatedApiKeyDto extends ApiKeyResponseDto {
+  @ApiProperty({
+    description: 'The key itself. It is only returned once; store it safely.',
+  })
+  key: string;
+}
+
+export class CreateServiceAccountDto {
+  @ApiProperty({ example: 'CMS integration' })
+  @IsNotEmpty()
+  @IsString()
+  @MaxLength(100)
+  name: string;
+}
+
+export class ServiceAccountResponseDto {
+  @ApiProperty()
+  id: string;
+
+  @ApiProperty()
+  name: string;
+
+  @ApiProperty({ example: 'user' })
+  role: string;
+
+  @ApiProperty()
+  createdAt: Date;
+}
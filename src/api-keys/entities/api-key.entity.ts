@@ -0,0 +1,58 @@
+import {
+  Column,
+  CreateDateColumn,
+  Entity,
+  Index,
+  JoinColumn,
+  ManyToOne,
+  PrimaryGeneratedColumn,
+} from 'typeorm';
+import { User } from '../../users/entities/user.entity';
+import { ApiKeyScope } from '../constants';
+
+/**
+ * A long-lived credential acting as its owner (a person or a service
+ * account), limited to its scopes. Only a hash of the key is stored.
+ */
+@Entity('api_keys')
+export class ApiKey {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Index()
+  @Column({ type: 'uuid' })
+  userId: string;
+
+  @ManyToOne(() => User, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'userId' })
+  user: User;
+
+  @Column({ type: 'varchar', length: 100 })
+  name: string;
+
+  // Public part of the key (`sk_<id>`), shown so users can tell keys apart
+  @Column({ type: 'varchar', length: 32 })
+  prefix: string;
+
+  @Index({ unique: true })
+  @Column({ type: 'varchar', length: 64, select: false })
+  keyHash: string;
+
+  @Column({ type: 'text', array: true, default: '{}' })
+  scopes: ApiKeyScope[];
+
+  @Column({ type: 'timestamp', nullable: true, default: null })
+  expiresAt: Date | null;
+
+  @Column({ type: 'timestamp', nullable: true, default: null })
+  lastUsedAt: Date | null;
+
+  @Column({ type: 'timestamp', nullable: true, default: null })
+  revokedAt: Date | null;
+
+  @Column({ type: 'uuid' })
+  createdById: string;
+
+  @CreateDateColumn()
+  createdAt: Date;
+}
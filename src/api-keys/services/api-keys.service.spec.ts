@@ -0,0 +1,112 @@
+import { NotFoundException } from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { FindOperator } from 'typeorm';
+import { UserRole } from '../../users/entities/user.entity';
+import { ApiKeyScope } from '../constants';
+import { ApiKey } from '../entities/api-key.entity';
+import { ApiKeysService } from './api-keys.service';
+
+describe('ApiKeysService', () => {
+  let service: ApiKeysService;
+  let rows: ApiKey[];
+
+  const owner = {
+    id: 'user-1',
+    email: 'grader@example.com',
+    role: UserRole.USER,
+  };
+
+  // Supports the `IsNull()` conditions the service uses
+  const matches = (row: ApiKey, where: Record<string, unknown>) =>
+    Object.entries(where).every(([key, expected]) =>
+      expected instanceof FindOperator
+        ? row[key as keyof ApiKey] === null
+        : row[key as keyof ApiKey] === expected,
+    );
+
+  const apiKeyRepository = {
+    create: jest.fn((data: Partial<ApiKey>) => ({ ...data }) as ApiKey),
+    save: jest.fn((row: ApiKey) => {
+      const saved = {
+        ...row,
+        id: `key-${rows.length + 1}`,
+        lastUsedAt: null,
+        revokedAt: null,
+        createdAt: new Date(),
+      };
+      rows.push(saved);
+      return Promise.resolve(saved);
+    }),
+    findOne: jest.fn(({ where }) => {
+      const row = rows.find((candidate) => matches(candidate, where));
+      return Promise.resolve(row ? { ...row, user: owner } : null);
+    }),
+    update: jest.fn((criteria, changes: Partial<ApiKey>) => {
+      const where = typeof criteria === 'string' ? { id: criteria } : criteria;
+      const affected = rows.filter((row) => matches(row, where));
+      affected.forEach((row) => Object.assign(row, changes));
+      return Promise.resolve({ affected: affected.length });
+    }),
+  };
+
+  beforeEach(async () => {
+    rows = [];
+    jest.clearAllMocks();
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ApiKeysService,
+        { provide: getRepositoryToken(ApiKey), useValue: apiKeyRepository },
+      ],
+    }).compile();
+
+    service = module.get<ApiKeysService>(ApiKeysService);
+  });
+
+  const createKey = (expiresAt?: Date) =>
+    service.create(
+      owner.id,
+      { name: 'Grading', scopes: [ApiKeyScope.QUIZZES_READ], expiresAt },
+      owner.id,
+    );
+
+  it('should store only a hash and authenticate as the owner', async () => {
+    const { key, prefix } = await createKey();
+
+    expect(key.startsWith(`${prefix}_`)).toBe(true);
+    expect(rows[0].keyHash).not.toContain(key);
+    await expect(service.authenticate(key)).resolves.toEqual({
+      ...owner,
+      apiKey: { id: 'key-1', scopes: [ApiKeyScope.QUIZZES_READ] },
+    });
+    expect(rows[0].lastUsedAt).toBeInstanceOf(Date);
+  });
+
+  it('should not record every use', async () => {
+    const { key } = await createKey();
+
+    await service.authenticate(key);
+    await service.authenticate(key);
+
+    expect(apiKeyRepository.update).toHaveBeenCalledTimes(1);
+  });
+
+  it('should reject unknown, expired and revoked keys', async () => {
+    const expired = await createKey(new Date(Date.now() - 1000));
+    const revoked = await createKey();
+    await service.revoke(owner.id, revoked.id);
+
+    await expect(service.authenticate('sk_unknown_key')).resolves.toBeNull();
+    await expect(service.authenticate(expired.key)).resolves.toBeNull();
+    await expect(service.authenticate(revoked.key)).resolves.toBeNull();
+  });
+
+  it("should not revoke another user's key", async () => {
+    const { id } = await createKey();
+
+    await expect(service.revoke('user-2', id)).rejects.toThrow(
+      NotFoundException,
+    );
+  });
+});
@@ -0,0 +1,123 @@
+import { Injectable, NotFoundException } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { createHash, randomBytes } from 'crypto';
+import { IsNull, Repository } from 'typeorm';
+import type { AuthenticatedUser } from '../../auth/interfaces/authenticated-user.interface';
+import {
+  API_KEY_ID_BYTES,
+  API_KEY_LAST_USED_RESOLUTION_MS,
+  API_KEY_PREFIX,
+  API_KEY_SECRET_BYTES,
+} from '../constants';
+import {
+  ApiKeyResponseDto,
+  CreateApiKeyDto,
+  CreatedApiKeyDto,
+} from '../dto/api-key.dto';
+import { ApiKey } from '../entities/api-key.entity';
+
+@Injectable()
+export class ApiKeysService {
+  constructor(
+    @InjectRepository(ApiKey)
+    private readonly apiKeyRepository: Repository<ApiKey>,
+  ) {}
+
+  /** The returned `key` is not stored anywhere and cannot be shown again. */
+  async create(
+    userId: string,
+    dto: CreateApiKeyDto,
+    createdById: string,
+  ): Promise<CreatedApiKeyDto> {
+    const prefix = `${API_KEY_PREFIX}_${randomBytes(API_KEY_ID_BYTES).toString('hex')}`;
+    const key = `${prefix}_${randomBytes(API_KEY_SECRET_BYTES).toString('base64url')}`;
+
+    const apiKey = await this.apiKeyRepository.save(
+      this.apiKeyRepository.create({
+        userId,
+        name: dto.name,
+        prefix,
+        keyHash: this.hashKey(key),
+        scopes: dto.scopes,
+        expiresAt: dto.expiresAt ?? null,
+        createdById,
+      }),
+    );
+
+    return { ...this.toResponseDto(apiKey), key };
+  }
+
+  async findAll(userId: string): Promise<ApiKeyResponseDto[]> {
+    const apiKeys = await this.apiKeyRepository.find({
+      where: { userId },
+      order: { createdAt: 'DESC' },
+    });
+    return apiKeys.map((apiKey) => this.toResponseDto(apiKey));
+  }
+
+  async revoke(userId: string, id: string): Promise<void> {
+    const result = await this.apiKeyRepository.update(
+      { id, userId, revokedAt: IsNull() },
+      { revokedAt: new Date() },
+    );
+    if (!result.affected) {
+      throw new NotFoundException(`API key with ID ${id} not found`);
+    }
+  }
+
+  /**
+   * Resolves a raw key to the user it acts as. Null when the key is unknown,
+   * revoked or expired.
+   */
+  async authenticate(key: string): Promise<AuthenticatedUser | null> {
+    if (!key.startsWith(`${API_KEY_PREFIX}_`)) {
+      return null;
+    }
+
+    const apiKey = await this.apiKeyRepository.findOne({
+      where: { keyHash: this.hashKey(key), revokedAt: IsNull() },
+      relations: { user: true },
+    });
+    const now = Date.now();
+    if (
+      !apiKey?.user ||
+      apiKey.user.suspendedAt ||
+      (apiKey.expiresAt && apiKey.expiresAt.getTime() <= now)
+    ) {
+      return null;
+    }
+
+    if (
+      !apiKey.lastUsedAt ||
+      now - apiKey.lastUsedAt.getTime() >= API_KEY_LAST_USED_RESOLUTION_MS
+    ) {
+      await this.apiKeyRepository.update(apiKey.id, {
+        lastUsedAt: new Date(now),
+      });
+    }
+
+    return {
+      id: apiKey.user.id,
+      email: apiKey.user.email,
+      role: apiKey.user.role,
+      apiKey: { id: apiKey.id, scopes: apiKey.scopes },
+    };
+  }
+
+  private toResponseDto(apiKey: ApiKey): ApiKeyResponseDto {
+    return {
+      id: apiKey.id,
+      name: apiKey.name,
+      prefix: apiKey.prefix,
+      scopes: apiKey.scopes,
+      expiresAt: apiKey.expiresAt,
+      lastUsedAt: apiKey.lastUsedAt ?? null,
+      revokedAt: apiKey.revokedAt ?? null,
+      createdAt: apiKey.createdAt,
+    };
+  }
+
+  private hashKey(key: string): string {
+    return createHash('sha256').update(key).digest('hex');
+  }
+}
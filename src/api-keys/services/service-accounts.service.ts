@@ -0,0 +1,74 @@
+import { Injectable, NotFoundException } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import * as bcrypt from 'bcrypt';
+import { randomBytes, randomUUID } from 'crypto';
+import { Repository } from 'typeorm';
+import { PASSWORD_SALT_ROUNDS } from '../../common/constants';
+import { User } from '../../users/entities/user.entity';
+import { SERVICE_ACCOUNT_EMAIL_DOMAIN } from '../constants';
+import {
+  CreateServiceAccountDto,
+  ServiceAccountResponseDto,
+} from '../dto/api-key.dto';
+
+/**
+ * Service accounts are users that cannot log in: they get an unusable
+ * password and a synthetic email, and authenticate with API keys only.
+ * Their role is managed like any other user's.
+ */
+@Injectable()
+export class ServiceAccountsService {
+  constructor(
+    @InjectRepository(User)
+    private readonly userRepository: Repository<User>,
+  ) {}
+
+  async create(
+    dto: CreateServiceAccountDto,
+  ): Promise<ServiceAccountResponseDto> {
+    const account = await this.userRepository.save(
+      this.userRepository.create({
+        name: dto.name,
+        email: `${randomUUID()}@${SERVICE_ACCOUNT_EMAIL_DOMAIN}`,
+        password: await bcrypt.hash(
+          randomBytes(32).toString('hex'),
+          PASSWORD_SALT_ROUNDS,
+        ),
+        isServiceAccount: true,
+      }),
+    );
+    return this.toResponseDto(account);
+  }
+
+  async findAll(): Promise<ServiceAccountResponseDto[]> {
+    const accounts = await this.userRepository.find({
+      where: { isServiceAccount: true },
+      order: { createdAt: 'DESC' },
+    });
+    return accounts.map((account) => this.toResponseDto(account));
+  }
+
+  async findOne(id: string): Promise<ServiceAccountResponseDto> {
+    const account = await this.userRepository.findOne({
+      where: { id, isServiceAccount: true },
+    });
+    if (!account) {
+      throw new NotFoundException(`Service account with ID ${id} not found`);
+    }
+    return this.toResponseDto(account);
+  }
+
+  async remove(id: string): Promise<void> {
+    await this.findOne(id);
+    await this.userRepository.delete(id);
+  }
+
+  private toResponseDto(account: User): ServiceAccountResponseDto {
+    return {
+      id: account.id,
+      name: account.name,
+      role: account.role,
+      createdAt: account.createdAt,
+    };
+  }
+}
@@ -0,0 +1,79 @@
+import {
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  ParseUUIDPipe,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiBearerAuth,
+  ApiOperation,
+  ApiParam,
+  ApiResponse,
+  ApiTags,
+} from '@nestjs/swagger';
+import { PermissionKey } from '../authorization/constants';
+import { RequirePermissions } from '../authorization/decorators/require-permissions.decorator';
+import { PermissionsGuard } from '../authorization/guards/permissions.guard';
+import { AuthGuard } from '../common/guards/auth.guard';
+import { SessionResponseDto } from './dto/session.dto';
+import { SessionRevocationReason } from './entities/auth-session.entity';
+import { SessionService } from './services/session.service';
+
+/** Lets support staff inspect and end the login sessions of any user. */
+@Controller('admin')
+@ApiTags('admin')
+@ApiBearerAuth()
+@UseGuards(AuthGuard, PermissionsGuard)
+export class AdminSessionsController {
+  constructor(private readonly sessionService: SessionService) {}
+
+  @Get('users/:id/sessions')
+  @RequirePermissions(PermissionKey.USER_READ)
+  @ApiOperation({ summary: "List a user's active sessions" })
+  @ApiParam({ name: 'id', description: 'The ID of the user' })
+  @ApiResponse({ status: 200, type: [SessionResponseDto] })
+  async findAll(
+    @Param('id', ParseUUIDPipe) userId: string,
+  ): Promise<SessionResponseDto[]> {
+    return this.sessionService.findActiveForUser(userId);
+  }
+
+  @Delete('users/:id/sessions')
+  @RequirePermissions(PermissionKey.USER_MANAGE)
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Revoke every session of a user' })
+  @ApiParam({ name: 'id', description: 'The ID of the user' })
+  @ApiResponse({ status: 200, description: 'Sessions revoked' })
+  async revokeAll(
+    @Param('id', ParseUUIDPipe) userId: string,
+  ): Promise<{ revokedSessions: number }> {
+    const revokedSessions = await this.sessionService.revokeAllForUser(
+      userId,
+      SessionRevocationReason.REVOKED_BY_ADMIN,
+    );
+    return { revokedSessions };
+  }
+
+  @Delete('users/:id/sessions/:sessionId')
+  @RequirePermissions(PermissionKey.USER_MANAGE)
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiOperation({ summary: 'Revoke one session of a user' })
+  @ApiParam({ name: 'id', description: 'The ID of the user' })
+  @ApiParam({ name: 'sessionId', description: 'The ID of the session' })
+  @ApiResponse({ status: 204, description: 'Session revoked' })
+  @ApiResponse({ status: 404, description: 'Session not found' })
+  async revoke(
+    @Param('id', ParseUUIDPipe) userId: string,
+    @Param('sessionId', ParseUUIDPipe) sessionId: string,
+  ): Promise<void> {
+    await this.sessionService.revokeUserSession(
+      userId,
+      sessionId,
+      SessionRevocationReason.REVOKED_BY_ADMIN,
+    );
+  }
+}
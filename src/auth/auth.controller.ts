@@ -1,37 +1,319 @@
-import { Body, Controller, HttpCode, HttpStatus, Post } from '@nestjs/common';
-import { ApiOperation, ApiResponse, ApiTags } from '@nestjs/swagger';
+import {
+  Body,
+  Controller,
+  Get,
+  Headers,
+  HttpCode,
+  HttpStatus,
+  Ip,
+  Post,
+  Query,
+  Req,
+  UseFilters,
+} from '@nestjs/common';
+import {
+  ApiBearerAuth,
+  ApiExtraModels,
+  ApiOperation,
+  ApiResponse,
+  ApiTags,
+  getSchemaPath,
+} from '@nestjs/swagger';
 import { Public } from '../common/decorators/public.decorator';
+import { DisallowImpersonation } from '../impersonation/decorators/disallow-impersonation.decorator';
+import { AllowDuringMaintenance } from '../maintenance/decorators/allow-during-maintenance.decorator';
 import { CreateUserDto } from '../users/dto/create-user.dto';
 import { UserResponseDto } from '../users/dto/user-response.dto';
-import { AuthService } from './auth.service';
+import { AuthService, LoginResult } from './auth.service';
+import { AuthTokensDto } from './dto/auth-tokens.dto';
 import { LoginDto } from './dto/login.dto';
+import {
+  MfaChallengeDto,
+  MfaCodeDto,
+  MfaEnrollmentTokensDto,
+  MfaRecoveryCodesDto,
+  MfaSetupResponseDto,
+  MfaTokenDto,
+  MfaVerifyDto,
+} from './dto/mfa.dto';
+import { ForgotPasswordDto, ResetPasswordDto } from './dto/password-reset.dto';
+import { RefreshTokenDto } from './dto/refresh-token.dto';
+import { VerifyEmailDto } from './dto/verify-email.dto';
+import {
+  WalletChallengeQueryDto,
+  WalletChallengeResponseDto,
+} from './dto/wallet-challenge.dto';
 import { WalletVerificationDto } from './dto/wallet-verification.dto';
+import { TooManyLoginAttemptsFilter } from './filters/too-many-login-attempts.filter';
+import type { AuthenticatedRequest } from './interfaces/authenticated-user.interface';
+
+const loginResultSchema = {
+  oneOf: [
+    { $ref: getSchemaPath(AuthTokensDto) },
+    { $ref: getSchemaPath(MfaChallengeDto) },
+  ],
+};
 
 @ApiTags('auth')
+@ApiExtraModels(AuthTokensDto, MfaChallengeDto)
 @Controller('auth')
+@DisallowImpersonation()
 export class AuthController {
   constructor(private readonly authService: AuthService) {}
 
   @Public()
   @Post('login')
+  @AllowDuringMaintenance()
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Login user and return tokens, or an MFA challenge',
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description:
+      'Login successful. Users with MFA receive an MFA token to complete at POST /auth/mfa/verify',
+    schema: loginResultSchema,
+  })
+  @ApiResponse({
+    status: HttpStatus.UNAUTHORIZED,
+    description: 'Invalid credentials',
+  })
+  @ApiResponse({
+    status: HttpStatus.TOO_MANY_REQUESTS,
+    description:
+      'Too many failed attempts for the account or IP; see the Retry-After header',
+  })
+  @UseFilters(TooManyLoginAttemptsFilter)
+  async login(
+    @Body() loginDto: LoginDto,
+    @Ip() ip: string,
+    @Headers('user-agent') userAgent?: string,
+  ): Promise<LoginResult> {
+    return this.authService.login(loginDto, { ip, userAgent });
+  }
+
+  @Public()
+  @Post('mfa/verify')
+  @AllowDuringMaintenance()
   @HttpCode(HttpStatus.OK)
-  @ApiOperation({ summary: 'Login user and return JWT token' })
+  @ApiOperation({
+    summary: 'Complete login with a TOTP or recovery code',
+  })
   @ApiResponse({
     status: HttpStatus.OK,
     description: 'Login successful',
+    type: AuthTokensDto,
+  })
+  @ApiResponse({
+    status: HttpStatus.UNAUTHORIZED,
+    description: 'Invalid or expired MFA token, or invalid code',
+  })
+  @ApiResponse({
+    status: HttpStatus.TOO_MANY_REQUESTS,
+    description:
+      'Too many failed attempts for the account or IP; see the Retry-After header',
+  })
+  @UseFilters(TooManyLoginAttemptsFilter)
+  async verifyMfa(
+    @Body() mfaVerifyDto: MfaVerifyDto,
+    @Ip() ip: string,
+    @Headers('user-agent') userAgent?: string,
+  ): Promise<AuthTokensDto> {
+    return this.authService.verifyMfa(
+      mfaVerifyDto.mfaToken,
+      mfaVerifyDto.code,
+      { ip, userAgent },
+    );
+  }
+
+  @Public()
+  @Post('mfa/enroll')
+  @AllowDuringMaintenance()
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Start the MFA enrollment required by the user role at login',
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'TOTP secret and QR code issued',
+    type: MfaSetupResponseDto,
+  })
+  @ApiResponse({
+    status: HttpStatus.UNAUTHORIZED,
+    description: 'Invalid or expired MFA token',
+  })
+  async beginRequiredMfaEnrollment(
+    @Body() mfaTokenDto: MfaTokenDto,
+  ): Promise<MfaSetupResponseDto> {
+    return this.authService.beginRequiredMfaEnrollment(mfaTokenDto.mfaToken);
+  }
+
+  @Public()
+  @Post('mfa/enroll/confirm')
+  @AllowDuringMaintenance()
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Confirm the required MFA enrollment and complete login',
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'MFA enabled; tokens and recovery codes returned',
+    type: MfaEnrollmentTokensDto,
+  })
+  @ApiResponse({
+    status: HttpStatus.UNAUTHORIZED,
+    description: 'Invalid or expired MFA token, or invalid code',
+  })
+  async confirmRequiredMfaEnrollment(
+    @Body() mfaVerifyDto: MfaVerifyDto,
+    @Ip() ip: string,
+    @Headers('user-agent') userAgent?: string,
+  ): Promise<MfaEnrollmentTokensDto> {
+    return this.authService.confirmRequiredMfaEnrollment(
+      mfaVerifyDto.mfaToken,
+      mfaVerifyDto.code,
+      { ip, userAgent },
+    );
+  }
+
+  @Post('mfa/setup')
+  @ApiBearerAuth()
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Generate a TOTP secret for the current user',
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description:
+      'TOTP secret and QR code issued; confirm at POST /auth/mfa/enable',
+    type: MfaSetupResponseDto,
+  })
+  @ApiResponse({
+    status: HttpStatus.CONFLICT,
+    description: 'MFA is already enabled',
+  })
+  async setupMfa(
+    @Req() req: AuthenticatedRequest,
+  ): Promise<MfaSetupResponseDto> {
+    return this.authService.setupMfa(req.user);
+  }
+
+  @Post('mfa/enable')
+  @ApiBearerAuth()
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Enable MFA by confirming a code from the authenticator app',
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'MFA enabled',
+    type: MfaRecoveryCodesDto,
+  })
+  @ApiResponse({
+    status: HttpStatus.UNAUTHORIZED,
+    description: 'Invalid MFA code',
+  })
+  async enableMfa(
+    @Req() req: AuthenticatedRequest,
+    @Body() mfaCodeDto: MfaCodeDto,
+  ): Promise<MfaRecoveryCodesDto> {
+    const recoveryCodes = await this.authService.enableMfa(
+      req.user.id,
+      mfaCodeDto.code,
+    );
+    return { recoveryCodes };
+  }
+
+  @Post('mfa/disable')
+  @ApiBearerAuth()
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Disable MFA for the current user' })
+  @ApiResponse({ status: HttpStatus.OK, description: 'MFA disabled' })
+  @ApiResponse({
+    status: HttpStatus.FORBIDDEN,
+    description: 'MFA is mandatory for the user role',
+  })
+  async disableMfa(
+    @Req() req: AuthenticatedRequest,
+    @Body() mfaCodeDto: MfaCodeDto,
+  ): Promise<{ message: string }> {
+    await this.authService.disableMfa(req.user, mfaCodeDto.code);
+    return { message: 'MFA has been disabled' };
+  }
+
+  @Post('mfa/recovery-codes')
+  @ApiBearerAuth()
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Replace all recovery codes of the current user',
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'New recovery codes; previous ones no longer work',
+    type: MfaRecoveryCodesDto,
+  })
+  async regenerateMfaRecoveryCodes(
+    @Req() req: AuthenticatedRequest,
+    @Body() mfaCodeDto: MfaCodeDto,
+  ): Promise<MfaRecoveryCodesDto> {
+    const recoveryCodes = await this.authService.regenerateMfaRecoveryCodes(
+      req.user.id,
+      mfaCodeDto.code,
+    );
+    return { recoveryCodes };
+  }
+
+  @Public()
+  @Post('refresh')
+  @AllowDuringMaintenance()
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Exchange a refresh token for a new access/refresh token pair',
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Tokens rotated',
+    type: AuthTokensDto,
+  })
+  @ApiResponse({
+    status: HttpStatus.UNAUTHORIZED,
+    description:
+      'Invalid, expired or reused refresh token (reuse revokes the session)',
+  })
+  async refresh(
+    @Body() refreshTokenDto: RefreshTokenDto,
+  ): Promise<AuthTokensDto> {
+    return this.authService.refresh(refreshTokenDto.refreshToken);
+  }
+
+  @Public()
+  @Post('logout')
+  @AllowDuringMaintenance()
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiOperation({ summary: 'Revoke the session of the given refresh token' })
+  @ApiResponse({ status: HttpStatus.NO_CONTENT, description: 'Logged out' })
+  async logout(@Body() refreshTokenDto: RefreshTokenDto): Promise<void> {
+    await this.authService.logout(refreshTokenDto.refreshToken);
+  }
+
+  @Post('logout-all')
+  @ApiBearerAuth()
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Revoke every session of the current user' })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'All sessions revoked',
     schema: {
       type: 'object',
       properties: {
-        accessToken: { type: 'string' },
+        revokedSessions: { type: 'number' },
       },
     },
   })
-  @ApiResponse({
-    status: HttpStatus.UNAUTHORIZED,
-    description: 'Invalid credentials',
-  })
-  async login(@Body() loginDto: LoginDto): Promise<{ accessToken: string }> {
-    return this.authService.login(loginDto);
+  async logoutAll(
+    @Req() req: AuthenticatedRequest,
+  ): Promise<{ revokedSessions: number }> {
+    return this.authService.logoutAll(req.user.id);
   }
 
   @Public()
@@ -49,27 +331,131 @@ export class AuthController {
     return this.authService.register(createUserDto);
   }
 
+  @Public()
+  @Post('forgot-password')
+  @HttpCode(HttpStatus.ACCEPTED)
+  @ApiOperation({ summary: 'Email a password reset link to the user' })
+  @ApiResponse({
+    status: HttpStatus.ACCEPTED,
+    description:
+      'Request accepted. The response is the same whether or not the email is registered',
+  })
+  async forgotPassword(
+    @Body() forgotPasswordDto: ForgotPasswordDto,
+  ): Promise<{ message: string }> {
+    await this.authService.requestPasswordReset(forgotPasswordDto.email);
+    return {
+      message:
+        'If the email is registered, a password reset link has been sent',
+    };
+  }
+
+  @Public()
+  @Post('reset-password')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Set a new password using a reset token' })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Password updated; all sessions are signed out',
+  })
+  @ApiResponse({
+    status: HttpStatus.BAD_REQUEST,
+    description: 'Invalid or expired token',
+  })
+  async resetPassword(
+    @Body() resetPasswordDto: ResetPasswordDto,
+  ): Promise<{ message: string }> {
+    await this.authService.resetPassword(
+      resetPasswordDto.token,
+      resetPasswordDto.newPassword,
+    );
+    return { message: 'Password has been reset successfully' };
+  }
+
+  @Public()
+  @Post('verify-email')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Confirm an email address using a token' })
+  @ApiResponse({ status: HttpStatus.OK, description: 'Email verified' })
+  @ApiResponse({
+    status: HttpStatus.BAD_REQUEST,
+    description: 'Invalid or expired token',
+  })
+  async verifyEmail(
+    @Body() verifyEmailDto: VerifyEmailDto,
+  ): Promise<{ message: string }> {
+    await this.authService.verifyEmail(verifyEmailDto.token);
+    return { message: 'Email verified successfully' };
+  }
+
+  @Post('verify-email/resend')
+  @ApiBearerAuth()
+  @HttpCode(HttpStatus.ACCEPTED)
+  @ApiOperation({
+    summary: 'Send a new verification email to the current user',
+  })
+  @ApiResponse({
+    status: HttpStatus.ACCEPTED,
+    description: 'Verification email sent',
+  })
+  @ApiResponse({
+    status: HttpStatus.BAD_REQUEST,
+    description: 'Email address is already verified',
+  })
+  async resendEmailVerification(
+    @Req() req: AuthenticatedRequest,
+  ): Promise<{ message: string }> {
+    await this.authService.resendEmailVerification(req.user.id);
+    return { message: 'Verification email sent' };
+  }
+
+  @Public()
+  @Get('wallet/challenge')
+  @AllowDuringMaintenance()
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Issue a single-use challenge for Stellar wallet login',
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Challenge issued',
+    type: WalletChallengeResponseDto,
+  })
+  @ApiResponse({
+    status: HttpStatus.BAD_REQUEST,
+    description: 'Invalid Stellar public key',
+  })
+  async getWalletChallenge(
+    @Query() query: WalletChallengeQueryDto,
+  ): Promise<WalletChallengeResponseDto> {
+    return this.authService.createWalletChallenge(query.publicKey);
+  }
+
   @Public()
   @Post('wallet/verify')
+  @AllowDuringMaintenance()
   @HttpCode(HttpStatus.OK)
-  @ApiOperation({ summary: 'Verify Stellar wallet signature and return JWT' })
+  @ApiOperation({
+    summary: 'Verify a signed wallet challenge and return JWT',
+  })
   @ApiResponse({
     status: HttpStatus.OK,
-    description: 'Verification successful',
-    schema: {
-      type: 'object',
-      properties: {
-        accessToken: { type: 'string' },
-      },
-    },
+    description:
+      'Verification successful. Users with MFA receive an MFA challenge instead of tokens',
+    schema: loginResultSchema,
   })
   @ApiResponse({
     status: HttpStatus.UNAUTHORIZED,
-    description: 'Invalid Stellar signature',
+    description: 'Invalid, expired or already used challenge signature',
   })
   async verifyWallet(
     @Body() walletVerificationDto: WalletVerificationDto,
-  ): Promise<{ accessToken: string }> {
-    return this.authService.verifyWallet(walletVerificationDto);
+    @Ip() ip: string,
+    @Headers('user-agent') userAgent?: string,
+  ): Promise<LoginResult> {
+    return this.authService.verifyWallet(walletVerificationDto, {
+      ip,
+      userAgent,
+    });
   }
 }
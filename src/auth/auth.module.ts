@@ -2,20 +2,54 @@ import { Module } from '@nestjs/common';
 import { ConfigModule, ConfigService } from '@nestjs/config';
 import { JwtModule, JwtModuleOptions } from '@nestjs/jwt';
 import { PassportModule } from '@nestjs/passport';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { MailModule } from '../mail/mail.module';
+import { UserWallet } from '../users/entities/user-wallet.entity';
+import { User } from '../users/entities/user.entity';
 import { UsersModule } from '../users/users.module';
+import { AdminSessionsController } from './admin-sessions.controller';
 import { AuthController } from './auth.controller';
 import { AuthService } from './auth.service';
+import { AuthSession } from './entities/auth-session.entity';
+import { JwtSigningKey } from './entities/jwt-signing-key.entity';
+import { LoginThrottle } from './entities/login-throttle.entity';
+import { MfaRecoveryCode } from './entities/mfa-recovery-code.entity';
+import { RefreshToken } from './entities/refresh-token.entity';
+import { UserMfa } from './entities/user-mfa.entity';
+import { UserToken } from './entities/user-token.entity';
+import { WalletChallenge } from './entities/wallet-challenge.entity';
+import { JwksController } from './jwks.controller';
 import { JwtStrategy } from './jwt.strategy';
+import { JwtKeysService } from './services/jwt-keys.service';
+import { LoginThrottleService } from './services/login-throttle.service';
+import { MfaService } from './services/mfa.service';
+import { SessionService } from './services/session.service';
+import { UserTokenService } from './services/user-token.service';
+import { WalletChallengeService } from './services/wallet-challenge.service';
+import { WalletsService } from './services/wallets.service';
 
 @Module({
   imports: [
+    TypeOrmModule.forFeature([
+      WalletChallenge,
+      AuthSession,
+      RefreshToken,
+      UserToken,
+      UserMfa,
+      MfaRecoveryCode,
+      LoginThrottle,
+      JwtSigningKey,
+      UserWallet,
+      User,
+    ]),
     UsersModule,
+    MailModule,
     PassportModule.register({ defaultStrategy: 'jwt' }),
+    // Keys come from JwtKeysService; only the defaults are configured here
     JwtModule.registerAsync({
       imports: [ConfigModule],
       useFactory: (configService: ConfigService): JwtModuleOptions =>
         ({
-          secret: configService.get<string>('JWT_SECRET') || 'fallback_secret',
           signOptions: {
             expiresIn: configService.get<string>('JWT_EXPIRES_IN') || '3600s',
           },
@@ -23,8 +57,24 @@ import { JwtStrategy } from './jwt.strategy';
       inject: [ConfigService],
     }),
   ],
-  controllers: [AuthController],
-  providers: [AuthService, JwtStrategy],
-  exports: [AuthService],
+  controllers: [AuthController, JwksController, AdminSessionsController],
+  providers: [
+    AuthService,
+    JwtStrategy,
+    WalletChallengeService,
+    SessionService,
+    UserTokenService,
+    MfaService,
+    LoginThrottleService,
+    JwtKeysService,
+    WalletsService,
+  ],
+  exports: [
+    AuthService,
+    LoginThrottleService,
+    JwtKeysService,
+    SessionService,
+    WalletsService,
+  ],
 })
 export class AuthModule {}
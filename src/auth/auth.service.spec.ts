@@ -0,0 +1,187 @@
+import { BadRequestException } from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+import { CentralizedLoggerService } from '../common/logger/services/centralized-logger.service';
+import { MailService } from '../mail/mail.service';
+import { UsersService } from '../users/providers/users.service';
+import { AuthService } from './auth.service';
+import {
+  EMAIL_VERIFICATION_TOKEN_TTL_HOURS,
+  PASSWORD_RESET_TOKEN_TTL_MINUTES,
+} from './constants';
+import { SessionRevocationReason } from './entities/auth-session.entity';
+import { UserTokenPurpose } from './entities/user-token.entity';
+import { JwtKeysService } from './services/jwt-keys.service';
+import { LoginThrottleService } from './services/login-throttle.service';
+import { MfaService } from './services/mfa.service';
+import { SessionService } from './services/session.service';
+import { UserTokenService } from './services/user-token.service';
+import { WalletChallengeService } from './services/wallet-challenge.service';
+import { WalletsService } from './services/wallets.service';
+
+describe('AuthService', () => {
+  let service: AuthService;
+
+  const user = {
+    id: 'user-1',
+    email: 'learner@example.com',
+    name: 'Learner',
+    emailVerifiedAt: null as Date | null,
+  };
+  const expiresAt = new Date(Date.now() + 60_000);
+  const usersService = {
+    findByEmail: jest.fn(),
+    findById: jest.fn(),
+    update: jest.fn(),
+    markEmailVerified: jest.fn(),
+  };
+  const userTokenService = { issue: jest.fn(), consume: jest.fn() };
+  const mailService = {
+    sendPasswordReset: jest.fn(),
+    sendEmailVerification: jest.fn(),
+  };
+  const sessionService = { revokeAllForUser: jest.fn() };
+  const logger = { setContext: jest.fn(), error: jest.fn() };
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    usersService.findByEmail.mockResolvedValue(user);
+    usersService.findById.mockResolvedValue(user);
+    userTokenService.issue.mockResolvedValue({ token: 'token-1', expiresAt });
+    userTokenService.consume.mockResolvedValue('user-1');
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        AuthService,
+        { provide: UsersService, useValue: usersService },
+        { provide: UserTokenService, useValue: userTokenService },
+        { provide: MailService, useValue: mailService },
+        { provide: SessionService, useValue: sessionService },
+        { provide: JwtKeysService, useValue: {} },
+        { provide: WalletChallengeService, useValue: {} },
+        { provide: WalletsService, useValue: {} },
+        { provide: MfaService, useValue: {} },
+        { provide: LoginThrottleService, useValue: {} },
+        { provide: CentralizedLoggerService, useValue: logger },
+      ],
+    }).compile();
+
+    service = module.get<AuthService>(AuthService);
+  });
+
+  describe('requestPasswordReset', () => {
+    it('should mail a reset link for a known address', async () => {
+      await service.requestPasswordReset(user.email);
+
+      expect(userTokenService.issue).toHaveBeenCalledWith(
+        'user-1',
+        UserTokenPurpose.PASSWORD_RESET,
+        PASSWORD_RESET_TOKEN_TTL_MINUTES * 60 * 1000,
+      );
+      expect(mailService.sendPasswordReset).toHaveBeenCalledWith(
+        user.email,
+        user.name,
+        'token-1',
+        expiresAt,
+      );
+    });
+
+    it('should ignore unknown addresses silently', async () => {
+      usersService.findByEmail.mockResolvedValue(null);
+
+      await expect(
+        service.requestPasswordReset('nobody@example.com'),
+      ).resolves.toBeUndefined();
+      expect(userTokenService.issue).not.toHaveBeenCalled();
+      expect(mailService.sendPasswordReset).not.toHaveBeenCalled();
+    });
+
+    it('should log rather than fail when the mail cannot be sent', async () => {
+      mailService.sendPasswordReset.mockRejectedValue(new Error('SMTP down'));
+
+      await expect(
+        service.requestPasswordReset(user.email),
+      ).resolves.toBeUndefined();
+      expect(logger.error).toHaveBeenCalled();
+    });
+  });
+
+  describe('resetPassword', () => {
+    it('should set the new password and revoke every session', async () => {
+      await service.resetPassword('token-1', 'N3w-passw0rd!');
+
+      expect(userTokenService.consume).toHaveBeenCalledWith(
+        'token-1',
+        UserTokenPurpose.PASSWORD_RESET,
+      );
+      expect(usersService.update).toHaveBeenCalledWith('user-1', {
+        password: 'N3w-passw0rd!',
+      });
+      expect(sessionService.revokeAllForUser).toHaveBeenCalledWith(
+        'user-1',
+        SessionRevocationReason.PASSWORD_RESET,
+      );
+    });
+
+    it('should leave the password alone when the token is invalid', async () => {
+      userTokenService.consume.mockRejectedValue(
+        new BadRequestException('Invalid or expired token'),
+      );
+
+      await expect(
+        service.resetPassword('used-token', 'N3w-passw0rd!'),
+      ).rejects.toThrow(BadRequestException);
+      expect(usersService.update).not.toHaveBeenCalled();
+      expect(sessionService.revokeAllForUser).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('email verification', () => {
+    it('should mark the address verified with a valid token', async () => {
+      await service.verifyEmail('token-1');
+
+      expect(userTokenService.consume).toHaveBeenCalledWith(
+        'token-1',
+        UserTokenPurpose.EMAIL_VERIFICATION,
+      );
+      expect(usersService.markEmailVerified).toHaveBeenCalledWith('user-1');
+    });
+
+    it('should not verify with an invalid token', async () => {
+      userTokenService.consume.mockRejectedValue(
+        new BadRequestException('Invalid or expired token'),
+      );
+
+      await expect(service.verifyEmail('expired')).rejects.toThrow(
+        BadRequestException,
+      );
+      expect(usersService.markEmailVerified).not.toHaveBeenCalled();
+    });
+
+    it('should resend the verification link to unverified users', async () => {
+      await service.resendEmailVerification('user-1');
+
+      expect(userTokenService.issue).toHaveBeenCalledWith(
+        'user-1',
+        UserTokenPurpose.EMAIL_VERIFICATION,
+        EMAIL_VERIFICATION_TOKEN_TTL_HOURS * 60 * 60 * 1000,
+      );
+      expect(mailService.sendEmailVerification).toHaveBeenCalledWith(
+        user.email,
+        user.name,
+        'token-1',
+      );
+    });
+
+    it('should refuse to resend once the address is verified', async () => {
+      usersService.findById.mockResolvedValue({
+        ...user,
+        emailVerifiedAt: new Date(),
+      });
+
+      await expect(service.resendEmailVerification('user-1')).rejects.toThrow(
+        BadRequestException,
+      );
+      expect(userTokenService.issue).not.toHaveBeenCalled();
+    });
+  });
+});
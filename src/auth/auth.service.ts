@@ -1,22 +1,78 @@
-import { Injectable, UnauthorizedException } from '@nestjs/common';
-import { JwtService } from '@nestjs/jwt';
+import {
+  BadRequestException,
+  ForbiddenException,
+  Inject,
+  Injectable,
+  UnauthorizedException,
+} from '@nestjs/common';
 import * as bcrypt from 'bcrypt';
-import { Keypair } from 'stellar-sdk';
+import { CentralizedLoggerService } from '../common/logger/services/centralized-logger.service';
+import { MailService } from '../mail/mail.service';
 import { CreateUserDto } from '../users/dto/create-user.dto';
 import { UserResponseDto } from '../users/dto/user-response.dto';
+import { WalletChain } from '../users/entities/user-wallet.entity';
+import type { User } from '../users/entities/user.entity';
 import { UsersService } from '../users/providers/users.service';
+import {
+  EMAIL_VERIFICATION_TOKEN_TTL_HOURS,
+  MFA_TOKEN_TTL_SECONDS,
+  PASSWORD_RESET_TOKEN_TTL_MINUTES,
+} from './constants';
+import { AuthTokensDto } from './dto/auth-tokens.dto';
 import { LoginDto } from './dto/login.dto';
+import {
+  MfaChallengeDto,
+  MfaEnrollmentTokensDto,
+  MfaSetupResponseDto,
+} from './dto/mfa.dto';
+import { WalletChallengeResponseDto } from './dto/wallet-challenge.dto';
 import { WalletVerificationDto } from './dto/wallet-verification.dto';
+import {
+  SessionLoginMethod,
+  SessionRevocationReason,
+} from './entities/auth-session.entity';
+import { UserTokenPurpose } from './entities/user-token.entity';
+import {
+  AuthenticatedUser,
+  JwtPayload,
+  MfaTokenPayload,
+} from './interfaces/authenticated-user.interface';
+import { SessionClientInfo } from './interfaces/session-client.interface';
+import { JwtKeysService } from './services/jwt-keys.service';
+import { LoginThrottleService } from './services/login-throttle.service';
+import { MfaService } from './services/mfa.service';
+import { SessionService } from './services/session.service';
+import { UserTokenService } from './services/user-token.service';
+import { WalletChallengeService } from './services/wallet-challenge.service';
+import { WalletsService } from './services/wallets.service';
+
+/** Result of a first login factor: either tokens or a pending MFA step. */
+export type LoginResult = AuthTokensDto | MfaChallengeDto;
 
 @Injectable()
 export class AuthService {
   constructor(
     private readonly usersService: UsersService,
-    private readonly jwtService: JwtService,
-  ) {}
+    private readonly jwtKeysService: JwtKeysService,
+    private readonly walletChallengeService: WalletChallengeService,
+    private readonly walletsService: WalletsService,
+    private readonly sessionService: SessionService,
+    private readonly userTokenService: UserTokenService,
+    private readonly mailService: MailService,
+    private readonly mfaService: MfaService,
+    private readonly loginThrottleService: LoginThrottleService,
+    @Inject(CentralizedLoggerService)
+    private readonly logger: CentralizedLoggerService,
+  ) {
+    this.logger.setContext(AuthService.name);
+  }
 
   async validateUser(email: string, pass: string): Promise<any> {
     const user = await this.usersService.findByEmailWithPassword(email);
+    // Service accounts authenticate with API keys only
+    if (user?.isServiceAccount) {
+      return null;
+    }
     if (user && (await bcrypt.compare(pass, user.password))) {
       // eslint-disable-next-line @typescript-eslint/no-unused-vars
       const { password, ...result } = user;
@@ -25,76 +81,362 @@ export class AuthService {
     return null;
   }
 
-  async login(loginDto: LoginDto): Promise<{ accessToken: string }> {
+  async login(
+    loginDto: LoginDto,
+    client: SessionClientInfo = {},
+  ): Promise<LoginResult> {
+    const { ip } = client;
+    await this.loginThrottleService.assertCanAttempt(loginDto.email, ip);
+
     const user = await this.validateUser(loginDto.email, loginDto.password);
     if (!user) {
+      await this.loginThrottleService.recordFailure(loginDto.email, ip);
       throw new UnauthorizedException('Invalid credentials');
     }
 
-    const payload = { email: user.email, sub: user.id, role: user.role };
+    const result = await this.completeFirstFactor(
+      user,
+      SessionLoginMethod.PASSWORD,
+      client,
+    );
+    // With MFA pending, failures keep counting until the code is verified
+    if ('accessToken' in result) {
+      await this.loginThrottleService.recordSuccess(loginDto.email);
+    }
+    return result;
+  }
+
+  /**
+   * Second login step: exchanges an MFA token and a code for tokens. Wrong
+   * codes count as failed logins of the account.
+   */
+  async verifyMfa(
+    mfaToken: string,
+    code: string,
+    client: SessionClientInfo = {},
+  ): Promise<AuthTokensDto> {
+    const { ip } = client;
+    const { sub, method } = await this.verifyMfaToken(mfaToken, 'mfa');
+    const user = await this.usersService.findById(sub);
+    await this.loginThrottleService.assertCanAttempt(user.email, ip);
+
+    try {
+      await this.mfaService.verify(sub, code);
+    } catch (error) {
+      await this.loginThrottleService.recordFailure(user.email, ip);
+      throw error;
+    }
+
+    await this.loginThrottleService.recordSuccess(user.email);
+    return this.issueTokens(user, method, client);
+  }
+
+  /** Starts the enrollment a role with mandatory MFA must finish at login. */
+  async beginRequiredMfaEnrollment(
+    mfaToken: string,
+  ): Promise<MfaSetupResponseDto> {
+    const { sub } = await this.verifyMfaToken(mfaToken, 'mfa_enroll');
+    const user = await this.usersService.findById(sub);
+
+    return this.mfaService.beginEnrollment(user.id, user.email);
+  }
+
+  async confirmRequiredMfaEnrollment(
+    mfaToken: string,
+    code: string,
+    client: SessionClientInfo = {},
+  ): Promise<MfaEnrollmentTokensDto> {
+    const { sub, method } = await this.verifyMfaToken(mfaToken, 'mfa_enroll');
+
+    const recoveryCodes = await this.mfaService.confirmEnrollment(sub, code);
+    const user = await this.usersService.findById(sub);
+    await this.loginThrottleService.recordSuccess(user.email);
+    return {
+      ...(await this.issueTokens(user, method, client)),
+      recoveryCodes,
+    };
+  }
+
+  /** Rotates a refresh token and returns a fresh token pair. */
+  async refresh(refreshToken: string): Promise<AuthTokensDto> {
+    const { session, refreshToken: nextRefreshToken } =
+      await this.sessionService.rotateRefreshToken(refreshToken);
+    const user = await this.usersService.findById(session.userId);
+
     return {
-      accessToken: this.jwtService.sign(payload),
+      accessToken: this.signAccessToken(user, session.id),
+      refreshToken: nextRefreshToken,
     };
   }
+
+  /** Ends the session the given refresh token belongs to. */
+  async logout(refreshToken: string): Promise<void> {
+    const session =
+      await this.sessionService.findActiveSessionByRefreshToken(refreshToken);
+    if (session) {
+      await this.sessionService.revokeSession(
+        session.id,
+        SessionRevocationReason.LOGOUT,
+      );
+    }
+  }
+
+  /** Revokes every session of the user, on every device. */
+  async logoutAll(userId: string): Promise<{ revokedSessions: number }> {
+    const revokedSessions = await this.sessionService.revokeAllForUser(
+      userId,
+      SessionRevocationReason.LOGOUT_ALL,
+    );
+    return { revokedSessions };
+  }
+
+  async setupMfa(
+    user: Pick<AuthenticatedUser, 'id' | 'email'>,
+  ): Promise<MfaSetupResponseDto> {
+    return this.mfaService.beginEnrollment(user.id, user.email);
+  }
+
+  async enableMfa(userId: string, code: string): Promise<string[]> {
+    return this.mfaService.confirmEnrollment(userId, code);
+  }
+
+  async disableMfa(
+    user: Pick<AuthenticatedUser, 'id' | 'role'>,
+    code: string,
+  ): Promise<void> {
+    await this.mfaService.disable(user, code);
+  }
+
+  async regenerateMfaRecoveryCodes(
+    userId: string,
+    code: string,
+  ): Promise<string[]> {
+    return this.mfaService.regenerateRecoveryCodes(userId, code);
+  }
+
   async register(createUserDto: CreateUserDto): Promise<UserResponseDto> {
-    return this.usersService.create(createUserDto);
+    const user = await this.usersService.create(createUserDto);
+    await this.sendEmailVerification(user);
+    return user;
   }
 
-  async verifyWallet(
-    walletVerificationDto: WalletVerificationDto,
-  ): Promise<{ accessToken: string }> {
-    const { publicKey, signature, data } = walletVerificationDto;
+  /**
+   * Mails a password reset link. Unknown addresses are ignored silently so
+   * the endpoint cannot be used to discover registered accounts.
+   */
+  async requestPasswordReset(email: string): Promise<void> {
+    const user = await this.usersService.findByEmail(email);
+    if (!user) {
+      return;
+    }
+
+    const { token, expiresAt } = await this.userTokenService.issue(
+      user.id,
+      UserTokenPurpose.PASSWORD_RESET,
+      PASSWORD_RESET_TOKEN_TTL_MINUTES * 60 * 1000,
+    );
 
     try {
-      // 1. Verify the signature
-      const keypair = Keypair.fromPublicKey(publicKey);
-      const isValid = keypair.verify(
-        Buffer.from(data),
-        Buffer.from(signature, 'base64'),
+      await this.mailService.sendPasswordReset(
+        user.email,
+        user.name,
+        token,
+        expiresAt,
       );
+    } catch (error) {
+      this.logger.error('Failed to send password reset email', error as Error, {
+        userId: user.id,
+      });
+    }
+  }
+
+  /** Sets a new password and signs the user out of every device. */
+  async resetPassword(token: string, newPassword: string): Promise<void> {
+    const userId = await this.userTokenService.consume(
+      token,
+      UserTokenPurpose.PASSWORD_RESET,
+    );
+
+    await this.usersService.update(userId, { password: newPassword });
+    await this.sessionService.revokeAllForUser(
+      userId,
+      SessionRevocationReason.PASSWORD_RESET,
+    );
+  }
+
+  async verifyEmail(token: string): Promise<void> {
+    const userId = await this.userTokenService.consume(
+      token,
+      UserTokenPurpose.EMAIL_VERIFICATION,
+    );
+    await this.usersService.markEmailVerified(userId);
+  }
 
-      if (!isValid) {
-        throw new UnauthorizedException('Invalid Stellar signature');
-      }
-
-      // 2. Find or create user
-      let user = await this.usersService.findByStellarPublicKey(publicKey);
-
-      if (!user) {
-        // For demonstration, we create a user if they don't exist
-        const name = `Stellar User ${publicKey.slice(0, 4)}...${publicKey.slice(-4)}`;
-        const createdUser = await this.usersService.create({
-          name,
-          email: `${publicKey.toLowerCase()}@stellar.auth`,
-          password: Math.random().toString(36).slice(-10),
-        });
-
-        // Update the user with the public key
-        const updatedUser = await this.usersService.update(createdUser.id, {
-          stellarPublicKey: publicKey,
-        } as any);
-        if (!updatedUser) {
-          throw new Error('Failed to update user with Stellar public key');
-        }
-        user = updatedUser as any;
-      }
-
-      if (!user) {
-        throw new UnauthorizedException(
-          'User not found or could not be created',
-        );
-      }
-
-      // 3. Generate token
-      const payload = { email: user.email, sub: user.id, role: user.role };
-      return {
-        accessToken: this.jwtService.sign(payload),
-      };
-    } catch (error: any) {
-      if (error instanceof UnauthorizedException) throw error;
+  async resendEmailVerification(userId: string): Promise<void> {
+    const user = await this.usersService.findById(userId);
+    if (user.emailVerifiedAt) {
+      throw new BadRequestException('Email address is already verified');
+    }
+
+    await this.sendEmailVerification(user);
+  }
+
+  async createWalletChallenge(
+    publicKey: string,
+  ): Promise<WalletChallengeResponseDto> {
+    return this.walletChallengeService.issue(publicKey);
+  }
+
+  async verifyWallet(
+    walletVerificationDto: WalletVerificationDto,
+    client: SessionClientInfo = {},
+  ): Promise<LoginResult> {
+    const { publicKey, signature, nonce } = walletVerificationDto;
+
+    await this.walletChallengeService.redeem(publicKey, nonce, signature);
+
+    // Wallets sign in only once linked to an account with POST /me/wallets
+    const userId = await this.walletsService.findUserIdByAddress(
+      WalletChain.STELLAR,
+      publicKey,
+    );
+    if (!userId) {
       throw new UnauthorizedException(
-        'Stellar authentication failed: ' + (error?.message || 'Unknown error'),
+        'No account is linked to this wallet. Sign in and link it first',
+      );
+    }
+    const user = await this.usersService.findById(userId);
+
+    return this.completeFirstFactor(user, SessionLoginMethod.WALLET, client);
+  }
+
+  /**
+   * Issues tokens straight away unless the user has MFA enabled, or their
+   * role requires MFA and they still have to enroll.
+   */
+  private async completeFirstFactor(
+    user: Pick<User, 'id' | 'email' | 'role'>,
+    method: SessionLoginMethod,
+    client: SessionClientInfo,
+  ): Promise<LoginResult> {
+    await this.assertCanSignIn(user.id, method);
+
+    if (await this.mfaService.isEnabled(user.id)) {
+      return this.issueMfaChallenge(user.id, 'mfa', method);
+    }
+    if (this.mfaService.isRequiredForRole(user.role)) {
+      return this.issueMfaChallenge(user.id, 'mfa_enroll', method);
+    }
+
+    return this.issueTokens(user, method, client);
+  }
+
+  private async assertCanSignIn(
+    userId: string,
+    method: SessionLoginMethod,
+  ): Promise<void> {
+    const account = await this.usersService.findAccountState(userId);
+    if (!account || account.anonymizedAt) {
+      throw new UnauthorizedException('Invalid credentials');
+    }
+    if (account.suspendedAt) {
+      throw new ForbiddenException('This account is suspended');
+    }
+    // Wallet sign-in proves a different credential, so it stays available
+    if (
+      account.passwordResetRequired &&
+      method === SessionLoginMethod.PASSWORD
+    ) {
+      throw new ForbiddenException(
+        'A password reset is required. Use the link sent to your email address',
+      );
+    }
+  }
+
+  private issueMfaChallenge(
+    userId: string,
+    typ: MfaTokenPayload['typ'],
+    method: SessionLoginMethod,
+  ): MfaChallengeDto {
+    const payload: MfaTokenPayload = { sub: userId, typ, method };
+
+    return {
+      mfaRequired: true,
+      mfaEnrollmentRequired: typ === 'mfa_enroll',
+      mfaToken: this.jwtKeysService.sign(payload, {
+        expiresIn: MFA_TOKEN_TTL_SECONDS,
+      }),
+      expiresIn: MFA_TOKEN_TTL_SECONDS,
+    };
+  }
+
+  private async verifyMfaToken(
+    mfaToken: string,
+    typ: MfaTokenPayload['typ'],
+  ): Promise<MfaTokenPayload> {
+    let payload: MfaTokenPayload;
+    try {
+      payload = await this.jwtKeysService.verify<MfaTokenPayload>(mfaToken);
+    } catch {
+      throw new UnauthorizedException('Invalid or expired MFA token');
+    }
+
+    if (payload.typ !== typ || !payload.sub) {
+      throw new UnauthorizedException('Invalid or expired MFA token');
+    }
+    return payload;
+  }
+
+  private async issueTokens(
+    user: Pick<User, 'id' | 'email' | 'role'>,
+    method: SessionLoginMethod | undefined,
+    client: SessionClientInfo,
+  ): Promise<AuthTokensDto> {
+    const { session, refreshToken } = await this.sessionService.createSession(
+      user.id,
+      method,
+      client,
+    );
+
+    return {
+      accessToken: this.signAccessToken(user, session.id),
+      refreshToken,
+    };
+  }
+
+  private signAccessToken(
+    user: Pick<User, 'id' | 'email' | 'role'>,
+    sessionId: string,
+  ): string {
+    const payload: JwtPayload = {
+      email: user.email,
+      sub: user.id,
+      role: user.role,
+      sid: sessionId,
+    };
+    return this.jwtKeysService.sign(payload);
+  }
+
+  private async sendEmailVerification(
+    user: Pick<User, 'id' | 'email' | 'name'>,
+  ): Promise<void> {
+    const { token } = await this.userTokenService.issue(
+      user.id,
+      UserTokenPurpose.EMAIL_VERIFICATION,
+      EMAIL_VERIFICATION_TOKEN_TTL_HOURS * 60 * 60 * 1000,
+    );
+
+    // A mail outage must not fail registration; the user can ask for a resend
+    try {
+      await this.mailService.sendEmailVerification(
+        user.email,
+        user.name,
+        token,
       );
+    } catch (error) {
+      this.logger.error('Failed to send verification email', error as Error, {
+        userId: user.id,
+      });
     }
   }
 }
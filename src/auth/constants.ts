@@ -0,0 +1,93 @@
+// Lifetime of a wallet sign-in challenge before it must be re-requested
+export const WALLET_CHALLENGE_TTL_SECONDS = 300;
+
+// Number of random bytes used for a wallet challenge nonce
+export const WALLET_CHALLENGE_NONCE_BYTES = 32;
+
+// Domain embedded in wallet challenges when WALLET_AUTH_DOMAIN is not set
+export const DEFAULT_WALLET_AUTH_DOMAIN = 'skillcert';
+
+// Prefix used by SEP-53 wallets (e.g. Freighter) when signing plain messages
+export const STELLAR_SIGNED_MESSAGE_PREFIX = 'Stellar Signed Message:\n';
+
+// Lifetime of a refresh token (and of an idle session) when JWT_REFRESH_EXPIRES_IN_DAYS is not set
+export const REFRESH_TOKEN_TTL_DAYS = 30;
+
+// Number of random bytes in an opaque refresh token
+export const REFRESH_TOKEN_BYTES = 48;
+
+// A session's lastActiveAt is written at most this often, to spare a write per request
+export const SESSION_ACTIVITY_RESOLUTION_MS = 60 * 1000;
+
+// Lifetime of a password reset link
+export const PASSWORD_RESET_TOKEN_TTL_MINUTES = 60;
+
+// Lifetime of an email verification link
+export const EMAIL_VERIFICATION_TOKEN_TTL_HOURS = 48;
+
+// Number of random bytes in mailed single-use tokens
+export const USER_TOKEN_BYTES = 32;
+
+// Issuer shown in authenticator apps when MFA_ISSUER is not set
+export const DEFAULT_MFA_ISSUER = 'SkillCert';
+
+// Lifetime of the token bridging password login and the MFA step
+export const MFA_TOKEN_TTL_SECONDS = 300;
+
+// TOTP steps of clock drift accepted either side of the current one
+export const TOTP_VERIFICATION_WINDOW = 1;
+
+// Number of recovery codes generated when MFA is enabled
+export const MFA_RECOVERY_CODE_COUNT = 10;
+
+// Number of random bytes in a recovery code (rendered as xxxxx-xxxxx)
+export const MFA_RECOVERY_CODE_BYTES = 5;
+
+// Failed logins are forgotten after this long without a new failure
+export const LOGIN_ATTEMPT_WINDOW_MINUTES = 15;
+
+// Failures per account before progressive delays start
+export const LOGIN_ACCOUNT_FREE_ATTEMPTS = 3;
+
+// Failures per client IP before progressive delays start
+export const LOGIN_IP_FREE_ATTEMPTS = 10;
+
+// First delay once free attempts are used up; it doubles with each failure
+export const LOGIN_DELAY_BASE_SECONDS = 1;
+
+// Upper bound of the progressive delay between attempts
+export const LOGIN_DELAY_MAX_SECONDS = 60;
+
+// Failures per account that lock it when LOGIN_MAX_FAILED_ATTEMPTS is not set
+export const LOGIN_MAX_FAILED_ATTEMPTS = 10;
+
+// Failures per client IP that lock it when LOGIN_IP_MAX_FAILED_ATTEMPTS is not set
+export const LOGIN_IP_MAX_FAILED_ATTEMPTS = 50;
+
+// Lockout duration when LOGIN_LOCKOUT_MINUTES is not set
+export const LOGIN_LOCKOUT_MINUTES = 15;
+
+// Verified wallets a single user may link
+export const MAX_WALLETS_PER_USER = 10;
+
+// Email domain of accounts created by the former wallet sign-up, which have no known password
+export const LEGACY_WALLET_EMAIL_DOMAIN = 'stellar.auth';
+
+// Signing algorithms supported for access and MFA tokens
+export const JWT_ALGORITHMS = ['RS256', 'ES256'] as const;
+
+// Algorithm of newly generated signing keys when JWT_ALGORITHM is not set
+export const DEFAULT_JWT_ALGORITHM = 'RS256';
+
+// Age at which the signing key is replaced when JWT_KEY_ROTATION_DAYS is not set
+export const JWT_KEY_ROTATION_DAYS = 30;
+
+// How long a replaced key still verifies tokens when JWT_KEY_RETENTION_HOURS is not set.
+// Must exceed the access token lifetime (JWT_EXPIRES_IN)
+export const JWT_KEY_RETENTION_HOURS = 24;
+
+// How often each instance checks whether rotation is due and reloads keys
+export const JWT_KEY_REFRESH_INTERVAL_MINUTES = 60;
+
+// Browsers and other services may cache the JWKS document this long
+export const JWKS_CACHE_MAX_AGE_SECONDS = 300;
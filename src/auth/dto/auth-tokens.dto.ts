@@ -0,0 +1,12 @@
+import { ApiProperty } from '@nestjs/swagger';
+
+export class AuthTokensDto {
+  @ApiProperty({ description: 'Short-lived JWT used as a bearer token' })
+  accessToken: string;
+
+  @ApiProperty({
+    description:
+      'Opaque single-use token exchanged at POST /auth/refresh for a new token pair',
+  })
+  refreshToken: string;
+}
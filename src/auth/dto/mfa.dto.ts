@@ -0,0 +1,85 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsNotEmpty, IsString, Length, Matches } from 'class-validator';
+import { AuthTokensDto } from './auth-tokens.dto';
+
+export class MfaCodeDto {
+  @ApiProperty({
+    description:
+      'Six-digit code from the authenticator app, or an unused recovery code',
+    example: '123456',
+  })
+  @IsNotEmpty()
+  @IsString()
+  @Length(6, 11)
+  @Matches(/^(\d{6}|[0-9a-fA-F]{5}-?[0-9a-fA-F]{5})$/, {
+    message: 'code must be a 6-digit TOTP code or a recovery code',
+  })
+  code: string;
+}
+
+export class MfaTokenDto {
+  @ApiProperty({ description: 'MFA token returned by POST /auth/login' })
+  @IsNotEmpty()
+  @IsString()
+  mfaToken: string;
+}
+
+export class MfaVerifyDto extends MfaCodeDto {
+  @ApiProperty({ description: 'MFA token returned by POST /auth/login' })
+  @IsNotEmpty()
+  @IsString()
+  mfaToken: string;
+}
+
+export class MfaChallengeDto {
+  @ApiProperty({ example: true })
+  mfaRequired: true;
+
+  @ApiProperty({
+    description:
+      'True when the role requires MFA but the user has not enrolled yet; complete POST /auth/mfa/enroll first',
+  })
+  mfaEnrollmentRequired: boolean;
+
+  @ApiProperty({
+    description: 'Short-lived token for the second login step',
+  })
+  mfaToken: string;
+
+  @ApiProperty({ description: 'Seconds until the MFA token expires' })
+  expiresIn: number;
+}
+
+export class MfaSetupResponseDto {
+  @ApiProperty({ description: 'Base32 shared secret for manual entry' })
+  secret: string;
+
+  @ApiProperty({
+    description: 'otpauth:// URI imported by authenticator apps',
+    example:
+      'otpauth://totp/SkillCert%3Auser%40example.com?secret=JBSWY3DPEHPK3PXP&issuer=SkillCert',
+  })
+  otpauthUrl: string;
+
+  @ApiProperty({
+    description: 'The otpauth URI rendered as a PNG QR code data URL',
+    example: 'data:image/png;base64,iVBORw0KGgo...',
+  })
+  qrCodeDataUrl: string;
+}
+
+export class MfaRecoveryCodesDto {
+  @ApiProperty({
+    type: [String],
+    description: 'Single-use recovery codes. They are only shown once',
+  })
+  recoveryCodes: string[];
+}
+
+export class MfaEnrollmentTokensDto extends AuthTokensDto {
+  @ApiProperty({
+    type: [String],
+    description: 'Single-use recovery codes. They are only shown once',
+  })
+  recoveryCodes: string[];
+}
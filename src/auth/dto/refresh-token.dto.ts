@@ -0,0 +1,11 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsNotEmpty, IsString } from 'class-validator';
+
+export class RefreshTokenDto {
+  @ApiProperty({
+    description: 'Refresh token returned by the last login or refresh',
+  })
+  @IsNotEmpty()
+  @IsString()
+  refreshToken: string;
+}
@@ -0,0 +1,34 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { SessionLoginMethod } from '../entities/auth-session.entity';
+
+export class SessionResponseDto {
+  @ApiProperty()
+  id: string;
+
+  @ApiProperty({ enum: SessionLoginMethod })
+  loginMethod: SessionLoginMethod;
+
+  @ApiProperty({ nullable: true, example: 'Firefox on Linux' })
+  device: string | null;
+
+  @ApiProperty({ nullable: true })
+  ip: string | null;
+
+  @ApiProperty({ nullable: true })
+  userAgent: string | null;
+
+  @ApiProperty()
+  createdAt: Date;
+
+  @ApiProperty({
+    nullable: true,
+    description: 'Last authenticated request, accurate to about a minute',
+  })
+  lastActiveAt: Date | null;
+
+  @ApiProperty({ description: 'When the session ends unless refreshed' })
+  expiresAt: Date;
+
+  @ApiProperty({ description: 'True for the session making this request' })
+  current: boolean;
+}
@@ -0,0 +1,36 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { IsOptional, IsString, MaxLength } from 'class-validator';
+import { WalletChain } from '../../users/entities/user-wallet.entity';
+import { WalletVerificationDto } from './wallet-verification.dto';
+
+export class LinkWalletDto extends WalletVerificationDto {
+  @ApiPropertyOptional({
+    description: 'Name shown in your wallet list',
+    example: 'Freighter',
+    maxLength: 100,
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  label?: string;
+}
+
+export class UserWalletResponseDto {
+  @ApiProperty()
+  id: string;
+
+  @ApiProperty({ enum: WalletChain })
+  chain: WalletChain;
+
+  @ApiProperty({ example: 'GB...' })
+  address: string;
+
+  @ApiProperty({ nullable: true })
+  label: string | null;
+
+  @ApiProperty({ description: 'Wallet shown on your profile' })
+  isPrimary: boolean;
+
+  @ApiProperty({ description: 'When ownership of the wallet was proven' })
+  verifiedAt: Date;
+}
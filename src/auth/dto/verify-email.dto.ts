@@ -0,0 +1,9 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsNotEmpty, IsString } from 'class-validator';
+
+export class VerifyEmailDto {
+  @ApiProperty({ description: 'Token received in the verification email' })
+  @IsNotEmpty()
+  @IsString()
+  token: string;
+}
@@ -0,0 +1,30 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsNotEmpty, IsString, Length } from 'class-validator';
+
+export class WalletChallengeQueryDto {
+  @ApiProperty({
+    description: 'Stellar public key that will sign the challenge',
+    example: 'GBRPYHIL2CI3FNQ4BXLFMNDLFJUNPU2HY3ZMFSHONUCEOASW7QC7OX2H',
+  })
+  @IsNotEmpty()
+  @IsString()
+  @Length(56, 56)
+  publicKey: string;
+}
+
+export class WalletChallengeResponseDto {
+  @ApiProperty({ description: 'Single-use nonce identifying the challenge' })
+  nonce: string;
+
+  @ApiProperty({ description: 'Domain the challenge was issued for' })
+  domain: string;
+
+  @ApiProperty({ description: 'The exact message the wallet must sign' })
+  message: string;
+
+  @ApiProperty()
+  issuedAt: Date;
+
+  @ApiProperty()
+  expiresAt: Date;
+}
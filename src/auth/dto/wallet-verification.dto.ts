@@ -1,5 +1,5 @@
 import { ApiProperty } from '@nestjs/swagger';
-import { IsNotEmpty, IsString } from 'class-validator';
+import { IsNotEmpty, IsString, Length } from 'class-validator';
 
 export class WalletVerificationDto {
   @ApiProperty({
@@ -12,7 +12,7 @@ export class WalletVerificationDto {
 
   @ApiProperty({
     description:
-      'Signature generated by signing the message with the private key',
+      'Base64 signature of the challenge message, produced with the private key',
     example: '...',
   })
   @IsNotEmpty()
@@ -20,10 +20,12 @@ export class WalletVerificationDto {
   signature: string;
 
   @ApiProperty({
-    description: 'The raw data (message) that was signed',
-    example: 'Signing in to SkillCert',
+    description:
+      'Nonce of the outstanding challenge issued by GET /auth/wallet/challenge',
+    example: '9f86d081884c7d659a2feaa0c55ad015a3bf4f1b2b0b822cd15d6c15b0f00a08',
   })
   @IsNotEmpty()
   @IsString()
-  data: string;
+  @Length(64, 64)
+  nonce: string;
 }
@@ -0,0 +1,91 @@
+import {
+  Column,
+  CreateDateColumn,
+  Entity,
+  Index,
+  JoinColumn,
+  ManyToOne,
+  OneToMany,
+  PrimaryGeneratedColumn,
+  UpdateDateColumn,
+} from 'typeorm';
+import { User } from '../../users/entities/user.entity';
+import { RefreshToken } from './refresh-token.entity';
+
+export enum SessionRevocationReason {
+  LOGOUT = 'logout',
+  LOGOUT_ALL = 'logout_all',
+  TOKEN_REUSE = 'token_reuse',
+  PASSWORD_RESET = 'password_reset',
+  REVOKED_BY_USER = 'revoked_by_user',
+  REVOKED_BY_ADMIN = 'revoked_by_admin',
+  ACCOUNT_SUSPENDED = 'account_suspended',
+  ROLE_CHANGED = 'role_changed',
+}
+
+export enum SessionLoginMethod {
+  PASSWORD = 'password',
+  WALLET = 'wallet',
+}
+
+/**
+ * A login on one device. Every access token carries the session id (`sid`)
+ * so revoking the session invalidates its access and refresh tokens.
+ */
+@Entity('auth_sessions')
+export class AuthSession {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Index()
+  @Column({ type: 'uuid' })
+  userId: string;
+
+  @ManyToOne(() => User, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'userId' })
+  user: User;
+
+  @OneToMany(() => RefreshToken, (token) => token.session)
+  refreshTokens: RefreshToken[];
+
+  @Column({
+    type: 'enum',
+    enum: SessionLoginMethod,
+    default: SessionLoginMethod.PASSWORD,
+  })
+  loginMethod: SessionLoginMethod;
+
+  // Human readable label derived from the user agent, e.g. "Firefox on Linux"
+  @Column({ type: 'varchar', length: 100, nullable: true, default: null })
+  device: string | null;
+
+  @Column({ type: 'varchar', length: 45, nullable: true, default: null })
+  ip: string | null;
+
+  @Column({ type: 'varchar', length: 512, nullable: true, default: null })
+  userAgent: string | null;
+
+  // Refreshed by JwtStrategy at most once per SESSION_ACTIVITY_RESOLUTION_MS
+  @Column({ type: 'timestamp', nullable: true, default: null })
+  lastActiveAt: Date | null;
+
+  @Column({ type: 'timestamp' })
+  expiresAt: Date;
+
+  @Column({ type: 'timestamp', nullable: true, default: null })
+  revokedAt: Date | null;
+
+  @Column({
+    type: 'enum',
+    enum: SessionRevocationReason,
+    nullable: true,
+    default: null,
+  })
+  revokedReason: SessionRevocationReason | null;
+
+  @CreateDateColumn()
+  createdAt: Date;
+
+  @UpdateDateColumn()
+  updatedAt: Date;
+}
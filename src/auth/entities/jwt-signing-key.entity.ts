@@ -0,0 +1,32 @@
+import { Column, CreateDateColumn, Entity, PrimaryColumn } from 'typeorm';
+
+/**
+ * An asymmetric key pair used to sign JWTs, identified by the `kid` header.
+ * The newest unretired key signs; retired keys keep verifying until
+ * `expiresAt` so tokens signed just before a rotation stay valid.
+ */
+@Entity('jwt_signing_keys')
+export class JwtSigningKey {
+  @PrimaryColumn({ type: 'varchar', length: 64 })
+  kid: string;
+
+  @Column({ type: 'varchar', length: 10 })
+  algorithm: string;
+
+  // SPKI PEM, published through /.well-known/jwks.json
+  @Column({ type: 'text' })
+  publicKey: string;
+
+  // PKCS#8 PEM encrypted with JWT_KEY_ENCRYPTION_KEY (AES-256-GCM)
+  @Column({ type: 'text', select: false })
+  encryptedPrivateKey: string;
+
+  @Column({ type: 'timestamp', nullable: true, default: null })
+  retiredAt: Date | null;
+
+  @Column({ type: 'timestamp', nullable: true, default: null })
+  expiresAt: Date | null;
+
+  @CreateDateColumn()
+  createdAt: Date;
+}
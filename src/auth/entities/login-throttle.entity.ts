@@ -0,0 +1,46 @@
+import {
+  Column,
+  CreateDateColumn,
+  Entity,
+  Index,
+  PrimaryGeneratedColumn,
+  UpdateDateColumn,
+} from 'typeorm';
+
+export enum LoginThrottleScope {
+  ACCOUNT = 'account',
+  IP = 'ip',
+}
+
+/**
+ * Failed login attempts for one account (keyed by normalized email) or one
+ * client IP. Rows are keyed by the submitted email rather than the user id,
+ * so unknown addresses are throttled exactly like registered ones.
+ */
+@Entity('login_throttles')
+@Index(['scope', 'key'], { unique: true })
+export class LoginThrottle {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ type: 'enum', enum: LoginThrottleScope })
+  scope: LoginThrottleScope;
+
+  @Column({ type: 'varchar', length: 255 })
+  key: string;
+
+  @Column({ type: 'int', default: 0 })
+  failedAttempts: number;
+
+  @Column({ type: 'timestamp', nullable: true, default: null })
+  lastFailedAt: Date | null;
+
+  @Column({ type: 'timestamp', nullable: true, default: null })
+  lockedUntil: Date | null;
+
+  @CreateDateColumn()
+  createdAt: Date;
+
+  @UpdateDateColumn()
+  updatedAt: Date;
+}
@@ -0,0 +1,38 @@
+import {
+  Column,
+  CreateDateColumn,
+  Entity,
+  Index,
+  JoinColumn,
+  ManyToOne,
+  PrimaryGeneratedColumn,
+} from 'typeorm';
+import { User } from '../../users/entities/user.entity';
+
+/**
+ * Single-use code that stands in for a TOTP code when the authenticator
+ * device is lost. Only the SHA-256 hash of the code is stored.
+ */
+@Entity('mfa_recovery_codes')
+export class MfaRecoveryCode {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Index()
+  @Column({ type: 'uuid' })
+  userId: string;
+
+  @ManyToOne(() => User, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'userId' })
+  user: User;
+
+  @Index({ unique: true })
+  @Column({ type: 'varchar', length: 64 })
+  codeHash: string;
+
+  @Column({ type: 'timestamp', nullable: true, default: null })
+  usedAt: Date | null;
+
+  @CreateDateColumn()
+  createdAt: Date;
+}
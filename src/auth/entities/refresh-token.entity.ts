@@ -0,0 +1,43 @@
+import {
+  Column,
+  CreateDateColumn,
+  Entity,
+  Index,
+  JoinColumn,
+  ManyToOne,
+  PrimaryGeneratedColumn,
+} from 'typeorm';
+import { AuthSession } from './auth-session.entity';
+
+/**
+ * One link in a session's refresh token chain. Only the SHA-256 hash of the
+ * token is stored; a token is spent as soon as it is rotated.
+ */
+@Entity('refresh_tokens')
+export class RefreshToken {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ type: 'uuid' })
+  sessionId: string;
+
+  @ManyToOne(() => AuthSession, (session) => session.refreshTokens, {
+    onDelete: 'CASCADE',
+  })
+  @JoinColumn({ name: 'sessionId' })
+  session: AuthSession;
+
+  @Index({ unique: true })
+  @Column({ type: 'varchar', length: 64 })
+  tokenHash: string;
+
+  @Column({ type: 'timestamp' })
+  expiresAt: Date;
+
+  /** Set when the token was exchanged; presenting it again signals theft. */
+  @Column({ type: 'timestamp', nullable: true, default: null })
+  rotatedAt: Date | null;
+
+  @CreateDateColumn()
+  createdAt: Date;
+}
@@ -0,0 +1,41 @@
+import {
+  Column,
+  CreateDateColumn,
+  Entity,
+  JoinColumn,
+  OneToOne,
+  PrimaryColumn,
+  UpdateDateColumn,
+} from 'typeorm';
+import { User } from '../../users/entities/user.entity';
+
+/**
+ * TOTP enrollment of a user. The row exists from setup onwards but MFA is
+ * only enforced once `enabledAt` is set by confirming a first code.
+ */
+@Entity('user_mfa')
+export class UserMfa {
+  @PrimaryColumn({ type: 'uuid' })
+  userId: string;
+
+  @OneToOne(() => User, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'userId' })
+  user: User;
+
+  // Base32 shared secret; never returned by default queries
+  @Column({ type: 'varchar', length: 64, select: false })
+  secret: string;
+
+  @Column({ type: 'timestamp', nullable: true, default: null })
+  enabledAt: Date | null;
+
+  // Last accepted TOTP time step, so a code cannot be replayed
+  @Column({ type: 'bigint', nullable: true, default: null })
+  lastUsedStep: string | null;
+
+  @CreateDateColumn()
+  createdAt: Date;
+
+  @UpdateDateColumn()
+  updatedAt: Date;
+}
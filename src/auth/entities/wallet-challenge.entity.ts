@@ -0,0 +1,37 @@
+import {
+  Column,
+  CreateDateColumn,
+  Entity,
+  Index,
+  PrimaryGeneratedColumn,
+} from 'typeorm';
+
+@Entity('wallet_challenges')
+@Index(['publicKey', 'nonce'], { unique: true })
+export class WalletChallenge {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ type: 'varchar', length: 56 })
+  publicKey: string;
+
+  @Column({ type: 'varchar', length: 64 })
+  nonce: string;
+
+  @Column({ type: 'varchar', length: 255 })
+  domain: string;
+
+  /** The exact message the wallet is expected to sign. */
+  @Column({ type: 'text' })
+  message: string;
+
+  @Column({ type: 'timestamp' })
+  expiresAt: Date;
+
+  /** Set once the challenge has been redeemed; challenges are single-use. */
+  @Column({ type: 'timestamp', nullable: true, default: null })
+  consumedAt: Date | null;
+
+  @CreateDateColumn()
+  createdAt: Date;
+}
@@ -0,0 +1,21 @@
+import { HttpException, HttpStatus } from '@nestjs/common';
+
+/** Thrown while a login is delayed or locked out; carries the Retry-After value. */
+export class TooManyLoginAttemptsException extends HttpException {
+  constructor(
+    readonly retryAfterSeconds: number,
+    readonly locked: boolean,
+  ) {
+    super(
+      {
+        statusCode: HttpStatus.TOO_MANY_REQUESTS,
+        message: locked
+          ? 'Too many failed login attempts. Login is temporarily locked'
+          : 'Too many failed login attempts. Please wait before retrying',
+        error: 'Too Many Requests',
+        retryAfter: retryAfterSeconds,
+      },
+      HttpStatus.TOO_MANY_REQUESTS,
+    );
+  }
+}
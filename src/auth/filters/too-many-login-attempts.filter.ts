@@ -0,0 +1,15 @@
+import { ArgumentsHost, Catch, ExceptionFilter } from '@nestjs/common';
+import { Response } from 'express';
+import { TooManyLoginAttemptsException } from '../exceptions/too-many-login-attempts.exception';
+
+@Catch(TooManyLoginAttemptsException)
+export class TooManyLoginAttemptsFilter implements ExceptionFilter {
+  catch(exception: TooManyLoginAttemptsException, host: ArgumentsHost) {
+    const response = host.switchToHttp().getResponse<Response>();
+
+    response
+      .status(exception.getStatus())
+      .setHeader('Retry-After', String(exception.retryAfterSeconds))
+      .json(exception.getResponse());
+  }
+}
@@ -0,0 +1,42 @@
+import type { Request } from 'express';
+import type { UserRole } from '../../users/enums/user-role.enum';
+import type { SessionLoginMethod } from '../entities/auth-session.entity';
+
+/**
+ * Shape of `req.user` once AuthGuard has validated the bearer token or API
+ * key. Exactly one of `sessionId` and `apiKey` is set.
+ */
+export interface AuthenticatedUser {
+  id: string;
+  email: string;
+  role: UserRole;
+  sessionId?: string;
+  apiKey?: { id: string; scopes: string[] };
+  // Admin acting as this user through an impersonation token
+  impersonatorId?: string;
+}
+
+export interface AuthenticatedRequest extends Request {
+  user: AuthenticatedUser;
+}
+
+/** Claims carried by access tokens issued by AuthService. */
+export interface JwtPayload {
+  sub: string;
+  email: string;
+  role: UserRole;
+  sid: string;
+  // RFC 8693 actor claim, only present on impersonation tokens
+  act?: { sub: string };
+}
+
+/**
+ * Claims of the short-lived token issued between the password step and the
+ * MFA step. It has no `sid`, so JwtStrategy never accepts it as an access token.
+ */
+export interface MfaTokenPayload {
+  sub: string;
+  typ: 'mfa' | 'mfa_enroll';
+  // First factor used, recorded on the session once MFA completes
+  method?: SessionLoginMethod;
+}
@@ -0,0 +1,5 @@
+/** Client details recorded on a session when it is created. */
+export interface SessionClientInfo {
+  ip?: string;
+  userAgent?: string;
+}
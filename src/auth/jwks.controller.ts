@@ -0,0 +1,23 @@
+import { Controller, Get, Header } from '@nestjs/common';
+import { ApiOperation, ApiResponse, ApiTags } from '@nestjs/swagger';
+import { Public } from '../common/decorators/public.decorator';
+import { AllowDuringMaintenance } from '../maintenance/decorators/allow-during-maintenance.decorator';
+import { JWKS_CACHE_MAX_AGE_SECONDS } from './constants';
+import { JwtKeysService } from './services/jwt-keys.service';
+
+/** Lets other services verify our tokens without sharing a secret. */
+@Controller('.well-known')
+@ApiTags('auth')
+export class JwksController {
+  constructor(private readonly jwtKeysService: JwtKeysService) {}
+
+  @Get('jwks.json')
+  @Public()
+  @AllowDuringMaintenance()
+  @Header('Cache-Control', `public, max-age=${JWKS_CACHE_MAX_AGE_SECONDS}`)
+  @ApiOperation({ summary: 'Public keys that verify issued JWTs (JWKS)' })
+  @ApiResponse({ status: 200, description: 'JSON Web Key Set' })
+  getJwks() {
+    return this.jwtKeysService.getJwks();
+  }
+}
@@ -1,27 +1,60 @@
 import { Injectable, UnauthorizedException } from '@nestjs/common';
-import { ConfigService } from '@nestjs/config';
 import { PassportStrategy } from '@nestjs/passport';
 import { ExtractJwt, Strategy } from 'passport-jwt';
+import { UsersService } from '../users/providers/users.service';
+import { JWT_ALGORITHMS } from './constants';
+import {
+  AuthenticatedUser,
+  JwtPayload,
+} from './interfaces/authenticated-user.interface';
+import { JwtKeysService } from './services/jwt-keys.service';
+import { SessionService } from './services/session.service';
 
 @Injectable()
 export class JwtStrategy extends PassportStrategy(Strategy) {
-  constructor(configService: ConfigService) {
+  constructor(
+    jwtKeysService: JwtKeysService,
+    private readonly sessionService: SessionService,
+    private readonly usersService: UsersService,
+  ) {
     super({
       jwtFromRequest: ExtractJwt.fromAuthHeaderAsBearerToken(),
       ignoreExpiration: false,
-      secretOrKey: configService.get<string>('JWT_SECRET') || 'fallback_secret',
+      algorithms: [...JWT_ALGORITHMS],
+      // Picks the public key named by the token's `kid` header
+      secretOrKeyProvider: (_request, rawJwtToken: string, done) => {
+        jwtKeysService
+          .getVerificationKey(rawJwtToken)
+          .then((key) => done(null, key.publicKey))
+          .catch((error: Error) => done(error));
+      },
     });
   }
 
-  async validate(payload: any) {
-    if (!payload.sub || !payload.email) {
+  async validate(payload: JwtPayload): Promise<AuthenticatedUser> {
+    // Also rejects MFA tokens, which carry neither an email nor a session id
+    if (!payload.sub || !payload.email || !payload.sid) {
       throw new UnauthorizedException();
     }
+
+    // Tokens die with their session (logout, revocation, refresh token reuse)
+    const isActive = await this.sessionService.touchSession(payload.sid);
+    if (!isActive) {
+      throw new UnauthorizedException('Session has been revoked');
+    }
+
+    // Checked on every request so a suspension applies to tokens already issued
+    if (await this.usersService.isBlocked(payload.sub)) {
+      throw new UnauthorizedException('Account is suspended');
+    }
+
     // This returned object is attached as `req.user`
     return {
       id: payload.sub,
       email: payload.email,
       role: payload.role,
+      sessionId: payload.sid,
+      impersonatorId: payload.act?.sub,
     };
   }
 }
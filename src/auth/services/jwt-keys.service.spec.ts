@@ -0,0 +1,157 @@
+import { UnauthorizedException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { JwtService } from '@nestjs/jwt';
+import { randomBytes } from 'crypto';
+import { FindOperator, Repository } from 'typeorm';
+import { CentralizedLoggerService } from '../../common/logger/services/centralized-logger.service';
+import { JwtSigningKey } from '../entities/jwt-signing-key.entity';
+import { JwtKeysService } from './jwt-keys.service';
+
+describe('JwtKeysService', () => {
+  let rows: JwtSigningKey[];
+  let service: JwtKeysService;
+
+  const config: Record<string, string | undefined> = {};
+  const configService = {
+    get: jest.fn((key: string) => config[key]),
+  } as unknown as ConfigService;
+  const logger = {
+    setContext: jest.fn(),
+    info: jest.fn(),
+    error: jest.fn(),
+  } as unknown as CentralizedLoggerService;
+
+  // Evaluates the IsNull/LessThan/MoreThan conditions the service uses
+  const matches = (row: JwtSigningKey, where: Record<string, unknown>) =>
+    Object.entries(where).every(([column, expected]) => {
+      const actual = row[column as keyof JwtSigningKey] as Date | null;
+      if (!(expected instanceof FindOperator)) {
+        return actual === expected;
+      }
+      const value = expected.value as Date;
+      switch (expected.type) {
+        case 'isNull':
+          return actual === null;
+        case 'lessThan':
+          return actual !== null && actual < value;
+        case 'moreThan':
+          return actual !== null && actual > value;
+        default:
+          throw new Error(`Unsupported operator ${expected.type}`);
+      }
+    });
+  const anyMatch = (row: JwtSigningKey, where: object | object[]) =>
+    (Array.isArray(where) ? where : [where]).some((condition) =>
+      matches(row, condition as Record<string, unknown>),
+    );
+  const newestFirst = (keys: JwtSigningKey[]) =>
+    [...keys].sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+
+  const keyRepository = {
+    create: (data: Partial<JwtSigningKey>) => data as JwtSigningKey,
+    save: (row: JwtSigningKey) => {
+      // Strictly increasing timestamps keep the ordering deterministic
+      const saved = {
+        ...row,
+        retiredAt: null,
+        expiresAt: null,
+        createdAt: new Date(Date.now() + rows.length),
+      };
+      rows.push(saved);
+      return Promise.resolve(saved);
+    },
+    findOne: ({ where }: { where: object }) =>
+      Promise.resolve(
+        newestFirst(rows).find((row) => anyMatch(row, where)) ?? null,
+      ),
+    find: ({ where }: { where: object[] }) =>
+      Promise.resolve(newestFirst(rows).filter((row) => anyMatch(row, where))),
+    update: (where: object, changes: Partial<JwtSigningKey>) => {
+      rows
+        .filter((row) => anyMatch(row, where))
+        .forEach((row) => Object.assign(row, changes));
+      return Promise.resolve({});
+    },
+    delete: (where: object) => {
+      rows = rows.filter((row) => !anyMatch(row, where));
+      return Promise.resolve({});
+    },
+  };
+
+  const createService = () =>
+    new JwtKeysService(
+      keyRepository as unknown as Repository<JwtSigningKey>,
+      new JwtService({ signOptions: { expiresIn: '60s' } }),
+      configService,
+      logger,
+    );
+
+  beforeEach(async () => {
+    rows = [];
+    config.JWT_KEY_ENCRYPTION_KEY = randomBytes(32).toString('base64');
+    config.JWT_ALGORITHM = 'ES256';
+    service = createService();
+    await service.refresh();
+  });
+
+  it('should refuse to start without an encryption key', () => {
+    config.JWT_KEY_ENCRYPTION_KEY = undefined;
+
+    expect(createService).toThrow('JWT_KEY_ENCRYPTION_KEY');
+  });
+
+  it('should generate a key on first start and sign with its kid', async () => {
+    const token = service.sign({ sub: 'user-1' });
+
+    expect(rows).toHaveLength(1);
+    expect(rows[0].encryptedPrivateKey).not.toContain('PRIVATE KEY');
+    await expect(service.verify(token)).resolves.toMatchObject({
+      sub: 'user-1',
+    });
+    expect(service.getJwks().keys).toEqual([
+      expect.objectContaining({
+        kid: rows[0].kid,
+        alg: 'ES256',
+        kty: 'EC',
+        use: 'sig',
+      }),
+    ]);
+  });
+
+  it('should keep verifying tokens of a retired key after rotation', async () => {
+    const oldToken = service.sign({ sub: 'user-1' });
+
+    const kid = await service.rotate();
+
+    const newToken = service.sign({ sub: 'user-1' });
+    expect(new JwtService().decode(newToken, { complete: true })).toMatchObject(
+      { header: { kid } },
+    );
+    await expect(service.verify(oldToken)).resolves.toMatchObject({
+      sub: 'user-1',
+    });
+    expect(service.getJwks().keys).toHaveLength(2);
+    expect(rows.filter((row) => !row.retiredAt)).toHaveLength(1);
+  });
+
+  it('should share keys between instances through the database', async () => {
+    const otherInstance = createService();
+    await otherInstance.refresh();
+
+    expect(rows).toHaveLength(1);
+    await expect(
+      otherInstance.verify(service.sign({ sub: 'user-1' })),
+    ).resolves.toMatchObject({ sub: 'user-1' });
+  });
+
+  it('should reject tokens signed with an unknown key', async () => {
+    const foreign = new JwtService({ secret: 'not-our-key' }).sign(
+      { sub: 'user-1' },
+      { keyid: 'unknown' },
+    );
+
+    await expect(service.verify(foreign)).rejects.toThrow(
+      UnauthorizedException,
+    );
+  });
+});
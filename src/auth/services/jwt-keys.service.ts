@@ -0,0 +1,309 @@
+import {
+  Inject,
+  Injectable,
+  OnModuleDestroy,
+  OnModuleInit,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { JwtService, JwtSignOptions } from '@nestjs/jwt';
+import { InjectRepository } from '@nestjs/typeorm';
+import {
+  createCipheriv,
+  createDecipheriv,
+  createPublicKey,
+  generateKeyPair,
+  JsonWebKey,
+  randomBytes,
+} from 'crypto';
+import { IsNull, LessThan, MoreThan, Repository } from 'typeorm';
+import { promisify } from 'util';
+import { CentralizedLoggerService } from '../../common/logger/services/centralized-logger.service';
+import {
+  DEFAULT_JWT_ALGORITHM,
+  JWT_ALGORITHMS,
+  JWT_KEY_REFRESH_INTERVAL_MINUTES,
+  JWT_KEY_RETENTION_HOURS,
+  JWT_KEY_ROTATION_DAYS,
+} from '../constants';
+import { JwtSigningKey } from '../entities/jwt-signing-key.entity';
+
+export type JwtAlgorithm = (typeof JWT_ALGORITHMS)[number];
+
+interface LoadedKey {
+  kid: string;
+  algorithm: JwtAlgorithm;
+  publicKey: string;
+}
+
+const generateKeyPairAsync = promisify(generateKeyPair);
+
+const MINUTE_IN_MS = 60 * 1000;
+const HOUR_IN_MS = 60 * MINUTE_IN_MS;
+const DAY_IN_MS = 24 * HOUR_IN_MS;
+
+// Unknown `kid`s trigger a reload (another instance may have rotated), at most this often
+const UNKNOWN_KID_RELOAD_INTERVAL_MS = 30 * 1000;
+
+/**
+ * Owns the asymmetric keys that sign and verify JWTs. Keys live in the
+ * database with their private half encrypted, so every instance shares them;
+ * the signing key is replaced on a schedule and superseded keys keep
+ * verifying for a retention period.
+ */
+@Injectable()
+export class JwtKeysService implements OnModuleInit, OnModuleDestroy {
+  private readonly encryptionKey: Buffer;
+  private readonly algorithm: JwtAlgorithm;
+  private readonly rotationMs: number;
+  private readonly retentionMs: number;
+  private signingKey: (LoadedKey & { privateKey: string }) | null = null;
+  private verificationKeys = new Map<string, LoadedKey>();
+  private lastLoadedAt = 0;
+  private refreshTimer?: NodeJS.Timeout;
+
+  constructor(
+    @InjectRepository(JwtSigningKey)
+    private readonly keyRepository: Repository<JwtSigningKey>,
+    private readonly jwtService: JwtService,
+    configService: ConfigService,
+    @Inject(CentralizedLoggerService)
+    private readonly logger: CentralizedLoggerService,
+  ) {
+    this.logger.setContext(JwtKeysService.name);
+
+    // No fallback secret: refusing to start beats issuing forgeable tokens
+    const encryptionKey = configService.get<string>('JWT_KEY_ENCRYPTION_KEY');
+    this.encryptionKey = Buffer.from(encryptionKey ?? '', 'base64');
+    if (this.encryptionKey.length !== 32) {
+      throw new Error(
+        'JWT_KEY_ENCRYPTION_KEY must be set to 32 random bytes, base64-encoded (openssl rand -base64 32)',
+      );
+    }
+
+    const algorithm =
+      configService.get<string>('JWT_ALGORITHM') || DEFAULT_JWT_ALGORITHM;
+    if (!this.isSupportedAlgorithm(algorithm)) {
+      throw new Error(
+        `JWT_ALGORITHM must be one of ${JWT_ALGORITHMS.join(', ')}`,
+      );
+    }
+    this.algorithm = algorithm;
+
+    this.rotationMs =
+      (Number(configService.get<string>('JWT_KEY_ROTATION_DAYS')) ||
+        JWT_KEY_ROTATION_DAYS) * DAY_IN_MS;
+    this.retentionMs =
+      (Number(configService.get<string>('JWT_KEY_RETENTION_HOURS')) ||
+        JWT_KEY_RETENTION_HOURS) * HOUR_IN_MS;
+  }
+
+  async onModuleInit(): Promise<void> {
+    await this.refresh();
+
+    this.refreshTimer = setInterval(() => {
+      this.refresh().catch((error: Error) =>
+        this.logger.error('Failed to refresh JWT signing keys', error, {
+          operation: 'refresh',
+        }),
+      );
+    }, JWT_KEY_REFRESH_INTERVAL_MINUTES * MINUTE_IN_MS);
+    this.refreshTimer.unref();
+  }
+
+  onModuleDestroy(): void {
+    clearInterval(this.refreshTimer);
+  }
+
+  /** Rotates the signing key when it is missing or due, then reloads all keys. */
+  async refresh(): Promise<void> {
+    const active = await this.keyRepository.findOne({
+      where: { retiredAt: IsNull() },
+      order: { createdAt: 'DESC' },
+    });
+    if (!active || Date.now() - active.createdAt.getTime() >= this.rotationMs) {
+      await this.rotate();
+      return;
+    }
+    await this.load();
+  }
+
+  /**
+   * Generates a new signing key and retires the older ones. Only keys older
+   * than the new one are retired, so concurrent rotations on several
+   * instances still leave exactly one active key.
+   */
+  async rotate(): Promise<string> {
+    const kid = randomBytes(16).toString('base64url');
+    const { publicKey, privateKey } = await this.generateKeyPair();
+
+    const key = await this.keyRepository.save(
+      this.keyRepository.create({
+        kid,
+        algorithm: this.algorithm,
+        publicKey,
+        encryptedPrivateKey: this.encrypt(privateKey),
+      }),
+    );
+
+    const now = Date.now();
+    await this.keyRepository.update(
+      { retiredAt: IsNull(), createdAt: LessThan(key.createdAt) },
+      { retiredAt: new Date(now), expiresAt: new Date(now + this.retentionMs) },
+    );
+    await this.keyRepository.delete({ expiresAt: LessThan(new Date(now)) });
+
+    this.logger.info('JWT signing key rotated', {
+      operation: 'rotate',
+      kid,
+      algorithm: this.algorithm,
+    });
+    await this.load();
+    return kid;
+  }
+
+  sign(
+    payload: object,
+    options: Pick<JwtSignOptions, 'expiresIn'> = {},
+  ): string {
+    if (!this.signingKey) {
+      throw new Error('JWT signing keys have not been loaded');
+    }
+
+    return this.jwtService.sign(payload, {
+      ...options,
+      algorithm: this.signingKey.algorithm,
+      keyid: this.signingKey.kid,
+      privateKey: this.signingKey.privateKey,
+    });
+  }
+
+  async verify<T extends object>(token: string): Promise<T> {
+    const key = await this.getVerificationKey(token);
+    return this.jwtService.verifyAsync<T>(token, {
+      publicKey: key.publicKey,
+      algorithms: [key.algorithm],
+    });
+  }
+
+  /** Finds the public key named by the token's `kid` header. */
+  async getVerificationKey(token: string): Promise<LoadedKey> {
+    const decoded = this.jwtService.decode<{ header?: { kid?: unknown } }>(
+      token,
+      { complete: true },
+    );
+    const kid = decoded?.header?.kid;
+    if (typeof kid !== 'string') {
+      throw new UnauthorizedException('Token has no key id');
+    }
+
+    if (
+      !this.verificationKeys.has(kid) &&
+      Date.now() - this.lastLoadedAt >= UNKNOWN_KID_RELOAD_INTERVAL_MS
+    ) {
+      await this.load();
+    }
+
+    const key = this.verificationKeys.get(kid);
+    if (!key) {
+      throw new UnauthorizedException('Token was signed with an unknown key');
+    }
+    return key;
+  }
+
+  /** Public keys in JSON Web Key Set format, for /.well-known/jwks.json. */
+  getJwks(): { keys: JsonWebKey[] } {
+    return {
+      keys: [...this.verificationKeys.values()].map((key) => ({
+        ...createPublicKey(key.publicKey).export({ format: 'jwk' }),
+        kid: key.kid,
+        alg: key.algorithm,
+        use: 'sig',
+      })),
+    };
+  }
+
+  private async load(): Promise<void> {
+    const keys = await this.keyRepository.find({
+      where: [{ expiresAt: IsNull() }, { expiresAt: MoreThan(new Date()) }],
+      select: {
+        kid: true,
+        algorithm: true,
+        publicKey: true,
+        encryptedPrivateKey: true,
+        retiredAt: true,
+        createdAt: true,
+      },
+      order: { createdAt: 'DESC' },
+    });
+
+    const loaded = keys.filter((key) =>
+      this.isSupportedAlgorithm(key.algorithm),
+    );
+    this.verificationKeys = new Map(
+      loaded.map((key) => [
+        key.kid,
+        {
+          kid: key.kid,
+          algorithm: key.algorithm as JwtAlgorithm,
+          publicKey: key.publicKey,
+        },
+      ]),
+    );
+
+    const active = loaded.find((key) => !key.retiredAt);
+    this.signingKey = active
+      ? {
+          ...this.verificationKeys.get(active.kid)!,
+          privateKey: this.decrypt(active.encryptedPrivateKey),
+        }
+      : null;
+    this.lastLoadedAt = Date.now();
+  }
+
+  private async generateKeyPair(): Promise<{
+    publicKey: string;
+    privateKey: string;
+  }> {
+    const { publicKey, privateKey } =
+      this.algorithm === 'ES256'
+        ? await generateKeyPairAsync('ec', { namedCurve: 'P-256' })
+        : await generateKeyPairAsync('rsa', { modulusLength: 2048 });
+
+    return {
+      publicKey: publicKey.export({ type: 'spki', format: 'pem' }).toString(),
+      privateKey: privateKey
+        .export({ type: 'pkcs8', format: 'pem' })
+        .toString(),
+    };
+  }
+
+  private encrypt(plaintext: string): string {
+    const iv = randomBytes(12);
+    const cipher = createCipheriv('aes-256-gcm', this.encryptionKey, iv);
+    const ciphertext = Buffer.concat([
+      cipher.update(plaintext, 'utf8'),
+      cipher.final(),
+    ]);
+    return [iv, cipher.getAuthTag(), ciphertext]
+      .map((part) => part.toString('base64url'))
+      .join('.');
+  }
+
+  /** Throws when JWT_KEY_ENCRYPTION_KEY differs from the one that encrypted the key. */
+  private decrypt(encrypted: string): string {
+    const [iv, authTag, ciphertext] = encrypted
+      .split('.')
+      .map((part) => Buffer.from(part, 'base64url'));
+    const decipher = createDecipheriv('aes-256-gcm', this.encryptionKey, iv);
+    decipher.setAuthTag(authTag);
+    return Buffer.concat([
+      decipher.update(ciphertext),
+      decipher.final(),
+    ]).toString('utf8');
+  }
+
+  private isSupportedAlgorithm(algorithm: string): algorithm is JwtAlgorithm {
+    return (JWT_ALGORITHMS as readonly string[]).includes(algorithm);
+  }
+}
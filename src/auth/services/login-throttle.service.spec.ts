@@ -0,0 +1,243 @@
+import { ConfigService } from '@nestjs/config';
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { DataSource, FindOperator } from 'typeorm';
+import { CentralizedLoggerService } from '../../common/logger/services/centralized-logger.service';
+import {
+  createTestDataSource,
+  quotedIdentifiers,
+  recordQueries,
+} from '../../common/testing/test-data-source';
+import {
+  LoginThrottle,
+  LoginThrottleScope,
+} from '../entities/login-throttle.entity';
+import { TooManyLoginAttemptsException } from '../exceptions/too-many-login-attempts.exception';
+import { LoginThrottleService } from './login-throttle.service';
+
+describe('LoginThrottleService', () => {
+  let service: LoginThrottleService;
+  let records: LoginThrottle[];
+  let dataSource: DataSource;
+  const logger = { setContext: jest.fn(), info: jest.fn(), warn: jest.fn() };
+
+  const matches = (row: LoginThrottle, where: Partial<LoginThrottle>) =>
+    row.scope === where.scope && row.key === where.key;
+
+  const mockThrottleRepository = {
+    // The failure upsert, applied in one step like the database statement
+    query: jest.fn(
+      (
+        _sql: string,
+        [scope, key, now, staleBefore]: [
+          LoginThrottleScope,
+          string,
+          Date,
+          Date,
+        ],
+      ) => {
+        let record = records.find((r) => matches(r, { scope, key }));
+        if (!record) {
+          record = {
+            id: `throttle-${records.length + 1}`,
+            scope,
+            key,
+            failedAttempts: 0,
+            lastFailedAt: null,
+            lockedUntil: null,
+          } as LoginThrottle;
+          records.push(record);
+        } else if (!record.lastFailedAt || record.lastFailedAt < staleBefore) {
+          record.failedAttempts = 0;
+          record.lockedUntil = null;
+        }
+        record.failedAttempts += 1;
+        record.lastFailedAt = now;
+        return Promise.resolve([
+          { id: record.id, failedAttempts: record.failedAttempts },
+        ]);
+      },
+    ),
+    update: jest.fn(
+      (
+        where: { id: string; failedAttempts: FindOperator<number> },
+        partial: Partial<LoginThrottle>,
+      ) => {
+        const record = records.find(
+          (r) =>
+            r.id === where.id && r.failedAttempts >= where.failedAttempts.value,
+        );
+        if (record) Object.assign(record, partial);
+        return Promise.resolve({ affected: record ? 1 : 0 });
+      },
+    ),
+    find: jest.fn(({ where }: { where: Partial<LoginThrottle>[] }) =>
+      Promise.resolve(records.filter((r) => where.some((w) => matches(r, w)))),
+    ),
+    delete: jest.fn((where: Partial<LoginThrottle>) => {
+      const before = records.length;
+      records = records.filter((r) => !matches(r, where));
+      return Promise.resolve({ affected: before - records.length });
+    }),
+  };
+
+  const failTimes = async (times: number, ip = '10.0.0.1') => {
+    for (let i = 0; i < times; i++) {
+      await service.recordFailure('Jane@Example.com', ip);
+    }
+  };
+
+  const attemptError = () =>
+    service
+      .assertCanAttempt('jane@example.com', '10.0.0.1')
+      .then(() => null)
+      .catch((error: TooManyLoginAttemptsException) => error);
+
+  const createService = async (throttleRepository: object) => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        LoginThrottleService,
+        {
+          provide: getRepositoryToken(LoginThrottle),
+          useValue: throttleRepository,
+        },
+        { provide: ConfigService, useValue: { get: jest.fn() } },
+        { provide: CentralizedLoggerService, useValue: logger },
+      ],
+    }).compile();
+
+    return module.get<LoginThrottleService>(LoginThrottleService);
+  };
+
+  beforeAll(async () => {
+    dataSource = await createTestDataSource();
+    // The upsert reads its column names from the real entity metadata
+    const { metadata, manager } = dataSource.getRepository(LoginThrottle);
+    Object.assign(mockThrottleRepository, { metadata, manager });
+  });
+
+  beforeEach(async () => {
+    records = [];
+    jest.clearAllMocks();
+    jest.useFakeTimers({ now: new Date('2030-01-01T00:00:00.000Z') });
+
+    service = await createService(mockThrottleRepository);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+  });
+
+  it('should allow the first few failures without delay', async () => {
+    await failTimes(3);
+
+    await expect(attemptError()).resolves.toBeNull();
+  });
+
+  it('should double the delay with each further failure', async () => {
+    await failTimes(4);
+    expect((await attemptError())?.retryAfterSeconds).toBe(1);
+
+    jest.advanceTimersByTime(1000);
+    await expect(attemptError()).resolves.toBeNull();
+
+    await failTimes(1);
+    const error = await attemptError();
+    expect(error?.retryAfterSeconds).toBe(2);
+    expect(error?.locked).toBe(false);
+  });
+
+  it('should lock the account after the maximum failures and log it', async () => {
+    await failTimes(10);
+
+    const error = await attemptError();
+    expect(error?.locked).toBe(true);
+    expect(error?.retryAfterSeconds).toBe(15 * 60);
+    expect(logger.warn).toHaveBeenCalledWith(
+      'Login locked after repeated failed attempts',
+      expect.objectContaining({
+        scope: LoginThrottleScope.ACCOUNT,
+        key: 'jane@example.com',
+      }),
+    );
+
+    jest.advanceTimersByTime(15 * 60 * 1000);
+    await expect(attemptError()).resolves.toBeNull();
+  });
+
+  it('should count every one of many concurrent failures', async () => {
+    await Promise.all(
+      Array.from({ length: 12 }, () =>
+        service.recordFailure('Jane@Example.com', '10.0.0.1'),
+      ),
+    );
+
+    const error = await attemptError();
+    expect(error?.locked).toBe(true);
+    expect(
+      logger.warn.mock.calls.filter(
+        ([, context]: [string, { scope: LoginThrottleScope }]) =>
+          context.scope === LoginThrottleScope.ACCOUNT,
+      ),
+    ).toHaveLength(1);
+  });
+
+  it('should clear account failures on success but keep the IP record', async () => {
+    await failTimes(2);
+
+    await service.recordSuccess('jane@example.com');
+
+    expect(records).toHaveLength(1);
+    expect(records[0].scope).toBe(LoginThrottleScope.IP);
+  });
+
+  it('should forget failures older than the attempt window', async () => {
+    await failTimes(9);
+    jest.advanceTimersByTime(16 * 60 * 1000);
+
+    await failTimes(1);
+
+    await expect(attemptError()).resolves.toBeNull();
+    expect(records[0].failedAttempts).toBe(1);
+  });
+
+  it('should let an administrator lift a lockout', async () => {
+    await failTimes(10, '10.0.0.2');
+
+    await expect(
+      service.unlockAccount('jane@example.com', 'admin-1'),
+    ).resolves.toBe(true);
+    await expect(attemptError()).resolves.toBeNull();
+    expect(logger.info).toHaveBeenCalledWith(
+      'Login lockout lifted by administrator',
+      { key: 'jane@example.com', unlockedBy: 'admin-1' },
+    );
+  });
+
+  it('should only name columns the naming strategy generated', async () => {
+    const queries = recordQueries((sql) =>
+      sql.startsWith('INSERT')
+        ? [{ id: 'throttle-1', failedAttempts: 100 }]
+        : [{ id: 'throttle-1' }],
+    );
+    const { tableName, columns } = dataSource.getMetadata(LoginThrottle);
+    service = await createService(dataSource.getRepository(LoginThrottle));
+
+    await service.recordFailure('Jane@Example.com', '10.0.0.1');
+
+    // Both upserts and the lock updates that follow them
+    expect(queries).toHaveLength(4);
+    expect(queries[0].sql).toContain('"failed_attempts"');
+    const known = [tableName, ...columns.map((column) => column.databaseName)];
+    for (const { sql } of queries) {
+      // Result aliases are the only quoted names that may stay camelCase
+      for (const identifier of quotedIdentifiers(
+        sql.replace(/ AS "\w+"/g, ''),
+      )) {
+        expect(known).toContain(identifier);
+      }
+    }
+    expect(logger.warn).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,229 @@
+import { Inject, Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectRepository } from '@nestjs/typeorm';
+import { MoreThanOrEqual, Repository } from 'typeorm';
+import { CentralizedLoggerService } from '../../common/logger/services/centralized-logger.service';
+import {
+  LOGIN_ACCOUNT_FREE_ATTEMPTS,
+  LOGIN_ATTEMPT_WINDOW_MINUTES,
+  LOGIN_DELAY_BASE_SECONDS,
+  LOGIN_DELAY_MAX_SECONDS,
+  LOGIN_IP_FREE_ATTEMPTS,
+  LOGIN_IP_MAX_FAILED_ATTEMPTS,
+  LOGIN_LOCKOUT_MINUTES,
+  LOGIN_MAX_FAILED_ATTEMPTS,
+} from '../constants';
+import {
+  LoginThrottle,
+  LoginThrottleScope,
+} from '../entities/login-throttle.entity';
+import { TooManyLoginAttemptsException } from '../exceptions/too-many-login-attempts.exception';
+
+interface ThrottlePolicy {
+  freeAttempts: number;
+  maxAttempts: number;
+}
+
+const MINUTE_IN_MS = 60 * 1000;
+
+/**
+ * Tracks failed logins per account and per client IP. Once the free attempts
+ * are used up each further attempt must wait an exponentially growing delay,
+ * and reaching the maximum locks the account or IP for a while.
+ */
+@Injectable()
+export class LoginThrottleService {
+  private readonly policies: Record<LoginThrottleScope, ThrottlePolicy>;
+  private readonly lockoutMs: number;
+  private readonly windowMs = LOGIN_ATTEMPT_WINDOW_MINUTES * MINUTE_IN_MS;
+
+  constructor(
+    @InjectRepository(LoginThrottle)
+    private readonly throttleRepository: Repository<LoginThrottle>,
+    configService: ConfigService,
+    @Inject(CentralizedLoggerService)
+    private readonly logger: CentralizedLoggerService,
+  ) {
+    this.logger.setContext(LoginThrottleService.name);
+    this.policies = {
+      [LoginThrottleScope.ACCOUNT]: {
+        freeAttempts: LOGIN_ACCOUNT_FREE_ATTEMPTS,
+        maxAttempts:
+          Number(configService.get<string>('LOGIN_MAX_FAILED_ATTEMPTS')) ||
+          LOGIN_MAX_FAILED_ATTEMPTS,
+      },
+      [LoginThrottleScope.IP]: {
+        freeAttempts: LOGIN_IP_FREE_ATTEMPTS,
+        maxAttempts:
+          Number(configService.get<string>('LOGIN_IP_MAX_FAILED_ATTEMPTS')) ||
+          LOGIN_IP_MAX_FAILED_ATTEMPTS,
+      },
+    };
+    this.lockoutMs =
+      (Number(configService.get<string>('LOGIN_LOCKOUT_MINUTES')) ||
+        LOGIN_LOCKOUT_MINUTES) * MINUTE_IN_MS;
+  }
+
+  /**
+   * Throws TooManyLoginAttemptsException while the account or the IP is
+   * locked or still waiting out its delay. Call before checking credentials.
+   */
+  async assertCanAttempt(email: string, ip?: string): Promise<void> {
+    const now = Date.now();
+    let retryAfterMs = 0;
+    let locked = false;
+
+    for (const record of await this.findRecords(email, ip)) {
+      if (record.lockedUntil && record.lockedUntil.getTime() > now) {
+        retryAfterMs = Math.max(
+          retryAfterMs,
+          record.lockedUntil.getTime() - now,
+        );
+        locked = true;
+        continue;
+      }
+
+      const nextAttemptAt = this.getNextAttemptAt(record);
+      if (nextAttemptAt > now) {
+        retryAfterMs = Math.max(retryAfterMs, nextAttemptAt - now);
+      }
+    }
+
+    if (retryAfterMs > 0) {
+      throw new TooManyLoginAttemptsException(
+        Math.ceil(retryAfterMs / 1000),
+        locked,
+      );
+    }
+  }
+
+  async recordFailure(email: string, ip?: string): Promise<void> {
+    await this.registerFailure(
+      LoginThrottleScope.ACCOUNT,
+      this.normalizeEmail(email),
+    );
+    if (ip) {
+      await this.registerFailure(LoginThrottleScope.IP, ip);
+    }
+  }
+
+  /**
+   * Clears the account's failures. The IP record is kept on purpose: one
+   * valid login must not reset an IP that is guessing other accounts.
+   */
+  async recordSuccess(email: string): Promise<void> {
+    await this.throttleRepository.delete({
+      scope: LoginThrottleScope.ACCOUNT,
+      key: this.normalizeEmail(email),
+    });
+  }
+
+  /** Lifts a lockout early. Returns false when the account was not throttled. */
+  async unlockAccount(email: string, unlockedBy: string): Promise<boolean> {
+    const key = this.normalizeEmail(email);
+    const result = await this.throttleRepository.delete({
+      scope: LoginThrottleScope.ACCOUNT,
+      key,
+    });
+
+    const wasThrottled = Boolean(result.affected);
+    if (wasThrottled) {
+      this.logger.info('Login lockout lifted by administrator', {
+        key,
+        unlockedBy,
+      });
+    }
+    return wasThrottled;
+  }
+
+  /**
+   * Counts the failure in one atomic upsert so concurrent attempts cannot
+   * overwrite each other's increment, then locks once the maximum is reached.
+   */
+  private async registerFailure(
+    scope: LoginThrottleScope,
+    key: string,
+  ): Promise<void> {
+    const now = new Date();
+    const policy = this.policies[scope];
+
+    // Raw SQL has to use the column names the naming strategy produced
+    const { metadata } = this.throttleRepository;
+    const { driver } = this.throttleRepository.manager.connection;
+    const column = (property: keyof LoginThrottle) =>
+      driver.escape(
+        metadata.findColumnWithPropertyName(property)!.databaseName,
+      );
+    const attempts = column('failedAttempts');
+    const lastFailed = column('lastFailedAt');
+    const locked = column('lockedUntil');
+    const table = driver.escape(metadata.tableName);
+
+    // Failures older than the window start the count afresh
+    const [record] = await this.throttleRepository.query<
+      Pick<LoginThrottle, 'id' | 'failedAttempts'>[]
+    >(
+      `INSERT INTO ${table} (scope, key, ${attempts}, ${lastFailed})
+       VALUES ($1, $2, 1, $3)
+       ON CONFLICT (scope, key) DO UPDATE SET
+         ${attempts} = CASE
+           WHEN ${table}.${lastFailed} IS NULL
+             OR ${table}.${lastFailed} < $4 THEN 1
+           ELSE ${table}.${attempts} + 1
+         END,
+         ${locked} = CASE
+           WHEN ${table}.${lastFailed} IS NULL
+             OR ${table}.${lastFailed} < $4 THEN NULL
+           ELSE ${table}.${locked}
+         END,
+         ${lastFailed} = $3,
+         ${column('updatedAt')} = now()
+       RETURNING id, ${attempts} AS "failedAttempts"`,
+      [scope, key, now, new Date(now.getTime() - this.windowMs)],
+    );
+    if (record.failedAttempts < policy.maxAttempts) {
+      return;
+    }
+
+    // Only one of several concurrent failures reaching the maximum applies the lock
+    const lockedUntil = new Date(now.getTime() + this.lockoutMs);
+    const { affected } = await this.throttleRepository.update(
+      { id: record.id, failedAttempts: MoreThanOrEqual(policy.maxAttempts) },
+      { failedAttempts: 0, lockedUntil },
+    );
+    if (affected) {
+      this.logger.warn('Login locked after repeated failed attempts', {
+        scope,
+        key,
+        attempts: policy.maxAttempts,
+        lockedUntil: lockedUntil.toISOString(),
+      });
+    }
+  }
+
+  private getNextAttemptAt(record: LoginThrottle): number {
+    const { freeAttempts } = this.policies[record.scope];
+    const excess = record.failedAttempts - freeAttempts;
+    if (!record.lastFailedAt || excess <= 0) {
+      return 0;
+    }
+
+    const delaySeconds = Math.min(
+      LOGIN_DELAY_BASE_SECONDS * 2 ** (excess - 1),
+      LOGIN_DELAY_MAX_SECONDS,
+    );
+    return record.lastFailedAt.getTime() + delaySeconds * 1000;
+  }
+
+  private findRecords(email: string, ip?: string): Promise<LoginThrottle[]> {
+    const where = [
+      { scope: LoginThrottleScope.ACCOUNT, key: this.normalizeEmail(email) },
+      ...(ip ? [{ scope: LoginThrottleScope.IP, key: ip }] : []),
+    ];
+    return this.throttleRepository.find({ where });
+  }
+
+  private normalizeEmail(email: string): string {
+    return email.trim().toLowerCase();
+  }
+}
@@ -0,0 +1,184 @@
+import { ForbiddenException, UnauthorizedException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { FindOperator } from 'typeorm';
+import { CentralizedLoggerService } from '../../common/logger/services/centralized-logger.service';
+import { UserRole } from '../../users/enums/user-role.enum';
+import { MfaRecoveryCode } from '../entities/mfa-recovery-code.entity';
+import { UserMfa } from '../entities/user-mfa.entity';
+import { generateTotp, getTotpStep } from '../utils/totp';
+import { MfaService } from './mfa.service';
+
+describe('MfaService', () => {
+  let service: MfaService;
+  let enrollments: UserMfa[];
+  let recoveryCodes: MfaRecoveryCode[];
+
+  // Evaluates the handful of find operators the service uses
+  const satisfies = (actual: unknown, expected: unknown): boolean => {
+    if (!(expected instanceof FindOperator)) return actual === expected;
+    switch (expected.type) {
+      case 'isNull':
+        return actual === null;
+      case 'not':
+        return !satisfies(actual, expected.child ?? expected.value);
+      case 'lessThan':
+        return actual !== null && Number(actual) < Number(expected.value);
+      case 'or':
+        return (expected.value as unknown as FindOperator<unknown>[]).some(
+          (operator) => satisfies(actual, operator),
+        );
+      default:
+        throw new Error(`Unsupported operator ${expected.type}`);
+    }
+  };
+  const matches = (row: object, criteria: Record<string, unknown>) =>
+    Object.entries(criteria).every(([key, value]) =>
+      satisfies(row[key], value),
+    );
+
+  // `primaryKey` makes save() upsert like a table with a natural key
+  const inMemoryRepository = <T extends object>(
+    rows: () => T[],
+    primaryKey?: keyof T,
+  ) => ({
+    create: jest.fn((data: Partial<T>) => ({ usedAt: null, ...data })),
+    save: jest.fn((data: T | T[]) => {
+      const store = rows();
+      for (const row of Array.isArray(data) ? data : [data]) {
+        const index = primaryKey
+          ? store.findIndex((r) => r[primaryKey] === row[primaryKey])
+          : -1;
+        if (index >= 0) store[index] = row;
+        else store.push(row);
+      }
+      return Promise.resolve(data);
+    }),
+    findOne: jest.fn(({ where }: { where: Record<string, unknown> }) =>
+      Promise.resolve(rows().find((r) => matches(r, where)) ?? null),
+    ),
+    count: jest.fn(({ where }: { where: Record<string, unknown> }) =>
+      Promise.resolve(rows().filter((r) => matches(r, where)).length),
+    ),
+    update: jest.fn(
+      (criteria: Record<string, unknown>, partial: Partial<T>) => {
+        const matched = rows().filter((r) => matches(r, criteria));
+        matched.forEach((r) => Object.assign(r, partial));
+        return Promise.resolve({ affected: matched.length });
+      },
+    ),
+    delete: jest.fn((criteria: Record<string, unknown>) => {
+      const store = rows();
+      const kept = store.filter((r) => !matches(r, criteria));
+      store.splice(0, store.length, ...kept);
+      return Promise.resolve({});
+    }),
+  });
+
+  beforeEach(async () => {
+    enrollments = [];
+    recoveryCodes = [];
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        MfaService,
+        {
+          provide: getRepositoryToken(UserMfa),
+          useValue: inMemoryRepository(() => enrollments, 'userId'),
+        },
+        {
+          provide: getRepositoryToken(MfaRecoveryCode),
+          useValue: inMemoryRepository(() => recoveryCodes),
+        },
+        {
+          provide: ConfigService,
+          useValue: {
+            get: jest.fn((key: string) =>
+              key === 'MFA_REQUIRED_ROLES' ? 'admin, moderator' : undefined,
+            ),
+          },
+        },
+        {
+          provide: CentralizedLoggerService,
+          useValue: { setContext: jest.fn(), info: jest.fn(), warn: jest.fn() },
+        },
+      ],
+    }).compile();
+
+    service = module.get<MfaService>(MfaService);
+  });
+
+  const enroll = async (userId = 'user-1') => {
+    const { secret } = await service.beginEnrollment(
+      userId,
+      'jane@example.com',
+    );
+    const codes = await service.confirmEnrollment(
+      userId,
+      generateTotp(secret, getTotpStep() - 1),
+    );
+    return { secret, codes };
+  };
+
+  it('should return an otpauth URI and QR code without enabling MFA yet', async () => {
+    const setup = await service.beginEnrollment('user-1', 'jane@example.com');
+
+    expect(setup.otpauthUrl).toContain(`secret=${setup.secret}`);
+    expect(setup.qrCodeDataUrl).toMatch(/^data:image\/png;base64,/);
+    await expect(service.isEnabled('user-1')).resolves.toBe(false);
+  });
+
+  it('should enable MFA and hand out hashed recovery codes', async () => {
+    const { codes } = await enroll();
+
+    expect(codes).toHaveLength(10);
+    expect(codes[0]).toMatch(/^[0-9a-f]{5}-[0-9a-f]{5}$/);
+    expect(recoveryCodes.map((c) => c.codeHash)).not.toContain(codes[0]);
+    await expect(service.isEnabled('user-1')).resolves.toBe(true);
+  });
+
+  it('should accept a TOTP code only once', async () => {
+    const { secret } = await enroll();
+    const code = generateTotp(secret);
+
+    await expect(service.verify('user-1', code)).resolves.toBeUndefined();
+    await expect(service.verify('user-1', code)).rejects.toThrow(
+      UnauthorizedException,
+    );
+  });
+
+  it('should accept each recovery code once', async () => {
+    const { codes } = await enroll();
+
+    await expect(
+      service.verify('user-1', codes[3].toUpperCase()),
+    ).resolves.toBeUndefined();
+    await expect(service.verify('user-1', codes[3])).rejects.toThrow(
+      'Invalid MFA code',
+    );
+  });
+
+  it('should not let a role with mandatory MFA disable it', async () => {
+    const { secret } = await enroll();
+
+    await expect(
+      service.disable(
+        { id: 'user-1', role: UserRole.ADMIN },
+        generateTotp(secret),
+      ),
+    ).rejects.toThrow(ForbiddenException);
+
+    await service.disable(
+      { id: 'user-1', role: UserRole.USER },
+      generateTotp(secret),
+    );
+    await expect(service.isEnabled('user-1')).resolves.toBe(false);
+    expect(recoveryCodes).toHaveLength(0);
+  });
+
+  it('should report which roles require MFA', () => {
+    expect(service.isRequiredForRole(UserRole.MODERATOR)).toBe(true);
+    expect(service.isRequiredForRole(UserRole.USER)).toBe(false);
+  });
+});
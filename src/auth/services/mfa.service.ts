@@ -0,0 +1,232 @@
+import {
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+  Inject,
+  Injectable,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectRepository } from '@nestjs/typeorm';
+import { createHash, randomBytes } from 'crypto';
+import { toDataURL } from 'qrcode';
+import { IsNull, LessThan, Not, Or, Repository } from 'typeorm';
+import { CentralizedLoggerService } from '../../common/logger/services/centralized-logger.service';
+import { UserRole } from '../../users/enums/user-role.enum';
+import {
+  DEFAULT_MFA_ISSUER,
+  MFA_RECOVERY_CODE_BYTES,
+  MFA_RECOVERY_CODE_COUNT,
+  TOTP_VERIFICATION_WINDOW,
+} from '../constants';
+import { MfaSetupResponseDto } from '../dto/mfa.dto';
+import { MfaRecoveryCode } from '../entities/mfa-recovery-code.entity';
+import { UserMfa } from '../entities/user-mfa.entity';
+import {
+  buildOtpauthUri,
+  generateTotpSecret,
+  TOTP_DIGITS,
+  verifyTotp,
+} from '../utils/totp';
+
+/**
+ * TOTP enrollment and verification, plus the recovery codes that replace a
+ * lost authenticator. Roles listed in MFA_REQUIRED_ROLES must enroll.
+ */
+@Injectable()
+export class MfaService {
+  private readonly issuer: string;
+  private readonly requiredRoles: Set<string>;
+
+  constructor(
+    @InjectRepository(UserMfa)
+    private readonly mfaRepository: Repository<UserMfa>,
+    @InjectRepository(MfaRecoveryCode)
+    private readonly recoveryCodeRepository: Repository<MfaRecoveryCode>,
+    configService: ConfigService,
+    @Inject(CentralizedLoggerService)
+    private readonly logger: CentralizedLoggerService,
+  ) {
+    this.logger.setContext(MfaService.name);
+    this.issuer = configService.get<string>('MFA_ISSUER') || DEFAULT_MFA_ISSUER;
+    this.requiredRoles = new Set(
+      (configService.get<string>('MFA_REQUIRED_ROLES') ?? '')
+        .split(',')
+        .map((role) => role.trim().toLowerCase())
+        .filter(Boolean),
+    );
+  }
+
+  isRequiredForRole(role: UserRole): boolean {
+    return this.requiredRoles.has(role);
+  }
+
+  async isEnabled(userId: string): Promise<boolean> {
+    const count = await this.mfaRepository.count({
+      where: { userId, enabledAt: Not(IsNull()) },
+    });
+    return count > 0;
+  }
+
+  /**
+   * Generates a new secret for the user. MFA stays off until the first code
+   * is confirmed, so an abandoned setup never locks anyone out.
+   */
+  async beginEnrollment(
+    userId: string,
+    accountName: string,
+  ): Promise<MfaSetupResponseDto> {
+    const existing = await this.mfaRepository.findOne({ where: { userId } });
+    if (existing?.enabledAt) {
+      throw new ConflictException('MFA is already enabled');
+    }
+
+    const secret = generateTotpSecret();
+    await this.mfaRepository.save(
+      this.mfaRepository.create({
+        userId,
+        secret,
+        enabledAt: null,
+        lastUsedStep: null,
+      }),
+    );
+
+    const otpauthUrl = buildOtpauthUri(this.issuer, accountName, secret);
+    return {
+      secret,
+      otpauthUrl,
+      qrCodeDataUrl: await toDataURL(otpauthUrl),
+    };
+  }
+
+  /** Enables MFA once the user proves their app works, returning recovery codes. */
+  async confirmEnrollment(userId: string, code: string): Promise<string[]> {
+    const enrollment = await this.findEnrollment(userId);
+    if (!enrollment) {
+      throw new BadRequestException('MFA setup has not been started');
+    }
+    if (enrollment.enabledAt) {
+      throw new ConflictException('MFA is already enabled');
+    }
+
+    const step = verifyTotp(enrollment.secret, code, TOTP_VERIFICATION_WINDOW);
+    if (step === null) {
+      throw new UnauthorizedException('Invalid MFA code');
+    }
+
+    await this.mfaRepository.update(
+      { userId },
+      { enabledAt: new Date(), lastUsedStep: String(step) },
+    );
+    this.logger.info('MFA enabled', { userId });
+
+    return this.replaceRecoveryCodes(userId);
+  }
+
+  /** Accepts a TOTP code or an unused recovery code; throws otherwise. */
+  async verify(userId: string, code: string): Promise<void> {
+    const enrollment = await this.findEnrollment(userId);
+    if (!enrollment?.enabledAt) {
+      throw new UnauthorizedException('MFA is not enabled');
+    }
+
+    const accepted =
+      code.length === TOTP_DIGITS
+        ? await this.redeemTotp(enrollment, code)
+        : await this.redeemRecoveryCode(userId, code);
+    if (!accepted) {
+      throw new UnauthorizedException('Invalid MFA code');
+    }
+  }
+
+  async disable(
+    user: { id: string; role: UserRole },
+    code: string,
+  ): Promise<void> {
+    if (this.isRequiredForRole(user.role)) {
+      throw new ForbiddenException('MFA is mandatory for your role');
+    }
+
+    await this.verify(user.id, code);
+    await this.recoveryCodeRepository.delete({ userId: user.id });
+    await this.mfaRepository.delete({ userId: user.id });
+    this.logger.info('MFA disabled', { userId: user.id });
+  }
+
+  async regenerateRecoveryCodes(
+    userId: string,
+    code: string,
+  ): Promise<string[]> {
+    await this.verify(userId, code);
+    return this.replaceRecoveryCodes(userId);
+  }
+
+  private async redeemTotp(enrollment: UserMfa, code: string) {
+    const step = verifyTotp(enrollment.secret, code, TOTP_VERIFICATION_WINDOW);
+    if (step === null) {
+      return false;
+    }
+
+    // Conditional update so each code (time step) is accepted only once
+    const result = await this.mfaRepository.update(
+      {
+        userId: enrollment.userId,
+        lastUsedStep: Or(IsNull(), LessThan(String(step))),
+      },
+      { lastUsedStep: String(step) },
+    );
+    return Boolean(result.affected);
+  }
+
+  private async redeemRecoveryCode(userId: string, code: string) {
+    const result = await this.recoveryCodeRepository.update(
+      { userId, codeHash: this.hashRecoveryCode(code), usedAt: IsNull() },
+      { usedAt: new Date() },
+    );
+    if (!result.affected) {
+      return false;
+    }
+
+    const remaining = await this.recoveryCodeRepository.count({
+      where: { userId, usedAt: IsNull() },
+    });
+    this.logger.warn('MFA recovery code used', { userId, remaining });
+    return true;
+  }
+
+  private async replaceRecoveryCodes(userId: string): Promise<string[]> {
+    await this.recoveryCodeRepository.delete({ userId });
+
+    const codes = Array.from({ length: MFA_RECOVERY_CODE_COUNT }, () => {
+      const hex = randomBytes(MFA_RECOVERY_CODE_BYTES).toString('hex');
+      return `${hex.slice(0, 5)}-${hex.slice(5)}`;
+    });
+    await this.recoveryCodeRepository.save(
+      codes.map((code) =>
+        this.recoveryCodeRepository.create({
+          userId,
+          codeHash: this.hashRecoveryCode(code),
+        }),
+      ),
+    );
+
+    return codes;
+  }
+
+  private findEnrollment(userId: string): Promise<UserMfa | null> {
+    return this.mfaRepository.findOne({
+      where: { userId },
+      select: {
+        userId: true,
+        secret: true,
+        enabledAt: true,
+        lastUsedStep: true,
+      },
+    });
+  }
+
+  private hashRecoveryCode(code: string): string {
+    const normalized = code.replace(/-/g, '').toLowerCase();
+    return createHash('sha256').update(normalized).digest('hex');
+  }
+}
@@ -0,0 +1,209 @@
+import { NotFoundException, UnauthorizedException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { CentralizedLoggerService } from '../../common/logger/services/centralized-logger.service';
+import {
+  AuthSession,
+  SessionLoginMethod,
+  SessionRevocationReason,
+} from '../entities/auth-session.entity';
+import { RefreshToken } from '../entities/refresh-token.entity';
+import { SessionService } from './session.service';
+
+describe('SessionService', () => {
+  let service: SessionService;
+  let sessions: AuthSession[];
+  let tokens: RefreshToken[];
+
+  const matches = (row: object, criteria: Record<string, unknown>) =>
+    Object.entries(criteria).every(([key, value]) =>
+      // IsNull() find operators are matched against null columns
+      typeof value === 'object' && value !== null
+        ? row[key] === null
+        : row[key] === value,
+    );
+
+  const mockSessionRepository = {
+    create: jest.fn((data: Partial<AuthSession>) => ({
+      id: `session-${sessions.length + 1}`,
+      revokedAt: null,
+      revokedReason: null,
+      ...data,
+    })),
+    save: jest.fn((session: AuthSession) => {
+      if (!sessions.includes(session)) sessions.push(session);
+      return Promise.resolve(session);
+    }),
+    update: jest.fn(
+      (criteria: Record<string, unknown>, partial: Partial<AuthSession>) => {
+        const matched = sessions.filter((s) => matches(s, criteria));
+        matched.forEach((s) => Object.assign(s, partial));
+        return Promise.resolve({ affected: matched.length });
+      },
+    ),
+    find: jest.fn(({ where }: { where: { userId: string } }) =>
+      Promise.resolve(
+        sessions.filter((s) => s.userId === where.userId && !s.revokedAt),
+      ),
+    ),
+    count: jest.fn(({ where }: { where: { id: string } }) =>
+      Promise.resolve(
+        sessions.filter(
+          (s) =>
+            s.id === where.id &&
+            !s.revokedAt &&
+            s.expiresAt.getTime() > Date.now(),
+        ).length,
+      ),
+    ),
+  };
+
+  const mockRefreshTokenRepository = {
+    create: jest.fn((data: Partial<RefreshToken>) => ({
+      id: `token-${tokens.length + 1}`,
+      rotatedAt: null,
+      ...data,
+    })),
+    save: jest.fn((token: RefreshToken) => {
+      tokens.push(token);
+      return Promise.resolve(token);
+    }),
+    findOne: jest.fn(({ where }: { where: { tokenHash: string } }) => {
+      const token = tokens.find((t) => t.tokenHash === where.tokenHash);
+      return Promise.resolve(
+        token
+          ? {
+              ...token,
+              session: sessions.find((s) => s.id === token.sessionId),
+            }
+          : null,
+      );
+    }),
+    update: jest.fn(
+      (criteria: Record<string, unknown>, partial: Partial<RefreshToken>) => {
+        const matched = tokens.filter((t) => matches(t, criteria));
+        matched.forEach((t) => Object.assign(t, partial));
+        return Promise.resolve({ affected: matched.length });
+      },
+    ),
+  };
+
+  beforeEach(async () => {
+    sessions = [];
+    tokens = [];
+    jest.clearAllMocks();
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        SessionService,
+        {
+          provide: getRepositoryToken(AuthSession),
+          useValue: mockSessionRepository,
+        },
+        {
+          provide: getRepositoryToken(RefreshToken),
+          useValue: mockRefreshTokenRepository,
+        },
+        { provide: ConfigService, useValue: { get: jest.fn() } },
+        {
+          provide: CentralizedLoggerService,
+          useValue: { setContext: jest.fn(), warn: jest.fn() },
+        },
+      ],
+    }).compile();
+
+    service = module.get<SessionService>(SessionService);
+  });
+
+  it('should store only a hash of the refresh token', async () => {
+    const { refreshToken } = await service.createSession('user-1');
+
+    expect(tokens).toHaveLength(1);
+    expect(tokens[0].tokenHash).toMatch(/^[0-9a-f]{64}$/);
+    expect(tokens[0].tokenHash).not.toContain(refreshToken);
+  });
+
+  it('should rotate a refresh token within the same session', async () => {
+    const { session, refreshToken } = await service.createSession('user-1');
+
+    const rotated = await service.rotateRefreshToken(refreshToken);
+
+    expect(rotated.session.id).toBe(session.id);
+    expect(rotated.refreshToken).not.toBe(refreshToken);
+    expect(tokens[0].rotatedAt).toBeInstanceOf(Date);
+    await expect(service.isSessionActive(session.id)).resolves.toBe(true);
+  });
+
+  it('should revoke the session when a rotated token is reused', async () => {
+    const { session, refreshToken } = await service.createSession('user-1');
+    const rotated = await service.rotateRefreshToken(refreshToken);
+
+    await expect(service.rotateRefreshToken(refreshToken)).rejects.toThrow(
+      'Refresh token has already been used',
+    );
+
+    expect(sessions[0].revokedReason).toBe(SessionRevocationReason.TOKEN_REUSE);
+    await expect(service.isSessionActive(session.id)).resolves.toBe(false);
+    // The legitimate holder's newer token is dead as well
+    await expect(
+      service.rotateRefreshToken(rotated.refreshToken),
+    ).rejects.toThrow(UnauthorizedException);
+  });
+
+  it('should reject an unknown refresh token', async () => {
+    await expect(service.rotateRefreshToken('nope')).rejects.toThrow(
+      'Invalid refresh token',
+    );
+  });
+
+  it('should revoke every session of a user', async () => {
+    await service.createSession('user-1');
+    await service.createSession('user-1');
+    await service.createSession('user-2');
+
+    const revoked = await service.revokeAllForUser(
+      'user-1',
+      SessionRevocationReason.LOGOUT_ALL,
+    );
+
+    expect(revoked).toBe(2);
+    await expect(service.isSessionActive('session-3')).resolves.toBe(true);
+  });
+
+  it('should record the login method and device of a session', async () => {
+    await service.createSession('user-1', SessionLoginMethod.WALLET, {
+      ip: '203.0.113.7',
+      userAgent:
+        'Mozilla/5.0 (X11; Linux x86_64; rv:121.0) Gecko/20100101 Firefox/121.0',
+    });
+
+    expect(sessions[0]).toMatchObject({
+      loginMethod: SessionLoginMethod.WALLET,
+      ip: '203.0.113.7',
+      device: 'Firefox on Linux',
+    });
+  });
+
+  it('should flag the current session when listing', async () => {
+    await service.createSession('user-1');
+    await service.createSession('user-1');
+
+    const listed = await service.findActiveForUser('user-1', 'session-2');
+
+    expect(listed.map((session) => session.current)).toEqual([false, true]);
+  });
+
+  it("should not revoke another user's session", async () => {
+    await service.createSession('user-1');
+
+    await expect(
+      service.revokeUserSession(
+        'user-2',
+        'session-1',
+        SessionRevocationReason.REVOKED_BY_USER,
+      ),
+    ).rejects.toThrow(NotFoundException);
+    await expect(service.isSessionActive('session-1')).resolves.toBe(true);
+  });
+});
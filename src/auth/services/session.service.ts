@@ -0,0 +1,254 @@
+import {
+  Inject,
+  Injectable,
+  NotFoundException,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectRepository } from '@nestjs/typeorm';
+import { createHash, randomBytes } from 'crypto';
+import { IsNull, LessThan, MoreThan, Or, Repository } from 'typeorm';
+import { CentralizedLoggerService } from '../../common/logger/services/centralized-logger.service';
+import {
+  REFRESH_TOKEN_BYTES,
+  REFRESH_TOKEN_TTL_DAYS,
+  SESSION_ACTIVITY_RESOLUTION_MS,
+} from '../constants';
+import { SessionResponseDto } from '../dto/session.dto';
+import {
+  AuthSession,
+  SessionLoginMethod,
+  SessionRevocationReason,
+} from '../entities/auth-session.entity';
+import { RefreshToken } from '../entities/refresh-token.entity';
+import { SessionClientInfo } from '../interfaces/session-client.interface';
+import { describeDevice } from '../utils/user-agent';
+
+const DAY_IN_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Owns login sessions and their rotating refresh tokens. Refresh tokens are
+ * opaque random strings; only their SHA-256 hash is persisted.
+ */
+@Injectable()
+export class SessionService {
+  private readonly refreshTtlMs: number;
+
+  constructor(
+    @InjectRepository(AuthSession)
+    private readonly sessionRepository: Repository<AuthSession>,
+    @InjectRepository(RefreshToken)
+    private readonly refreshTokenRepository: Repository<RefreshToken>,
+    configService: ConfigService,
+    @Inject(CentralizedLoggerService)
+    private readonly logger: CentralizedLoggerService,
+  ) {
+    this.logger.setContext(SessionService.name);
+    this.refreshTtlMs =
+      (Number(configService.get<string>('JWT_REFRESH_EXPIRES_IN_DAYS')) ||
+        REFRESH_TOKEN_TTL_DAYS) * DAY_IN_MS;
+  }
+
+  /** Starts a new session and returns its first refresh token. */
+  async createSession(
+    userId: string,
+    loginMethod: SessionLoginMethod = SessionLoginMethod.PASSWORD,
+    client: SessionClientInfo = {},
+  ): Promise<{ session: AuthSession; refreshToken: string }> {
+    const userAgent = client.userAgent?.slice(0, 512) || null;
+    const session = await this.sessionRepository.save(
+      this.sessionRepository.create({
+        userId,
+        loginMethod,
+        ip: client.ip ?? null,
+        userAgent,
+        device: describeDevice(userAgent),
+        lastActiveAt: new Date(),
+        expiresAt: new Date(Date.now() + this.refreshTtlMs),
+      }),
+    );
+    const refreshToken = await this.createRefreshToken(session.id);
+
+    return { session, refreshToken };
+  }
+
+  /**
+   * Exchanges a refresh token for a new one. Presenting a token that was
+   * already rotated means it leaked, so the whole session is revoked.
+   */
+  async rotateRefreshToken(
+    rawToken: string,
+  ): Promise<{ session: AuthSession; refreshToken: string }> {
+    const token = await this.refreshTokenRepository.findOne({
+      where: { tokenHash: this.hashToken(rawToken) },
+      relations: ['session'],
+    });
+    if (!token) {
+      throw new UnauthorizedException('Invalid refresh token');
+    }
+
+    const { session } = token;
+    if (!this.isActive(session)) {
+      throw new UnauthorizedException('Session is no longer active');
+    }
+    if (token.rotatedAt) {
+      await this.handleReuse(session);
+    }
+    if (token.expiresAt.getTime() <= Date.now()) {
+      throw new UnauthorizedException('Refresh token has expired');
+    }
+
+    // Conditional update so a token raced by two clients counts as reuse
+    const claimed = await this.refreshTokenRepository.update(
+      { id: token.id, rotatedAt: IsNull() },
+      { rotatedAt: new Date() },
+    );
+    if (!claimed.affected) {
+      await this.handleReuse(session);
+    }
+
+    session.expiresAt = new Date(Date.now() + this.refreshTtlMs);
+    session.lastActiveAt = new Date();
+    await this.sessionRepository.save(session);
+    const refreshToken = await this.createRefreshToken(session.id);
+
+    return { session, refreshToken };
+  }
+
+  /** Looks up the session a refresh token belongs to, if it is still active. */
+  async findActiveSessionByRefreshToken(
+    rawToken: string,
+  ): Promise<AuthSession | null> {
+    const token = await this.refreshTokenRepository.findOne({
+      where: { tokenHash: this.hashToken(rawToken) },
+      relations: ['session'],
+    });
+
+    return token && this.isActive(token.session) ? token.session : null;
+  }
+
+  async isSessionActive(sessionId: string): Promise<boolean> {
+    const count = await this.sessionRepository.count({
+      where: {
+        id: sessionId,
+        revokedAt: IsNull(),
+        expiresAt: MoreThan(new Date()),
+      },
+    });
+    return count > 0;
+  }
+
+  /**
+   * Checks that a session is still active and records activity on it. The
+   * write is skipped when lastActiveAt is recent enough.
+   */
+  async touchSession(sessionId: string): Promise<boolean> {
+    if (!(await this.isSessionActive(sessionId))) {
+      return false;
+    }
+
+    const now = Date.now();
+    await this.sessionRepository.update(
+      {
+        id: sessionId,
+        lastActiveAt: Or(
+          IsNull(),
+          LessThan(new Date(now - SESSION_ACTIVITY_RESOLUTION_MS)),
+        ),
+      },
+      { lastActiveAt: new Date(now) },
+    );
+    return true;
+  }
+
+  /** Active sessions of a user, most recently used first. */
+  async findActiveForUser(
+    userId: string,
+    currentSessionId?: string,
+  ): Promise<SessionResponseDto[]> {
+    const sessions = await this.sessionRepository.find({
+      where: { userId, revokedAt: IsNull(), expiresAt: MoreThan(new Date()) },
+      order: { lastActiveAt: { direction: 'DESC', nulls: 'LAST' } },
+    });
+
+    return sessions.map((session) => ({
+      id: session.id,
+      loginMethod: session.loginMethod,
+      device: session.device,
+      ip: session.ip,
+      userAgent: session.userAgent,
+      createdAt: session.createdAt,
+      lastActiveAt: session.lastActiveAt,
+      expiresAt: session.expiresAt,
+      current: session.id === currentSessionId,
+    }));
+  }
+
+  /** Revokes one session, provided it belongs to the given user. */
+  async revokeUserSession(
+    userId: string,
+    sessionId: string,
+    reason: SessionRevocationReason,
+  ): Promise<void> {
+    const result = await this.sessionRepository.update(
+      { id: sessionId, userId, revokedAt: IsNull() },
+      { revokedAt: new Date(), revokedReason: reason },
+    );
+    if (!result.affected) {
+      throw new NotFoundException(`Session with ID ${sessionId} not found`);
+    }
+  }
+
+  async revokeSession(
+    sessionId: string,
+    reason: SessionRevocationReason,
+  ): Promise<void> {
+    await this.sessionRepository.update(
+      { id: sessionId, revokedAt: IsNull() },
+      { revokedAt: new Date(), revokedReason: reason },
+    );
+  }
+
+  /** Revokes every active session of a user ("log out everywhere"). */
+  async revokeAllForUser(
+    userId: string,
+    reason: SessionRevocationReason,
+  ): Promise<number> {
+    const result = await this.sessionRepository.update(
+      { userId, revokedAt: IsNull() },
+      { revokedAt: new Date(), revokedReason: reason },
+    );
+    return result.affected ?? 0;
+  }
+
+  private async handleReuse(session: AuthSession): Promise<never> {
+    await this.revokeSession(session.id, SessionRevocationReason.TOKEN_REUSE);
+    this.logger.warn('Refresh token reuse detected, session revoked', {
+      userId: session.userId,
+      sessionId: session.id,
+    });
+    throw new UnauthorizedException('Refresh token has already been used');
+  }
+
+  private async createRefreshToken(sessionId: string): Promise<string> {
+    const rawToken = randomBytes(REFRESH_TOKEN_BYTES).toString('base64url');
+
+    await this.refreshTokenRepository.save(
+      this.refreshTokenRepository.create({
+        sessionId,
+        tokenHash: this.hashToken(rawToken),
+        expiresAt: new Date(Date.now() + this.refreshTtlMs),
+      }),
+    );
+
+    return rawToken;
+  }
+
+  private isActive(session: AuthSession): boolean {
+    return !session.revokedAt && session.expiresAt.getTime() > Date.now();
+  }
+
+  private hashToken(rawToken: string): string {
+    return createHash('sha256').update(rawToken).digest('hex');
+  }
+}
@@ -0,0 +1,151 @@
+import { BadRequestException } from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { createHash } from 'crypto';
+import { FindOperator } from 'typeorm';
+import { UserToken, UserTokenPurpose } from '../entities/user-token.entity';
+import { UserTokenService } from './user-token.service';
+
+describe('UserTokenService', () => {
+  let service: UserTokenService;
+  let tokens: UserToken[];
+
+  // Equality, or IsNull() for an operator
+  const matches = (token: UserToken, where: Record<string, unknown>) =>
+    Object.entries(where).every(([key, value]) => {
+      const actual = token[key as keyof UserToken];
+      return value instanceof FindOperator
+        ? actual === null || actual === undefined
+        : actual === value;
+    });
+
+  const mockRepository = {
+    create: jest.fn((data: Partial<UserToken>) => ({
+      id: `token-${tokens.length + 1}`,
+      usedAt: null,
+      ...data,
+    })),
+    save: jest.fn((token: UserToken) => {
+      tokens.push(token);
+      return Promise.resolve(token);
+    }),
+    findOne: jest.fn(({ where }: { where: Record<string, unknown> }) =>
+      Promise.resolve(tokens.find((token) => matches(token, where)) ?? null),
+    ),
+    update: jest.fn(
+      (where: Record<string, unknown>, partial: Partial<UserToken>) => {
+        const matched = tokens.filter((token) => matches(token, where));
+        matched.forEach((token) => Object.assign(token, partial));
+        return Promise.resolve({ affected: matched.length });
+      },
+    ),
+  };
+
+  const sha256 = (value: string) =>
+    createHash('sha256').update(value).digest('hex');
+
+  beforeEach(async () => {
+    tokens = [];
+    jest.clearAllMocks();
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        UserTokenService,
+        { provide: getRepositoryToken(UserToken), useValue: mockRepository },
+      ],
+    }).compile();
+
+    service = module.get<UserTokenService>(UserTokenService);
+  });
+
+  it('should store only the hash of the issued token', async () => {
+    const { token, expiresAt } = await service.issue(
+      'user-1',
+      UserTokenPurpose.PASSWORD_RESET,
+      60_000,
+    );
+
+    expect(tokens).toHaveLength(1);
+    expect(tokens[0].tokenHash).toBe(sha256(token));
+    expect(tokens[0].tokenHash).not.toContain(token);
+    expect(expiresAt.getTime()).toBeGreaterThan(Date.now());
+  });
+
+  it('should redeem a token once for the user it was issued to', async () => {
+    const { token } = await service.issue(
+      'user-1',
+      UserTokenPurpose.PASSWORD_RESET,
+      60_000,
+    );
+
+    await expect(
+      service.consume(token, UserTokenPurpose.PASSWORD_RESET),
+    ).resolves.toBe('user-1');
+    await expect(
+      service.consume(token, UserTokenPurpose.PASSWORD_RESET),
+    ).rejects.toThrow(BadRequestException);
+  });
+
+  it('should let only one of two concurrent redemptions succeed', async () => {
+    const { token } = await service.issue(
+      'user-1',
+      UserTokenPurpose.PASSWORD_RESET,
+      60_000,
+    );
+
+    const results = await Promise.allSettled([
+      service.consume(token, UserTokenPurpose.PASSWORD_RESET),
+      service.consume(token, UserTokenPurpose.PASSWORD_RESET),
+    ]);
+
+    expect(results.map(({ status }) => status).sort()).toEqual([
+      'fulfilled',
+      'rejected',
+    ]);
+  });
+
+  it('should reject expired tokens', async () => {
+    const { token } = await service.issue(
+      'user-1',
+      UserTokenPurpose.EMAIL_VERIFICATION,
+      60_000,
+    );
+    tokens[0].expiresAt = new Date(Date.now() - 1000);
+
+    await expect(
+      service.consume(token, UserTokenPurpose.EMAIL_VERIFICATION),
+    ).rejects.toThrow(BadRequestException);
+  });
+
+  it('should reject a token issued for another purpose', async () => {
+    const { token } = await service.issue(
+      'user-1',
+      UserTokenPurpose.EMAIL_VERIFICATION,
+      60_000,
+    );
+
+    await expect(
+      service.consume(token, UserTokenPurpose.PASSWORD_RESET),
+    ).rejects.toThrow(BadRequestException);
+  });
+
+  it('should invalidate the earlier token when a new one is issued', async () => {
+    const first = await service.issue(
+      'user-1',
+      UserTokenPurpose.PASSWORD_RESET,
+      60_000,
+    );
+    const second = await service.issue(
+      'user-1',
+      UserTokenPurpose.PASSWORD_RESET,
+      60_000,
+    );
+
+    await expect(
+      service.consume(first.token, UserTokenPurpose.PASSWORD_RESET),
+    ).rejects.toThrow(BadRequestException);
+    await expect(
+      service.consume(second.token, UserTokenPurpose.PASSWORD_RESET),
+    ).resolves.toBe('user-1');
+  });
+});
@@ -0,0 +1,69 @@
+import { BadRequestException, Injectable } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { createHash, randomBytes } from 'crypto';
+import { IsNull, Repository } from 'typeorm';
+import { USER_TOKEN_BYTES } from '../constants';
+import { UserToken, UserTokenPurpose } from '../entities/user-token.entity';
+
+@Injectable()
+export class UserTokenService {
+  constructor(
+    @InjectRepository(UserToken)
+    private readonly userTokenRepository: Repository<UserToken>,
+  ) {}
+
+  /**
+   * Issues a new token for the purpose and invalidates any earlier unused
+   * one, so only the most recently mailed link works.
+   */
+  async issue(
+    userId: string,
+    purpose: UserTokenPurpose,
+    ttlMs: number,
+  ): Promise<{ token: string; expiresAt: Date }> {
+    await this.userTokenRepository.update(
+      { userId, purpose, usedAt: IsNull() },
+      { usedAt: new Date() },
+    );
+
+    const token = randomBytes(USER_TOKEN_BYTES).toString('base64url');
+    const expiresAt = new Date(Date.now() + ttlMs);
+
+    await this.userTokenRepository.save(
+      this.userTokenRepository.create({
+        userId,
+        purpose,
+        tokenHash: this.hashToken(token),
+        expiresAt,
+      }),
+    );
+
+    return { token, expiresAt };
+  }
+
+  /** Marks the token as used and returns the id of the user it was issued to. */
+  async consume(token: string, purpose: UserTokenPurpose): Promise<string> {
+    const record = await this.userTokenRepository.findOne({
+      where: { tokenHash: this.hashToken(token), purpose },
+    });
+
+    if (!record || record.usedAt || record.expiresAt.getTime() <= Date.now()) {
+      throw new BadRequestException('Invalid or expired token');
+    }
+
+    // Conditional update so the same link cannot be redeemed twice concurrently
+    const result = await this.userTokenRepository.update(
+      { id: record.id, usedAt: IsNull() },
+      { usedAt: new Date() },
+    );
+    if (!result.affected) {
+      throw new BadRequestException('Invalid or expired token');
+    }
+
+    return record.userId;
+  }
+
+  private hashToken(token: string): string {
+    return createHash('sha256').update(token).digest('hex');
+  }
+}
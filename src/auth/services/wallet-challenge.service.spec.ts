@@ -0,0 +1,183 @@
+import { BadRequestException, UnauthorizedException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { Keypair, hash } from 'stellar-sdk';
+import { STELLAR_SIGNED_MESSAGE_PREFIX } from '../constants';
+import { WalletChallenge } from '../entities/wallet-challenge.entity';
+import { WalletChallengeService } from './wallet-challenge.service';
+
+describe('WalletChallengeService', () => {
+  let service: WalletChallengeService;
+  let challenges: WalletChallenge[];
+
+  const mockRepository = {
+    create: jest.fn((data: Partial<WalletChallenge>) => ({
+      id: `challenge-${challenges.length + 1}`,
+      consumedAt: null,
+      ...data,
+    })),
+    save: jest.fn((challenge: WalletChallenge) => {
+      challenges.push(challenge);
+      return Promise.resolve(challenge);
+    }),
+    delete: jest.fn().mockResolvedValue({ affected: 0 }),
+    findOne: jest.fn(
+      ({ where }: { where: { publicKey: string; nonce: string } }) =>
+        Promise.resolve(
+          challenges.find(
+            (c) => c.publicKey === where.publicKey && c.nonce === where.nonce,
+          ) ?? null,
+        ),
+    ),
+    update: jest.fn(
+      (criteria: { id: string }, partial: Partial<WalletChallenge>) => {
+        const challenge = challenges.find(
+          (c) => c.id === criteria.id && !c.consumedAt,
+        );
+        if (challenge) Object.assign(challenge, partial);
+        return Promise.resolve({ affected: challenge ? 1 : 0 });
+      },
+    ),
+  };
+
+  const sign = (keypair: Keypair, message: string) =>
+    keypair.sign(Buffer.from(message)).toString('base64');
+
+  beforeEach(async () => {
+    challenges = [];
+    jest.clearAllMocks();
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        WalletChallengeService,
+        {
+          provide: getRepositoryToken(WalletChallenge),
+          useValue: mockRepository,
+        },
+        {
+          provide: ConfigService,
+          useValue: {
+            get: jest.fn((key: string) =>
+              key === 'WALLET_AUTH_DOMAIN' ? 'skillcert.test' : undefined,
+            ),
+          },
+        },
+      ],
+    }).compile();
+
+    service = module.get<WalletChallengeService>(WalletChallengeService);
+  });
+
+  describe('issue', () => {
+    it('should issue a challenge bound to the key, domain and nonce', async () => {
+      const keypair = Keypair.random();
+
+      const challenge = await service.issue(keypair.publicKey());
+
+      expect(challenge.nonce).toMatch(/^[0-9a-f]{64}$/);
+      expect(challenge.domain).toBe('skillcert.test');
+      expect(challenge.message).toContain(keypair.publicKey());
+      expect(challenge.message).toContain(`Nonce: ${challenge.nonce}`);
+      expect(challenge.expiresAt.getTime()).toBeGreaterThan(
+        challenge.issuedAt.getTime(),
+      );
+      expect(mockRepository.save).toHaveBeenCalledTimes(1);
+    });
+
+    it('should issue a different nonce every time', async () => {
+      const publicKey = Keypair.random().publicKey();
+
+      const first = await service.issue(publicKey);
+      const second = await service.issue(publicKey);
+
+      expect(first.nonce).not.toEqual(second.nonce);
+    });
+
+    it('should reject an invalid public key', async () => {
+      await expect(service.issue('not-a-key')).rejects.toThrow(
+        BadRequestException,
+      );
+    });
+  });
+
+  describe('redeem', () => {
+    it('should accept a signature over the outstanding challenge', async () => {
+      const keypair = Keypair.random();
+      const { nonce, message } = await service.issue(keypair.publicKey());
+
+      await expect(
+        service.redeem(keypair.publicKey(), nonce, sign(keypair, message)),
+      ).resolves.toBeUndefined();
+      expect(challenges[0].consumedAt).toBeInstanceOf(Date);
+    });
+
+    it('should accept a SEP-53 prefixed message signature', async () => {
+      const keypair = Keypair.random();
+      const { nonce, message } = await service.issue(keypair.publicKey());
+      const signature = keypair
+        .sign(hash(Buffer.from(STELLAR_SIGNED_MESSAGE_PREFIX + message)))
+        .toString('base64');
+
+      await expect(
+        service.redeem(keypair.publicKey(), nonce, signature),
+      ).resolves.toBeUndefined();
+    });
+
+    it('should reject a replayed signature', async () => {
+      const keypair = Keypair.random();
+      const { nonce, message } = await service.issue(keypair.publicKey());
+      const signature = sign(keypair, message);
+
+      await service.redeem(keypair.publicKey(), nonce, signature);
+
+      await expect(
+        service.redeem(keypair.publicKey(), nonce, signature),
+      ).rejects.toThrow('Wallet challenge has already been used');
+    });
+
+    it('should reject a signature made by another key', async () => {
+      const keypair = Keypair.random();
+      const attacker = Keypair.random();
+      const { nonce, message } = await service.issue(keypair.publicKey());
+
+      await expect(
+        service.redeem(keypair.publicKey(), nonce, sign(attacker, message)),
+      ).rejects.toThrow('Invalid Stellar signature');
+      expect(challenges[0].consumedAt).toBeNull();
+    });
+
+    it('should reject a signature over arbitrary data', async () => {
+      const keypair = Keypair.random();
+      const { nonce } = await service.issue(keypair.publicKey());
+
+      await expect(
+        service.redeem(
+          keypair.publicKey(),
+          nonce,
+          sign(keypair, 'Signing in to SkillCert'),
+        ),
+      ).rejects.toThrow(UnauthorizedException);
+    });
+
+    it('should reject an expired challenge', async () => {
+      const keypair = Keypair.random();
+      const { nonce, message } = await service.issue(keypair.publicKey());
+      challenges[0].expiresAt = new Date(Date.now() - 1000);
+
+      await expect(
+        service.redeem(keypair.publicKey(), nonce, sign(keypair, message)),
+      ).rejects.toThrow('Wallet challenge has expired');
+    });
+
+    it('should reject a challenge issued to a different key', async () => {
+      const keypair = Keypair.random();
+      const other = Keypair.random();
+      const { nonce, message } = await service.issue(keypair.publicKey());
+
+      await expect(
+        service.redeem(other.publicKey(), nonce, sign(other, message)),
+      ).rejects.toThrow('Unknown wallet challenge');
+    });
+  });
+});
@@ -0,0 +1,147 @@
+import {
+  BadRequestException,
+  Injectable,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectRepository } from '@nestjs/typeorm';
+import { randomBytes } from 'crypto';
+import { Keypair, StrKey, hash } from 'stellar-sdk';
+import { IsNull, LessThan, Repository } from 'typeorm';
+import {
+  DEFAULT_WALLET_AUTH_DOMAIN,
+  STELLAR_SIGNED_MESSAGE_PREFIX,
+  WALLET_CHALLENGE_NONCE_BYTES,
+  WALLET_CHALLENGE_TTL_SECONDS,
+} from '../constants';
+import { WalletChallengeResponseDto } from '../dto/wallet-challenge.dto';
+import { WalletChallenge } from '../entities/wallet-challenge.entity';
+
+/**
+ * Issues and redeems single-use, expiring sign-in challenges for Stellar
+ * wallets (SEP-10 style), so a captured signature cannot be replayed.
+ */
+@Injectable()
+export class WalletChallengeService {
+  private readonly domain: string;
+  private readonly ttlSeconds: number;
+
+  constructor(
+    @InjectRepository(WalletChallenge)
+    private readonly challengeRepository: Repository<WalletChallenge>,
+    configService: ConfigService,
+  ) {
+    this.domain =
+      configService.get<string>('WALLET_AUTH_DOMAIN') ||
+      DEFAULT_WALLET_AUTH_DOMAIN;
+    this.ttlSeconds =
+      Number(configService.get<string>('WALLET_CHALLENGE_TTL_SECONDS')) ||
+      WALLET_CHALLENGE_TTL_SECONDS;
+  }
+
+  async issue(publicKey: string): Promise<WalletChallengeResponseDto> {
+    if (!StrKey.isValidEd25519PublicKey(publicKey)) {
+      throw new BadRequestException('Invalid Stellar public key');
+    }
+
+    // Drop this key's stale challenges so the table does not grow unbounded
+    await this.challengeRepository.delete({
+      publicKey,
+      expiresAt: LessThan(new Date()),
+    });
+
+    const issuedAt = new Date();
+    const expiresAt = new Date(issuedAt.getTime() + this.ttlSeconds * 1000);
+    const nonce = randomBytes(WALLET_CHALLENGE_NONCE_BYTES).toString('hex');
+    const message = this.buildMessage(publicKey, nonce, issuedAt, expiresAt);
+
+    await this.challengeRepository.save(
+      this.challengeRepository.create({
+        publicKey,
+        nonce,
+        domain: this.domain,
+        message,
+        expiresAt,
+      }),
+    );
+
+    return { nonce, domain: this.domain, message, issuedAt, expiresAt };
+  }
+
+  /**
+   * Verifies the signature against an outstanding challenge and marks the
+   * challenge as used. Throws UnauthorizedException on any failure.
+   */
+  async redeem(
+    publicKey: string,
+    nonce: string,
+    signature: string,
+  ): Promise<void> {
+    const challenge = await this.challengeRepository.findOne({
+      where: { publicKey, nonce },
+    });
+
+    if (!challenge) {
+      throw new UnauthorizedException('Unknown wallet challenge');
+    }
+    if (challenge.consumedAt) {
+      throw new UnauthorizedException('Wallet challenge has already been used');
+    }
+    if (challenge.expiresAt.getTime() <= Date.now()) {
+      throw new UnauthorizedException('Wallet challenge has expired');
+    }
+    if (!this.verifySignature(publicKey, challenge.message, signature)) {
+      throw new UnauthorizedException('Invalid Stellar signature');
+    }
+
+    // Conditional update so two concurrent requests cannot both redeem it
+    const result = await this.challengeRepository.update(
+      { id: challenge.id, consumedAt: IsNull() },
+      { consumedAt: new Date() },
+    );
+    if (!result.affected) {
+      throw new UnauthorizedException('Wallet challenge has already been used');
+    }
+  }
+
+  private buildMessage(
+    publicKey: string,
+    nonce: string,
+    issuedAt: Date,
+    expiresAt: Date,
+  ): string {
+    return [
+      `${this.domain} wants you to sign in with your Stellar account:`,
+      publicKey,
+      '',
+      `Nonce: ${nonce}`,
+      `Issued At: ${issuedAt.toISOString()}`,
+      `Expiration Time: ${expiresAt.toISOString()}`,
+    ].join('\n');
+  }
+
+  /**
+   * Accepts both raw message signatures and SEP-53 signatures, where the
+   * wallet signs sha256(prefix + message) instead of the message itself.
+   */
+  private verifySignature(
+    publicKey: string,
+    message: string,
+    signature: string,
+  ): boolean {
+    try {
+      const keypair = Keypair.fromPublicKey(publicKey);
+      const signatureBuffer = Buffer.from(signature, 'base64');
+      const prefixedDigest = hash(
+        Buffer.from(STELLAR_SIGNED_MESSAGE_PREFIX + message),
+      );
+
+      return (
+        keypair.verify(Buffer.from(message), signatureBuffer) ||
+        keypair.verify(prefixedDigest, signatureBuffer)
+      );
+    } catch {
+      return false;
+    }
+  }
+}
@@ -0,0 +1,172 @@
+import {
+  BadRequestException,
+  ConflictException,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { FindOperator } from 'typeorm';
+import { CentralizedLoggerService } from '../../common/logger/services/centralized-logger.service';
+import {
+  UserWallet,
+  WalletChain,
+} from '../../users/entities/user-wallet.entity';
+import { User } from '../../users/entities/user.entity';
+import { WalletChallengeService } from './wallet-challenge.service';
+import { WalletsService } from './wallets.service';
+
+describe('WalletsService', () => {
+  let service: WalletsService;
+  let wallets: UserWallet[];
+  let userKeys: Record<string, string | null>;
+
+  const KEY_A = 'GBRPYHIL2CI3FNQ4BXLFMNDLFJUNPU2HY3ZMFSHONUCEOASW7QC7OX2H';
+  const KEY_B = 'GAHK7EEG2WWHVKDNT4CEQFZGKF2LGDSW2IVM4S5DP42RBW3K6BTODB4A';
+
+  // Only Not() operators are used in wallet criteria
+  const matches = (wallet: UserWallet, criteria: object) =>
+    Object.entries(criteria).every(([key, value]) =>
+      value instanceof FindOperator
+        ? wallet[key] !== value.value
+        : wallet[key] === value,
+    );
+
+  const manager = {
+    update: jest.fn(
+      (_entity: unknown, criteria: object | string, partial: object) => {
+        // Users are updated by id, wallets by criteria
+        if (typeof criteria === 'string') {
+          userKeys[criteria] = (
+            partial as Pick<User, 'stellarPublicKey'>
+          ).stellarPublicKey;
+        } else {
+          wallets
+            .filter((wallet) => matches(wallet, criteria))
+            .forEach((wallet) => Object.assign(wallet, partial));
+        }
+        return Promise.resolve({ affected: 1 });
+      },
+    ),
+    delete: jest.fn((_entity: unknown, { id }: { id: string }) => {
+      wallets = wallets.filter((wallet) => wallet.id !== id);
+      return Promise.resolve({ affected: 1 });
+    }),
+    transaction: jest.fn((work: (m: unknown) => Promise<void>) =>
+      work(manager),
+    ),
+  };
+
+  const walletRepository = {
+    manager,
+    create: jest.fn((data: Partial<UserWallet>) => ({
+      id: `wallet-${wallets.length + 1}`,
+      createdAt: new Date(Date.now() + wallets.length),
+      ...data,
+    })),
+    save: jest.fn((wallet: UserWallet) => {
+      wallets.push(wallet);
+      return Promise.resolve(wallet);
+    }),
+    findOne: jest.fn(({ where }: { where: Partial<UserWallet> }) =>
+      Promise.resolve(wallets.find((wallet) => matches(wallet, where)) ?? null),
+    ),
+    find: jest.fn(({ where }: { where: object }) =>
+      Promise.resolve(wallets.filter((wallet) => matches(wallet, where))),
+    ),
+    count: jest.fn(({ where }: { where: Partial<UserWallet> }) =>
+      Promise.resolve(
+        wallets.filter((wallet) => matches(wallet, where)).length,
+      ),
+    ),
+  };
+  const userRepository = {
+    manager,
+    findOne: jest.fn(() =>
+      Promise.resolve({ id: 'user-1', email: 'jane@example.com' }),
+    ),
+  };
+  const walletChallengeService = { redeem: jest.fn(() => Promise.resolve()) };
+
+  const linkDto = (publicKey: string) => ({
+    publicKey,
+    nonce: 'a'.repeat(64),
+    signature: 'signature',
+  });
+
+  beforeEach(async () => {
+    wallets = [];
+    userKeys = {};
+    jest.clearAllMocks();
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        WalletsService,
+        { provide: getRepositoryToken(UserWallet), useValue: walletRepository },
+        { provide: getRepositoryToken(User), useValue: userRepository },
+        { provide: WalletChallengeService, useValue: walletChallengeService },
+        {
+          provide: CentralizedLoggerService,
+          useValue: {
+            setContext: jest.fn(),
+            info: jest.fn(),
+            error: jest.fn(),
+          },
+        },
+      ],
+    }).compile();
+
+    service = module.get<WalletsService>(WalletsService);
+  });
+
+  it('should make the first linked wallet primary and mirror it on the user', async () => {
+    const first = await service.link('user-1', linkDto(KEY_A));
+    const second = await service.link('user-1', linkDto(KEY_B));
+
+    expect(first.isPrimary).toBe(true);
+    expect(second.isPrimary).toBe(false);
+    expect(userKeys['user-1']).toBe(KEY_A);
+    await expect(
+      service.findUserIdByAddress(WalletChain.STELLAR, KEY_B),
+    ).resolves.toBe('user-1');
+  });
+
+  it('should refuse a wallet linked to another account', async () => {
+    await service.link('user-2', linkDto(KEY_A));
+
+    await expect(service.link('user-1', linkDto(KEY_A))).rejects.toThrow(
+      ConflictException,
+    );
+  });
+
+  it('should not link a wallet whose signature fails', async () => {
+    walletChallengeService.redeem.mockRejectedValueOnce(
+      new UnauthorizedException('Invalid Stellar signature'),
+    );
+
+    await expect(service.link('user-1', linkDto(KEY_A))).rejects.toThrow(
+      BadRequestException,
+    );
+    expect(wallets).toHaveLength(0);
+  });
+
+  it('should switch the primary wallet', async () => {
+    await service.link('user-1', linkDto(KEY_A));
+    const second = await service.link('user-1', linkDto(KEY_B));
+
+    await service.setPrimary('user-1', second.id);
+
+    expect(wallets.map((wallet) => wallet.isPrimary)).toEqual([false, true]);
+    expect(userKeys['user-1']).toBe(KEY_B);
+  });
+
+  it('should promote the next wallet when the primary one is unlinked', async () => {
+    const first = await service.link('user-1', linkDto(KEY_A));
+    await service.link('user-1', linkDto(KEY_B));
+
+    await service.unlink('user-1', first.id);
+
+    expect(wallets).toHaveLength(1);
+    expect(wallets[0]).toMatchObject({ address: KEY_B, isPrimary: true });
+    expect(userKeys['user-1']).toBe(KEY_B);
+  });
+});
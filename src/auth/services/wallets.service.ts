@@ -0,0 +1,252 @@
+import {
+  BadRequestException,
+  ConflictException,
+  Inject,
+  Injectable,
+  NotFoundException,
+  OnApplicationBootstrap,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { EntityManager, Not, Repository } from 'typeorm';
+import { CentralizedLoggerService } from '../../common/logger/services/centralized-logger.service';
+import {
+  UserWallet,
+  WalletChain,
+} from '../../users/entities/user-wallet.entity';
+import { User } from '../../users/entities/user.entity';
+import { LEGACY_WALLET_EMAIL_DOMAIN, MAX_WALLETS_PER_USER } from '../constants';
+import { LinkWalletDto, UserWalletResponseDto } from '../dto/user-wallet.dto';
+import { WalletChallengeService } from './wallet-challenge.service';
+
+/**
+ * Wallets a user proved they own. Wallet login resolves the account through
+ * this table, and `users.stellarPublicKey` mirrors the primary wallet.
+ */
+@Injectable()
+export class WalletsService implements OnApplicationBootstrap {
+  constructor(
+    @InjectRepository(UserWallet)
+    private readonly walletRepository: Repository<UserWallet>,
+    @InjectRepository(User)
+    private readonly userRepository: Repository<User>,
+    private readonly walletChallengeService: WalletChallengeService,
+    @Inject(CentralizedLoggerService)
+    private readonly logger: CentralizedLoggerService,
+  ) {
+    this.logger.setContext(WalletsService.name);
+  }
+
+  async onApplicationBootstrap(): Promise<void> {
+    try {
+      await this.backfill();
+    } catch (error) {
+      this.logger.error('Failed to backfill user wallets', error as Error, {
+        operation: 'backfill',
+      });
+    }
+  }
+
+  /**
+   * Moves keys that signed in before user_wallets existed into the table.
+   * Those keys were proven by wallet login, so they count as verified.
+   */
+  async backfill(): Promise<void> {
+    const users = await this.userRepository
+      .createQueryBuilder('user')
+      .leftJoin('user.wallets', 'wallet')
+      .where('user.stellarPublicKey IS NOT NULL')
+      .andWhere('wallet.id IS NULL')
+      .select(['user.id', 'user.stellarPublicKey', 'user.createdAt'])
+      .getMany();
+    if (!users.length) {
+      return;
+    }
+
+    await this.walletRepository.save(
+      users.map((user) =>
+        this.walletRepository.create({
+          userId: user.id,
+          chain: WalletChain.STELLAR,
+          address: user.stellarPublicKey as string,
+          isPrimary: true,
+          verifiedAt: user.createdAt,
+        }),
+      ),
+    );
+    this.logger.info('Backfilled user wallets', { count: users.length });
+  }
+
+  async findAllForUser(userId: string): Promise<UserWalletResponseDto[]> {
+    const wallets = await this.walletRepository.find({
+      where: { userId },
+      order: { isPrimary: 'DESC', createdAt: 'ASC' },
+    });
+    return wallets.map((wallet) => this.toResponseDto(wallet));
+  }
+
+  /** Returns the owner of a verified wallet, or null when it is not linked. */
+  async findUserIdByAddress(
+    chain: WalletChain,
+    address: string,
+  ): Promise<string | null> {
+    const wallet = await this.walletRepository.findOne({
+      where: { chain, address },
+      select: { id: true, userId: true },
+    });
+    return wallet?.userId ?? null;
+  }
+
+  /**
+   * Links a wallet after verifying its signature over a challenge from
+   * GET /auth/wallet/challenge. The first wallet becomes the primary one.
+   */
+  async link(
+    userId: string,
+    { publicKey, nonce, signature, label }: LinkWalletDto,
+  ): Promise<UserWalletResponseDto> {
+    const existing = await this.walletRepository.findOne({
+      where: { chain: WalletChain.STELLAR, address: publicKey },
+    });
+    if (existing) {
+      throw new ConflictException(
+        existing.userId === userId
+          ? 'Wallet is already linked to your account'
+          : 'Wallet is already linked to another account',
+      );
+    }
+
+    const count = await this.walletRepository.count({ where: { userId } });
+    if (count >= MAX_WALLETS_PER_USER) {
+      throw new BadRequestException(
+        `You can link at most ${MAX_WALLETS_PER_USER} wallets`,
+      );
+    }
+
+    try {
+      await this.walletChallengeService.redeem(publicKey, nonce, signature);
+    } catch (error) {
+      // A failed proof is a bad request here, not an expired login
+      if (error instanceof UnauthorizedException) {
+        throw new BadRequestException(error.message);
+      }
+      throw error;
+    }
+
+    const wallet = await this.walletRepository.save(
+      this.walletRepository.create({
+        userId,
+        chain: WalletChain.STELLAR,
+        address: publicKey,
+        label: label ?? null,
+        isPrimary: count === 0,
+        verifiedAt: new Date(),
+      }),
+    );
+    if (wallet.isPrimary) {
+      await this.syncUserKey(this.userRepository.manager, userId, wallet);
+    }
+
+    return this.toResponseDto(wallet);
+  }
+
+  async setPrimary(
+    userId: string,
+    walletId: string,
+  ): Promise<UserWalletResponseDto> {
+    const wallet = await this.findOwned(userId, walletId);
+    if (wallet.isPrimary) {
+      return this.toResponseDto(wallet);
+    }
+
+    await this.walletRepository.manager.transaction(async (manager) => {
+      await manager.update(
+        UserWallet,
+        { userId, isPrimary: true },
+        { isPrimary: false },
+      );
+      await manager.update(UserWallet, { id: wallet.id }, { isPrimary: true });
+      await this.syncUserKey(manager, userId, wallet);
+    });
+
+    return this.toResponseDto({ ...wallet, isPrimary: true });
+  }
+
+  /**
+   * Removes a wallet. When it was the primary one, the oldest remaining
+   * wallet takes its place.
+   */
+  async unlink(userId: string, walletId: string): Promise<void> {
+    const wallet = await this.findOwned(userId, walletId);
+
+    const user = await this.userRepository.findOne({
+      where: { id: userId },
+      select: { id: true, email: true },
+    });
+    const remaining = await this.walletRepository.find({
+      where: { userId, id: Not(wallet.id) },
+      order: { createdAt: 'ASC' },
+      take: 1,
+    });
+    // Accounts created by wallet sign-up have no password the user knows
+    if (
+      !remaining.length &&
+      user?.email.endsWith(`@${LEGACY_WALLET_EMAIL_DOMAIN}`)
+    ) {
+      throw new BadRequestException(
+        'This account signs in with its wallet only; link another wallet first',
+      );
+    }
+
+    await this.walletRepository.manager.transaction(async (manager) => {
+      await manager.delete(UserWallet, { id: wallet.id });
+      if (!wallet.isPrimary) {
+        return;
+      }
+
+      const [successor] = remaining;
+      if (successor) {
+        await manager.update(
+          UserWallet,
+          { id: successor.id },
+          { isPrimary: true },
+        );
+      }
+      await this.syncUserKey(manager, userId, successor ?? null);
+    });
+  }
+
+  private async findOwned(
+    userId: string,
+    walletId: string,
+  ): Promise<UserWallet> {
+    const wallet = await this.walletRepository.findOne({
+      where: { id: walletId, userId },
+    });
+    if (!wallet) {
+      throw new NotFoundException(`Wallet with ID ${walletId} not found`);
+    }
+    return wallet;
+  }
+
+  private async syncUserKey(
+    manager: EntityManager,
+    userId: string,
+    primary: UserWallet | null,
+  ): Promise<void> {
+    await manager.update(User, userId, {
+      stellarPublicKey: primary?.address ?? null,
+    });
+  }
+
+  private toResponseDto(wallet: UserWallet): UserWalletResponseDto {
+    return {
+      id: wallet.id,
+      chain: wallet.chain,
+      address: wallet.address,
+      label: wallet.label,
+      isPrimary: wallet.isPrimary,
+      verifiedAt: wallet.verifiedAt,
+    };
+  }
+}
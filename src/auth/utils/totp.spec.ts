@@ -0,0 +1,58 @@
+import {
+  base32Decode,
+  base32Encode,
+  buildOtpauthUri,
+  generateTotp,
+  generateTotpSecret,
+  getTotpStep,
+  verifyTotp,
+} from './totp';
+
+describe('totp', () => {
+  // RFC 6238 appendix B reference secret ("12345678901234567890")
+  const rfcSecret = base32Encode(Buffer.from('12345678901234567890'));
+
+  it('should round-trip base32 encoding', () => {
+    const buffer = Buffer.from('SkillCert MFA secret');
+
+    expect(base32Decode(base32Encode(buffer))).toEqual(buffer);
+  });
+
+  it('should match the RFC 6238 SHA-1 test vectors', () => {
+    expect(generateTotp(rfcSecret, getTotpStep(59 * 1000), 8)).toBe('94287082');
+    expect(generateTotp(rfcSecret, getTotpStep(1111111109 * 1000), 8)).toBe(
+      '07081804',
+    );
+    expect(generateTotp(rfcSecret, getTotpStep(2000000000 * 1000), 8)).toBe(
+      '69279037',
+    );
+  });
+
+  it('should accept the current code and tolerate one step of drift', () => {
+    const secret = generateTotpSecret();
+    const now = Date.now();
+    const previousCode = generateTotp(secret, getTotpStep(now) - 1);
+
+    expect(verifyTotp(secret, generateTotp(secret), 1, now)).toBe(
+      getTotpStep(now),
+    );
+    expect(verifyTotp(secret, previousCode, 1, now)).toBe(getTotpStep(now) - 1);
+  });
+
+  it('should reject wrong or malformed codes', () => {
+    const secret = generateTotpSecret();
+    const staleCode = generateTotp(secret, getTotpStep() - 5);
+
+    expect(verifyTotp(secret, staleCode)).toBeNull();
+    expect(verifyTotp(secret, 'abcdef')).toBeNull();
+    expect(verifyTotp(secret, '12345')).toBeNull();
+  });
+
+  it('should build an otpauth URI for authenticator apps', () => {
+    const uri = buildOtpauthUri('SkillCert', 'jane@example.com', 'JBSWY3DP');
+
+    expect(uri).toMatch(/^otpauth:\/\/totp\/SkillCert%3Ajane%40example\.com\?/);
+    expect(uri).toContain('secret=JBSWY3DP');
+    expect(uri).toContain('issuer=SkillCert');
+  });
+});
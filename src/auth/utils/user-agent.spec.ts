@@ -0,0 +1,24 @@
+import { describeDevice } from './user-agent';
+
+describe('describeDevice', () => {
+  it('should name the browser and operating system', () => {
+    expect(
+      describeDevice(
+        'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36 Edg/120.0.0.0',
+      ),
+    ).toBe('Edge on Windows');
+    expect(
+      describeDevice(
+        'Mozilla/5.0 (iPhone; CPU iPhone OS 17_0 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/17.0 Mobile/15E148 Safari/604.1',
+      ),
+    ).toBe('Safari on iOS');
+  });
+
+  it('should fall back to the product token of unknown agents', () => {
+    expect(describeDevice('curl/8.4.0')).toBe('curl');
+  });
+
+  it('should return null without a user agent', () => {
+    expect(describeDevice(undefined)).toBeNull();
+  });
+});
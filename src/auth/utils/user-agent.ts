@@ -0,0 +1,38 @@
+// Checked in order: Edge and Opera also announce Chrome, Chrome announces Safari
+const BROWSERS: [RegExp, string][] = [
+  [/Edg(e|A|iOS)?\//, 'Edge'],
+  [/OPR\/|Opera/, 'Opera'],
+  [/Firefox\/|FxiOS\//, 'Firefox'],
+  [/Chrome\/|CriOS\//, 'Chrome'],
+  [/Safari\//, 'Safari'],
+];
+
+const OPERATING_SYSTEMS: [RegExp, string][] = [
+  [/Android/, 'Android'],
+  [/iPhone|iPad|iPod/, 'iOS'],
+  [/Windows/, 'Windows'],
+  [/Mac OS X|Macintosh/, 'macOS'],
+  [/CrOS/, 'ChromeOS'],
+  [/Linux/, 'Linux'],
+];
+
+const match = (userAgent: string, patterns: [RegExp, string][]) =>
+  patterns.find(([pattern]) => pattern.test(userAgent))?.[1];
+
+/**
+ * Turns a user agent into a short label such as "Firefox on Linux" for the
+ * session list. Unknown agents (scripts, CLIs) are shown by their product token.
+ */
+export function describeDevice(userAgent?: string | null): string | null {
+  if (!userAgent) {
+    return null;
+  }
+
+  const browser = match(userAgent, BROWSERS);
+  const os = match(userAgent, OPERATING_SYSTEMS);
+  if (browser && os) {
+    return `${browser} on ${os}`;
+  }
+
+  return (browser ?? os ?? userAgent.split(/[\s/]/)[0]).slice(0, 100);
+}
@@ -0,0 +1,61 @@
+import { Global, Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { AuthModule } from '../auth/auth.module';
+import { CourseInstructor } from '../courses/entities/course-instructor.entity';
+import { Course } from '../courses/entities/course.entity';
+import { LessonResource } from '../entities/lesson-resource.entity';
+import { Module as CourseModule } from '../entities/module.entity';
+import { Reference } from '../entities/reference.entity';
+import { Lesson } from '../lessons/entities/lesson.entity';
+import { Objective } from '../objectives/entities/objective.entity';
+import { QuestionBank } from '../question-banks/entities/question-bank.entity';
+import { Quiz } from '../quiz/entities/quiz.entity';
+import { User } from '../users/entities/user.entity';
+import { RolesController } from './controllers/roles.controller';
+import { Permission } from './entities/permission.entity';
+import { Role } from './entities/role.entity';
+import { OwnershipGuard } from './guards/ownership.guard';
+import { PermissionsGuard } from './guards/permissions.guard';
+import { OwnershipService } from './services/ownership.service';
+import { PermissionsService } from './services/permissions.service';
+import { RolesService } from './services/roles.service';
+
+/**
+ * Global so any controller can use `@CanManage()` with OwnershipGuard and
+ * `@RequirePermissions()` with PermissionsGuard.
+ */
+@Global()
+@Module({
+  imports: [
+    TypeOrmModule.forFeature([
+      Course,
+      CourseInstructor,
+      CourseModule,
+      Lesson,
+      LessonResource,
+      Objective,
+      Reference,
+      Quiz,
+      QuestionBank,
+      Permission,
+      Role,
+      User,
+    ]),
+    AuthModule,
+  ],
+  controllers: [RolesController],
+  providers: [
+    OwnershipService,
+    OwnershipGuard,
+    PermissionsService,
+    PermissionsGuard,
+    RolesService,
+  ],
+  exports: [
+    OwnershipService,
+    OwnershipGuard,
+    PermissionsService,
+    PermissionsGuard,
+  ],
+})
+export class AuthorizationModule {}
@@ -0,0 +1,64 @@
+import { UserRole } from '../users/enums/user-role.enum';
+
+/** Every permission the code checks. New keys are seeded on startup. */
+export enum PermissionKey {
+  COURSE_CREATE = 'course:create',
+  COURSE_PUBLISH = 'course:publish',
+  COURSE_MANAGE_ANY = 'course:manage-any',
+  REVIEW_MODERATE = 'review:moderate',
+  USER_READ = 'user:read',
+  USER_MANAGE = 'user:manage',
+  USER_UNLOCK = 'user:unlock',
+  USER_IMPERSONATE = 'user:impersonate',
+  ENROLLMENT_MANAGE = 'enrollment:manage',
+  PROGRESS_READ_ANY = 'progress:read-any',
+  ROLE_MANAGE = 'role:manage',
+  SERVICE_ACCOUNT_MANAGE = 'service-account:manage',
+  ANALYTICS_READ = 'analytics:read',
+  REPORT_EXPORT = 'report:export',
+  AUDIT_READ = 'audit:read',
+  SYSTEM_MAINTENANCE = 'system:maintenance',
+}
+
+export const PERMISSION_DESCRIPTIONS: Record<PermissionKey, string> = {
+  [PermissionKey.COURSE_CREATE]: 'Create courses as their professor',
+  [PermissionKey.COURSE_PUBLISH]: 'Publish and unpublish managed courses',
+  [PermissionKey.COURSE_MANAGE_ANY]:
+    'Manage the content of any course, regardless of ownership',
+  [PermissionKey.REVIEW_MODERATE]: 'Moderate course reviews',
+  [PermissionKey.USER_READ]: 'List and inspect user accounts',
+  [PermissionKey.USER_MANAGE]: 'Modify and delete user accounts',
+  [PermissionKey.USER_UNLOCK]: 'Lift login lockouts',
+  [PermissionKey.USER_IMPERSONATE]: 'Act on behalf of another user',
+  [PermissionKey.ENROLLMENT_MANAGE]: 'Enroll other users in courses',
+  [PermissionKey.PROGRESS_READ_ANY]:
+    "View any learner's enrollments and quiz attempts",
+  [PermissionKey.ROLE_MANAGE]: 'Manage roles and their permissions',
+  [PermissionKey.SERVICE_ACCOUNT_MANAGE]:
+    'Manage service accounts and their API keys',
+  [PermissionKey.ANALYTICS_READ]: 'View platform statistics and analytics',
+  [PermissionKey.REPORT_EXPORT]:
+    'Export users, enrollments, progress, quiz attempts and reviews',
+  [PermissionKey.AUDIT_READ]: 'View audit trails',
+  [PermissionKey.SYSTEM_MAINTENANCE]: 'Control maintenance mode',
+};
+
+/**
+ * Permissions of the built-in roles, one per legacy `UserRole` value. They
+ * are granted when a role or permission is first seeded; later changes made
+ * through the admin API are left alone.
+ */
+export const DEFAULT_ROLE_PERMISSIONS: Record<UserRole, PermissionKey[]> = {
+  [UserRole.ADMIN]: Object.values(PermissionKey),
+  [UserRole.MODERATOR]: [
+    PermissionKey.COURSE_CREATE,
+    PermissionKey.COURSE_PUBLISH,
+    PermissionKey.REVIEW_MODERATE,
+    PermissionKey.USER_READ,
+    PermissionKey.ANALYTICS_READ,
+  ],
+  [UserRole.USER]: [],
+};
+
+// How long resolved role permissions are cached in memory
+export const ROLE_PERMISSIONS_CACHE_TTL_MS = 60 * 1000;
@@ -0,0 +1,118 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  ParseUUIDPipe,
+  Post,
+  Put,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiBearerAuth,
+  ApiOperation,
+  ApiParam,
+  ApiResponse,
+  ApiTags,
+} from '@nestjs/swagger';
+import { AuthGuard } from '../../common/guards/auth.guard';
+import { DisallowImpersonation } from '../../impersonation/decorators/disallow-impersonation.decorator';
+import { PermissionKey } from '../constants';
+import { RequirePermissions } from '../decorators/require-permissions.decorator';
+import {
+  AssignRoleDto,
+  CreateRoleDto,
+  SetRolePermissionsDto,
+} from '../dto/role.dto';
+import { PermissionsGuard } from '../guards/permissions.guard';
+import { RolesService } from '../services/roles.service';
+
+@Controller('admin')
+@DisallowImpersonation()
+@ApiTags('admin')
+@ApiBearerAuth()
+@UseGuards(AuthGuard, PermissionsGuard)
+@RequirePermissions(PermissionKey.ROLE_MANAGE)
+export class RolesController {
+  constructor(private readonly rolesService: RolesService) {}
+
+  @Get('permissions')
+  @ApiOperation({ summary: 'List every known permission' })
+  @ApiResponse({ status: 200, description: 'Permissions retrieved' })
+  async findAllPermissions() {
+    return {
+      message: 'Permissions retrieved successfully',
+      data: await this.rolesService.findAllPermissions(),
+    };
+  }
+
+  @Get('roles')
+  @ApiOperation({ summary: 'List roles with their permissions' })
+  @ApiResponse({ status: 200, description: 'Roles retrieved' })
+  async findAllRoles() {
+    return {
+      message: 'Roles retrieved successfully',
+      data: await this.rolesService.findAll(),
+    };
+  }
+
+  @Post('roles')
+  @ApiOperation({ summary: 'Create a custom role' })
+  @ApiResponse({ status: 201, description: 'Role created' })
+  @ApiResponse({ status: 404, description: 'Unknown permission' })
+  @ApiResponse({ status: 409, description: 'Role name already taken' })
+  async createRole(@Body() dto: CreateRoleDto) {
+    return {
+      message: 'Role created successfully',
+      data: await this.rolesService.create(dto),
+    };
+  }
+
+  @Put('roles/:id/permissions')
+  @ApiOperation({ summary: "Replace a role's permissions" })
+  @ApiParam({ name: 'id', description: 'Role ID' })
+  @ApiResponse({ status: 200, description: 'Role permissions updated' })
+  @ApiResponse({ status: 404, description: 'Role or permission not found' })
+  async setRolePermissions(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() dto: SetRolePermissionsDto,
+  ) {
+    return {
+      message: 'Role permissions updated successfully',
+      data: await this.rolesService.setPermissions(id, dto.permissions),
+    };
+  }
+
+  @Delete('roles/:id')
+  @ApiOperation({ summary: 'Delete a custom role no user is assigned to' })
+  @ApiParam({ name: 'id', description: 'Role ID' })
+  @ApiResponse({ status: 204, description: 'Role deleted' })
+  @ApiResponse({ status: 404, description: 'Role not found' })
+  @ApiResponse({
+    status: 409,
+    description: 'System role, or role still assigned to users',
+  })
+  @HttpCode(HttpStatus.NO_CONTENT)
+  async deleteRole(@Param('id', ParseUUIDPipe) id: string): Promise<void> {
+    await this.rolesService.remove(id);
+  }
+
+  @Put('users/:id/role')
+  @ApiOperation({ summary: 'Assign a role to a user' })
+  @ApiParam({ name: 'id', description: 'User ID' })
+  @ApiResponse({ status: 200, description: 'Role assigned' })
+  @ApiResponse({ status: 404, description: 'User or role not found' })
+  async assignRole(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() dto: AssignRoleDto,
+  ) {
+    const user = await this.rolesService.assignToUser(id, dto.roleId);
+    return {
+      message: 'Role assigned successfully',
+      data: { userId: user.id, role: user.role, roleId: user.roleId },
+    };
+  }
+}
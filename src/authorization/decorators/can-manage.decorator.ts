@@ -0,0 +1,40 @@
+import {
+  CanManageOptions,
+  CanManageRule,
+  ManagedResource,
+} from '../interfaces/can-manage-rule.interface';
+
+export const CAN_MANAGE_KEY = 'canManage';
+
+/**
+ * Requires the current user to manage the course owning the resource whose
+ * id is found at `key` (a route param by default). Can be stacked; rules
+ * whose id is absent from the request are skipped, but at least one must apply.
+ *
+ * @example
+ * @CanManage('module')                                   // PATCH /modules/:id
+ * @CanManage('course', 'course_id', { from: 'body' })    // POST /modules
+ */
+export const CanManage =
+  (
+    resource: ManagedResource,
+    key = 'id',
+    options: CanManageOptions = {},
+  ): MethodDecorator =>
+  (_target, _propertyKey, descriptor) => {
+    const rules: CanManageRule[] =
+      Reflect.getMetadata(CAN_MANAGE_KEY, descriptor.value as object) ?? [];
+    const rule: CanManageRule = {
+      resource,
+      key,
+      from: options.from ?? 'params',
+      ownerOnly: options.ownerOnly ?? false,
+    };
+
+    Reflect.defineMetadata(
+      CAN_MANAGE_KEY,
+      [...rules, rule],
+      descriptor.value as object,
+    );
+    return descriptor;
+  };
@@ -0,0 +1,8 @@
+import { SetMetadata } from '@nestjs/common';
+import { PermissionKey } from '../constants';
+
+export const PERMISSIONS_KEY = 'permissions';
+
+/** Requires the current user's role to grant every listed permission. */
+export const RequirePermissions = (...permissions: PermissionKey[]) =>
+  SetMetadata(PERMISSIONS_KEY, permissions);
@@ -0,0 +1,49 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import {
+  ArrayUnique,
+  IsArray,
+  IsEnum,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  IsUUID,
+  Matches,
+  MaxLength,
+} from 'class-validator';
+import { PermissionKey } from '../constants';
+
+export class SetRolePermissionsDto {
+  @ApiProperty({
+    enum: PermissionKey,
+    isArray: true,
+    example: [PermissionKey.COURSE_CREATE, PermissionKey.COURSE_PUBLISH],
+  })
+  @IsArray()
+  @ArrayUnique()
+  @IsEnum(PermissionKey, { each: true })
+  permissions: PermissionKey[];
+}
+
+export class CreateRoleDto extends SetRolePermissionsDto {
+  @ApiProperty({ example: 'content-reviewer' })
+  @IsNotEmpty()
+  @IsString()
+  @MaxLength(50)
+  @Matches(/^[a-z][a-z0-9-]*$/, {
+    message: 'name must be lowercase letters, digits and dashes',
+  })
+  name: string;
+
+  @ApiPropertyOptional({ example: 'Moderates reviews of every course' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(255)
+  description?: string;
+}
+
+export class AssignRoleDto {
+  @ApiProperty({ description: 'ID of the role to assign' })
+  @IsNotEmpty()
+  @IsUUID()
+  roleId: string;
+}
@@ -0,0 +1,88 @@
+import { BadRequestException, ExecutionContext } from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { UserRole } from '../../users/entities/user.entity';
+import { CanManage } from '../decorators/can-manage.decorator';
+import { OwnershipService } from '../services/ownership.service';
+import { OwnershipGuard } from './ownership.guard';
+
+class ReferencesControllerStub {
+  @CanManage('reference')
+  @CanManage('lesson', 'lesson_id', { from: 'body' })
+  update() {}
+
+  list() {}
+}
+
+describe('OwnershipGuard', () => {
+  const ownershipService = { assertCanManage: jest.fn() };
+  const guard = new OwnershipGuard(
+    new Reflector(),
+    ownershipService as unknown as OwnershipService,
+  );
+  const user = { id: 'professor-1', role: UserRole.MODERATOR };
+  const referenceId = '6f1c2a1e-4b8e-4c6a-9d3f-1a2b3c4d5e6f';
+  const lessonId = '0b7d5c7e-2f3a-4e1b-8c9d-0e1f2a3b4c5d';
+
+  const contextFor = (
+    handler: () => void,
+    request: Record<string, unknown>,
+  ): ExecutionContext =>
+    ({
+      getHandler: () => handler,
+      switchToHttp: () => ({ getRequest: () => ({ user, ...request }) }),
+    }) as unknown as ExecutionContext;
+
+  beforeEach(() => {
+    ownershipService.assertCanManage.mockReset().mockResolvedValue(undefined);
+  });
+
+  it('should allow routes without @CanManage rules', async () => {
+    const context = contextFor(ReferencesControllerStub.prototype.list, {});
+
+    await expect(guard.canActivate(context)).resolves.toBe(true);
+    expect(ownershipService.assertCanManage).not.toHaveBeenCalled();
+  });
+
+  it('should check every rule whose id is present in the request', async () => {
+    const context = contextFor(ReferencesControllerStub.prototype.update, {
+      params: { id: referenceId },
+      body: { lesson_id: lessonId },
+    });
+
+    await expect(guard.canActivate(context)).resolves.toBe(true);
+    expect(ownershipService.assertCanManage).toHaveBeenCalledWith(
+      user,
+      'reference',
+      referenceId,
+      { ownerOnly: false },
+    );
+    expect(ownershipService.assertCanManage).toHaveBeenCalledWith(
+      user,
+      'lesson',
+      lessonId,
+      { ownerOnly: false },
+    );
+  });
+
+  it('should skip rules whose id is absent', async () => {
+    const context = contextFor(ReferencesControllerStub.prototype.update, {
+      params: { id: referenceId },
+      body: { title: 'Renamed' },
+    });
+
+    await guard.canActivate(context);
+
+    expect(ownershipService.assertCanManage).toHaveBeenCalledTimes(1);
+  });
+
+  it('should reject ids that are not UUIDs', async () => {
+    const context = contextFor(ReferencesControllerStub.prototype.update, {
+      params: { id: 'not-a-uuid' },
+      body: {},
+    });
+
+    await expect(guard.canActivate(context)).rejects.toThrow(
+      BadRequestException,
+    );
+  });
+});
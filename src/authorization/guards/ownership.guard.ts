@@ -0,0 +1,66 @@
+import {
+  BadRequestException,
+  CanActivate,
+  ExecutionContext,
+  Injectable,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { isUUID } from 'class-validator';
+import type { AuthenticatedRequest } from '../../auth/interfaces/authenticated-user.interface';
+import { CAN_MANAGE_KEY } from '../decorators/can-manage.decorator';
+import { CanManageRule } from '../interfaces/can-manage-rule.interface';
+import { OwnershipService } from '../services/ownership.service';
+
+/** Enforces the `@CanManage()` rules of a route. */
+@Injectable()
+export class OwnershipGuard implements CanActivate {
+  constructor(
+    private readonly reflector: Reflector,
+    private readonly ownershipService: OwnershipService,
+  ) {}
+
+  async canActivate(context: ExecutionContext): Promise<boolean> {
+    const rules = this.reflector.get<CanManageRule[] | undefined>(
+      CAN_MANAGE_KEY,
+      context.getHandler(),
+    );
+    if (!rules?.length) {
+      return true;
+    }
+
+    const request = context.switchToHttp().getRequest<AuthenticatedRequest>();
+    if (!request.user) {
+      throw new UnauthorizedException('User not authenticated');
+    }
+
+    // Guards run before validation pipes, so ids are checked here
+    const applicable = rules
+      .map((rule) => ({
+        rule,
+        id: (request[rule.from] as Record<string, unknown> | undefined)?.[
+          rule.key
+        ],
+      }))
+      .filter(({ id }) => id !== undefined && id !== null && id !== '');
+    if (!applicable.length) {
+      throw new BadRequestException(
+        'Unable to determine the course this request belongs to',
+      );
+    }
+
+    for (const { rule, id } of applicable) {
+      if (typeof id !== 'string' || !isUUID(id)) {
+        throw new BadRequestException(`${rule.key} must be a UUID`);
+      }
+      await this.ownershipService.assertCanManage(
+        request.user,
+        rule.resource,
+        id,
+        { ownerOnly: rule.ownerOnly },
+      );
+    }
+
+    return true;
+  }
+}
@@ -0,0 +1,47 @@
+import {
+  CanActivate,
+  ExecutionContext,
+  ForbiddenException,
+  Injectable,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import type { AuthenticatedRequest } from '../../auth/interfaces/authenticated-user.interface';
+import { PermissionKey } from '../constants';
+import { PERMISSIONS_KEY } from '../decorators/require-permissions.decorator';
+import { PermissionsService } from '../services/permissions.service';
+
+/** Enforces `@RequirePermissions()`; a method-level list overrides the class one. */
+@Injectable()
+export class PermissionsGuard implements CanActivate {
+  constructor(
+    private readonly reflector: Reflector,
+    private readonly permissionsService: PermissionsService,
+  ) {}
+
+  async canActivate(context: ExecutionContext): Promise<boolean> {
+    const required = this.reflector.getAllAndOverride<
+      PermissionKey[] | undefined
+    >(PERMISSIONS_KEY, [context.getHandler(), context.getClass()]);
+    if (!required?.length) {
+      return true;
+    }
+
+    const request = context.switchToHttp().getRequest<AuthenticatedRequest>();
+    if (!request.user) {
+      throw new UnauthorizedException('User not authenticated');
+    }
+
+    const granted = await this.permissionsService.getPermissionsForUser(
+      request.user,
+    );
+    const missing = required.filter((permission) => !granted.has(permission));
+    if (missing.length) {
+      throw new ForbiddenException(
+        `Access denied. Missing permissions: ${missing.join(', ')}`,
+      );
+    }
+
+    return true;
+  }
+}
@@ -0,0 +1,22 @@
+/** Course content types whose owning course the policy layer can resolve. */
+export type ManagedResource =
+  | 'course'
+  | 'module'
+  | 'lesson'
+  | 'lesson-resource'
+  | 'objective'
+  | 'reference'
+  | 'quiz'
+  | 'question-bank';
+
+export interface CanManageOptions {
+  /** Where the id is read from; defaults to the route params. */
+  from?: 'params' | 'body' | 'query';
+  /** Only the owning professor (or an admin) passes, not co-instructors. */
+  ownerOnly?: boolean;
+}
+
+export interface CanManageRule extends Required<CanManageOptions> {
+  resource: ManagedResource;
+  key: string;
+}
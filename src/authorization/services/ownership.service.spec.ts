@@ -0,0 +1,154 @@
+import { ForbiddenException, NotFoundException } from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { CourseInstructor } from '../../courses/entities/course-instructor.entity';
+import { Course } from '../../courses/entities/course.entity';
+import { LessonResource } from '../../entities/lesson-resource.entity';
+import { Module as CourseModule } from '../../entities/module.entity';
+import { Reference } from '../../entities/reference.entity';
+import { Lesson } from '../../lessons/entities/lesson.entity';
+import { Objective } from '../../objectives/entities/objective.entity';
+import { QuestionBank } from '../../question-banks/entities/question-bank.entity';
+import { Quiz } from '../../quiz/entities/quiz.entity';
+import { UserRole } from '../../users/entities/user.entity';
+import { OwnershipService } from './ownership.service';
+import { PermissionsService } from './permissions.service';
+
+describe('OwnershipService', () => {
+  let service: OwnershipService;
+
+  const professor = { id: 'professor-1', role: UserRole.MODERATOR };
+  const coInstructor = { id: 'co-instructor-1', role: UserRole.MODERATOR };
+  const stranger = { id: 'professor-2', role: UserRole.MODERATOR };
+  const admin = { id: 'admin-1', role: UserRole.ADMIN };
+
+  // course-1 <- module-1 <- lesson-1 <- (resource-1, quiz-1, reference-1)
+  // course-1 <- (objective-1, bank-1)
+  const tables: Record<string, Record<string, unknown>[]> = {
+    courses: [{ id: 'course-1', professorId: 'professor-1' }],
+    instructors: [{ courseId: 'course-1', userId: 'co-instructor-1' }],
+    modules: [{ id: 'module-1', course_id: 'course-1' }],
+    lessons: [{ id: 'lesson-1', module_id: 'module-1' }],
+    resources: [{ id: 'resource-1', lesson_id: 'lesson-1' }],
+    objectives: [{ id: 'objective-1', courseId: 'course-1' }],
+    references: [{ id: 'reference-1', lesson_id: 'lesson-1', module_id: null }],
+    quizzes: [{ id: 'quiz-1', lesson_id: 'lesson-1' }],
+    banks: [{ id: 'bank-1', course_id: 'course-1' }],
+  };
+
+  const repositoryFor = (table: string) => {
+    const find = (where: Record<string, unknown>) =>
+      tables[table].find((row) =>
+        Object.entries(where).every(([key, value]) => row[key] === value),
+      ) ?? null;
+    return {
+      findOne: jest.fn(({ where }) => Promise.resolve(find(where))),
+      exists: jest.fn(({ where }) => Promise.resolve(find(where) !== null)),
+    };
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        OwnershipService,
+        {
+          provide: getRepositoryToken(Course),
+          useValue: repositoryFor('courses'),
+        },
+        {
+          provide: getRepositoryToken(CourseInstructor),
+          useValue: repositoryFor('instructors'),
+        },
+        {
+          provide: getRepositoryToken(CourseModule),
+          useValue: repositoryFor('modules'),
+        },
+        {
+          provide: getRepositoryToken(Lesson),
+          useValue: repositoryFor('lessons'),
+        },
+        {
+          provide: getRepositoryToken(LessonResource),
+          useValue: repositoryFor('resources'),
+        },
+        {
+          provide: getRepositoryToken(Objective),
+          useValue: repositoryFor('objectives'),
+        },
+        {
+          provide: getRepositoryToken(Reference),
+          useValue: repositoryFor('references'),
+        },
+        {
+          provide: getRepositoryToken(Quiz),
+          useValue: repositoryFor('quizzes'),
+        },
+        {
+          provide: getRepositoryToken(QuestionBank),
+          useValue: repositoryFor('banks'),
+        },
+        {
+          // Only admins hold `course:manage-any` by default
+          provide: PermissionsService,
+          useValue: {
+            hasPermissions: jest.fn(({ role }) =>
+              Promise.resolve(role === UserRole.ADMIN),
+            ),
+          },
+        },
+      ],
+    }).compile();
+
+    service = module.get<OwnershipService>(OwnershipService);
+  });
+
+  it.each([
+    ['course', 'course-1'],
+    ['module', 'module-1'],
+    ['lesson', 'lesson-1'],
+    ['lesson-resource', 'resource-1'],
+    ['objective', 'objective-1'],
+    ['reference', 'reference-1'],
+    ['quiz', 'quiz-1'],
+    ['question-bank', 'bank-1'],
+  ] as const)('should resolve the owning course of a %s', async (type, id) => {
+    await expect(service.resolveCourseId(type, id)).resolves.toBe('course-1');
+  });
+
+  it('should let the professor and co-instructors manage course content', async () => {
+    await expect(
+      service.assertCanManage(professor, 'quiz', 'quiz-1'),
+    ).resolves.toBeUndefined();
+    await expect(
+      service.assertCanManage(coInstructor, 'lesson', 'lesson-1'),
+    ).resolves.toBeUndefined();
+  });
+
+  it("should forbid managing another professor's content", async () => {
+    await expect(
+      service.assertCanManage(stranger, 'module', 'module-1'),
+    ).rejects.toThrow(ForbiddenException);
+  });
+
+  it('should reserve owner-only actions for the professor', async () => {
+    await expect(
+      service.assertCanManage(coInstructor, 'course', 'course-1', {
+        ownerOnly: true,
+      }),
+    ).rejects.toThrow('Only the course professor can perform this action');
+  });
+
+  it('should let admins manage any course', async () => {
+    await expect(
+      service.assertCanManage(admin, 'course', 'course-1', {
+        ownerOnly: true,
+      }),
+    ).resolves.toBeUndefined();
+  });
+
+  it('should report unknown resources as not found', async () => {
+    await expect(
+      service.assertCanManage(professor, 'lesson-resource', 'missing'),
+    ).rejects.toThrow(NotFoundException);
+  });
+});
@@ -0,0 +1,185 @@
+import {
+  ForbiddenException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import type { AuthenticatedUser } from '../../auth/interfaces/authenticated-user.interface';
+import { CourseInstructor } from '../../courses/entities/course-instructor.entity';
+import { Course } from '../../courses/entities/course.entity';
+import { LessonResource } from '../../entities/lesson-resource.entity';
+import { Module as CourseModule } from '../../entities/module.entity';
+import { Reference } from '../../entities/reference.entity';
+import { Lesson } from '../../lessons/entities/lesson.entity';
+import { Objective } from '../../objectives/entities/objective.entity';
+import { QuestionBank } from '../../question-banks/entities/question-bank.entity';
+import { Quiz } from '../../quiz/entities/quiz.entity';
+import { PermissionKey } from '../constants';
+import { ManagedResource } from '../interfaces/can-manage-rule.interface';
+import { PermissionsService } from './permissions.service';
+
+/**
+ * Resource-ownership policy for course content. Every managed resource
+ * belongs to exactly one course; that course's professor, its co-instructors
+ * and holders of `course:manage-any` may mutate it.
+ */
+@Injectable()
+export class OwnershipService {
+  constructor(
+    @InjectRepository(Course)
+    private readonly courseRepository: Repository<Course>,
+    @InjectRepository(CourseInstructor)
+    private readonly instructorRepository: Repository<CourseInstructor>,
+    @InjectRepository(CourseModule)
+    private readonly moduleRepository: Repository<CourseModule>,
+    @InjectRepository(Lesson)
+    private readonly lessonRepository: Repository<Lesson>,
+    @InjectRepository(LessonResource)
+    private readonly lessonResourceRepository: Repository<LessonResource>,
+    @InjectRepository(Objective)
+    private readonly objectiveRepository: Repository<Objective>,
+    @InjectRepository(Reference)
+    private readonly referenceRepository: Repository<Reference>,
+    @InjectRepository(Quiz)
+    private readonly quizRepository: Repository<Quiz>,
+    @InjectRepository(QuestionBank)
+    private readonly questionBankRepository: Repository<QuestionBank>,
+    private readonly permissionsService: PermissionsService,
+  ) {}
+
+  /**
+   * Throws NotFoundException when the resource does not exist and
+   * ForbiddenException when the user may not manage its course.
+   */
+  async assertCanManage(
+    user: Pick<AuthenticatedUser, 'id' | 'role'>,
+    resource: ManagedResource,
+    id: string,
+    options: { ownerOnly?: boolean } = {},
+  ): Promise<void> {
+    if (await this.canManageAnyCourse(user)) {
+      return;
+    }
+
+    const courseId = await this.resolveCourseId(resource, id);
+    if (!courseId) {
+      throw new NotFoundException(
+        `${this.describe(resource)} with ID ${id} not found`,
+      );
+    }
+
+    if (!(await this.canManageCourse(user, courseId, options))) {
+      throw new ForbiddenException(
+        options.ownerOnly
+          ? 'Only the course professor can perform this action'
+          : 'You do not manage the course this resource belongs to',
+      );
+    }
+  }
+
+  async canManageCourse(
+    user: Pick<AuthenticatedUser, 'id' | 'role'>,
+    courseId: string,
+    options: { ownerOnly?: boolean } = {},
+  ): Promise<boolean> {
+    if (await this.canManageAnyCourse(user)) {
+      return true;
+    }
+
+    const isProfessor = await this.courseRepository.exists({
+      where: { id: courseId, professorId: user.id },
+    });
+    if (isProfessor || options.ownerOnly) {
+      return isProfessor;
+    }
+
+    return this.instructorRepository.exists({
+      where: { courseId, userId: user.id },
+    });
+  }
+
+  /** Walks up the content tree to the owning course. Null when not found. */
+  async resolveCourseId(
+    resource: ManagedResource,
+    id: string,
+  ): Promise<string | null> {
+    switch (resource) {
+      case 'course': {
+        const exists = await this.courseRepository.exists({ where: { id } });
+        return exists ? id : null;
+      }
+      case 'module': {
+        const module = await this.moduleRepository.findOne({
+          where: { id },
+          select: { id: true, course_id: true },
+        });
+        return module?.course_id ?? null;
+      }
+      case 'lesson': {
+        const lesson = await this.lessonRepository.findOne({
+          where: { id },
+          select: { id: true, module_id: true },
+        });
+        return lesson?.module_id
+          ? this.resolveCourseId('module', lesson.module_id)
+          : null;
+      }
+      case 'lesson-resource': {
+        const lessonResource = await this.lessonResourceRepository.findOne({
+          where: { id },
+          select: { id: true, lesson_id: true },
+        });
+        return lessonResource
+          ? this.resolveCourseId('lesson', lessonResource.lesson_id)
+          : null;
+      }
+      case 'objective': {
+        const objective = await this.objectiveRepository.findOne({
+          where: { id },
+          select: { id: true, courseId: true },
+        });
+        return objective?.courseId ?? null;
+      }
+      case 'reference': {
+        const reference = await this.referenceRepository.findOne({
+          where: { id },
+          select: { id: true, lesson_id: true, module_id: true },
+        });
+        if (reference?.lesson_id) {
+          return this.resolveCourseId('lesson', reference.lesson_id);
+        }
+        return reference?.module_id
+          ? this.resolveCourseId('module', reference.module_id)
+          : null;
+      }
+      case 'quiz': {
+        const quiz = await this.quizRepository.findOne({
+          where: { id },
+          select: { id: true, lesson_id: true },
+        });
+        return quiz ? this.resolveCourseId('lesson', quiz.lesson_id) : null;
+      }
+      case 'question-bank': {
+        const bank = await this.questionBankRepository.findOne({
+          where: { id },
+          select: { id: true, course_id: true },
+        });
+        return bank?.course_id ?? null;
+      }
+    }
+  }
+
+  private canManageAnyCourse(
+    user: Pick<AuthenticatedUser, 'id' | 'role'>,
+  ): Promise<boolean> {
+    return this.permissionsService.hasPermissions(user, [
+      PermissionKey.COURSE_MANAGE_ANY,
+    ]);
+  }
+
+  private describe(resource: ManagedResource): string {
+    const label = resource.replace('-', ' ');
+    return label.charAt(0).toUpperCase() + label.slice(1);
+  }
+}
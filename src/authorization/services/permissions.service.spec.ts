@@ -0,0 +1,111 @@
+import { ForbiddenException } from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { User, UserRole } from '../../users/entities/user.entity';
+import { PermissionKey } from '../constants';
+import { Role } from '../entities/role.entity';
+import { PermissionsService } from './permissions.service';
+
+describe('PermissionsService', () => {
+  let service: PermissionsService;
+  let roles: Role[];
+  let users: Pick<User, 'id' | 'role' | 'roleId'>[];
+
+  const roleRepository = { find: jest.fn(() => Promise.resolve(roles)) };
+  const userRepository = {
+    findOne: jest.fn(({ where }) =>
+      Promise.resolve(users.find((user) => user.id === where.id) ?? null),
+    ),
+  };
+
+  const role = (id: string, name: string, keys: PermissionKey[]) =>
+    ({
+      id,
+      name,
+      permissions: keys.map((key) => ({ id: key, key })),
+    }) as unknown as Role;
+
+  beforeEach(async () => {
+    roles = [
+      role('role-moderator', UserRole.MODERATOR, [PermissionKey.COURSE_CREATE]),
+      role('role-reviewer', 'reviewer', [PermissionKey.REVIEW_MODERATE]),
+    ];
+    users = [
+      { id: 'moderator-1', role: UserRole.MODERATOR, roleId: null },
+      { id: 'reviewer-1', role: UserRole.USER, roleId: 'role-reviewer' },
+    ];
+    roleRepository.find.mockClear();
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        PermissionsService,
+        { provide: getRepositoryToken(Role), useValue: roleRepository },
+        { provide: getRepositoryToken(User), useValue: userRepository },
+      ],
+    }).compile();
+
+    service = module.get<PermissionsService>(PermissionsService);
+  });
+
+  it('should resolve the role named after the legacy enum when none is assigned', async () => {
+    const permissions = await service.getPermissionsForUser({
+      id: 'moderator-1',
+      role: UserRole.MODERATOR,
+    });
+
+    expect([...permissions]).toEqual([PermissionKey.COURSE_CREATE]);
+  });
+
+  it('should prefer the assigned database role over the enum', async () => {
+    const user = { id: 'reviewer-1', role: UserRole.USER };
+
+    await expect(
+      service.hasPermissions(user, [PermissionKey.REVIEW_MODERATE]),
+    ).resolves.toBe(true);
+    await expect(
+      service.hasPermissions(user, [
+        PermissionKey.REVIEW_MODERATE,
+        PermissionKey.COURSE_CREATE,
+      ]),
+    ).resolves.toBe(false);
+  });
+
+  it('should fall back to the built-in defaults before roles are seeded', async () => {
+    roles = [];
+    users = [];
+
+    await expect(
+      service.hasPermissions({ id: 'admin-1', role: UserRole.ADMIN }, [
+        PermissionKey.USER_IMPERSONATE,
+      ]),
+    ).resolves.toBe(true);
+  });
+
+  it('should cache roles until invalidated', async () => {
+    const user = { id: 'moderator-1', role: UserRole.MODERATOR };
+    await service.getPermissionsForUser(user);
+    roles = [
+      role('role-moderator', UserRole.MODERATOR, [PermissionKey.USER_READ]),
+    ];
+
+    await expect(
+      service.hasPermissions(user, [PermissionKey.USER_READ]),
+    ).resolves.toBe(false);
+
+    service.invalidate();
+
+    await expect(
+      service.hasPermissions(user, [PermissionKey.USER_READ]),
+    ).resolves.toBe(true);
+    expect(roleRepository.find).toHaveBeenCalledTimes(2);
+  });
+
+  it('should throw ForbiddenException when a permission is missing', async () => {
+    await expect(
+      service.assertPermissions(
+        { id: 'moderator-1', role: UserRole.MODERATOR },
+        [PermissionKey.ROLE_MANAGE],
+      ),
+    ).rejects.toThrow(ForbiddenException);
+  });
+});
@@ -0,0 +1,101 @@
+import { ForbiddenException, Injectable } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import type { AuthenticatedUser } from '../../auth/interfaces/authenticated-user.interface';
+import { User } from '../../users/entities/user.entity';
+import {
+  DEFAULT_ROLE_PERMISSIONS,
+  PermissionKey,
+  ROLE_PERMISSIONS_CACHE_TTL_MS,
+} from '../constants';
+import { Role } from '../entities/role.entity';
+
+interface RoleCache {
+  byId: Map<string, Set<string>>;
+  idByName: Map<string, string>;
+  expiresAt: number;
+}
+
+/**
+ * Resolves what a user may do. A user's effective role is their assigned
+ * database role, or else the role named after their legacy `UserRole`.
+ * Role permissions are cached briefly and dropped whenever roles change.
+ */
+@Injectable()
+export class PermissionsService {
+  private cache: RoleCache | null = null;
+
+  constructor(
+    @InjectRepository(Role)
+    private readonly roleRepository: Repository<Role>,
+    @InjectRepository(User)
+    private readonly userRepository: Repository<User>,
+  ) {}
+
+  async getPermissionsForUser(
+    user: Pick<AuthenticatedUser, 'id' | 'role'>,
+  ): Promise<Set<string>> {
+    const record = await this.userRepository.findOne({
+      where: { id: user.id },
+      select: { id: true, role: true, roleId: true },
+    });
+    const role = record?.role ?? user.role;
+    const cache = await this.loadRoles();
+
+    const roleId = record?.roleId ?? cache.idByName.get(role);
+    const permissions = roleId ? cache.byId.get(roleId) : undefined;
+    if (permissions) {
+      return permissions;
+    }
+
+    // Roles not seeded yet: fall back to the built-in defaults
+    return new Set(DEFAULT_ROLE_PERMISSIONS[role] ?? []);
+  }
+
+  async hasPermissions(
+    user: Pick<AuthenticatedUser, 'id' | 'role'>,
+    required: PermissionKey[],
+  ): Promise<boolean> {
+    if (!required.length) {
+      return true;
+    }
+    const granted = await this.getPermissionsForUser(user);
+    return required.every((permission) => granted.has(permission));
+  }
+
+  /** For checks that depend on the request body rather than the route. */
+  async assertPermissions(
+    user: Pick<AuthenticatedUser, 'id' | 'role'>,
+    required: PermissionKey[],
+    message = `Access denied. Required permissions: ${required.join(', ')}`,
+  ): Promise<void> {
+    if (!(await this.hasPermissions(user, required))) {
+      throw new ForbiddenException(message);
+    }
+  }
+
+  invalidate(): void {
+    this.cache = null;
+  }
+
+  private async loadRoles(): Promise<RoleCache> {
+    if (this.cache && this.cache.expiresAt > Date.now()) {
+      return this.cache;
+    }
+
+    const roles = await this.roleRepository.find({
+      relations: { permissions: true },
+    });
+    this.cache = {
+      byId: new Map(
+        roles.map((role) => [
+          role.id,
+          new Set(role.permissions.map((permission) => permission.key)),
+        ]),
+      ),
+      idByName: new Map(roles.map((role) => [role.name, role.id])),
+      expiresAt: Date.now() + ROLE_PERMISSIONS_CACHE_TTL_MS,
+    };
+    return this.cache;
+  }
+}
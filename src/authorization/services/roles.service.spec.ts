@@ -0,0 +1,92 @@
+import { NotFoundException } from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { SessionRevocationReason } from '../../auth/entities/auth-session.entity';
+import { SessionService } from '../../auth/services/session.service';
+import { CentralizedLoggerService } from '../../common/logger/services/centralized-logger.service';
+import { User, UserRole } from '../../users/entities/user.entity';
+import { Permission } from '../entities/permission.entity';
+import { Role } from '../entities/role.entity';
+import { PermissionsService } from './permissions.service';
+import { RolesService } from './roles.service';
+
+describe('RolesService', () => {
+  let service: RolesService;
+  let roles: Partial<Role>[];
+  let user: Partial<User> | null;
+
+  const roleRepository = {
+    findOne: jest.fn(({ where }) =>
+      Promise.resolve(roles.find((role) => role.id === where.id) ?? null),
+    ),
+  };
+  const userRepository = {
+    findOne: jest.fn(() => Promise.resolve(user)),
+    save: jest.fn((entity: Partial<User>) => Promise.resolve(entity)),
+  };
+  const sessionService = { revokeAllForUser: jest.fn() };
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    roles = [
+      { id: 'role-moderator', name: UserRole.MODERATOR, isSystem: true },
+      { id: 'role-editor', name: 'editor', isSystem: false },
+    ];
+    user = { id: 'user-1', role: UserRole.ADMIN, roleId: 'role-admin' };
+    sessionService.revokeAllForUser.mockResolvedValue(3);
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        RolesService,
+        { provide: getRepositoryToken(Role), useValue: roleRepository },
+        { provide: getRepositoryToken(Permission), useValue: {} },
+        { provide: getRepositoryToken(User), useValue: userRepository },
+        { provide: PermissionsService, useValue: { invalidate: jest.fn() } },
+        { provide: SessionService, useValue: sessionService },
+        {
+          provide: CentralizedLoggerService,
+          useValue: { setContext: jest.fn(), info: jest.fn() },
+        },
+      ],
+    }).compile();
+
+    service = module.get<RolesService>(RolesService);
+  });
+
+  describe('assignToUser', () => {
+    it('should mirror a system role into the legacy enum', async () => {
+      const saved = await service.assignToUser('user-1', 'role-moderator');
+
+      expect(saved.roleId).toBe('role-moderator');
+      expect(saved.role).toBe(UserRole.MODERATOR);
+    });
+
+    it('should drop the legacy enum to the least privileged value for a custom role', async () => {
+      const saved = await service.assignToUser('user-1', 'role-editor');
+
+      expect(saved.roleId).toBe('role-editor');
+      expect(saved.role).toBe(UserRole.USER);
+    });
+
+    it('should revoke the user sessions after saving the new role', async () => {
+      await service.assignToUser('user-1', 'role-editor');
+
+      expect(sessionService.revokeAllForUser).toHaveBeenCalledWith(
+        'user-1',
+        SessionRevocationReason.ROLE_CHANGED,
+      );
+      expect(userRepository.save.mock.invocationCallOrder[0]).toBeLessThan(
+        sessionService.revokeAllForUser.mock.invocationCallOrder[0],
+      );
+    });
+
+    it('should reject an unknown user without revoking anything', async () => {
+      user = null;
+
+      await expect(
+        service.assignToUser('missing', 'role-editor'),
+      ).rejects.toThrow(NotFoundException);
+      expect(sessionService.revokeAllForUser).not.toHaveBeenCalled();
+    });
+  });
+});
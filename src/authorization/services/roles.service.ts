@@ -0,0 +1,218 @@
+import {
+  ConflictException,
+  Inject,
+  Injectable,
+  NotFoundException,
+  OnApplicationBootstrap,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { In, IsNull, Repository } from 'typeorm';
+import { SessionRevocationReason } from '../../auth/entities/auth-session.entity';
+import { SessionService } from '../../auth/services/session.service';
+import { CentralizedLoggerService } from '../../common/logger/services/centralized-logger.service';
+import { User } from '../../users/entities/user.entity';
+import { UserRole } from '../../users/enums/user-role.enum';
+import {
+  DEFAULT_ROLE_PERMISSIONS,
+  PERMISSION_DESCRIPTIONS,
+  PermissionKey,
+} from '../constants';
+import { CreateRoleDto } from '../dto/role.dto';
+import { Permission } from '../entities/permission.entity';
+import { Role } from '../entities/role.entity';
+import { PermissionsService } from './permissions.service';
+
+/**
+ * Role and permission administration. On startup it seeds the permission
+ * catalog and one system role per legacy `UserRole`, then links existing
+ * users to the role matching their enum value.
+ */
+@Injectable()
+export class RolesService implements OnApplicationBootstrap {
+  constructor(
+    @InjectRepository(Role)
+    private readonly roleRepository: Repository<Role>,
+    @InjectRepository(Permission)
+    private readonly permissionRepository: Repository<Permission>,
+    @InjectRepository(User)
+    private readonly userRepository: Repository<User>,
+    private readonly permissionsService: PermissionsService,
+    private readonly sessionService: SessionService,
+    @Inject(CentralizedLoggerService)
+    private readonly logger: CentralizedLoggerService,
+  ) {
+    this.logger.setContext(RolesService.name);
+  }
+
+  async onApplicationBootstrap(): Promise<void> {
+    try {
+      await this.seed();
+    } catch (error) {
+      this.logger.error(
+        'Failed to seed roles and permissions',
+        error as Error,
+        {
+          operation: 'seed',
+        },
+      );
+    }
+  }
+
+  /** Idempotent; only permissions that are new to the catalog are granted. */
+  async seed(): Promise<void> {
+    const existing = await this.permissionRepository.find();
+    const known = new Set(existing.map((permission) => permission.key));
+    const added = await this.permissionRepository.save(
+      Object.values(PermissionKey)
+        .filter((key) => !known.has(key))
+        .map((key) =>
+          this.permissionRepository.create({
+            key,
+            description: PERMISSION_DESCRIPTIONS[key],
+          }),
+        ),
+    );
+    const catalog = [...existing, ...added];
+
+    for (const name of Object.values(UserRole)) {
+      let role = await this.roleRepository.findOne({ where: { name } });
+      const grantable = role
+        ? added.map((permission) => permission.key)
+        : Object.values(PermissionKey);
+      const granted = catalog.filter(
+        (permission) =>
+          grantable.includes(permission.key as PermissionKey) &&
+          DEFAULT_ROLE_PERMISSIONS[name].includes(
+            permission.key as PermissionKey,
+          ),
+      );
+
+      if (!role) {
+        role = this.roleRepository.create({
+          name,
+          description: `Built-in ${name} role`,
+          isSystem: true,
+          permissions: granted,
+        });
+        await this.roleRepository.save(role);
+      } else if (granted.length) {
+        role.permissions = [...role.permissions, ...granted];
+        await this.roleRepository.save(role);
+      }
+
+      // Migrate users still relying on the enum alone
+      await this.userRepository.update(
+        { role: name, roleId: IsNull() },
+        { roleId: role.id },
+      );
+    }
+
+    if (added.length) {
+      this.logger.info('Seeded permissions', {
+        operation: 'seed',
+        permissions: added.map((permission) => permission.key),
+      });
+    }
+    this.permissionsService.invalidate();
+  }
+
+  findAllPermissions(): Promise<Permission[]> {
+    return this.permissionRepository.find({ order: { key: 'ASC' } });
+  }
+
+  findAll(): Promise<Role[]> {
+    return this.roleRepository.find({ order: { name: 'ASC' } });
+  }
+
+  async findOne(id: string): Promise<Role> {
+    const role = await this.roleRepository.findOne({ where: { id } });
+    if (!role) {
+      throw new NotFoundException(`Role with ID ${id} not found`);
+    }
+    return role;
+  }
+
+  async create(dto: CreateRoleDto): Promise<Role> {
+    if (await this.roleRepository.exists({ where: { name: dto.name } })) {
+      throw new ConflictException(`Role ${dto.name} already exists`);
+    }
+
+    const role = await this.roleRepository.save(
+      this.roleRepository.create({
+        name: dto.name,
+        description: dto.description ?? null,
+        isSystem: false,
+        permissions: await this.findPermissions(dto.permissions),
+      }),
+    );
+    this.permissionsService.invalidate();
+    return role;
+  }
+
+  async setPermissions(id: string, keys: PermissionKey[]): Promise<Role> {
+    const role = await this.findOne(id);
+    role.permissions = await this.findPermissions(keys);
+    const saved = await this.roleRepository.save(role);
+    this.permissionsService.invalidate();
+    return saved;
+  }
+
+  async remove(id: string): Promise<void> {
+    const role = await this.findOne(id);
+    if (role.isSystem) {
+      throw new ConflictException('System roles cannot be deleted');
+    }
+    if (await this.userRepository.exists({ where: { roleId: id } })) {
+      throw new ConflictException('Role is still assigned to users');
+    }
+
+    await this.roleRepository.remove(role);
+    this.permissionsService.invalidate();
+  }
+
+  /**
+   * Also updates the legacy enum so code that still reads `user.role` stays
+   * consistent: a system role sets its own value, a custom role the least
+   * privileged one. The user's sessions are revoked so no token carries the
+   * old role.
+   */
+  async assignToUser(userId: string, roleId: string): Promise<User> {
+    const role = await this.findOne(roleId);
+    const user = await this.userRepository.findOne({ where: { id: userId } });
+    if (!user) {
+      throw new NotFoundException(`User with ID ${userId} not found`);
+    }
+
+    user.roleId = role.id;
+    user.role = role.isSystem ? (role.name as UserRole) : UserRole.USER;
+    const saved = await this.userRepository.save(user);
+
+    const revokedSessions = await this.sessionService.revokeAllForUser(
+      userId,
+      SessionRevocationReason.ROLE_CHANGED,
+    );
+    this.logger.info('Role assigned to user', {
+      userId,
+      roleId: role.id,
+      revokedSessions,
+    });
+    return saved;
+  }
+
+  private async findPermissions(keys: PermissionKey[]): Promise<Permission[]> {
+    if (!keys.length) {
+      return [];
+    }
+
+    const permissions = await this.permissionRepository.find({
+      where: { key: In(keys) },
+    });
+    if (permissions.length !== keys.length) {
+      const found = new Set(permissions.map((permission) => permission.key));
+      throw new NotFoundException(
+        `Unknown permissions: ${keys.filter((key) => !found.has(key)).join(', ')}`,
+      );
+    }
+    return permissions;
+  }
+}
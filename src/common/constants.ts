@@ -39,11 +39,6 @@ export const PERCENTAGE_MULTIPLIER = 100;
 // Quiz passing threshold percentage
 export const QUIZ_PASSING_THRESHOLD = 70;
 
-// Test/mock data for admin dashboard
-export const TEST_DATA = {
-  TOTAL_COURSES: 25,
-};
-
 // Network configuration
 export const NETWORK = {
   DEFAULT_DB_PORT: 5432,
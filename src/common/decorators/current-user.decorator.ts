@@ -0,0 +1,23 @@
+import { createParamDecorator, ExecutionContext } from '@nestjs/common';
+import type {
+  AuthenticatedRequest,
+  AuthenticatedUser,
+} from '../../auth/interfaces/authenticated-user.interface';
+
+/**
+ * Injects the user authenticated from the JWT, or one of its properties.
+ * Use it instead of accepting user IDs from the client.
+ *
+ * @example
+ * enroll(@CurrentUser() user: AuthenticatedUser)
+ * findMine(@CurrentUser('id') userId: string)
+ */
+export const CurrentUser = createParamDecorator(
+  (
+    property: keyof AuthenticatedUser | undefined,
+    context: ExecutionContext,
+  ) => {
+    const { user } = context.switchToHttp().getRequest<AuthenticatedRequest>();
+    return property ? user?.[property] : user;
+  },
+);
@@ -1,19 +1,37 @@
 import {
   ExecutionContext,
+  ForbiddenException,
   Injectable,
   UnauthorizedException,
 } from '@nestjs/common';
 import { Reflector } from '@nestjs/core';
 import { AuthGuard as PassportAuthGuard } from '@nestjs/passport';
+import type { Response } from 'express';
+import { isObservable, lastValueFrom } from 'rxjs';
+import { API_KEY_HEADER, ApiKeyResourceName } from '../../api-keys/constants';
+import { API_KEY_RESOURCE_KEY } from '../../api-keys/decorators/api-key-resource.decorator';
+import { ApiKeysService } from '../../api-keys/services/api-keys.service';
+import type { AuthenticatedRequest } from '../../auth/interfaces/authenticated-user.interface';
+import { DISALLOW_IMPERSONATION_KEY } from '../../impersonation/decorators/disallow-impersonation.decorator';
+import { ImpersonationAuditService } from '../../impersonation/services/impersonation-audit.service';
 import { IS_PUBLIC_KEY } from '../decorators/public.decorator';
 
+/**
+ * Accepts a JWT bearer token, or an API key in the `X-API-Key` header on
+ * routes opened to keys with `@ApiKeyResource()`. Requests made with an
+ * impersonation token are audited and kept away from dangerous routes.
+ */
 @Injectable()
 export class AuthGuard extends PassportAuthGuard('jwt') {
-  constructor(private reflector: Reflector) {
+  constructor(
+    private reflector: Reflector,
+    private readonly apiKeysService: ApiKeysService,
+    private readonly impersonationAuditService: ImpersonationAuditService,
+  ) {
     super();
   }
 
-  canActivate(context: ExecutionContext) {
+  async canActivate(context: ExecutionContext): Promise<boolean> {
     const isPublic = this.reflector.getAllAndOverride<boolean>(IS_PUBLIC_KEY, [
       context.getHandler(),
       context.getClass(),
@@ -21,7 +39,22 @@ export class AuthGuard extends PassportAuthGuard('jwt') {
     if (isPublic) {
       return true;
     }
-    return super.canActivate(context);
+
+    const request = context.switchToHttp().getRequest<AuthenticatedRequest>();
+    const apiKey = request.headers[API_KEY_HEADER];
+    if (typeof apiKey === 'string') {
+      return this.authenticateApiKey(context, request, apiKey);
+    }
+
+    const result = super.canActivate(context);
+    const authenticated = isObservable(result)
+      ? await lastValueFrom(result)
+      : await result;
+
+    if (request.user?.impersonatorId) {
+      this.guardImpersonation(context, request);
+    }
+    return authenticated;
   }
 
   handleRequest(err: any, user: any, _info: any) {
@@ -31,4 +64,51 @@ export class AuthGuard extends PassportAuthGuard('jwt') {
     }
     return user;
   }
+
+  private guardImpersonation(
+    context: ExecutionContext,
+    request: AuthenticatedRequest,
+  ): void {
+    this.impersonationAuditService.track(
+      request,
+      context.switchToHttp().getResponse<Response>(),
+    );
+
+    const disallowed = this.reflector.getAllAndOverride<boolean>(
+      DISALLOW_IMPERSONATION_KEY,
+      [context.getHandler(), context.getClass()],
+    );
+    if (disallowed || request.method === 'DELETE') {
+      throw new ForbiddenException(
+        'This action is not allowed while impersonating a user',
+      );
+    }
+  }
+
+  private async authenticateApiKey(
+    context: ExecutionContext,
+    request: AuthenticatedRequest,
+    key: string,
+  ): Promise<boolean> {
+    const user = await this.apiKeysService.authenticate(key);
+    if (!user?.apiKey) {
+      throw new UnauthorizedException('Invalid or expired API key');
+    }
+
+    const resource = this.reflector.getAllAndOverride<
+      ApiKeyResourceName | undefined
+    >(API_KEY_RESOURCE_KEY, [context.getHandler(), context.getClass()]);
+    if (!resource) {
+      throw new ForbiddenException('This endpoint does not accept API keys');
+    }
+
+    const access = ['GET', 'HEAD'].includes(request.method) ? 'read' : 'write';
+    const scope = `${resource}:${access}`;
+    if (!user.apiKey.scopes.includes(scope)) {
+      throw new ForbiddenException(`API key lacks the ${scope} scope`);
+    }
+
+    request.user = user;
+    return true;
+  }
 }
@@ -11,6 +11,7 @@ export * from './guards/auth.guard';
 export * from './guards/roles.guard';
 
 // Decorators
+export * from './decorators/current-user.decorator';
 export * from './decorators/roles.decorator';
 
 // Filters
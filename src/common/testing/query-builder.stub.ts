@@ -0,0 +1,50 @@
+const CHAINED_METHODS = [
+  'innerJoin',
+  'leftJoin',
+  'select',
+  'addSelect',
+  'where',
+  'andWhere',
+  'setParameters',
+  'groupBy',
+  'addGroupBy',
+  'orderBy',
+  'addOrderBy',
+] as const;
+
+export type QueryBuilderStub = Record<
+  (typeof CHAINED_METHODS)[number] | 'getRawOne' | 'getRawMany',
+  jest.Mock
+>;
+
+export interface CannedRows {
+  /** What getRawOne resolves to. */
+  one?: unknown;
+  /** What successive getRawMany calls resolve to; empty once used up. */
+  many?: unknown[][];
+}
+
+/**
+ * Chainable query builder stub resolving to canned raw rows, for specs that
+ * check what a service makes of the rows. The SQL itself is covered against
+ * the test DataSource.
+ */
+export function queryBuilderStub({
+  one,
+  many = [],
+}: CannedRows = {}): QueryBuilderStub {
+  const results = [...many];
+  const builder = {
+    getRawOne: jest.fn(() => Promise.resolve(one)),
+    getRawMany: jest.fn(() => Promise.resolve(results.shift() ?? [])),
+  } as Partial<QueryBuilderStub>;
+  for (const method of CHAINED_METHODS) {
+    builder[method] = jest.fn(() => builder);
+  }
+  return builder as QueryBuilderStub;
+}
+
+/** Repository stub handing out a fresh query builder stub per query. */
+export const queryBuilderRepository = (rows: CannedRows) => ({
+  createQueryBuilder: jest.fn(() => queryBuilderStub(rows)),
+});
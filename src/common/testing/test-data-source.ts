@@ -0,0 +1,76 @@
+import { Provider, Type } from '@nestjs/common';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import * as path from 'path';
+import { DataSource, ObjectLiteral, QueryResult } from 'typeorm';
+import { SnakeNamingStrategy } from 'typeorm-naming-strategies';
+import { PostgresQueryRunner } from 'typeorm/driver/postgres/PostgresQueryRunner';
+
+export interface RecordedQuery {
+  sql: string;
+  parameters: unknown[];
+}
+
+let dataSource: Promise<DataSource> | undefined;
+
+/**
+ * A postgres DataSource configured like the app's but never connected: entity
+ * metadata and the naming strategy are real, so specs see the SQL TypeORM
+ * would send. Built once per test file.
+ */
+export function createTestDataSource(): Promise<DataSource> {
+  dataSource ??= (async () => {
+    const source = new DataSource({
+      type: 'postgres',
+      entities: [path.join(__dirname, '../../**/*.entity.ts')],
+      namingStrategy: new SnakeNamingStrategy(),
+    });
+    // Builds the metadata without opening a connection
+    await (
+      source as unknown as { buildMetadatas(): Promise<void> }
+    ).buildMetadatas();
+    return source;
+  })();
+  return dataSource;
+}
+
+/** Binds the repository token of each entity to the test DataSource. */
+export const repositoryProviders = (
+  dataSource: DataSource,
+  entities: Type<ObjectLiteral>[],
+): Provider[] =>
+  entities.map((entity) => ({
+    provide: getRepositoryToken(entity),
+    useValue: dataSource.getRepository(entity),
+  }));
+
+/**
+ * Records every statement run through a test DataSource and answers each with
+ * the rows `respond` returns for it.
+ */
+export function recordQueries(
+  respond: (sql: string, parameters: unknown[]) => unknown[] = () => [],
+): RecordedQuery[] {
+  const queries: RecordedQuery[] = [];
+  jest
+    .spyOn(PostgresQueryRunner.prototype, 'query')
+    .mockImplementation((sql, parameters = [], useStructuredResult) => {
+      queries.push({ sql, parameters });
+      const records = respond(sql, parameters);
+      if (!useStructuredResult) {
+        return Promise.resolve(records);
+      }
+      const result = new QueryResult();
+      result.records = records;
+      result.raw = records;
+      result.affected = records.length;
+      return Promise.resolve(result);
+    });
+  return queries;
+}
+
+/** The quoted identifiers a statement references, table names included. */
+export function quotedIdentifiers(sql: string): string[] {
+  return Array.from(new Set(sql.match(/"[^"]+"/g) ?? [])).map((identifier) =>
+    identifier.slice(1, -1),
+  );
+}
@@ -1,16 +1,27 @@
 import { Body, Controller, Get, Param, Post } from '@nestjs/common';
 import { ApiOperation, ApiResponse, ApiTags } from '@nestjs/swagger';
+import { ApiKeyResource } from '../../api-keys/decorators/api-key-resource.decorator';
+import type { AuthenticatedUser } from '../../auth/interfaces/authenticated-user.interface';
+import { CurrentUser } from '../../common/decorators/current-user.decorator';
 import { UpdateProgressDto } from '../dto/update-course-progress.dto';
 import { CourseProgressService } from '../providers/course-progress.service';
 
 @Controller('course-progress')
+@ApiKeyResource('progress')
 @ApiTags('course-progress')
 export class CourseProgressController {
   constructor(private readonly progressService: CourseProgressService) {}
 
   @Post('update-course-progress')
-  @ApiOperation({ summary: 'Update course progress' })
+  @ApiOperation({
+    summary: 'Update course progress of one of your enrollments',
+    description: "Admins may update any user's enrollment.",
+  })
   @ApiResponse({ status: 201, description: 'Progress updated successfully' })
+  @ApiResponse({
+    status: 403,
+    description: 'Enrollment belongs to another user',
+  })
   @ApiResponse({
     status: 400,
     description: 'Bad request',
@@ -22,8 +33,11 @@ export class CourseProgressController {
       },
     },
   })
-  async update(@Body() dto: UpdateProgressDto) {
-    return this.progressService.updateProgress(dto);
+  async update(
+    @Body() dto: UpdateProgressDto,
+    @CurrentUser() user: AuthenticatedUser,
+  ) {
+    return this.progressService.updateProgress(dto, user);
   }
 
   @Get(':enrollmentId')
@@ -15,6 +15,12 @@ export class CompletionRateResponseDto {
   completionRate: number;
 }
 
+export class UserCourseProgressDto extends CompletionRateResponseDto {
+  courseId: string;
+  courseTitle: string;
+  lessons: CourseProgressResponseDto[];
+}
+
 export class AnalyticsResponseDto {
   totalProgress: number;
   completed: number;
@@ -0,0 +1,74 @@
+import { ForbiddenException } from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { Enrollment } from '../../enrollment/entities/enrollment.entity';
+import { Lesson } from '../../lessons/entities/lesson.entity';
+import { QuizAttempt } from '../../quiz/entities/quiz-attempt.entity';
+import { Quiz } from '../../quiz/entities/quiz.entity';
+import { UserRole } from '../../users/entities/user.entity';
+import {
+  CourseProgress,
+  ProgressStatus,
+} from '../entities/course-progress.entity';
+import { CourseProgressService } from './course-progress.service';
+
+describe('CourseProgressService', () => {
+  let service: CourseProgressService;
+
+  const enrollment = { id: 'enrollment-1', user: { id: 'learner-1' } };
+  const lesson = { id: 'lesson-1', title: 'Intro' };
+  const progressRepo = {
+    findOne: jest.fn().mockResolvedValue(null),
+    create: jest.fn((progress) => progress),
+    save: jest.fn((progress) => Promise.resolve(progress)),
+  };
+  const dto = {
+    enrollmentId: enrollment.id,
+    lessonId: lesson.id,
+    status: ProgressStatus.IN_PROGRESS,
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        CourseProgressService,
+        { provide: getRepositoryToken(CourseProgress), useValue: progressRepo },
+        {
+          provide: getRepositoryToken(Enrollment),
+          useValue: { findOne: jest.fn().mockResolvedValue(enrollment) },
+        },
+        {
+          provide: getRepositoryToken(Lesson),
+          useValue: { findOne: jest.fn().mockResolvedValue(lesson) },
+        },
+        { provide: getRepositoryToken(Quiz), useValue: {} },
+        { provide: getRepositoryToken(QuizAttempt), useValue: {} },
+      ],
+    }).compile();
+
+    service = module.get<CourseProgressService>(CourseProgressService);
+  });
+
+  it('should update progress of your own enrollment', async () => {
+    await expect(
+      service.updateProgress(dto, { id: 'learner-1', role: UserRole.USER }),
+    ).resolves.toEqual({
+      enrollmentId: 'enrollment-1',
+      lessonId: 'lesson-1',
+      status: ProgressStatus.IN_PROGRESS,
+      lessonTitle: 'Intro',
+    });
+  });
+
+  it("should forbid updating another user's enrollment", async () => {
+    await expect(
+      service.updateProgress(dto, { id: 'learner-2', role: UserRole.USER }),
+    ).rejects.toThrow(ForbiddenException);
+  });
+
+  it("should let admins update any user's enrollment", async () => {
+    await expect(
+      service.updateProgress(dto, { id: 'admin-1', role: UserRole.ADMIN }),
+    ).resolves.toMatchObject({ enrollmentId: 'enrollment-1' });
+  });
+});
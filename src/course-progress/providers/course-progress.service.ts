@@ -1,19 +1,27 @@
 import {
   BadRequestException,
+  ForbiddenException,
   Injectable,
   NotFoundException,
 } from '@nestjs/common';
 import { InjectRepository } from '@nestjs/typeorm';
 import { Repository } from 'typeorm';
+import type { AuthenticatedUser } from '../../auth/interfaces/authenticated-user.interface';
 import { PERCENTAGE_MULTIPLIER } from '../../common/constants';
 import { Enrollment } from '../../enrollment/entities/enrollment.entity';
 import { Lesson } from '../../lessons/entities/lesson.entity';
-import { QuizAttempt } from '../../quiz/entities/quiz-attempt.entity';
+import {
+  AttemptStatus,
+  QuizAttempt,
+} from '../../quiz/entities/quiz-attempt.entity';
 import { Quiz } from '../../quiz/entities/quiz.entity';
+import { resolveAttempts } from '../../quiz/utils/attempt-scoring';
+import { UserRole } from '../../users/entities/user.entity';
 import {
   AnalyticsResponseDto,
   CompletionRateResponseDto,
   CourseProgressResponseDto,
+  UserCourseProgressDto,
 } from '../dto/course-progress.dto';
 import { UpdateProgressDto } from '../dto/update-course-progress.dto';
 import {
@@ -54,18 +62,29 @@ export class CourseProgressService {
    * Creates or updates the progress status for a lesson within an enrollment.
    * It verifies quiz requirements before marking a lesson as 'completed'.
    * @param {UpdateProgressDto} dto - DTO containing enrollmentId, lessonId, and new status.
+   * @param {Pick<AuthenticatedUser, 'id' | 'role'>} requestingUser - The user making the change; only admins may update other users' enrollments.
    * @returns {Promise<CourseProgressResponseDto>} A promise that resolves to the DTO of the updated/created progress record.
    * @throws {NotFoundException} If the specified enrollment or lesson does not exist.
+   * @throws {ForbiddenException} If the enrollment belongs to another user and the requester is not an admin.
    * @throws {BadRequestException} If trying to complete a lesson without passing its required quizzes.
    */
   async updateProgress(
     dto: UpdateProgressDto,
+    requestingUser: Pick<AuthenticatedUser, 'id' | 'role'>,
   ): Promise<CourseProgressResponseDto> {
     const enrollment = await this.enrollmentRepo.findOne({
       where: { id: dto.enrollmentId },
       relations: ['user'],
     });
     if (!enrollment) throw new NotFoundException('Enrollment not found');
+    if (
+      enrollment.user.id !== requestingUser.id &&
+      requestingUser.role !== UserRole.ADMIN
+    ) {
+      throw new ForbiddenException(
+        'You can only update progress of your own enrollments',
+      );
+    }
 
     const lesson = await this.lessonRepo.findOne({
       where: { id: dto.lessonId },
@@ -99,7 +118,8 @@ export class CourseProgressService {
   }
 
   /**
-   * A private helper to verify that a user has passed all quizzes for a specific lesson.
+   * A private helper to verify that a user has passed all quizzes for a specific lesson,
+   * judged by each quiz's scoring policy over the user's completed attempts.
    * @param {string} userId - The ID of the user whose quiz attempts are being checked.
    * @param {string} lessonId - The ID of the lesson to check for quiz requirements.
    * @returns {Promise<void>} A promise that resolves if all quiz requirements are met.
@@ -117,14 +137,20 @@ export class CourseProgressService {
       return;
     }
     for (const quiz of quizzes) {
-      const attempt = await this.quizAttemptRepo.findOne({
+      const attempts = await this.quizAttemptRepo.find({
         where: {
           user_id: userId,
           quiz_id: quiz.id,
+          status: AttemptStatus.COMPLETED,
         },
       });
 
-      if (!attempt || !attempt.passed) {
+      const result = resolveAttempts(
+        quiz.scoring_policy,
+        quiz.passing_percentage,
+        attempts,
+      );
+      if (!result?.passed) {
         throw new BadRequestException(
           `Cannot complete lesson. You must pass the quiz "${quiz.title}" first.`,
         );
@@ -147,6 +173,39 @@ export class CourseProgressService {
     return progress.map(this.responseToDto);
   }
 
+  /**
+   * Retrieves the lesson progress of every enrollment of a user.
+   * @param {string} userId - The ID of the user whose progress is retrieved.
+   * @returns {Promise<UserCourseProgressDto[]>} A promise that resolves to one entry per enrollment, newest first, with its completion rate.
+   */
+  async getUserProgress(userId: string): Promise<UserCourseProgressDto[]> {
+    const enrollments = await this.enrollmentRepo.find({
+      where: { user: { id: userId } },
+      relations: ['course'],
+      order: { enrolledAt: 'DESC' },
+    });
+
+    return Promise.all(
+      enrollments.map(async (enrollment) => {
+        const lessons = await this.getCourseProgress(enrollment.id);
+        const completed = lessons.filter(
+          (lesson) => lesson.status === ProgressStatus.COMPLETED,
+        ).length;
+        return {
+          enrollmentId: enrollment.id,
+          courseId: enrollment.course.id,
+          courseTitle: enrollment.course.title,
+          completed,
+          total: lessons.length,
+          completionRate: lessons.length
+            ? Math.round((completed / lessons.length) * 100)
+            : 0,
+          lessons,
+        };
+      }),
+    );
+  }
+
   /**
    * Calculates the completion rate for a specific course enrollment.
    * @param {string} enrollmentId - The ID of the enrollment for which to calculate the completion rate.
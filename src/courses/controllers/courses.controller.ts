@@ -9,28 +9,71 @@ import {
   Post,
   Put,
   Query,
+  Req,
+  UseGuards,
   UsePipes,
   ValidationPipe,
 } from '@nestjs/common';
+import {
+  CourseAnalyticsDto,
+  CourseAnalyticsQueryDto,
+} from '../../analytics/dto/course-analytics.dto';
+import { CourseAnalyticsService } from '../../analytics/services/course-analytics.service';
+import { ApiKeyResource } from '../../api-keys/decorators/api-key-resource.decorator';
+import type { AuthenticatedRequest } from '../../auth/interfaces/authenticated-user.interface';
+import { PermissionKey } from '../../authorization/constants';
+import { CanManage } from '../../authorization/decorators/can-manage.decorator';
+import { RequirePermissions } from '../../authorization/decorators/require-permissions.decorator';
+import { OwnershipGuard } from '../../authorization/guards/ownership.guard';
+import { PermissionsGuard } from '../../authorization/guards/permissions.guard';
+import { PermissionsService } from '../../authorization/services/permissions.service';
 import { FilteredPaginationQueryDto } from '../../common';
+import { AuthGuard } from '../../common/guards/auth.guard';
+import { AddCourseInstructorDto } from '../dto/add-course-instructor.dto';
 import { CourseResponseDto } from '../dto/course-response.dto';
 import { CreateCourseDto } from '../dto/create-course.dto';
 import { UpdateCourseDto } from '../dto/update-course.dto';
+import { CourseInstructor } from '../entities/course-instructor.entity';
 import type { Course } from '../entities/course.entity';
 import { CoursesService } from '../providers/courses.service';
 
 @Controller('courses')
+@ApiKeyResource('courses')
+@UseGuards(AuthGuard, PermissionsGuard, OwnershipGuard)
 @UsePipes(new ValidationPipe({ whitelist: true, forbidNonWhitelisted: true }))
 export class CoursesController {
-  constructor(private readonly coursesService: CoursesService) {}
+  constructor(
+    private readonly coursesService: CoursesService,
+    private readonly permissionsService: PermissionsService,
+    private readonly courseAnalyticsService: CourseAnalyticsService,
+  ) {}
 
   @Post()
+  @RequirePermissions(PermissionKey.COURSE_CREATE)
   @HttpCode(HttpStatus.CREATED)
-  async create(@Body() createCourseDto: CreateCourseDto): Promise<{
+  async create(
+    @Body() createCourseDto: CreateCourseDto,
+    @Req() req: AuthenticatedRequest,
+  ): Promise<{
     message: string;
     data: Course;
   }> {
-    const course = await this.coursesService.create(createCourseDto);
+    const { professorId = req.user.id } = createCourseDto;
+    if (professorId !== req.user.id) {
+      await this.permissionsService.assertPermissions(
+        req.user,
+        [PermissionKey.COURSE_MANAGE_ANY],
+        'You cannot create courses for another professor',
+      );
+    }
+    if (createCourseDto.isPublished) {
+      await this.assertCanPublish(req);
+    }
+
+    const course = await this.coursesService.create(
+      createCourseDto,
+      professorId,
+    );
     return {
       message: 'Course created successfully',
       data: course,
@@ -71,14 +114,27 @@ export class CoursesController {
   }
 
   @Put(':id')
+  @CanManage('course')
   @HttpCode(HttpStatus.OK)
   async update(
     @Param('id') id: string,
     @Body() updateCourseDto: UpdateCourseDto,
+    @Req() req: AuthenticatedRequest,
   ): Promise<{
     message: string;
     data: Course;
   }> {
+    if (updateCourseDto.professorId) {
+      await this.permissionsService.assertPermissions(
+        req.user,
+        [PermissionKey.COURSE_MANAGE_ANY],
+        'You cannot reassign a course to another professor',
+      );
+    }
+    if (updateCourseDto.isPublished !== undefined) {
+      await this.assertCanPublish(req);
+    }
+
     const course = await this.coursesService.update(id, updateCourseDto);
     return {
       message: 'Course updated successfully',
@@ -87,6 +143,7 @@ export class CoursesController {
   }
 
   @Delete(':id')
+  @CanManage('course', 'id', { ownerOnly: true })
   @HttpCode(HttpStatus.OK)
   async delete(@Param('id') id: string): Promise<{
     message: string;
@@ -151,4 +208,83 @@ export class CoursesController {
       data: course,
     };
   }
+
+  @Get(':id/analytics')
+  @CanManage('course', 'id', { ownerOnly: true })
+  @HttpCode(HttpStatus.OK)
+  async getAnalytics(
+    @Param('id') id: string,
+    @Query() query: CourseAnalyticsQueryDto,
+  ): Promise<{
+    message: string;
+    data: CourseAnalyticsDto;
+  }> {
+    const analytics = await this.courseAnalyticsService.getCourseAnalytics(
+      id,
+      query,
+    );
+    return {
+      message: 'Course analytics retrieved successfully',
+      data: analytics,
+    };
+  }
+
+  @Get(':id/instructors')
+  @CanManage('course')
+  @HttpCode(HttpStatus.OK)
+  async findInstructors(@Param('id') id: string): Promise<{
+    message: string;
+    data: CourseInstructor[];
+  }> {
+    const instructors = await this.coursesService.findInstructors(id);
+    return {
+      message: 'Course instructors retrieved successfully',
+      data: instructors,
+    };
+  }
+
+  @Post(':id/instructors')
+  @CanManage('course', 'id', { ownerOnly: true })
+  @HttpCode(HttpStatus.CREATED)
+  async addInstructor(
+    @Param('id') id: string,
+    @Body() addCourseInstructorDto: AddCourseInstructorDto,
+    @Req() req: AuthenticatedRequest,
+  ): Promise<{
+    message: string;
+    data: CourseInstructor;
+  }> {
+    const instructor = await this.coursesService.addInstructor(
+      id,
+      addCourseInstructorDto.userId,
+      req.user.id,
+    );
+    return {
+      message: 'Course instructor added successfully',
+      data: instructor,
+    };
+  }
+
+  @Delete(':id/instructors/:userId')
+  @CanManage('course', 'id', { ownerOnly: true })
+  @HttpCode(HttpStatus.OK)
+  async removeInstructor(
+    @Param('id') id: string,
+    @Param('userId') userId: string,
+  ): Promise<{
+    message: string;
+  }> {
+    await this.coursesService.removeInstructor(id, userId);
+    return {
+      message: 'Course instructor removed successfully',
+    };
+  }
+
+  private assertCanPublish(req: AuthenticatedRequest): Promise<void> {
+    return this.permissionsService.assertPermissions(
+      req.user,
+      [PermissionKey.COURSE_PUBLISH],
+      'You are not allowed to publish or unpublish courses',
+    );
+  }
 }
@@ -1,17 +1,20 @@
 import { Module } from '@nestjs/common';
 import { TypeOrmModule } from '@nestjs/typeorm';
+import { AnalyticsModule } from '../analytics/analytics.module';
 import { CategoriesModule } from '../categories/categories.module';
 import { UsersModule } from '../users/users.module';
 import { CoursesController } from './controllers/courses.controller';
 import { CoursesRepository } from './courses.repository';
+import { CourseInstructor } from './entities/course-instructor.entity';
 import { Course } from './entities/course.entity';
 import { CoursesService } from './providers/courses.service';
 
 @Module({
   imports: [
-    TypeOrmModule.forFeature([Course]),
+    TypeOrmModule.forFeature([Course, CourseInstructor]),
     UsersModule, // Import to use UsersService for validation
     CategoriesModule, // Import to use CategoriesService for validation
+    AnalyticsModule,
   ],
   controllers: [CoursesController],
   providers: [CoursesService, CoursesRepository],
@@ -0,0 +1,7 @@
+import { IsNotEmpty, IsUUID } from 'class-validator';
+
+export class AddCourseInstructorDto {
+  @IsNotEmpty()
+  @IsUUID()
+  userId: string;
+}
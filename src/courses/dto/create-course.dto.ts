@@ -31,10 +31,11 @@ export class CreateCourseDto {
   @IsString()
   syllabus?: string;
 
-  @IsNotEmpty()
+  // Only admins may set this; everyone else creates courses for themselves
+  @IsOptional()
   @IsString()
   @IsUUID()
-  professorId: string;
+  professorId?: string;
 
   @IsOptional()
   @IsString()
@@ -5,6 +5,10 @@ import {
   Injectable,
   NotFoundException,
 } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { PermissionKey } from '../../authorization/constants';
+import { PermissionsService } from '../../authorization/services/permissions.service';
 import { CategoriesService } from '../../categories/categories.service';
 import { DateRangeFilterDto } from '../../common/dto/date-range-filter.dto';
 import { UserRole } from '../../users/entities/user.entity';
@@ -13,6 +17,7 @@ import { CoursesRepository } from '../courses.repository';
 import { CourseResponseDto } from '../dto/course-response.dto';
 import { CreateCourseDto } from '../dto/create-course.dto';
 import { UpdateCourseDto } from '../dto/update-course.dto';
+import { CourseInstructor } from '../entities/course-instructor.entity';
 import type { Course } from '../entities/course.entity';
 
 @Injectable()
@@ -21,21 +26,17 @@ export class CoursesService {
     private readonly coursesRepository: CoursesRepository,
     private readonly usersService: UsersService,
     private readonly categoriesService: CategoriesService,
+    @InjectRepository(CourseInstructor)
+    private readonly courseInstructorRepository: Repository<CourseInstructor>,
+    private readonly permissionsService: PermissionsService,
   ) {}
 
-  async create(createCourseDto: CreateCourseDto): Promise<Course> {
+  async create(
+    createCourseDto: CreateCourseDto,
+    professorId: string,
+  ): Promise<Course> {
     // Validate that the professor exists and has the right role
-    const professor = await this.usersService.findById(
-      createCourseDto.professorId,
-    );
-    if (
-      professor.role !== UserRole.MODERATOR &&
-      professor.role !== UserRole.ADMIN
-    ) {
-      throw new BadRequestException(
-        'Only moderators and admins can be assigned as professors',
-      );
-    }
+    await this.assertCanTeach(professorId);
 
     // Validate category if provided
     if (createCourseDto.categoryId) {
@@ -50,7 +51,10 @@ export class CoursesService {
       throw new ConflictException('Course title already exists');
     }
 
-    return await this.coursesRepository.create(createCourseDto);
+    return await this.coursesRepository.create({
+      ...createCourseDto,
+      professorId,
+    });
   }
 
   async findAll(
@@ -160,17 +164,7 @@ export class CoursesService {
 
     // If professor is being updated, validate the new professor
     if (updateCourseDto.professorId) {
-      const professor = await this.usersService.findById(
-        updateCourseDto.professorId,
-      );
-      if (
-        professor.role !== UserRole.MODERATOR &&
-        professor.role !== UserRole.ADMIN
-      ) {
-        throw new BadRequestException(
-          'Only moderators and admins can be assigned as professors',
-        );
-      }
+      await this.assertCanTeach(updateCourseDto.professorId);
     }
 
     // If category is being updated, validate the new category
@@ -258,4 +252,69 @@ export class CoursesService {
 
     return await this.coursesRepository.findByCategoryId(categoryId, filters);
   }
+
+  async findInstructors(courseId: string): Promise<CourseInstructor[]> {
+    await this.findById(courseId);
+
+    return this.courseInstructorRepository.find({
+      where: { courseId },
+      order: { createdAt: 'ASC' },
+    });
+  }
+
+  async addInstructor(
+    courseId: string,
+    userId: string,
+    addedById: string,
+  ): Promise<CourseInstructor> {
+    const course = await this.findById(courseId);
+    if (course.professorId === userId) {
+      throw new BadRequestException(
+        'The professor already manages this course',
+      );
+    }
+
+    await this.assertCanTeach(userId);
+
+    const alreadyAdded = await this.courseInstructorRepository.exists({
+      where: { courseId, userId },
+    });
+    if (alreadyAdded) {
+      throw new ConflictException(
+        'User is already an instructor of this course',
+      );
+    }
+
+    const instructor = await this.courseInstructorRepository.save(
+      this.courseInstructorRepository.create({ courseId, userId, addedById }),
+    );
+    return this.courseInstructorRepository.findOneOrFail({
+      where: { id: instructor.id },
+    });
+  }
+
+  async removeInstructor(courseId: string, userId: string): Promise<void> {
+    const result = await this.courseInstructorRepository.delete({
+      courseId,
+      userId,
+    });
+    if (!result.affected) {
+      throw new NotFoundException(
+        `User ${userId} is not an instructor of course ${courseId}`,
+      );
+    }
+  }
+
+  /** Professors and co-instructors must be moderators or admins. */
+  private async assertCanTeach(userId: string): Promise<void> {
+    const user = await this.usersService.findById(userId);
+    const canTeach = await this.permissionsService.hasPermissions(user, [
+      PermissionKey.COURSE_CREATE,
+    ]);
+    if (!canTeach) {
+      throw new BadRequestException(
+        'Only users allowed to create courses can be assigned as professors',
+      );
+    }
+  }
 }
@@ -6,22 +6,41 @@ import {
   Param,
   Post,
   Query,
+  UseGuards,
 } from '@nestjs/common';
 import {
+  ApiBearerAuth,
   ApiOperation,
   ApiParam,
   ApiQuery,
   ApiResponse,
   ApiTags,
 } from '@nestjs/swagger';
-import { DateRangeFilterDto, FilteredPaginationQueryDto } from '../../common';
+import { ApiKeyResource } from '../../api-keys/decorators/api-key-resource.decorator';
+import type { AuthenticatedUser } from '../../auth/interfaces/authenticated-user.interface';
+import { PermissionKey } from '../../authorization/constants';
+import { RequirePermissions } from '../../authorization/decorators/require-permissions.decorator';
+import { PermissionsGuard } from '../../authorization/guards/permissions.guard';
+import { PermissionsService } from '../../authorization/services/permissions.service';
+import {
+  AuthGuard,
+  CurrentUser,
+  DateRangeFilterDto,
+  FilteredPaginationQueryDto,
+} from '../../common';
 import { CreateEnrollmentDto } from '../dto/create-enrollment.dto';
 import { EnrollmentService } from '../providers/enrollment.service';
 
 @Controller('enrollments')
+@ApiKeyResource('enrollments')
 @ApiTags('enrollments')
+@ApiBearerAuth()
+@UseGuards(AuthGuard, PermissionsGuard)
 export class EnrollmentController {
-  constructor(private readonly enrollmentService: EnrollmentService) {}
+  constructor(
+    private readonly enrollmentService: EnrollmentService,
+    private readonly permissionsService: PermissionsService,
+  ) {}
 
   @Get()
   @ApiOperation({ summary: 'Get all enrollments with optional filtering' })
@@ -62,7 +81,11 @@ export class EnrollmentController {
   }
 
   @Post()
-  @ApiOperation({ summary: 'Enroll user in a course' })
+  @ApiOperation({
+    summary: 'Enroll the current user in a course',
+    description:
+      'Users with the enrollment:manage permission may pass `userId` to enroll another user.',
+  })
   @ApiResponse({ status: 201, description: 'User enrolled successfully' })
   @ApiResponse({
     status: 400,
@@ -75,12 +98,26 @@ export class EnrollmentController {
       },
     },
   })
-  async enroll(@Body() dto: CreateEnrollmentDto) {
-    return this.enrollmentService.enroll(dto);
+  @ApiResponse({ status: 403, description: 'Enrolling another user' })
+  async enroll(
+    @CurrentUser() user: AuthenticatedUser,
+    @Body() dto: CreateEnrollmentDto,
+  ) {
+    const { userId = user.id } = dto;
+    if (userId !== user.id) {
+      await this.permissionsService.assertPermissions(
+        user,
+        [PermissionKey.ENROLLMENT_MANAGE],
+        'You cannot enroll another user',
+      );
+    }
+    return this.enrollmentService.enroll(userId, dto);
   }
 
+  // Learners list their own enrollments through /me/enrollments
   @Get('user/:userId')
-  @ApiOperation({ summary: 'Get user enrollments' })
+  @RequirePermissions(PermissionKey.PROGRESS_READ_ANY)
+  @ApiOperation({ summary: "Get a user's enrollments" })
   @ApiParam({
     name: 'userId',
     required: true,
@@ -1,10 +1,11 @@
-import { IsNotEmpty, IsString, IsUUID } from 'class-validator';
+import { IsNotEmpty, IsOptional, IsString, IsUUID } from 'class-validator';
 
 export class CreateEnrollmentDto {
-  @IsNotEmpty()
+  // Defaults to the current user; only admins may enroll someone else
+  @IsOptional()
   @IsString()
   @IsUUID()
-  userId: string;
+  userId?: string;
 
   @IsNotEmpty()
   @IsString()
@@ -52,8 +52,11 @@ export class EnrollmentService {
     return queryBuilder;
   }
 
-  async enroll(dto: CreateEnrollmentDto): Promise<EnrollmentResponseDto> {
-    const user = await this.userRepo.findOne({ where: { id: dto.userId } });
+  async enroll(
+    userId: string,
+    dto: CreateEnrollmentDto,
+  ): Promise<EnrollmentResponseDto> {
+    const user = await this.userRepo.findOne({ where: { id: userId } });
     const course = await this.courseRepo.findOne({
       where: { id: dto.courseId },
     });
@@ -1,4 +1,5 @@
 import { ApiProperty } from '@nestjs/swagger';
+import { MaintenanceStatusDto } from '../../maintenance/dto/maintenance.dto';
 
 export class HealthCheckDto {
   @ApiProperty({
@@ -23,6 +24,13 @@ export class HealthCheckDto {
     description: 'Detailed information about all services',
   })
   details: Record<string, HealthIndicatorStatus>;
+
+  @ApiProperty({
+    description: 'Maintenance mode state, on the general check only',
+    required: false,
+    type: MaintenanceStatusDto,
+  })
+  maintenance?: MaintenanceStatusDto;
 }
 
 export class HealthIndicatorStatus {
@@ -5,6 +5,7 @@ import {
   TypeOrmHealthIndicator,
 } from '@nestjs/terminus';
 import { Test, TestingModule } from '@nestjs/testing';
+import { MaintenanceService } from '../maintenance/services/maintenance.service';
 import { HealthController } from './health.controller';
 import { ServiceHealthIndicator } from './indicators/service-health.indicator';
 
@@ -53,6 +54,14 @@ describe('HealthController', () => {
             checkStorageService: jest.fn(),
           },
         },
+        {
+          provide: MaintenanceService,
+          useValue: {
+            getStatus: jest
+              .fn()
+              .mockResolvedValue({ active: false, upcoming: null }),
+          },
+        },
       ],
     }).compile();
 
@@ -67,6 +76,7 @@ describe('HealthController', () => {
   it('should return health check result', async () => {
     const result = await controller.check();
     expect(result).toBeDefined();
+    expect(result.maintenance).toEqual({ active: false, upcoming: null });
     expect(healthCheckService.check).toHaveBeenCalled();
   });
 
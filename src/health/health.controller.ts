@@ -6,12 +6,15 @@ import {
   MemoryHealthIndicator,
   TypeOrmHealthIndicator,
 } from '@nestjs/terminus';
+import { AllowDuringMaintenance } from '../maintenance/decorators/allow-during-maintenance.decorator';
+import { MaintenanceService } from '../maintenance/services/maintenance.service';
 import { HealthCheckDto } from './dto/health-check.dto';
 import { ServiceHealthIndicator } from './indicators/service-health.indicator';
 import { HealthResponseTransformer } from './transformers/health-response.transformer';
 
 @ApiTags('health')
 @Controller('health')
+@AllowDuringMaintenance()
 export class HealthController {
   constructor(
     private health: HealthCheckService,
@@ -19,6 +22,7 @@ export class HealthController {
     private memory: MemoryHealthIndicator,
     private disk: DiskHealthIndicator,
     private serviceHealth: ServiceHealthIndicator,
+    private maintenanceService: MaintenanceService,
   ) {}
 
   @Get()
@@ -39,7 +43,10 @@ export class HealthController {
         }),
     ]);
 
-    return HealthResponseTransformer.transform(result);
+    return {
+      ...HealthResponseTransformer.transform(result),
+      maintenance: await this.maintenanceService.getStatus(),
+    };
   }
 
   @Get('database')
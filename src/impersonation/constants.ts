@@ -0,0 +1,5 @@
+// Lifetime of an impersonation token; it also dies with the admin's session
+export const IMPERSONATION_TOKEN_TTL_SECONDS = 900;
+
+// Set on every impersonated response so clients can show a banner
+export const IMPERSONATED_BY_HEADER = 'X-Impersonated-By';
@@ -0,0 +1,10 @@
+import { SetMetadata } from '@nestjs/common';
+
+export const DISALLOW_IMPERSONATION_KEY = 'disallowImpersonation';
+
+/**
+ * Rejects the route (or every route of the controller) for impersonation
+ * tokens. DELETE requests are always rejected while impersonating.
+ */
+export const DisallowImpersonation = () =>
+  SetMetadata(DISALLOW_IMPERSONATION_KEY, true);
@@ -0,0 +1,43 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { IsOptional, IsUUID } from 'class-validator';
+import { PaginationQueryDto } from '../../common/dto/pagination-query.dto';
+import { UserRole } from '../../users/enums/user-role.enum';
+
+export class ImpersonationTokenDto {
+  @ApiProperty({ example: true })
+  impersonation: true;
+
+  @ApiProperty({
+    description:
+      'Access token acting as the target user. Its `act.sub` claim holds the admin id.',
+  })
+  accessToken: string;
+
+  @ApiProperty({ example: 900 })
+  expiresIn: number;
+
+  @ApiProperty()
+  impersonatorId: string;
+
+  @ApiProperty({
+    type: 'object',
+    properties: {
+      id: { type: 'string' },
+      email: { type: 'string' },
+      role: { type: 'string', enum: Object.values(UserRole) },
+    },
+  })
+  user: { id: string; email: string; role: UserRole };
+}
+
+export class ImpersonationLogQueryDto extends PaginationQueryDto {
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsUUID()
+  impersonatorId?: string;
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsUUID()
+  targetUserId?: string;
+}
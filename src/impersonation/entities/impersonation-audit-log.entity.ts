@@ -0,0 +1,52 @@
+import {
+  Column,
+  CreateDateColumn,
+  Entity,
+  Index,
+  PrimaryGeneratedColumn,
+} from 'typeorm';
+
+export enum ImpersonationEvent {
+  STARTED = 'started',
+  REQUEST = 'request',
+}
+
+/**
+ * One row when an admin starts impersonating a user and one per request made
+ * with the impersonation token, including blocked ones. Rows outlive both
+ * users on purpose, so ids are not foreign keys.
+ */
+@Entity('impersonation_audit_logs')
+@Index(['impersonatorId', 'createdAt'])
+@Index(['targetUserId', 'createdAt'])
+export class ImpersonationAuditLog {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ type: 'uuid' })
+  impersonatorId: string;
+
+  @Column({ type: 'uuid' })
+  targetUserId: string;
+
+  @Column({ type: 'enum', enum: ImpersonationEvent })
+  event: ImpersonationEvent;
+
+  @Column({ type: 'varchar', length: 10, nullable: true, default: null })
+  method: string | null;
+
+  @Column({ type: 'varchar', length: 2048, nullable: true, default: null })
+  path: string | null;
+
+  @Column({ type: 'int', nullable: true, default: null })
+  statusCode: number | null;
+
+  @Column({ type: 'varchar', length: 45, nullable: true, default: null })
+  ip: string | null;
+
+  @Column({ type: 'varchar', length: 512, nullable: true, default: null })
+  userAgent: string | null;
+
+  @CreateDateColumn()
+  createdAt: Date;
+}
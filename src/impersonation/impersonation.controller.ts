@@ -0,0 +1,81 @@
+import {
+  Controller,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  ParseUUIDPipe,
+  Post,
+  Query,
+  Req,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiBearerAuth,
+  ApiOperation,
+  ApiParam,
+  ApiResponse,
+  ApiTags,
+} from '@nestjs/swagger';
+import type { AuthenticatedRequest } from '../auth/interfaces/authenticated-user.interface';
+import { PermissionKey } from '../authorization/constants';
+import { RequirePermissions } from '../authorization/decorators/require-permissions.decorator';
+import { PermissionsGuard } from '../authorization/guards/permissions.guard';
+import { AuthGuard } from '../common/guards/auth.guard';
+import { DisallowImpersonation } from './decorators/disallow-impersonation.decorator';
+import {
+  ImpersonationLogQueryDto,
+  ImpersonationTokenDto,
+} from './dto/impersonation.dto';
+import { ImpersonationAuditService } from './services/impersonation-audit.service';
+import { ImpersonationService } from './services/impersonation.service';
+
+@Controller('admin')
+@ApiTags('admin')
+@ApiBearerAuth()
+@UseGuards(AuthGuard, PermissionsGuard)
+@DisallowImpersonation()
+export class ImpersonationController {
+  constructor(
+    private readonly impersonationService: ImpersonationService,
+    private readonly auditService: ImpersonationAuditService,
+  ) {}
+
+  @Post('users/:id/impersonate')
+  @RequirePermissions(PermissionKey.USER_IMPERSONATE)
+  @ApiOperation({
+    summary: 'Get a short-lived token acting as another user',
+    description:
+      'Every request made with the token is audited. Account, credential and DELETE actions are blocked.',
+  })
+  @ApiParam({ name: 'id', description: 'The ID of the user to impersonate' })
+  @ApiResponse({ status: 200, type: ImpersonationTokenDto })
+  @ApiResponse({
+    status: 403,
+    description: 'Target can impersonate others, or caller has no session',
+  })
+  @ApiResponse({ status: 404, description: 'User not found' })
+  @HttpCode(HttpStatus.OK)
+  impersonate(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Req() req: AuthenticatedRequest,
+  ): Promise<ImpersonationTokenDto> {
+    return this.impersonationService.start(req.user, id, {
+      ip: req.ip,
+      userAgent: req.get('user-agent'),
+    });
+  }
+
+  @Get('impersonation-logs')
+  @RequirePermissions(PermissionKey.AUDIT_READ)
+  @ApiOperation({ summary: 'Impersonation audit trail, newest first' })
+  @ApiResponse({ status: 200, description: 'Audit log entries' })
+  async findLogs(@Query() query: ImpersonationLogQueryDto) {
+    const { logs, total } = await this.auditService.findAll(query);
+    return {
+      message: 'Impersonation logs retrieved successfully',
+      data: logs,
+      total,
+    };
+  }
+}
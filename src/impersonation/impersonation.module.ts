@@ -0,0 +1,21 @@
+import { Global, Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { AuthModule } from '../auth/auth.module';
+import { User } from '../users/entities/user.entity';
+import { ImpersonationAuditLog } from './entities/impersonation-audit-log.entity';
+import { ImpersonationController } from './impersonation.controller';
+import { ImpersonationAuditService } from './services/impersonation-audit.service';
+import { ImpersonationService } from './services/impersonation.service';
+
+/** Global because AuthGuard, used by every module, audits impersonated requests. */
+@Global()
+@Module({
+  imports: [
+    TypeOrmModule.forFeature([ImpersonationAuditLog, User]),
+    AuthModule,
+  ],
+  controllers: [ImpersonationController],
+  providers: [ImpersonationService, ImpersonationAuditService],
+  exports: [ImpersonationAuditService],
+})
+export class ImpersonationModule {}
@@ -0,0 +1,75 @@
+import { Inject, Injectable } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import type { Response } from 'express';
+import { Repository } from 'typeorm';
+import type { AuthenticatedRequest } from '../../auth/interfaces/authenticated-user.interface';
+import { CentralizedLoggerService } from '../../common/logger/services/centralized-logger.service';
+import { IMPERSONATED_BY_HEADER } from '../constants';
+import { ImpersonationLogQueryDto } from '../dto/impersonation.dto';
+import {
+  ImpersonationAuditLog,
+  ImpersonationEvent,
+} from '../entities/impersonation-audit-log.entity';
+
+@Injectable()
+export class ImpersonationAuditService {
+  // AuthGuard may run more than once per request; log each request once
+  private readonly tracked = new WeakSet<AuthenticatedRequest>();
+
+  constructor(
+    @InjectRepository(ImpersonationAuditLog)
+    private readonly auditRepository: Repository<ImpersonationAuditLog>,
+    @Inject(CentralizedLoggerService)
+    private readonly logger: CentralizedLoggerService,
+  ) {
+    this.logger.setContext(ImpersonationAuditService.name);
+  }
+
+  /**
+   * Marks the response as impersonated and records the request once it has
+   * been answered, so blocked and failed requests are logged with their status.
+   */
+  track(request: AuthenticatedRequest, response: Response): void {
+    const { impersonatorId, id: targetUserId } = request.user;
+    if (!impersonatorId || this.tracked.has(request)) {
+      return;
+    }
+    this.tracked.add(request);
+
+    response.setHeader(IMPERSONATED_BY_HEADER, impersonatorId);
+    response.on('finish', () => {
+      this.record({
+        impersonatorId,
+        targetUserId,
+        event: ImpersonationEvent.REQUEST,
+        method: request.method,
+        path: request.originalUrl.slice(0, 2048),
+        statusCode: response.statusCode,
+        ip: request.ip ?? null,
+        userAgent: request.get('user-agent')?.slice(0, 512) ?? null,
+      }).catch((error: Error) =>
+        this.logger.error('Failed to record impersonated request', error, {
+          impersonatorId,
+          targetUserId,
+        }),
+      );
+    });
+  }
+
+  async record(entry: Partial<ImpersonationAuditLog>): Promise<void> {
+    await this.auditRepository.insert(this.auditRepository.create(entry));
+  }
+
+  async findAll(
+    query: ImpersonationLogQueryDto,
+  ): Promise<{ logs: ImpersonationAuditLog[]; total: number }> {
+    const { page = 1, limit = 20, impersonatorId, targetUserId } = query;
+    const [logs, total] = await this.auditRepository.findAndCount({
+      where: { impersonatorId, targetUserId },
+      order: { createdAt: 'DESC' },
+      skip: (page - 1) * limit,
+      take: limit,
+    });
+    return { logs, total };
+  }
+}
@@ -0,0 +1,107 @@
+import { BadRequestException, ForbiddenException } from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import type { AuthenticatedUser } from '../../auth/interfaces/authenticated-user.interface';
+import { JwtKeysService } from '../../auth/services/jwt-keys.service';
+import { PermissionsService } from '../../authorization/services/permissions.service';
+import { CentralizedLoggerService } from '../../common/logger/services/centralized-logger.service';
+import { User, UserRole } from '../../users/entities/user.entity';
+import { IMPERSONATION_TOKEN_TTL_SECONDS } from '../constants';
+import { ImpersonationEvent } from '../entities/impersonation-audit-log.entity';
+import { ImpersonationAuditService } from './impersonation-audit.service';
+import { ImpersonationService } from './impersonation.service';
+
+describe('ImpersonationService', () => {
+  let service: ImpersonationService;
+
+  const admin: AuthenticatedUser = {
+    id: 'admin-1',
+    email: 'admin@example.com',
+    role: UserRole.ADMIN,
+    sessionId: 'session-1',
+  };
+  const users = [
+    { id: 'admin-1', email: 'admin@example.com', role: UserRole.ADMIN },
+    { id: 'admin-2', email: 'other@example.com', role: UserRole.ADMIN },
+    { id: 'learner-1', email: 'jane@example.com', role: UserRole.USER },
+  ];
+
+  const userRepository = {
+    findOne: jest.fn(({ where }) =>
+      Promise.resolve(users.find((user) => user.id === where.id) ?? null),
+    ),
+  };
+  const jwtKeysService = { sign: jest.fn(() => 'signed-token') };
+  const permissionsService = {
+    hasPermissions: jest.fn((user: { role: UserRole }) =>
+      Promise.resolve(user.role === UserRole.ADMIN),
+    ),
+  };
+  const auditService = { record: jest.fn(() => Promise.resolve()) };
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ImpersonationService,
+        { provide: getRepositoryToken(User), useValue: userRepository },
+        { provide: JwtKeysService, useValue: jwtKeysService },
+        { provide: PermissionsService, useValue: permissionsService },
+        { provide: ImpersonationAuditService, useValue: auditService },
+        {
+          provide: CentralizedLoggerService,
+          useValue: { setContext: jest.fn(), info: jest.fn(), warn: jest.fn() },
+        },
+      ],
+    }).compile();
+
+    service = module.get<ImpersonationService>(ImpersonationService);
+  });
+
+  it('should sign a short-lived token carrying the admin in the act claim', async () => {
+    const result = await service.start(admin, 'learner-1', { ip: '10.0.0.1' });
+
+    expect(result).toMatchObject({
+      impersonation: true,
+      accessToken: 'signed-token',
+      impersonatorId: 'admin-1',
+      user: { id: 'learner-1' },
+    });
+    expect(jwtKeysService.sign).toHaveBeenCalledWith(
+      expect.objectContaining({
+        sub: 'learner-1',
+        sid: 'session-1',
+        act: { sub: 'admin-1' },
+      }),
+      { expiresIn: IMPERSONATION_TOKEN_TTL_SECONDS },
+    );
+    expect(auditService.record).toHaveBeenCalledWith(
+      expect.objectContaining({
+        impersonatorId: 'admin-1',
+        targetUserId: 'learner-1',
+        event: ImpersonationEvent.STARTED,
+        ip: '10.0.0.1',
+      }),
+    );
+  });
+
+  it('should refuse to impersonate the caller', async () => {
+    await expect(service.start(admin, 'admin-1')).rejects.toThrow(
+      BadRequestException,
+    );
+  });
+
+  it('should refuse to impersonate users who can impersonate', async () => {
+    await expect(service.start(admin, 'admin-2')).rejects.toThrow(
+      ForbiddenException,
+    );
+    expect(jwtKeysService.sign).not.toHaveBeenCalled();
+  });
+
+  it('should refuse to chain impersonation', async () => {
+    await expect(
+      service.start({ ...admin, impersonatorId: 'admin-2' }, 'learner-1'),
+    ).rejects.toThrow(ForbiddenException);
+  });
+});
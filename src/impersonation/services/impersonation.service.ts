@@ -0,0 +1,111 @@
+import {
+  BadRequestException,
+  ForbiddenException,
+  Inject,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import type {
+  AuthenticatedUser,
+  JwtPayload,
+} from '../../auth/interfaces/authenticated-user.interface';
+import type { SessionClientInfo } from '../../auth/interfaces/session-client.interface';
+import { JwtKeysService } from '../../auth/services/jwt-keys.service';
+import { PermissionKey } from '../../authorization/constants';
+import { PermissionsService } from '../../authorization/services/permissions.service';
+import { CentralizedLoggerService } from '../../common/logger/services/centralized-logger.service';
+import { User } from '../../users/entities/user.entity';
+import { IMPERSONATION_TOKEN_TTL_SECONDS } from '../constants';
+import { ImpersonationTokenDto } from '../dto/impersonation.dto';
+import { ImpersonationEvent } from '../entities/impersonation-audit-log.entity';
+import { ImpersonationAuditService } from './impersonation-audit.service';
+
+/**
+ * Issues tokens that act as another user. The token carries the admin in an
+ * RFC 8693 `act` claim and reuses the admin's session id, so it is revoked
+ * together with the admin's session.
+ */
+@Injectable()
+export class ImpersonationService {
+  constructor(
+    @InjectRepository(User)
+    private readonly userRepository: Repository<User>,
+    private readonly jwtKeysService: JwtKeysService,
+    private readonly permissionsService: PermissionsService,
+    private readonly auditService: ImpersonationAuditService,
+    @Inject(CentralizedLoggerService)
+    private readonly logger: CentralizedLoggerService,
+  ) {
+    this.logger.setContext(ImpersonationService.name);
+  }
+
+  async start(
+    admin: AuthenticatedUser,
+    targetUserId: string,
+    client: SessionClientInfo = {},
+  ): Promise<ImpersonationTokenDto> {
+    if (admin.impersonatorId) {
+      throw new ForbiddenException('Stop impersonating before starting again');
+    }
+    if (!admin.sessionId) {
+      throw new ForbiddenException(
+        'Impersonation requires an interactive login session',
+      );
+    }
+    if (targetUserId === admin.id) {
+      throw new BadRequestException('You cannot impersonate yourself');
+    }
+
+    const target = await this.userRepository.findOne({
+      where: { id: targetUserId },
+      select: { id: true, email: true, role: true },
+    });
+    if (!target) {
+      throw new NotFoundException(`User with ID ${targetUserId} not found`);
+    }
+
+    // Impersonating a peer would let admins act beyond their own audit trail
+    const isImpersonator = await this.permissionsService.hasPermissions(
+      target,
+      [PermissionKey.USER_IMPERSONATE],
+    );
+    if (isImpersonator) {
+      throw new ForbiddenException(
+        'Users who can impersonate others cannot be impersonated',
+      );
+    }
+
+    const payload: JwtPayload = {
+      sub: target.id,
+      email: target.email,
+      role: target.role,
+      sid: admin.sessionId,
+      act: { sub: admin.id },
+    };
+    const accessToken = this.jwtKeysService.sign(payload, {
+      expiresIn: IMPERSONATION_TOKEN_TTL_SECONDS,
+    });
+
+    await this.auditService.record({
+      impersonatorId: admin.id,
+      targetUserId: target.id,
+      event: ImpersonationEvent.STARTED,
+      ip: client.ip ?? null,
+      userAgent: client.userAgent?.slice(0, 512) ?? null,
+    });
+    this.logger.warn('Impersonation started', {
+      impersonatorId: admin.id,
+      targetUserId: target.id,
+    });
+
+    return {
+      impersonation: true,
+      accessToken,
+      expiresIn: IMPERSONATION_TOKEN_TTL_SECONDS,
+      impersonatorId: admin.id,
+      user: { id: target.id, email: target.email, role: target.role },
+    };
+  }
+}
@@ -11,7 +11,9 @@ import {
   Patch,
   Post,
   Query,
+  Req,
   UploadedFile,
+  UseGuards,
   UseInterceptors,
 } from '@nestjs/common';
 import { FileInterceptor } from '@nestjs/platform-express';
@@ -21,6 +23,13 @@ import {
   ApiResponse,
   ApiTags,
 } from '@nestjs/swagger';
+import { ApiKeyResource } from '../api-keys/decorators/api-key-resource.decorator';
+import type { AuthenticatedRequest } from '../auth/interfaces/authenticated-user.interface';
+import { CanManage } from '../authorization/decorators/can-manage.decorator';
+import { OwnershipGuard } from '../authorization/guards/ownership.guard';
+import { PermissionsGuard } from '../authorization/guards/permissions.guard';
+import { OwnershipService } from '../authorization/services/ownership.service';
+import { AuthGuard } from '../common/guards/auth.guard';
 import { ResourceType } from '../entities/lesson-resource.entity';
 import { CreateLessonResourceDto } from './dto/create-lesson-resource.dto';
 import { LessonResourceResponseDto } from './dto/lesson-resource-response.dto';
@@ -28,10 +37,13 @@ import { UpdateLessonResourceDto } from './dto/update-lesson-resource.dto';
 import { LessonResourcesService } from './lesson-resources.service';
 
 @Controller('lesson-resources')
+@ApiKeyResource('courses')
 @ApiTags('lesson-resources')
+@UseGuards(AuthGuard, PermissionsGuard, OwnershipGuard)
 export class LessonResourcesController {
   constructor(
     private readonly lessonResourcesService: LessonResourcesService,
+    private readonly ownershipService: OwnershipService,
   ) {}
 
   @Post()
@@ -61,6 +73,7 @@ export class LessonResourcesController {
   async create(
     @UploadedFile() file: Express.Multer.File,
     @Body() fileUploadDto: CreateLessonResourceDto,
+    @Req() req: AuthenticatedRequest,
   ): Promise<{
     message: string;
     data: LessonResourceResponseDto;
@@ -69,6 +82,13 @@ export class LessonResourcesController {
       throw new BadRequestException('No file provided');
     }
 
+    // Multipart bodies are parsed after guards run, so check ownership here
+    await this.ownershipService.assertCanManage(
+      req.user,
+      'lesson',
+      fileUploadDto.lesson_id,
+    );
+
     const resource = await this.lessonResourcesService.create(
       file,
       fileUploadDto,
@@ -210,6 +230,8 @@ export class LessonResourcesController {
   }
 
   @Patch(':id')
+  @CanManage('lesson-resource')
+  @CanManage('lesson', 'lesson_id', { from: 'body' })
   @ApiOperation({ summary: 'Update lesson resource by ID' })
   @ApiResponse({
     status: 200,
@@ -290,6 +312,7 @@ export class LessonResourcesController {
   }
 
   @Delete(':id')
+  @CanManage('lesson-resource')
   @ApiOperation({ summary: 'Soft delete lesson resource' })
   @ApiResponse({ status: 204, description: 'Resource deleted successfully' })
   @ApiResponse({
@@ -309,6 +332,7 @@ export class LessonResourcesController {
   }
 
   @Delete(':id/permanent')
+  @CanManage('lesson-resource')
   @ApiOperation({ summary: 'Permanently delete lesson resource' })
   @ApiResponse({
     status: 204,
@@ -9,8 +9,14 @@ import {
   ParseUUIDPipe,
   Patch,
   Post,
+  UseGuards,
 } from '@nestjs/common';
 import { ApiOperation, ApiResponse, ApiTags } from '@nestjs/swagger';
+import { ApiKeyResource } from '../api-keys/decorators/api-key-resource.decorator';
+import { CanManage } from '../authorization/decorators/can-manage.decorator';
+import { OwnershipGuard } from '../authorization/guards/ownership.guard';
+import { PermissionsGuard } from '../authorization/guards/permissions.guard';
+import { AuthGuard } from '../common/guards/auth.guard';
 import { Lesson } from '../entities/lesson.entity';
 import { CreateLessonDto } from './dto/create-lesson.dto';
 import { LessonResponseDto } from './dto/lesson-response.dto';
@@ -18,11 +24,14 @@ import { UpdateLessonDto } from './dto/update-lesson.dto';
 import { LessonsService } from './lessons.service';
 
 @Controller('lessons')
+@ApiKeyResource('courses')
 @ApiTags('lessons')
+@UseGuards(AuthGuard, PermissionsGuard, OwnershipGuard)
 export class LessonsController {
   constructor(private readonly lessonsService: LessonsService) {}
 
   @Post()
+  @CanManage('module', 'module_id', { from: 'body' })
   @ApiOperation({ summary: 'Create a new lesson' })
   @ApiResponse({
     status: 201,
@@ -71,6 +80,8 @@ export class LessonsController {
   }
 
   @Patch(':id')
+  @CanManage('lesson')
+  @CanManage('module', 'module_id', { from: 'body' })
   @ApiOperation({ summary: 'Update lesson by ID' })
   @ApiResponse({
     status: 200,
@@ -100,6 +111,7 @@ export class LessonsController {
   }
 
   @Delete(':id')
+  @CanManage('lesson')
   @ApiOperation({ summary: 'Delete lesson by ID' })
   @ApiResponse({ status: 204, description: 'Lesson deleted successfully' })
   @ApiResponse({
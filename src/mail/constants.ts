@@ -0,0 +1,6 @@
+export const MAIL_TRANSPORT = 'MailTransport';
+
+export enum MailDriver {
+  SMTP = 'smtp',
+  OUTBOX = 'outbox',
+}
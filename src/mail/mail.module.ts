@@ -0,0 +1,22 @@
+import { Module } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { MAIL_TRANSPORT, MailDriver } from './constants';
+import { MailService } from './mail.service';
+import { OutboxMailTransport } from './transports/outbox-mail.transport';
+import { SmtpMailTransport } from './transports/smtp-mail.transport';
+
+@Module({
+  providers: [
+    {
+      provide: MAIL_TRANSPORT,
+      useFactory: (configService: ConfigService) =>
+        configService.get<string>('MAIL_DRIVER') === MailDriver.SMTP
+          ? new SmtpMailTransport(configService)
+          : new OutboxMailTransport(configService),
+      inject: [ConfigService],
+    },
+    MailService,
+  ],
+  exports: [MailService, MAIL_TRANSPORT],
+})
+export class MailModule {}
@@ -0,0 +1,63 @@
+import { ConfigService } from '@nestjs/config';
+import { Test, TestingModule } from '@nestjs/testing';
+import { MAIL_TRANSPORT } from './constants';
+import { MailService } from './mail.service';
+import { OutboxMailTransport } from './transports/outbox-mail.transport';
+
+describe('MailService', () => {
+  let service: MailService;
+  let outbox: OutboxMailTransport;
+
+  beforeEach(async () => {
+    const configService = {
+      get: jest.fn((key: string) =>
+        key === 'FRONTEND_URL' ? 'https://app.skillcert.test' : undefined,
+      ),
+    } as unknown as ConfigService;
+    outbox = new OutboxMailTransport(configService);
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        MailService,
+        { provide: MAIL_TRANSPORT, useValue: outbox },
+        { provide: ConfigService, useValue: configService },
+      ],
+    }).compile();
+
+    service = module.get<MailService>(MailService);
+  });
+
+  it('should send a password reset link to the user', async () => {
+    await service.sendPasswordReset(
+      'jane@example.com',
+      'Jane',
+      'reset-token',
+      new Date('2030-01-01T00:00:00.000Z'),
+    );
+
+    const [message] = outbox.getMessages();
+    expect(message.to).toBe('jane@example.com');
+    expect(message.text).toContain(
+      'https://app.skillcert.test/reset-password?token=reset-token',
+    );
+    expect(message.text).toContain('2030-01-01T00:00:00.000Z');
+  });
+
+  it('should send an email verification link to the user', async () => {
+    await service.sendEmailVerification('jane@example.com', 'Jane', 'abc');
+
+    const [message] = outbox.getMessages();
+    expect(message.subject).toContain('Verify');
+    expect(message.text).toContain(
+      'https://app.skillcert.test/verify-email?token=abc',
+    );
+  });
+
+  it('should clear the in-memory outbox', async () => {
+    await service.sendEmailVerification('jane@example.com', 'Jane', 'abc');
+
+    outbox.clear();
+
+    expect(outbox.getMessages()).toHaveLength(0);
+  });
+});
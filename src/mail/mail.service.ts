@@ -0,0 +1,65 @@
+import { Inject, Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { MAIL_TRANSPORT } from './constants';
+import { MailTransport } from './interfaces/mail-transport.interface';
+
+@Injectable()
+export class MailService {
+  private readonly frontendUrl: string;
+
+  constructor(
+    @Inject(MAIL_TRANSPORT) private readonly transport: MailTransport,
+    configService: ConfigService,
+  ) {
+    this.frontendUrl =
+      configService.get<string>('FRONTEND_URL') ?? 'http://localhost:3001';
+  }
+
+  async sendPasswordReset(
+    to: string,
+    name: string,
+    token: string,
+    expiresAt: Date,
+  ): Promise<void> {
+    const link = this.buildLink('/reset-password', token);
+
+    await this.transport.send({
+      to,
+      subject: 'Reset your SkillCert password',
+      text: [
+        `Hi ${name},`,
+        '',
+        'We received a request to reset your SkillCert password.',
+        `Open the link below to choose a new one (valid until ${expiresAt.toISOString()}):`,
+        link,
+        '',
+        'If you did not request this, you can ignore this email.',
+      ].join('\n'),
+    });
+  }
+
+  async sendEmailVerification(
+    to: string,
+    name: string,
+    token: string,
+  ): Promise<void> {
+    const link = this.buildLink('/verify-email', token);
+
+    await this.transport.send({
+      to,
+      subject: 'Verify your SkillCert email address',
+      text: [
+        `Hi ${name},`,
+        '',
+        'Please confirm your email address by opening the link below:',
+        link,
+      ].join('\n'),
+    });
+  }
+
+  private buildLink(pathname: string, token: string): string {
+    const url = new URL(pathname, this.frontendUrl);
+    url.searchParams.set('token', token);
+    return url.toString();
+  }
+}
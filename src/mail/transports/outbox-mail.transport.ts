@@ -0,0 +1,50 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import * as fs from 'node:fs/promises';
+import * as path from 'path';
+import { v4 as uuidv4 } from 'uuid';
+import {
+  MailMessage,
+  MailTransport,
+} from '../interfaces/mail-transport.interface';
+
+export interface OutboxEntry extends MailMessage {
+  id: string;
+  sentAt: Date;
+}
+
+/**
+ * Development/test transport: keeps every message in memory and, when
+ * MAIL_OUTBOX_DIR is set, also writes each one to that directory as JSON.
+ */
+@Injectable()
+export class OutboxMailTransport implements MailTransport {
+  private readonly outboxDir?: string;
+  private readonly messages: OutboxEntry[] = [];
+
+  constructor(private readonly configService: ConfigService) {
+    this.outboxDir = this.configService.get<string>('MAIL_OUTBOX_DIR');
+  }
+
+  async send(message: MailMessage): Promise<void> {
+    const entry: OutboxEntry = { id: uuidv4(), sentAt: new Date(), ...message };
+    this.messages.push(entry);
+
+    if (this.outboxDir) {
+      await fs.mkdir(this.outboxDir, { recursive: true });
+      await fs.writeFile(
+        path.join(this.outboxDir, `${entry.sentAt.getTime()}-${entry.id}.json`),
+        JSON.stringify(entry, null, 2),
+      );
+    }
+  }
+
+  /** Messages sent since startup (or since the last clear), oldest first. */
+  getMessages(): OutboxEntry[] {
+    return [...this.messages];
+  }
+
+  clear(): void {
+    this.messages.length = 0;
+  }
+}
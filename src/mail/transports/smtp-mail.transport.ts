@@ -0,0 +1,32 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { createTransport, Transporter } from 'nodemailer';
+import {
+  MailMessage,
+  MailTransport,
+} from '../interfaces/mail-transport.interface';
+
+@Injectable()
+export class SmtpMailTransport implements MailTransport {
+  private readonly transporter: Transporter;
+  private readonly from: string;
+
+  constructor(private readonly configService: ConfigService) {
+    const user = this.configService.get<string>('SMTP_USER');
+
+    this.transporter = createTransport({
+      host: this.configService.get<string>('SMTP_HOST'),
+      port: Number(this.configService.get<string>('SMTP_PORT')) || 587,
+      secure: this.configService.get<string>('SMTP_SECURE') === 'true',
+      auth: user
+        ? { user, pass: this.configService.get<string>('SMTP_PASSWORD') }
+        : undefined,
+    });
+    this.from =
+      this.configService.get<string>('MAIL_FROM') || 'no-reply@skillcert.io';
+  }
+
+  async send(message: MailMessage): Promise<void> {
+    await this.transporter.sendMail({ from: this.from, ...message });
+  }
+}
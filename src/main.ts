@@ -18,6 +18,7 @@ async function bootstrap() {
     credentials: true, // Required when using cookies for JWT
     methods: ['GET', 'POST', 'PUT', 'PATCH', 'DELETE', 'OPTIONS'],
     allowedHeaders: ['Content-Type', 'Authorization', 'Accept'],
+    exposedHeaders: ['Retry-After'], // Sent with 503s during maintenance
   });
 
   // Apply global exception filters
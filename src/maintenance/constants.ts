@@ -0,0 +1,9 @@
+// How long each instance reuses the loaded maintenance windows before re-reading them
+export const MAINTENANCE_STATE_CACHE_TTL_MS = 5 * 1000;
+
+// Retry-After sent during maintenance that has no planned end
+export const MAINTENANCE_DEFAULT_RETRY_AFTER_SECONDS = 300;
+
+// Message shown to users when the admin does not provide one
+export const DEFAULT_MAINTENANCE_MESSAGE =
+  'The platform is undergoing maintenance. Please try again later.';
@@ -0,0 +1,10 @@
+import { SetMetadata } from '@nestjs/common';
+
+export const ALLOW_DURING_MAINTENANCE_KEY = 'allowDuringMaintenance';
+
+/**
+ * Keeps the route (or every route of the controller) reachable for everyone
+ * while maintenance mode is active, e.g. health checks and login.
+ */
+export const AllowDuringMaintenance = () =>
+  SetMetadata(ALLOW_DURING_MAINTENANCE_KEY, true);
@@ -0,0 +1,109 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import {
+  IsArray,
+  IsDateString,
+  IsEnum,
+  IsIP,
+  IsOptional,
+  IsString,
+  MaxLength,
+} from 'class-validator';
+import { UserRole } from '../../users/enums/user-role.enum';
+
+export class StartMaintenanceDto {
+  @ApiPropertyOptional({
+    description: 'Message returned to blocked clients',
+    example: 'Upgrading the database, back in 30 minutes',
+    maxLength: 500,
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(500)
+  message?: string;
+
+  @ApiPropertyOptional({
+    description: 'Planned end (ISO 8601); omit to end maintenance manually',
+    example: '2026-01-01T02:00:00.000Z',
+  })
+  @IsOptional()
+  @IsDateString()
+  endsAt?: string;
+
+  @ApiPropertyOptional({
+    description: 'Roles that keep full access during maintenance',
+    enum: UserRole,
+    isArray: true,
+  })
+  @IsOptional()
+  @IsArray()
+  @IsEnum(UserRole, { each: true })
+  allowedRoles?: UserRole[];
+
+  @ApiPropertyOptional({
+    description: 'Client IPs that keep full access during maintenance',
+    example: ['203.0.113.10'],
+  })
+  @IsOptional()
+  @IsArray()
+  @IsIP(undefined, { each: true })
+  allowedIps?: string[];
+}
+
+export class ScheduleMaintenanceDto extends StartMaintenanceDto {
+  @ApiProperty({
+    description: 'When maintenance begins (ISO 8601, in the future)',
+    example: '2026-01-01T00:00:00.000Z',
+  })
+  @IsDateString()
+  startsAt: string;
+}
+
+export class MaintenanceWindowDto {
+  @ApiProperty()
+  id: string;
+
+  @ApiProperty()
+  message: string;
+
+  @ApiProperty()
+  startsAt: Date;
+
+  @ApiProperty({ nullable: true })
+  endsAt: Date | null;
+
+  @ApiProperty({ nullable: true })
+  endedAt: Date | null;
+
+  @ApiProperty({ enum: UserRole, isArray: true })
+  allowedRoles: UserRole[];
+
+  @ApiProperty({ type: [String] })
+  allowedIps: string[];
+
+  @ApiProperty({ nullable: true })
+  createdById: string | null;
+
+  @ApiProperty()
+  createdAt: Date;
+}
+
+/** Public view of the maintenance state, as shown on /health. */
+export class MaintenanceStatusDto {
+  @ApiProperty()
+  active: boolean;
+
+  @ApiPropertyOptional()
+  message?: string;
+
+  @ApiPropertyOptional()
+  startsAt?: Date;
+
+  @ApiPropertyOptional({ nullable: true })
+  endsAt?: Date | null;
+
+  @ApiPropertyOptional({
+    description: 'Next scheduled window, when maintenance is not active',
+    nullable: true,
+  })
+  upcoming?: { message: string; startsAt: Date; endsAt: Date | null } | null;
+}
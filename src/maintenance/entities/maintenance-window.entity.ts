@@ -0,0 +1,45 @@
+import {
+  Column,
+  CreateDateColumn,
+  Entity,
+  Index,
+  PrimaryGeneratedColumn,
+} from 'typeorm';
+import { UserRole } from '../../users/enums/user-role.enum';
+
+/**
+ * A period during which only maintainers and the allow-listed roles and IPs
+ * can use the API. Windows are kept after they end as a history.
+ */
+@Entity('maintenance_windows')
+export class MaintenanceWindow {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ type: 'varchar', length: 500 })
+  message: string;
+
+  @Index()
+  @Column({ type: 'timestamp' })
+  startsAt: Date;
+
+  // Planned end; null keeps maintenance on until it is ended explicitly
+  @Column({ type: 'timestamp', nullable: true, default: null })
+  endsAt: Date | null;
+
+  // Set when the window is ended early or cancelled before it started
+  @Column({ type: 'timestamp', nullable: true, default: null })
+  endedAt: Date | null;
+
+  @Column({ type: 'text', array: true, default: '{}' })
+  allowedRoles: UserRole[];
+
+  @Column({ type: 'text', array: true, default: '{}' })
+  allowedIps: string[];
+
+  @Column({ type: 'uuid', nullable: true, default: null })
+  createdById: string | null;
+
+  @CreateDateColumn()
+  createdAt: Date;
+}
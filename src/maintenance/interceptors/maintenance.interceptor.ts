@@ -0,0 +1,85 @@
+import {
+  CallHandler,
+  ExecutionContext,
+  Inject,
+  Injectable,
+  NestInterceptor,
+  ServiceUnavailableException,
+} from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import type { Response } from 'express';
+import { Observable } from 'rxjs';
+import type { AuthenticatedRequest } from '../../auth/interfaces/authenticated-user.interface';
+import { CentralizedLoggerService } from '../../common/logger/services/centralized-logger.service';
+import { ALLOW_DURING_MAINTENANCE_KEY } from '../decorators/allow-during-maintenance.decorator';
+import { MaintenanceWindow } from '../entities/maintenance-window.entity';
+import { MaintenanceService } from '../services/maintenance.service';
+
+/**
+ * Answers 503 with `Retry-After` while a maintenance window is active, except
+ * for exempt callers and `@AllowDuringMaintenance()` routes. It runs after the
+ * guards, so `req.user` is known when deciding whether the caller is exempt.
+ */
+@Injectable()
+export class MaintenanceInterceptor implements NestInterceptor {
+  constructor(
+    private readonly reflector: Reflector,
+    private readonly maintenanceService: MaintenanceService,
+    @Inject(CentralizedLoggerService)
+    private readonly logger: CentralizedLoggerService,
+  ) {
+    this.logger.setContext(MaintenanceInterceptor.name);
+  }
+
+  async intercept(
+    context: ExecutionContext,
+    next: CallHandler,
+  ): Promise<Observable<unknown>> {
+    if (context.getType() !== 'http') {
+      return next.handle();
+    }
+
+    const allowed = this.reflector.getAllAndOverride<boolean>(
+      ALLOW_DURING_MAINTENANCE_KEY,
+      [context.getHandler(), context.getClass()],
+    );
+    if (allowed) {
+      return next.handle();
+    }
+
+    const request = context.switchToHttp().getRequest<AuthenticatedRequest>();
+    let window: MaintenanceWindow | null;
+    try {
+      window = await this.maintenanceService.getActiveWindow();
+    } catch (error) {
+      // Without the schedule we cannot tell, so keep serving rather than lock everyone out
+      this.logger.error('Failed to load maintenance state', error as Error);
+      return next.handle();
+    }
+
+    if (
+      window &&
+      !(await this.maintenanceService.isExempt(
+        window,
+        request.user,
+        request.ip,
+      ))
+    ) {
+      context
+        .switchToHttp()
+        .getResponse<Response>()
+        .setHeader(
+          'Retry-After',
+          String(this.maintenanceService.retryAfterSeconds(window)),
+        );
+      throw new ServiceUnavailableException({
+        statusCode: 503,
+        error: 'Service Unavailable',
+        message: window.message,
+        maintenance: { startsAt: window.startsAt, endsAt: window.endsAt },
+      });
+    }
+
+    return next.handle();
+  }
+}
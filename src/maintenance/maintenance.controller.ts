@@ -0,0 +1,102 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  ParseUUIDPipe,
+  Post,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiBearerAuth,
+  ApiOperation,
+  ApiParam,
+  ApiResponse,
+  ApiTags,
+} from '@nestjs/swagger';
+import { PermissionKey } from '../authorization/constants';
+import { RequirePermissions } from '../authorization/decorators/require-permissions.decorator';
+import { PermissionsGuard } from '../authorization/guards/permissions.guard';
+import { CurrentUser } from '../common/decorators/current-user.decorator';
+import { AuthGuard } from '../common/guards/auth.guard';
+import { DisallowImpersonation } from '../impersonation/decorators/disallow-impersonation.decorator';
+import {
+  MaintenanceStatusDto,
+  MaintenanceWindowDto,
+  ScheduleMaintenanceDto,
+  StartMaintenanceDto,
+} from './dto/maintenance.dto';
+import { MaintenanceService } from './services/maintenance.service';
+
+@Controller('admin/system/maintenance')
+@DisallowImpersonation()
+@ApiTags('admin')
+@ApiBearerAuth()
+@UseGuards(AuthGuard, PermissionsGuard)
+@RequirePermissions(PermissionKey.SYSTEM_MAINTENANCE)
+export class MaintenanceController {
+  constructor(private readonly maintenanceService: MaintenanceService) {}
+
+  @Get()
+  @ApiOperation({ summary: 'Current maintenance state' })
+  @ApiResponse({ status: 200, type: MaintenanceStatusDto })
+  getStatus(): Promise<MaintenanceStatusDto> {
+    return this.maintenanceService.getStatus();
+  }
+
+  @Get('windows')
+  @ApiOperation({ summary: 'Recent and upcoming maintenance windows' })
+  @ApiResponse({ status: 200, type: [MaintenanceWindowDto] })
+  findAll(): Promise<MaintenanceWindowDto[]> {
+    return this.maintenanceService.findAll();
+  }
+
+  @Post()
+  @ApiOperation({
+    summary: 'Start maintenance mode now',
+    description:
+      'Non-exempt requests get 503 with Retry-After until the window ends.',
+  })
+  @ApiResponse({ status: 201, type: MaintenanceWindowDto })
+  @ApiResponse({ status: 409, description: 'Overlaps another window' })
+  start(
+    @CurrentUser('id') adminId: string,
+    @Body() dto: StartMaintenanceDto,
+  ): Promise<MaintenanceWindowDto> {
+    return this.maintenanceService.start(dto, adminId);
+  }
+
+  @Post('schedule')
+  @ApiOperation({ summary: 'Schedule a future maintenance window' })
+  @ApiResponse({ status: 201, type: MaintenanceWindowDto })
+  @ApiResponse({ status: 400, description: 'startsAt is not in the future' })
+  @ApiResponse({ status: 409, description: 'Overlaps another window' })
+  schedule(
+    @CurrentUser('id') adminId: string,
+    @Body() dto: ScheduleMaintenanceDto,
+  ): Promise<MaintenanceWindowDto> {
+    return this.maintenanceService.schedule(dto, adminId);
+  }
+
+  @Post('end')
+  @ApiOperation({ summary: 'End the active maintenance window now' })
+  @ApiResponse({ status: 200, type: MaintenanceWindowDto })
+  @ApiResponse({ status: 404, description: 'Maintenance mode is not active' })
+  @HttpCode(HttpStatus.OK)
+  end(): Promise<MaintenanceWindowDto> {
+    return this.maintenanceService.end();
+  }
+
+  @Delete('windows/:id')
+  @ApiOperation({ summary: 'Cancel a scheduled maintenance window' })
+  @ApiParam({ name: 'id', description: 'Maintenance window ID' })
+  @ApiResponse({ status: 204, description: 'Window cancelled' })
+  @ApiResponse({ status: 404, description: 'No upcoming window with this ID' })
+  @HttpCode(HttpStatus.NO_CONTENT)
+  async cancel(@Param('id', ParseUUIDPipe) id: string): Promise<void> {
+    await this.maintenanceService.cancel(id);
+  }
+}
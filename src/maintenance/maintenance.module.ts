@@ -0,0 +1,20 @@
+import { Global, Module } from '@nestjs/common';
+import { APP_INTERCEPTOR } from '@nestjs/core';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { MaintenanceWindow } from './entities/maintenance-window.entity';
+import { MaintenanceInterceptor } from './interceptors/maintenance.interceptor';
+import { MaintenanceController } from './maintenance.controller';
+import { MaintenanceService } from './services/maintenance.service';
+
+/** Global so the health endpoint can report the maintenance state. */
+@Global()
+@Module({
+  imports: [TypeOrmModule.forFeature([MaintenanceWindow])],
+  controllers: [MaintenanceController],
+  providers: [
+    MaintenanceService,
+    { provide: APP_INTERCEPTOR, useClass: MaintenanceInterceptor },
+  ],
+  exports: [MaintenanceService],
+})
+export class MaintenanceModule {}
@@ -0,0 +1,132 @@
+import { BadRequestException, ConflictException } from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { PermissionsService } from '../../authorization/services/permissions.service';
+import { CentralizedLoggerService } from '../../common/logger/services/centralized-logger.service';
+import { UserRole } from '../../users/enums/user-role.enum';
+import { MaintenanceWindow } from '../entities/maintenance-window.entity';
+import { MaintenanceService } from './maintenance.service';
+
+describe('MaintenanceService', () => {
+  let service: MaintenanceService;
+  let windows: MaintenanceWindow[];
+
+  const hour = 60 * 60 * 1000;
+  const makeWindow = (
+    overrides: Partial<MaintenanceWindow> = {},
+  ): MaintenanceWindow => ({
+    id: 'window-1',
+    message: 'Upgrading',
+    startsAt: new Date(Date.now() - hour),
+    endsAt: new Date(Date.now() + hour),
+    endedAt: null,
+    allowedRoles: [],
+    allowedIps: [],
+    createdById: 'admin-1',
+    createdAt: new Date(),
+    ...overrides,
+  });
+
+  const windowRepository = {
+    find: jest.fn(() => Promise.resolve(windows)),
+    findOne: jest.fn(),
+    create: jest.fn((data: Partial<MaintenanceWindow>) => data),
+    save: jest.fn((data: Partial<MaintenanceWindow>) =>
+      Promise.resolve({ id: 'window-2', ...data }),
+    ),
+    update: jest.fn(),
+  };
+  const permissionsService = { hasPermissions: jest.fn() };
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    windows = [];
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        MaintenanceService,
+        {
+          provide: getRepositoryToken(MaintenanceWindow),
+          useValue: windowRepository,
+        },
+        { provide: PermissionsService, useValue: permissionsService },
+        {
+          provide: CentralizedLoggerService,
+          useValue: { setContext: jest.fn(), info: jest.fn() },
+        },
+      ],
+    }).compile();
+
+    service = module.get<MaintenanceService>(MaintenanceService);
+  });
+
+  it('should report the active window without its allow-lists', async () => {
+    windows = [makeWindow({ allowedIps: ['203.0.113.10'] })];
+
+    const status = await service.getStatus();
+
+    expect(status).toEqual({
+      active: true,
+      message: 'Upgrading',
+      startsAt: windows[0].startsAt,
+      endsAt: windows[0].endsAt,
+    });
+  });
+
+  it('should exempt allow-listed callers and maintainers only', async () => {
+    const window = makeWindow({
+      allowedRoles: [UserRole.MODERATOR],
+      allowedIps: ['203.0.113.10'],
+    });
+    const user = { id: 'user-1', email: 'a@b.c', role: UserRole.USER };
+    permissionsService.hasPermissions.mockResolvedValue(false);
+
+    await expect(
+      service.isExempt(window, undefined, '203.0.113.10'),
+    ).resolves.toBe(true);
+    await expect(
+      service.isExempt(
+        window,
+        { ...user, role: UserRole.MODERATOR },
+        undefined,
+      ),
+    ).resolves.toBe(true);
+    await expect(service.isExempt(window, user, '198.51.100.1')).resolves.toBe(
+      false,
+    );
+
+    permissionsService.hasPermissions.mockResolvedValue(true);
+    await expect(service.isExempt(window, user, undefined)).resolves.toBe(true);
+  });
+
+  it('should refuse to schedule a window in the past', async () => {
+    await expect(
+      service.schedule(
+        { startsAt: new Date(Date.now() - hour).toISOString() },
+        'admin-1',
+      ),
+    ).rejects.toThrow(BadRequestException);
+    expect(windowRepository.save).not.toHaveBeenCalled();
+  });
+
+  it('should refuse a window overlapping an open-ended one', async () => {
+    windows = [
+      makeWindow({ startsAt: new Date(Date.now() + hour), endsAt: null }),
+    ];
+
+    await expect(
+      service.schedule(
+        { startsAt: new Date(Date.now() + 3 * hour).toISOString() },
+        'admin-1',
+      ),
+    ).rejects.toThrow(ConflictException);
+  });
+
+  it('should start maintenance with the default message', async () => {
+    const window = await service.start({}, 'admin-1');
+
+    expect(window.message).toMatch(/maintenance/);
+    expect(window.endsAt).toBeNull();
+    expect(window.createdById).toBe('admin-1');
+  });
+});
@@ -0,0 +1,237 @@
+import {
+  BadRequestException,
+  ConflictException,
+  Inject,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { IsNull, MoreThan, Repository } from 'typeorm';
+import type { AuthenticatedUser } from '../../auth/interfaces/authenticated-user.interface';
+import { PermissionKey } from '../../authorization/constants';
+import { PermissionsService } from '../../authorization/services/permissions.service';
+import { CentralizedLoggerService } from '../../common/logger/services/centralized-logger.service';
+import {
+  DEFAULT_MAINTENANCE_MESSAGE,
+  MAINTENANCE_DEFAULT_RETRY_AFTER_SECONDS,
+  MAINTENANCE_STATE_CACHE_TTL_MS,
+} from '../constants';
+import {
+  MaintenanceStatusDto,
+  ScheduleMaintenanceDto,
+  StartMaintenanceDto,
+} from '../dto/maintenance.dto';
+import { MaintenanceWindow } from '../entities/maintenance-window.entity';
+
+interface WindowCache {
+  windows: MaintenanceWindow[];
+  expiresAt: number;
+}
+
+/**
+ * Owns the maintenance schedule. Open windows (not ended and not past their
+ * planned end) are cached for MAINTENANCE_STATE_CACHE_TTL_MS because they are
+ * checked on every request; changes made through this instance drop the cache
+ * immediately, other instances pick them up once it expires.
+ */
+@Injectable()
+export class MaintenanceService {
+  private cache: WindowCache | null = null;
+
+  constructor(
+    @InjectRepository(MaintenanceWindow)
+    private readonly windowRepository: Repository<MaintenanceWindow>,
+    private readonly permissionsService: PermissionsService,
+    @Inject(CentralizedLoggerService)
+    private readonly logger: CentralizedLoggerService,
+  ) {
+    this.logger.setContext(MaintenanceService.name);
+  }
+
+  async getActiveWindow(): Promise<MaintenanceWindow | null> {
+    const now = new Date();
+    const windows = await this.loadOpenWindows();
+    return (
+      windows.find(
+        (window) =>
+          window.startsAt <= now && (!window.endsAt || window.endsAt > now),
+      ) ?? null
+    );
+  }
+
+  /** Public view for /health; allow-lists are left out on purpose. */
+  async getStatus(): Promise<MaintenanceStatusDto> {
+    const active = await this.getActiveWindow();
+    if (active) {
+      return {
+        active: true,
+        message: active.message,
+        startsAt: active.startsAt,
+        endsAt: active.endsAt,
+      };
+    }
+
+    const now = new Date();
+    const upcoming = (await this.loadOpenWindows()).find(
+      (window) => window.startsAt > now,
+    );
+    return {
+      active: false,
+      upcoming: upcoming
+        ? {
+            message: upcoming.message,
+            startsAt: upcoming.startsAt,
+            endsAt: upcoming.endsAt,
+          }
+        : null,
+    };
+  }
+
+  findAll(): Promise<MaintenanceWindow[]> {
+    return this.windowRepository.find({
+      order: { startsAt: 'DESC' },
+      take: 50,
+    });
+  }
+
+  start(dto: StartMaintenanceDto, adminId: string): Promise<MaintenanceWindow> {
+    return this.create(new Date(), dto, adminId);
+  }
+
+  async schedule(
+    dto: ScheduleMaintenanceDto,
+    adminId: string,
+  ): Promise<MaintenanceWindow> {
+    const startsAt = new Date(dto.startsAt);
+    if (startsAt <= new Date()) {
+      throw new BadRequestException('startsAt must be in the future');
+    }
+    return this.create(startsAt, dto, adminId);
+  }
+
+  /** Ends the active window now. */
+  async end(): Promise<MaintenanceWindow> {
+    const active = await this.getActiveWindow();
+    if (!active) {
+      throw new NotFoundException('Maintenance mode is not active');
+    }
+    return this.close(active);
+  }
+
+  /** Cancels a window that has not started yet. */
+  async cancel(id: string): Promise<MaintenanceWindow> {
+    const window = await this.windowRepository.findOne({
+      where: { id, endedAt: IsNull(), startsAt: MoreThan(new Date()) },
+    });
+    if (!window) {
+      throw new NotFoundException(
+        `No upcoming maintenance window with ID ${id}`,
+      );
+    }
+    return this.close(window);
+  }
+
+  /**
+   * Whether a request may proceed despite the window: maintainers always can,
+   * others when their role or client IP is allow-listed.
+   */
+  async isExempt(
+    window: MaintenanceWindow,
+    user: AuthenticatedUser | undefined,
+    ip: string | undefined,
+  ): Promise<boolean> {
+    if (ip && window.allowedIps.includes(ip)) {
+      return true;
+    }
+    if (!user) {
+      return false;
+    }
+    if (window.allowedRoles.includes(user.role)) {
+      return true;
+    }
+    return this.permissionsService.hasPermissions(user, [
+      PermissionKey.SYSTEM_MAINTENANCE,
+    ]);
+  }
+
+  retryAfterSeconds(window: MaintenanceWindow): number {
+    if (!window.endsAt) {
+      return MAINTENANCE_DEFAULT_RETRY_AFTER_SECONDS;
+    }
+    return Math.max(
+      1,
+      Math.ceil((window.endsAt.getTime() - Date.now()) / 1000),
+    );
+  }
+
+  private async create(
+    startsAt: Date,
+    dto: StartMaintenanceDto,
+    adminId: string,
+  ): Promise<MaintenanceWindow> {
+    const endsAt = dto.endsAt ? new Date(dto.endsAt) : null;
+    if (endsAt && endsAt <= startsAt) {
+      throw new BadRequestException('endsAt must be after the start');
+    }
+
+    const overlapping = (await this.loadOpenWindows(true)).find(
+      (window) =>
+        (!window.endsAt || window.endsAt > startsAt) &&
+        (!endsAt || window.startsAt < endsAt),
+    );
+    if (overlapping) {
+      throw new ConflictException(
+        `Overlaps maintenance window ${overlapping.id} starting at ${overlapping.startsAt.toISOString()}`,
+      );
+    }
+
+    const window = await this.windowRepository.save(
+      this.windowRepository.create({
+        message: dto.message ?? DEFAULT_MAINTENANCE_MESSAGE,
+        startsAt,
+        endsAt,
+        allowedRoles: dto.allowedRoles ?? [],
+        allowedIps: dto.allowedIps ?? [],
+        createdById: adminId,
+      }),
+    );
+    this.cache = null;
+
+    this.logger.info('Maintenance window created', {
+      windowId: window.id,
+      startsAt: window.startsAt.toISOString(),
+      endsAt: window.endsAt?.toISOString() ?? null,
+      createdById: adminId,
+    });
+    return window;
+  }
+
+  private async close(window: MaintenanceWindow): Promise<MaintenanceWindow> {
+    window.endedAt = new Date();
+    await this.windowRepository.update(window.id, { endedAt: window.endedAt });
+    this.cache = null;
+
+    this.logger.info('Maintenance window ended', { windowId: window.id });
+    return window;
+  }
+
+  private async loadOpenWindows(fresh = false): Promise<MaintenanceWindow[]> {
+    if (!fresh && this.cache && this.cache.expiresAt > Date.now()) {
+      return this.cache.windows;
+    }
+
+    const now = new Date();
+    const windows = await this.windowRepository.find({
+      where: [
+        { endedAt: IsNull(), endsAt: IsNull() },
+        { endedAt: IsNull(), endsAt: MoreThan(now) },
+      ],
+      order: { startsAt: 'ASC' },
+    });
+    this.cache = {
+      windows,
+      expiresAt: Date.now() + MAINTENANCE_STATE_CACHE_TTL_MS,
+    };
+    return windows;
+  }
+}
@@ -0,0 +1,192 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  ParseUUIDPipe,
+  Patch,
+  Post,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiBearerAuth,
+  ApiOperation,
+  ApiParam,
+  ApiQuery,
+  ApiResponse,
+  ApiTags,
+} from '@nestjs/swagger';
+import { SessionResponseDto } from '../auth/dto/session.dto';
+import {
+  LinkWalletDto,
+  UserWalletResponseDto,
+} from '../auth/dto/user-wallet.dto';
+import { SessionRevocationReason } from '../auth/entities/auth-session.entity';
+import type { AuthenticatedUser } from '../auth/interfaces/authenticated-user.interface';
+import { SessionService } from '../auth/services/session.service';
+import { WalletsService } from '../auth/services/wallets.service';
+import { CurrentUser } from '../common/decorators/current-user.decorator';
+import { DateRangeFilterDto } from '../common/dto/date-range-filter.dto';
+import { AuthGuard } from '../common/guards/auth.guard';
+import { CourseProgressService } from '../course-progress/providers/course-progress.service';
+import { EnrollmentService } from '../enrollment/providers/enrollment.service';
+import { DisallowImpersonation } from '../impersonation/decorators/disallow-impersonation.decorator';
+import { QuizAttemptHistoryDto } from '../quiz/dto/quiz-attempt-history.dto';
+import { QuizService } from '../quiz/quiz.service';
+
+/** Data of the authenticated user; identity always comes from the JWT. */
+@Controller('me')
+@ApiTags('me')
+@ApiBearerAuth()
+@UseGuards(AuthGuard)
+export class MeController {
+  constructor(
+    private readonly enrollmentService: EnrollmentService,
+    private readonly quizService: QuizService,
+    private readonly progressService: CourseProgressService,
+    private readonly sessionService: SessionService,
+    private readonly walletsService: WalletsService,
+  ) {}
+
+  @Get('enrollments')
+  @ApiOperation({ summary: 'Get your enrollments' })
+  @ApiResponse({
+    status: 200,
+    description: 'Enrollments retrieved successfully',
+  })
+  @ApiQuery({
+    name: 'startDate',
+    required: false,
+    type: String,
+    description: 'Start date for filtering (ISO 8601 format)',
+    example: '2023-01-01T00:00:00.000Z',
+  })
+  @ApiQuery({
+    name: 'endDate',
+    required: false,
+    type: String,
+    description: 'End date for filtering (ISO 8601 format)',
+    example: '2023-12-31T23:59:59.999Z',
+  })
+  async getEnrollments(
+    @CurrentUser('id') userId: string,
+    @Query() filters: DateRangeFilterDto,
+  ) {
+    return this.enrollmentService.getUserEnrollments(userId, filters);
+  }
+
+  @Get('quiz-attempts')
+  @ApiOperation({ summary: 'Get your quiz attempts, newest first' })
+  @ApiResponse({
+    status: 200,
+    description: 'Quiz attempts retrieved successfully',
+  })
+  async getQuizAttempts(@CurrentUser('id') userId: string) {
+    return this.quizService.findUserAttempts(userId);
+  }
+
+  @Get('quiz-attempts/:quizId')
+  @ApiOperation({
+    summary: 'Get your attempts at a quiz and your result under its policy',
+  })
+  @ApiParam({ name: 'quizId', description: 'The ID of the quiz' })
+  @ApiResponse({ status: 200, type: QuizAttemptHistoryDto })
+  @ApiResponse({ status: 404, description: 'Quiz not found' })
+  async getQuizAttemptHistory(
+    @CurrentUser('id') userId: string,
+    @Param('quizId', ParseUUIDPipe) quizId: string,
+  ): Promise<QuizAttemptHistoryDto> {
+    return this.quizService.getAttemptHistory(userId, quizId);
+  }
+
+  @Get('progress')
+  @ApiOperation({ summary: 'Get your progress in every enrolled course' })
+  @ApiResponse({ status: 200, description: 'Progress retrieved successfully' })
+  async getProgress(@CurrentUser('id') userId: string) {
+    return this.progressService.getUserProgress(userId);
+  }
+
+  @Get('sessions')
+  @ApiOperation({ summary: 'List the devices you are signed in on' })
+  @ApiResponse({ status: 200, type: [SessionResponseDto] })
+  async getSessions(
+    @CurrentUser() user: AuthenticatedUser,
+  ): Promise<SessionResponseDto[]> {
+    return this.sessionService.findActiveForUser(user.id, user.sessionId);
+  }
+
+  @Delete('sessions/:id')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiOperation({ summary: 'Sign out one of your sessions' })
+  @ApiParam({ name: 'id', description: 'The ID of the session' })
+  @ApiResponse({ status: 204, description: 'Session revoked' })
+  @ApiResponse({ status: 404, description: 'Session not found' })
+  async revokeSession(
+    @CurrentUser('id') userId: string,
+    @Param('id', ParseUUIDPipe) sessionId: string,
+  ): Promise<void> {
+    await this.sessionService.revokeUserSession(
+      userId,
+      sessionId,
+      SessionRevocationReason.REVOKED_BY_USER,
+    );
+  }
+
+  @Get('wallets')
+  @ApiOperation({ summary: 'List your verified wallets' })
+  @ApiResponse({ status: 200, type: [UserWalletResponseDto] })
+  async getWallets(
+    @CurrentUser('id') userId: string,
+  ): Promise<UserWalletResponseDto[]> {
+    return this.walletsService.findAllForUser(userId);
+  }
+
+  @Post('wallets')
+  @DisallowImpersonation()
+  @ApiOperation({
+    summary:
+      'Link a wallet by signing a challenge from GET /auth/wallet/challenge',
+  })
+  @ApiResponse({ status: 201, type: UserWalletResponseDto })
+  @ApiResponse({
+    status: 400,
+    description: 'Invalid, expired or used challenge, or too many wallets',
+  })
+  @ApiResponse({ status: 409, description: 'Wallet is already linked' })
+  async linkWallet(
+    @CurrentUser('id') userId: string,
+    @Body() linkWalletDto: LinkWalletDto,
+  ): Promise<UserWalletResponseDto> {
+    return this.walletsService.link(userId, linkWalletDto);
+  }
+
+  @Patch('wallets/:id/primary')
+  @DisallowImpersonation()
+  @ApiOperation({ summary: 'Make a wallet your primary wallet' })
+  @ApiParam({ name: 'id', description: 'The ID of the wallet' })
+  @ApiResponse({ status: 200, type: UserWalletResponseDto })
+  @ApiResponse({ status: 404, description: 'Wallet not found' })
+  async setPrimaryWallet(
+    @CurrentUser('id') userId: string,
+    @Param('id', ParseUUIDPipe) walletId: string,
+  ): Promise<UserWalletResponseDto> {
+    return this.walletsService.setPrimary(userId, walletId);
+  }
+
+  @Delete('wallets/:id')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiOperation({ summary: 'Unlink one of your wallets' })
+  @ApiParam({ name: 'id', description: 'The ID of the wallet' })
+  @ApiResponse({ status: 204, description: 'Wallet unlinked' })
+  @ApiResponse({ status: 404, description: 'Wallet not found' })
+  async unlinkWallet(
+    @CurrentUser('id') userId: string,
+    @Param('id', ParseUUIDPipe) walletId: string,
+  ): Promise<void> {
+    await this.walletsService.unlink(userId, walletId);
+  }
+}
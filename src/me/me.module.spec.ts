@@ -0,0 +1,44 @@
+import { ConfigModule } from '@nestjs/config';
+import { Test } from '@nestjs/testing';
+import { DataSource } from 'typeorm';
+import { ApiKeysModule } from '../api-keys/api-keys.module';
+import { AuthorizationModule } from '../authorization/authorization.module';
+import { LoggerModule } from '../common/logger/logger.module';
+import { ImpersonationModule } from '../impersonation/impersonation.module';
+import { MaintenanceModule } from '../maintenance/maintenance.module';
+import { MeController } from './me.controller';
+import { MeModule } from './me.module';
+
+describe('MeModule', () => {
+  it('should resolve every dependency of its controller', async () => {
+    const module = await Test.createTestingModule({
+      imports: [
+        ConfigModule.forRoot({
+          isGlobal: true,
+          ignoreEnvFile: true,
+          load: [
+            () => ({
+              JWT_KEY_ENCRYPTION_KEY: Buffer.alloc(32).toString('base64'),
+            }),
+          ],
+        }),
+        // The global modules the app registers
+        LoggerModule,
+        AuthorizationModule,
+        ApiKeysModule,
+        ImpersonationModule,
+        MaintenanceModule,
+        MeModule,
+      ],
+    })
+      // Only the database is faked, so a provider missing from the graph still fails
+      .useMocker((token) =>
+        token === DataSource
+          ? { entityMetadatas: [], options: {}, getRepository: () => ({}) }
+          : undefined,
+      )
+      .compile();
+
+    expect(module.get(MeController)).toBeInstanceOf(MeController);
+  });
+});
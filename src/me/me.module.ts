@@ -0,0 +1,12 @@
+import { Module } from '@nestjs/common';
+import { AuthModule } from '../auth/auth.module';
+import { CourseProgressModule } from '../course-progress/course-progress.module';
+import { EnrollmentModule } from '../enrollment/enrollment.module';
+import { QuizModule } from '../quiz/quiz.module';
+import { MeController } from './me.controller';
+
+@Module({
+  imports: [AuthModule, EnrollmentModule, QuizModule, CourseProgressModule],
+  controllers: [MeController],
+})
+export class MeModule {}
@@ -11,11 +11,14 @@ import {
   UseGuards,
 } from '@nestjs/common';
 import { ApiQuery, ApiResponse, ApiTags } from '@nestjs/swagger';
+import { ApiKeyResource } from '../api-keys/decorators/api-key-resource.decorator';
+import { PermissionKey } from '../authorization/constants';
+import { CanManage } from '../authorization/decorators/can-manage.decorator';
+import { RequirePermissions } from '../authorization/decorators/require-permissions.decorator';
+import { OwnershipGuard } from '../authorization/guards/ownership.guard';
+import { PermissionsGuard } from '../authorization/guards/permissions.guard';
 import { FilteredPaginationQueryDto } from '../common';
-import { Roles } from '../common/decorators/roles.decorator';
 import { AuthGuard } from '../common/guards/auth.guard';
-import { RolesGuard } from '../common/guards/roles.guard';
-import { UserRole } from '../users/entities/user.entity';
 import { CreateModuleDto } from './dto/create-module.dto';
 import { ModuleResponseDto } from './dto/module-response.dto';
 import { PaginatedModuleResponseDto } from './dto/paginated-module-response.dto';
@@ -23,13 +26,14 @@ import { UpdateModuleDto } from './dto/update-module.dto';
 import { ModulesService } from './modules.service';
 
 @Controller('modules')
+@ApiKeyResource('courses')
 @ApiTags('modules')
-@UseGuards(AuthGuard, RolesGuard)
-@Roles(UserRole.ADMIN)
+@UseGuards(AuthGuard, PermissionsGuard, OwnershipGuard)
 export class ModulesController {
   constructor(private readonly modulesService: ModulesService) {}
 
   @Post()
+  @CanManage('course', 'course_id', { from: 'body' })
   @ApiResponse({
     status: 201,
     description: 'The module has been successfully created.',
@@ -42,6 +46,7 @@ export class ModulesController {
   }
 
   @Get()
+  @RequirePermissions(PermissionKey.COURSE_MANAGE_ANY)
   @ApiResponse({
     status: 200,
     description: 'A paginated list of modules.',
@@ -82,6 +87,7 @@ export class ModulesController {
   }
 
   @Get(':id')
+  @CanManage('module')
   @ApiResponse({
     status: 200,
     description: 'A single module.',
@@ -94,6 +100,7 @@ export class ModulesController {
   }
 
   @Get('course/:courseId')
+  @CanManage('course', 'courseId')
   @ApiResponse({
     status: 200,
     description: 'A paginated list of modules for a course.',
@@ -135,6 +142,8 @@ export class ModulesController {
   }
 
   @Patch(':id')
+  @CanManage('module')
+  @CanManage('course', 'course_id', { from: 'body' })
   @ApiResponse({
     status: 200,
     description: 'The module has been successfully updated.',
@@ -148,6 +157,7 @@ export class ModulesController {
   }
 
   @Delete(':id')
+  @CanManage('module')
   @ApiResponse({
     status: 204,
     description: 'The module has been successfully deleted.',
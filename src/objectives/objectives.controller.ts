@@ -13,22 +13,26 @@ import {
   UseGuards,
 } from '@nestjs/common';
 import { ApiOperation, ApiResponse, ApiTags } from '@nestjs/swagger';
-import { Roles } from '../common/decorators/roles.decorator';
+import { ApiKeyResource } from '../api-keys/decorators/api-key-resource.decorator';
+import { PermissionKey } from '../authorization/constants';
+import { CanManage } from '../authorization/decorators/can-manage.decorator';
+import { RequirePermissions } from '../authorization/decorators/require-permissions.decorator';
+import { OwnershipGuard } from '../authorization/guards/ownership.guard';
+import { PermissionsGuard } from '../authorization/guards/permissions.guard';
 import { AuthGuard } from '../common/guards/auth.guard';
-import { RolesGuard } from '../common/guards/roles.guard';
-import { UserRole } from '../users/entities/user.entity';
 import { CreateObjectiveDto } from './dto/create-objective.dto';
 import { UpdateObjectiveDto } from './dto/update-objective.dto';
 import { ObjectivesService } from './objectives.service';
 
 @Controller('objectives')
+@ApiKeyResource('courses')
 @ApiTags('objectives')
-@UseGuards(AuthGuard, RolesGuard)
-@Roles(UserRole.ADMIN)
+@UseGuards(AuthGuard, PermissionsGuard, OwnershipGuard)
 export class ObjectivesController {
   constructor(private readonly objectivesService: ObjectivesService) {}
 
   @Post()
+  @CanManage('course', 'courseId', { from: 'body' })
   @ApiOperation({ summary: 'Create a new objective' })
   @ApiResponse({
     status: 201,
@@ -65,6 +69,7 @@ export class ObjectivesController {
   }
 
   @Get()
+  @RequirePermissions(PermissionKey.COURSE_MANAGE_ANY)
   @ApiOperation({ summary: 'Get all objectives' })
   @ApiResponse({
     status: 200,
@@ -99,6 +104,7 @@ export class ObjectivesController {
   }
 
   @Get('course/:courseId')
+  @CanManage('course', 'courseId')
   @ApiOperation({ summary: 'Get objectives by course ID' })
   @ApiResponse({
     status: 200,
@@ -133,6 +139,7 @@ export class ObjectivesController {
   }
 
   @Get(':id')
+  @CanManage('objective')
   @ApiOperation({ summary: 'Get objective by ID' })
   @ApiResponse({
     status: 200,
@@ -167,6 +174,8 @@ export class ObjectivesController {
   }
 
   @Patch(':id')
+  @CanManage('objective')
+  @CanManage('course', 'courseId', { from: 'body' })
   @ApiOperation({ summary: 'Update objective by ID' })
   @ApiResponse({
     status: 200,
@@ -210,6 +219,7 @@ export class ObjectivesController {
   }
 
   @Delete(':id')
+  @CanManage('objective')
   @ApiOperation({ summary: 'Delete objective by ID' })
   @ApiResponse({ status: 204, description: 'Objective deleted successfully' })
   @ApiResponse({
@@ -233,6 +243,7 @@ export class ObjectivesController {
   }
 
   @Put('course/:courseId/reorder')
+  @CanManage('course', 'courseId')
   @ApiOperation({ summary: 'Reorder objectives for a course' })
   @ApiResponse({
     status: 200,
@@ -0,0 +1,45 @@
+import {
+  IsEnum,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  IsUUID,
+  MaxLength,
+} from 'class-validator';
+import { CreateQuestionDto } from '../../question/dto/create-question.dto';
+import { QuestionDifficulty } from '../../question/entities/question.entity';
+
+export class CreateQuestionBankDto {
+  @IsNotEmpty()
+  @IsString()
+  @MaxLength(255)
+  title: string;
+
+  @IsOptional()
+  @IsString()
+  description?: string;
+
+  @IsUUID()
+  course_id: string;
+}
+
+export class QuestionBankQueryDto {
+  @IsUUID()
+  course_id: string;
+}
+
+export class CreateBankQuestionDto extends CreateQuestionDto {
+  @IsOptional()
+  @IsEnum(QuestionDifficulty)
+  difficulty?: QuestionDifficulty;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  topic?: string;
+
+  // Must be an objective of the bank's course
+  @IsOptional()
+  @IsUUID()
+  objective_id?: string;
+}
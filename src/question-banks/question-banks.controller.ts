@@ -0,0 +1,108 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  ParseUUIDPipe,
+  Post,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
+import { ApiOperation, ApiResponse, ApiTags } from '@nestjs/swagger';
+import { ApiKeyResource } from '../api-keys/decorators/api-key-resource.decorator';
+import { PermissionKey } from '../authorization/constants';
+import { CanManage } from '../authorization/decorators/can-manage.decorator';
+import { RequirePermissions } from '../authorization/decorators/require-permissions.decorator';
+import { OwnershipGuard } from '../authorization/guards/ownership.guard';
+import { PermissionsGuard } from '../authorization/guards/permissions.guard';
+import { AuthGuard } from '../common/guards/auth.guard';
+import { Question } from '../question/entities/question.entity';
+import {
+  CreateBankQuestionDto,
+  CreateQuestionBankDto,
+  QuestionBankQueryDto,
+} from './dto/question-bank.dto';
+import { QuestionBank } from './entities/question-bank.entity';
+import { QuestionBanksService } from './question-banks.service';
+
+// Banks hold answer keys, so only course authors managing the course may read them
+@Controller('question-banks')
+@ApiKeyResource('quizzes')
+@ApiTags('question-banks')
+@UseGuards(AuthGuard, PermissionsGuard, OwnershipGuard)
+@RequirePermissions(PermissionKey.COURSE_CREATE)
+export class QuestionBanksController {
+  constructor(private readonly questionBanksService: QuestionBanksService) {}
+
+  @Post()
+  @CanManage('course', 'course_id', { from: 'body' })
+  @ApiOperation({ summary: 'Create a question bank for a course' })
+  @ApiResponse({ status: 201, type: QuestionBank })
+  @ApiResponse({ status: 404, description: 'Course not found' })
+  @HttpCode(HttpStatus.CREATED)
+  create(
+    @Body() createQuestionBankDto: CreateQuestionBankDto,
+  ): Promise<QuestionBank> {
+    return this.questionBanksService.create(createQuestionBankDto);
+  }
+
+  @Get()
+  @CanManage('course', 'course_id', { from: 'query' })
+  @ApiOperation({ summary: 'List the question banks of a course' })
+  @ApiResponse({ status: 200, type: [QuestionBank] })
+  findByCourse(@Query() query: QuestionBankQueryDto): Promise<QuestionBank[]> {
+    return this.questionBanksService.findByCourse(query.course_id);
+  }
+
+  @Get(':id')
+  @CanManage('question-bank')
+  @ApiOperation({ summary: 'Get a question bank with its questions' })
+  @ApiResponse({ status: 200, type: QuestionBank })
+  @ApiResponse({ status: 404, description: 'Question bank not found' })
+  findOne(@Param('id', ParseUUIDPipe) id: string): Promise<QuestionBank> {
+    return this.questionBanksService.findOne(id);
+  }
+
+  @Delete(':id')
+  @CanManage('question-bank')
+  @ApiOperation({ summary: 'Delete a question bank and its questions' })
+  @ApiResponse({ status: 204, description: 'Question bank deleted' })
+  @ApiResponse({
+    status: 409,
+    description: 'A quiz still draws from it or learners answered it',
+  })
+  @HttpCode(HttpStatus.NO_CONTENT)
+  remove(@Param('id', ParseUUIDPipe) id: string): Promise<void> {
+    return this.questionBanksService.remove(id);
+  }
+
+  @Post(':id/questions')
+  @CanManage('question-bank')
+  @ApiOperation({ summary: 'Add a tagged question to a bank' })
+  @ApiResponse({ status: 201, type: Question })
+  @ApiResponse({ status: 400, description: 'Invalid question or objective' })
+  @HttpCode(HttpStatus.CREATED)
+  addQuestion(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() createBankQuestionDto: CreateBankQuestionDto,
+  ): Promise<Question> {
+    return this.questionBanksService.addQuestion(id, createBankQuestionDto);
+  }
+
+  @Delete(':id/questions/:questionId')
+  @CanManage('question-bank')
+  @ApiOperation({ summary: 'Remove a question from a bank' })
+  @ApiResponse({ status: 204, description: 'Question removed' })
+  @ApiResponse({ status: 404, description: 'Question not found in the bank' })
+  @ApiResponse({ status: 409, description: 'Learners answered the question' })
+  @HttpCode(HttpStatus.NO_CONTENT)
+  removeQuestion(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Param('questionId', ParseUUIDPipe) questionId: string,
+  ): Promise<void> {
+    return this.questionBanksService.removeQuestion(id, questionId);
+  }
+}
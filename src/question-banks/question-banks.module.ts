@@ -0,0 +1,31 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { Answer } from '../answer/entities/answers.entity';
+import { Course } from '../courses/entities/course.entity';
+import { Objective } from '../objectives/entities/objective.entity';
+import { Question } from '../question/entities/question.entity';
+import { QuizQuestionRule } from '../quiz/entities/quiz-question-rule.entity';
+import { UserQuestionResponse } from '../quiz/entities/user-question-response.entity';
+import { QuizModule } from '../quiz/quiz.module';
+import { QuestionBank } from './entities/question-bank.entity';
+import { QuestionBanksController } from './question-banks.controller';
+import { QuestionBanksService } from './question-banks.service';
+
+@Module({
+  imports: [
+    TypeOrmModule.forFeature([
+      QuestionBank,
+      Question,
+      Answer,
+      Course,
+      Objective,
+      QuizQuestionRule,
+      UserQuestionResponse,
+    ]),
+    QuizModule,
+  ],
+  controllers: [QuestionBanksController],
+  providers: [QuestionBanksService],
+  exports: [QuestionBanksService],
+})
+export class QuestionBanksModule {}
@@ -0,0 +1,211 @@
+import {
+  BadRequestException,
+  ConflictException,
+  NotFoundException,
+} from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { FindOperator } from 'typeorm';
+import { Answer } from '../answer/entities/answers.entity';
+import { Course } from '../courses/entities/course.entity';
+import { Objective } from '../objectives/entities/objective.entity';
+import { Question, QuestionType } from '../question/entities/question.entity';
+import { QuizQuestionRule } from '../quiz/entities/quiz-question-rule.entity';
+import { UserQuestionResponse } from '../quiz/entities/user-question-response.entity';
+import { QuizValidationService } from '../quiz/services/quiz-validation.service';
+import { CreateBankQuestionDto } from './dto/question-bank.dto';
+import { QuestionBank } from './entities/question-bank.entity';
+import { QuestionBanksService } from './question-banks.service';
+
+describe('QuestionBanksService', () => {
+  let service: QuestionBanksService;
+  let bank: { id: string; course_id: string; questions: { id: string }[] };
+  let ruleExists: boolean;
+  let answeredIds: string[];
+
+  const bankRepository = {
+    findOne: jest.fn(() => Promise.resolve(bank)),
+    delete: jest.fn(),
+  };
+  const questionRepository = {
+    exists: jest.fn(({ where }: { where: { id: string; bank_id: string } }) =>
+      Promise.resolve(
+        where.bank_id === bank.id &&
+          bank.questions.some(({ id }) => id === where.id),
+      ),
+    ),
+    create: jest.fn((entity) => entity),
+    save: jest.fn((entity) =>
+      Promise.resolve({ id: 'question-new', ...entity }),
+    ),
+    delete: jest.fn(),
+  };
+  const answerRepository = {
+    create: jest.fn((entity) => entity),
+    save: jest.fn((entities) => Promise.resolve(entities)),
+    delete: jest.fn(),
+  };
+  const objectiveRepository = {
+    exists: jest.fn(({ where }: { where: { id: string; courseId: string } }) =>
+      Promise.resolve(
+        where.id === 'objective-1' && where.courseId === 'course-1',
+      ),
+    ),
+  };
+  const ruleRepository = {
+    exists: jest.fn(() => Promise.resolve(ruleExists)),
+  };
+  const responseRepository = {
+    exists: jest.fn(
+      ({ where }: { where: { question_id: FindOperator<string[]> } }) =>
+        Promise.resolve(
+          where.question_id.value.some((id) => answeredIds.includes(id)),
+        ),
+    ),
+  };
+
+  const bankQuestion = (objectiveId?: string): CreateBankQuestionDto => ({
+    text: 'Pick one',
+    type: QuestionType.UNIQUE,
+    objective_id: objectiveId,
+    answers: [
+      { text: 'Right', correct: true },
+      { text: 'Wrong', correct: false },
+    ],
+  });
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    bank = {
+      id: 'bank-1',
+      course_id: 'course-1',
+      questions: [{ id: 'question-1' }, { id: 'question-2' }],
+    };
+    ruleExists = false;
+    answeredIds = [];
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        QuestionBanksService,
+        {
+          provide: getRepositoryToken(QuestionBank),
+          useValue: bankRepository,
+        },
+        {
+          provide: getRepositoryToken(Question),
+          useValue: questionRepository,
+        },
+        { provide: getRepositoryToken(Answer), useValue: answerRepository },
+        { provide: getRepositoryToken(Course), useValue: {} },
+        {
+          provide: getRepositoryToken(Objective),
+          useValue: objectiveRepository,
+        },
+        {
+          provide: getRepositoryToken(QuizQuestionRule),
+          useValue: ruleRepository,
+        },
+        {
+          provide: getRepositoryToken(UserQuestionResponse),
+          useValue: responseRepository,
+        },
+        {
+          provide: QuizValidationService,
+          useValue: { validateQuestion: jest.fn() },
+        },
+      ],
+    }).compile();
+
+    service = module.get<QuestionBanksService>(QuestionBanksService);
+  });
+
+  describe('addQuestion', () => {
+    it('should tag a question with an objective of the bank course', async () => {
+      const question = await service.addQuestion(
+        'bank-1',
+        bankQuestion('objective-1'),
+      );
+
+      expect(question).toMatchObject({
+        bank_id: 'bank-1',
+        objective_id: 'objective-1',
+      });
+      expect(question.answers).toHaveLength(2);
+    });
+
+    it('should reject an objective from another course', async () => {
+      await expect(
+        service.addQuestion('bank-1', bankQuestion('objective-elsewhere')),
+      ).rejects.toThrow(BadRequestException);
+      expect(objectiveRepository.exists).toHaveBeenCalledWith({
+        where: { id: 'objective-elsewhere', courseId: 'course-1' },
+      });
+      expect(questionRepository.save).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('remove', () => {
+    it('should refuse to delete a bank a quiz rule still draws from', async () => {
+      ruleExists = true;
+
+      await expect(service.remove('bank-1')).rejects.toThrow(ConflictException);
+      expect(bankRepository.delete).not.toHaveBeenCalled();
+    });
+
+    it('should refuse to delete a bank whose questions were answered', async () => {
+      answeredIds = ['question-2'];
+
+      await expect(service.remove('bank-1')).rejects.toThrow(ConflictException);
+      expect(answerRepository.delete).not.toHaveBeenCalled();
+      expect(bankRepository.delete).not.toHaveBeenCalled();
+    });
+
+    it('should delete the answers and questions before the bank', async () => {
+      await service.remove('bank-1');
+
+      const [[answerCriteria]] = answerRepository.delete.mock.calls as [
+        [{ question_id: FindOperator<string[]> }],
+      ];
+      expect(answerCriteria.question_id.value).toEqual([
+        'question-1',
+        'question-2',
+      ]);
+      expect(questionRepository.delete).toHaveBeenCalledWith({
+        bank_id: 'bank-1',
+      });
+      expect(bankRepository.delete).toHaveBeenCalledWith('bank-1');
+      expect(answerRepository.delete.mock.invocationCallOrder[0]).toBeLessThan(
+        questionRepository.delete.mock.invocationCallOrder[0],
+      );
+      expect(
+        questionRepository.delete.mock.invocationCallOrder[0],
+      ).toBeLessThan(bankRepository.delete.mock.invocationCallOrder[0]);
+    });
+  });
+
+  describe('removeQuestion', () => {
+    it('should delete an unanswered question with its answers', async () => {
+      await service.removeQuestion('bank-1', 'question-1');
+
+      expect(answerRepository.delete).toHaveBeenCalledWith({
+        question_id: 'question-1',
+      });
+      expect(questionRepository.delete).toHaveBeenCalledWith('question-1');
+    });
+
+    it('should refuse to delete a question learners answered', async () => {
+      answeredIds = ['question-1'];
+
+      await expect(
+        service.removeQuestion('bank-1', 'question-1'),
+      ).rejects.toThrow(ConflictException);
+      expect(questionRepository.delete).not.toHaveBeenCalled();
+    });
+
+    it('should not find a question of another bank', async () => {
+      await expect(
+        service.removeQuestion('bank-1', 'question-elsewhere'),
+      ).rejects.toThrow(NotFoundException);
+    });
+  });
+});
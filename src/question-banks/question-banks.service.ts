@@ -0,0 +1,189 @@
+import {
+  BadRequestException,
+  ConflictException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { In, Repository } from 'typeorm';
+import { Answer } from '../answer/entities/answers.entity';
+import { Course } from '../courses/entities/course.entity';
+import { Objective } from '../objectives/entities/objective.entity';
+import { Question } from '../question/entities/question.entity';
+import { QuizQuestionRule } from '../quiz/entities/quiz-question-rule.entity';
+import { UserQuestionResponse } from '../quiz/entities/user-question-response.entity';
+import { QuizValidationService } from '../quiz/services/quiz-validation.service';
+import {
+  CreateBankQuestionDto,
+  CreateQuestionBankDto,
+} from './dto/question-bank.dto';
+import { QuestionBank } from './entities/question-bank.entity';
+
+@Injectable()
+export class QuestionBanksService {
+  constructor(
+    @InjectRepository(QuestionBank)
+    private questionBankRepository: Repository<QuestionBank>,
+    @InjectRepository(Question)
+    private questionRepository: Repository<Question>,
+    @InjectRepository(Answer)
+    private answerRepository: Repository<Answer>,
+    @InjectRepository(Course)
+    private courseRepository: Repository<Course>,
+    @InjectRepository(Objective)
+    private objectiveRepository: Repository<Objective>,
+    @InjectRepository(QuizQuestionRule)
+    private quizQuestionRuleRepository: Repository<QuizQuestionRule>,
+    @InjectRepository(UserQuestionResponse)
+    private userQuestionResponseRepository: Repository<UserQuestionResponse>,
+    private quizValidationService: QuizValidationService,
+  ) {}
+
+  async create(
+    createQuestionBankDto: CreateQuestionBankDto,
+  ): Promise<QuestionBank> {
+    const courseExists = await this.courseRepository.exists({
+      where: { id: createQuestionBankDto.course_id },
+    });
+    if (!courseExists) {
+      throw new NotFoundException(
+        `Course with ID ${createQuestionBankDto.course_id} not found`,
+      );
+    }
+
+    return this.questionBankRepository.save(
+      this.questionBankRepository.create({
+        title: createQuestionBankDto.title,
+        description: createQuestionBankDto.description ?? null,
+        course_id: createQuestionBankDto.course_id,
+      }),
+    );
+  }
+
+  findByCourse(courseId: string): Promise<QuestionBank[]> {
+    return this.questionBankRepository.find({
+      where: { course_id: courseId },
+      order: { created_at: 'ASC' },
+    });
+  }
+
+  async findOne(id: string): Promise<QuestionBank> {
+    const bank = await this.questionBankRepository.findOne({
+      where: { id },
+      relations: ['questions', 'questions.answers'],
+      order: { questions: { created_at: 'ASC' } },
+    });
+    if (!bank) {
+      throw new NotFoundException(`Question bank with ID ${id} not found`);
+    }
+    return bank;
+  }
+
+  /**
+   * Banks that quizzes still draw from cannot be removed, nor can banks whose
+   * questions were answered: responses cascade with their question.
+   */
+  async remove(id: string): Promise<void> {
+    const bank = await this.findOne(id);
+    if (
+      await this.quizQuestionRuleRepository.exists({ where: { bank_id: id } })
+    ) {
+      throw new ConflictException(
+        'This question bank is used by a quiz; remove its rules first',
+      );
+    }
+
+    if (bank.questions.length > 0) {
+      const questionIds = bank.questions.map(({ id }) => id);
+      await this.assertUnanswered(questionIds, 'question bank');
+      await this.answerRepository.delete({ question_id: In(questionIds) });
+    }
+    await this.questionRepository.delete({ bank_id: id });
+    await this.questionBankRepository.delete(id);
+  }
+
+  async addQuestion(
+    bankId: string,
+    createBankQuestionDto: CreateBankQuestionDto,
+  ): Promise<Question> {
+    const bank = await this.questionBankRepository.findOne({
+      where: { id: bankId },
+    });
+    if (!bank) {
+      throw new NotFoundException(`Question bank with ID ${bankId} not found`);
+    }
+    this.quizValidationService.validateQuestion(createBankQuestionDto);
+
+    if (createBankQuestionDto.objective_id) {
+      const objectiveInCourse = await this.objectiveRepository.exists({
+        where: {
+          id: createBankQuestionDto.objective_id,
+          courseId: bank.course_id,
+        },
+      });
+      if (!objectiveInCourse) {
+        throw new BadRequestException(
+          `Objective ${createBankQuestionDto.objective_id} does not belong to the bank's course`,
+        );
+      }
+    }
+
+    const question = await this.questionRepository.save(
+      this.questionRepository.create({
+        bank_id: bankId,
+        text: createBankQuestionDto.text,
+        type: createBankQuestionDto.type,
+        scoring: createBankQuestionDto.scoring,
+        points: createBankQuestionDto.points,
+        negative_points: createBankQuestionDto.negative_points,
+        difficulty: createBankQuestionDto.difficulty ?? null,
+        topic: createBankQuestionDto.topic ?? null,
+        objective_id: createBankQuestionDto.objective_id ?? null,
+      }),
+    );
+    question.answers = await this.answerRepository.save(
+      createBankQuestionDto.answers.map((answerDto) =>
+        this.answerRepository.create({
+          question_id: question.id,
+          text: answerDto.text,
+          correct: answerDto.correct,
+        }),
+      ),
+    );
+    return question;
+  }
+
+  /**
+   * Answered questions are kept so graded attempts stay intact. Open attempts
+   * that drew the question without answering it are graded without it, and
+   * rules left with too few matching questions draw what remains.
+   */
+  async removeQuestion(bankId: string, questionId: string): Promise<void> {
+    const exists = await this.questionRepository.exists({
+      where: { id: questionId, bank_id: bankId },
+    });
+    if (!exists) {
+      throw new NotFoundException(
+        `Question with ID ${questionId} not found in this bank`,
+      );
+    }
+
+    await this.assertUnanswered([questionId], 'question');
+    await this.answerRepository.delete({ question_id: questionId });
+    await this.questionRepository.delete(questionId);
+  }
+
+  private async assertUnanswered(
+    questionIds: string[],
+    subject: string,
+  ): Promise<void> {
+    const answered = await this.userQuestionResponseRepository.exists({
+      where: { question_id: In(questionIds) },
+    });
+    if (answered) {
+      throw new ConflictException(
+        `Learners have responded to this ${subject}; deleting it would remove their responses`,
+      );
+    }
+  }
+}
@@ -4,12 +4,15 @@ import {
   IsEnum,
   IsInt,
   IsNotEmpty,
+  IsNumber,
   IsOptional,
+  IsPositive,
   IsString,
+  Min,
   ValidateNested,
 } from 'class-validator';
 import { CreateAnswerDto } from '../../answer/dto/create-answer.dto';
-import { QuestionType } from '../entities/question.entity';
+import { MultiSelectScoring, QuestionType } from '../entities/question.entity';
 
 export class CreateQuestionDto {
   @IsNotEmpty()
@@ -20,6 +23,23 @@ export class CreateQuestionDto {
   @IsEnum(QuestionType)
   type: QuestionType;
 
+  // 1 when omitted
+  @IsOptional()
+  @IsNumber({ maxDecimalPlaces: 2 })
+  @IsPositive()
+  points?: number;
+
+  // Points lost for a wrong answer; no negative marking when omitted
+  @IsOptional()
+  @IsNumber({ maxDecimalPlaces: 2 })
+  @Min(0)
+  negative_points?: number;
+
+  // Multiple choice questions only; all-or-nothing when omitted
+  @IsOptional()
+  @IsEnum(MultiSelectScoring)
+  scoring?: MultiSelectScoring;
+
   @IsOptional()
   @IsInt()
   order?: number;
@@ -1,6 +1,10 @@
 // question/dto/question-response.dto.ts
 import { ApiProperty } from '@nestjs/swagger';
 import { AnswerResponseDto } from '../../answer/dto/answer-response.dto';
+import {
+  MultiSelectScoring,
+  QuestionDifficulty,
+} from '../entities/question.entity';
 
 export class QuestionResponseDto {
   @ApiProperty()
@@ -12,6 +16,24 @@ export class QuestionResponseDto {
   @ApiProperty()
   type: string;
 
+  @ApiProperty()
+  points: number;
+
+  @ApiProperty({ description: 'Deducted for a wrong answer' })
+  negative_points: number;
+
+  @ApiProperty({ enum: MultiSelectScoring })
+  scoring: MultiSelectScoring;
+
+  @ApiProperty({ enum: QuestionDifficulty, nullable: true })
+  difficulty: QuestionDifficulty | null;
+
+  @ApiProperty({ nullable: true })
+  topic: string | null;
+
+  @ApiProperty({ nullable: true })
+  objective_id: string | null;
+
   @ApiProperty({ type: [AnswerResponseDto] })
   answers: AnswerResponseDto[];
 
@@ -2,6 +2,7 @@ import {
   Column,
   CreateDateColumn,
   Entity,
+  Index,
   JoinColumn,
   ManyToOne,
   OneToMany,
@@ -9,7 +10,11 @@ import {
   UpdateDateColumn,
 } from 'typeorm';
 import { Answer } from '../../answer/entities/answers.entity';
+import { Objective } from '../../objectives/entities/objective.entity';
+import { QuestionBank } from '../../question-banks/entities/question-bank.entity';
 import { Quiz } from '../../quiz/entities/quiz.entity';
+import { QuestionDifficulty } from '../enums/question-difficulty.enum';
+export { QuestionDifficulty } from '../enums/question-difficulty.enum';
 
 export enum QuestionType {
   UNIQUE = 'unique',
@@ -18,13 +23,39 @@ export enum QuestionType {
   BOOL = 'bool',
 }
 
+/** How a multiple choice question turns the picked answers into credit. */
+export enum MultiSelectScoring {
+  // Full credit only for exactly the correct set
+  ALL_OR_NOTHING = 'all_or_nothing',
+  // Share of the answers classified right: correct ones picked, wrong ones left out
+  PARTIAL = 'partial',
+  // Share of correct answers picked minus share of wrong answers picked, never below zero
+  PARTIAL_WITH_PENALTY = 'partial_with_penalty',
+}
+
+/** A question of a quiz, or of a question bank that quizzes draw from. */
 @Entity('questions')
 export class Question {
   @PrimaryGeneratedColumn('uuid')
   id: string;
 
-  @Column({ type: 'uuid' })
-  quiz_id: string;
+  // Exactly one of quiz_id and bank_id is set
+  @Column({ type: 'uuid', nullable: true })
+  quiz_id: string | null;
+
+  @Index()
+  @Column({ type: 'uuid', nullable: true })
+  bank_id: string | null;
+
+  // Tags that bank rules filter on
+  @Column({ type: 'enum', enum: QuestionDifficulty, nullable: true })
+  difficulty: QuestionDifficulty | null;
+
+  @Column({ type: 'varchar', length: 100, nullable: true })
+  topic: string | null;
+
+  @Column({ type: 'uuid', nullable: true })
+  objective_id: string | null;
 
   @Column({ type: 'text' })
   text: string;
@@ -35,10 +66,36 @@ export class Question {
   })
   type: QuestionType;
 
+  // Weight of the question in the quiz score; postgres returns decimals as strings
+  @Column({ type: 'decimal', precision: 6, scale: 2, default: 1 })
+  points: number;
+
+  // Deducted for a wrong answer (never for a blank one) when negative marking is used
+  @Column({ type: 'decimal', precision: 6, scale: 2, default: 0 })
+  negative_points: number;
+
+  // Only used by multiple choice questions
+  @Column({
+    type: 'enum',
+    enum: MultiSelectScoring,
+    default: MultiSelectScoring.ALL_OR_NOTHING,
+  })
+  scoring: MultiSelectScoring;
+
   @ManyToOne(() => Quiz, (quiz) => quiz.questions)
   @JoinColumn({ name: 'quiz_id' })
   quiz: Quiz;
 
+  @ManyToOne(() => QuestionBank, (bank) => bank.questions, {
+    onDelete: 'CASCADE',
+  })
+  @JoinColumn({ name: 'bank_id' })
+  bank: QuestionBank;
+
+  @ManyToOne(() => Objective, { onDelete: 'SET NULL' })
+  @JoinColumn({ name: 'objective_id' })
+  objective: Objective;
+
   @OneToMany(() => Answer, (answer) => answer.question)
   answers: Answer[];
 
@@ -0,0 +1,20 @@
+// Completed attempts a quiz needs before its questions are flagged
+export const ITEM_ANALYSIS_MIN_ATTEMPTS = 10;
+
+// Questions answered correctly by more than this percentage are flagged as too easy
+export const ITEM_TOO_EASY_PERCENT = 90;
+
+// Questions answered correctly by less than this percentage are flagged as too hard
+export const ITEM_TOO_HARD_PERCENT = 20;
+
+// Longest time a learner may report spending on one question
+export const MAX_QUESTION_TIME_SECONDS = 24 * 60 * 60;
+
+// Seconds after a timed attempt's deadline that answers are still accepted, to absorb network latency
+export const QUIZ_SUBMIT_GRACE_SECONDS = 30;
+
+// How often timed attempts past their deadline are finalized
+export const QUIZ_EXPIRY_POLL_SECONDS = 60;
+
+// Expired attempts finalized per poll
+export const QUIZ_EXPIRY_BATCH_SIZE = 100;
@@ -0,0 +1,86 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { QuestionType } from '../../question/entities/question.entity';
+import { AttemptStatus } from '../entities/quiz-attempt.entity';
+
+export class SavedResponseDto {
+  @ApiProperty()
+  question_id: string;
+
+  @ApiProperty({ nullable: true })
+  selected_answer_id: string | null;
+
+  @ApiProperty({ type: [String], nullable: true })
+  selected_answer_ids: string[] | null;
+
+  @ApiProperty({ nullable: true })
+  text_response: string | null;
+
+  @ApiProperty({ nullable: true })
+  time_spent_seconds: number | null;
+}
+
+export class SessionAnswerDto {
+  @ApiProperty()
+  id: string;
+
+  @ApiProperty()
+  text: string;
+}
+
+export class SessionQuestionDto {
+  @ApiProperty()
+  id: string;
+
+  @ApiProperty()
+  text: string;
+
+  @ApiProperty({ enum: QuestionType })
+  type: QuestionType;
+
+  @ApiProperty()
+  points: number;
+
+  @ApiProperty({
+    type: [SessionAnswerDto],
+    description: 'In the order to present them',
+  })
+  answers: SessionAnswerDto[];
+}
+
+export class AttemptSessionDto {
+  @ApiProperty()
+  attempt_id: string;
+
+  @ApiProperty()
+  attempt_number: number;
+
+  @ApiProperty()
+  quiz_id: string;
+
+  @ApiProperty({ enum: AttemptStatus })
+  status: AttemptStatus;
+
+  @ApiProperty()
+  started_at: Date;
+
+  @ApiProperty({ nullable: true, description: 'Null for untimed quizzes' })
+  deadline_at: Date | null;
+
+  @ApiProperty({
+    nullable: true,
+    description: 'Seconds left by the server clock; null for untimed quizzes',
+  })
+  remaining_seconds: number | null;
+
+  @ApiProperty({
+    type: [SessionQuestionDto],
+    description: 'The questions drawn for this attempt, in order',
+  })
+  questions: SessionQuestionDto[];
+
+  @ApiProperty({
+    type: [SavedResponseDto],
+    description: 'Answers saved so far, to restore after a reconnect',
+  })
+  responses: SavedResponseDto[];
+}
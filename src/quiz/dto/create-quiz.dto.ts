@@ -1,13 +1,44 @@
 import { Type } from 'class-transformer';
 import {
   IsArray,
+  IsBoolean,
+  IsEnum,
+  IsInt,
   IsNotEmpty,
   IsOptional,
   IsString,
   IsUUID,
+  Max,
+  MaxLength,
+  Min,
   ValidateNested,
 } from 'class-validator';
 import { CreateQuestionDto } from '../../question/dto/create-question.dto';
+import { QuestionDifficulty } from '../../question/entities/question.entity';
+import { ScoringPolicy } from '../enums/scoring-policy.enum';
+
+export class QuizRuleDto {
+  @IsUUID()
+  bank_id: string;
+
+  @IsInt()
+  @Min(1)
+  count: number;
+
+  // Tags the drawn questions must have; any when omitted
+  @IsOptional()
+  @IsEnum(QuestionDifficulty)
+  difficulty?: QuestionDifficulty;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  topic?: string;
+
+  @IsOptional()
+  @IsUUID()
+  objective_id?: string;
+}
 
 export class CreateQuizDto {
   @IsNotEmpty()
@@ -23,8 +54,52 @@ export class CreateQuizDto {
   @IsUUID()
   lesson_id: string;
 
+  // Omit for unlimited attempts
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  max_attempts?: number;
+
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  cooldown_minutes?: number;
+
+  // Omit for an untimed quiz
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  time_limit_minutes?: number;
+
+  // The platform default of 70 when omitted
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  @Max(100)
+  passing_percentage?: number;
+
+  @IsOptional()
+  @IsEnum(ScoringPolicy)
+  scoring_policy?: ScoringPolicy;
+
+  // Fixed questions; a quiz needs these, bank rules, or both
+  @IsOptional()
   @IsArray()
   @ValidateNested({ each: true })
   @Type(() => CreateQuestionDto)
-  questions: CreateQuestionDto[];
+  questions?: CreateQuestionDto[];
+
+  @IsOptional()
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => QuizRuleDto)
+  rules?: QuizRuleDto[];
+
+  @IsOptional()
+  @IsBoolean()
+  shuffle_questions?: boolean;
+
+  @IsOptional()
+  @IsBoolean()
+  shuffle_answers?: boolean;
 }
@@ -0,0 +1,76 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { AttemptStatus } from '../entities/quiz-attempt.entity';
+import { ScoringPolicy } from '../enums/scoring-policy.enum';
+
+export class AttemptSummaryDto {
+  @ApiProperty()
+  attempt_id: string;
+
+  @ApiProperty()
+  attempt_number: number;
+
+  @ApiProperty({ enum: AttemptStatus })
+  status: AttemptStatus;
+
+  @ApiProperty({ description: 'Points earned' })
+  score: number;
+
+  @ApiProperty({ description: 'Points available' })
+  max_score: number;
+
+  @ApiProperty()
+  total_questions: number;
+
+  @ApiProperty()
+  percentage: number;
+
+  @ApiProperty()
+  passed: boolean;
+
+  @ApiProperty({ nullable: true })
+  started_at: Date | null;
+
+  @ApiProperty({ nullable: true })
+  deadline_at: Date | null;
+
+  @ApiProperty({ nullable: true })
+  completed_at: Date | null;
+}
+
+export class QuizAttemptHistoryDto {
+  @ApiProperty()
+  quiz_id: string;
+
+  @ApiProperty()
+  user_id: string;
+
+  @ApiProperty({ enum: ScoringPolicy })
+  scoring_policy: ScoringPolicy;
+
+  @ApiProperty({ nullable: true, description: 'Null means unlimited' })
+  max_attempts: number | null;
+
+  @ApiProperty()
+  attempts_used: number;
+
+  @ApiProperty({ nullable: true, description: 'Null means unlimited' })
+  attempts_remaining: number | null;
+
+  @ApiProperty({
+    nullable: true,
+    description: 'When the cooldown ends, if it is still running',
+  })
+  next_attempt_at: Date | null;
+
+  @ApiProperty({
+    nullable: true,
+    description: 'Result under the scoring policy, 0-100',
+  })
+  percentage: number | null;
+
+  @ApiProperty()
+  passed: boolean;
+
+  @ApiProperty({ type: [AttemptSummaryDto], description: 'Oldest first' })
+  attempts: AttemptSummaryDto[];
+}
@@ -0,0 +1,89 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { QuestionType } from '../../question/entities/question.entity';
+
+export enum ItemFlag {
+  TOO_EASY = 'too_easy',
+  TOO_HARD = 'too_hard',
+  NEGATIVE_DISCRIMINATION = 'negative_discrimination',
+}
+
+export class AnswerSelectionDto {
+  @ApiProperty()
+  answer_id: string;
+
+  @ApiProperty()
+  text: string;
+
+  @ApiProperty()
+  correct: boolean;
+
+  @ApiProperty({ description: 'Completed attempts selecting this answer' })
+  selections: number;
+
+  @ApiProperty({ description: 'Share of completed attempts, 0-100' })
+  selection_rate: number;
+}
+
+export class QuestionItemAnalysisDto {
+  @ApiProperty()
+  question_id: string;
+
+  @ApiProperty()
+  question_text: string;
+
+  @ApiProperty({ enum: QuestionType })
+  type: QuestionType;
+
+  @ApiProperty({
+    description:
+      'Completed attempts that asked the question; fewer than all for questions drawn from a bank',
+  })
+  presented: number;
+
+  @ApiProperty({ description: 'Completed attempts answering the question' })
+  responses: number;
+
+  @ApiProperty({
+    description:
+      'Share of the attempts that asked the question answering correctly, 0-100',
+  })
+  percent_correct: number;
+
+  @ApiProperty({
+    description:
+      'Point-biserial correlation between answering correctly and the score on the other questions, -1 to 1; null when it cannot be computed',
+    nullable: true,
+    type: Number,
+  })
+  discrimination: number | null;
+
+  @ApiProperty({
+    description: 'Mean reported seconds spent on the question',
+    nullable: true,
+    type: Number,
+  })
+  average_time_seconds: number | null;
+
+  @ApiProperty({ type: [AnswerSelectionDto] })
+  answers: AnswerSelectionDto[];
+
+  @ApiProperty({ enum: ItemFlag, isArray: true })
+  flags: ItemFlag[];
+}
+
+export class QuizItemAnalysisDto {
+  @ApiProperty()
+  quiz_id: string;
+
+  @ApiProperty({ description: 'Completed attempts analysed' })
+  attempts: number;
+
+  @ApiProperty({
+    description:
+      'Whether there are enough attempts for questions to be flagged',
+  })
+  flags_enabled: boolean;
+
+  @ApiProperty({ type: [QuestionItemAnalysisDto] })
+  questions: QuestionItemAnalysisDto[];
+}
@@ -1,6 +1,28 @@
 // quiz/dto/quiz-response.dto.ts
 import { ApiProperty } from '@nestjs/swagger';
 import { QuestionResponseDto } from '../../question/dto/question-response.dto';
+import { QuestionDifficulty } from '../../question/entities/question.entity';
+import { ScoringPolicy } from '../enums/scoring-policy.enum';
+
+export class QuizRuleResponseDto {
+  @ApiProperty()
+  id: string;
+
+  @ApiProperty()
+  bank_id: string;
+
+  @ApiProperty({ description: 'Questions drawn per attempt' })
+  count: number;
+
+  @ApiProperty({ enum: QuestionDifficulty, nullable: true })
+  difficulty: QuestionDifficulty | null;
+
+  @ApiProperty({ nullable: true })
+  topic: string | null;
+
+  @ApiProperty({ nullable: true })
+  objective_id: string | null;
+}
 
 export class QuizResponseDto {
   @ApiProperty()
@@ -15,9 +37,39 @@ export class QuizResponseDto {
   @ApiProperty()
   lesson_id: string;
 
-  @ApiProperty({ type: [QuestionResponseDto] })
+  @ApiProperty({ nullable: true, description: 'Null means unlimited' })
+  max_attempts: number | null;
+
+  @ApiProperty()
+  cooldown_minutes: number;
+
+  @ApiProperty({ nullable: true, description: 'Null means untimed' })
+  time_limit_minutes: number | null;
+
+  @ApiProperty({ description: 'Score percentage needed to pass' })
+  passing_percentage: number;
+
+  @ApiProperty({ enum: ScoringPolicy })
+  scoring_policy: ScoringPolicy;
+
+  @ApiProperty({
+    type: [QuestionResponseDto],
+    description: 'Fixed questions, asked in every attempt',
+  })
   questions: QuestionResponseDto[];
 
+  @ApiProperty({
+    type: [QuizRuleResponseDto],
+    description: 'Bank draws added to each attempt',
+  })
+  rules: QuizRuleResponseDto[];
+
+  @ApiProperty()
+  shuffle_questions: boolean;
+
+  @ApiProperty()
+  shuffle_answers: boolean;
+
   @ApiProperty()
   created_at: Date;
 
@@ -4,16 +4,24 @@ export class QuestionResultDto {
   user_answer: string;
   correct_answer: string;
   is_correct: boolean;
+  // Negative when a wrong answer is penalised
   points_earned: number;
+  points_possible: number;
 }
 
 export class QuizResultDto {
   attempt_id: string;
+  attempt_number: number;
+  // Null when the quiz allows unlimited attempts
+  attempts_remaining: number | null;
   quiz_id: string;
   quiz_title: string;
+  // Points earned out of max_score
   score: number;
+  max_score: number;
   total_questions: number;
   percentage: number;
+  passing_percentage: number;
   passed: boolean;
   completed_at: Date;
   question_results: QuestionResultDto[];
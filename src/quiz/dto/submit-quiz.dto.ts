@@ -1,12 +1,17 @@
 import { Type } from 'class-transformer';
 import {
+  ArrayUnique,
   IsArray,
+  IsInt,
   IsNotEmpty,
   IsOptional,
   IsString,
   IsUUID,
+  Max,
+  Min,
   ValidateNested,
 } from 'class-validator';
+import { MAX_QUESTION_TIME_SECONDS } from '../constants';
 
 export class UserAnswerDto {
   @IsNotEmpty()
@@ -17,9 +22,22 @@ export class UserAnswerDto {
   @IsUUID()
   selected_answer_id?: string;
 
+  // Every picked answer of a multiple choice question
+  @IsOptional()
+  @IsArray()
+  @ArrayUnique()
+  @IsUUID('all', { each: true })
+  selected_answer_ids?: string[];
+
   @IsOptional()
   @IsString()
   text_response?: string;
+
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  @Max(MAX_QUESTION_TIME_SECONDS)
+  time_spent_seconds?: number;
 }
 
 export class SubmitQuizDto {
@@ -27,10 +45,13 @@ export class SubmitQuizDto {
   @IsUUID()
   quiz_id: string;
 
-  @IsNotEmpty()
-  @IsUUID()
-  user_id: string;
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => UserAnswerDto)
+  responses: UserAnswerDto[];
+}
 
+export class SaveResponsesDto {
   @IsArray()
   @ValidateNested({ each: true })
   @Type(() => UserAnswerDto)
@@ -19,7 +19,7 @@ export enum AttemptStatus {
 }
 
 @Entity('quiz_attempts')
-@Unique(['user', 'quiz']) // Only one attempt per user per quiz
+@Unique(['user', 'quiz', 'attempt_number'])
 export class QuizAttempt {
   @PrimaryGeneratedColumn('uuid')
   id: string;
@@ -30,9 +30,18 @@ export class QuizAttempt {
   @Column({ type: 'uuid' })
   quiz_id: string;
 
-  @Column({ type: 'int', default: 0 })
+  // 1 for the learner's first attempt at the quiz, then counting up
+  @Column({ type: 'int', default: 1 })
+  attempt_number: number;
+
+  // Sum of points earned, fractional under partial credit
+  @Column({ type: 'decimal', precision: 8, scale: 2, default: 0 })
   score: number;
 
+  // Points available when the attempt was graded
+  @Column({ type: 'decimal', precision: 8, scale: 2, default: 0 })
+  max_score: number;
+
   @Column({ type: 'int', default: 0 })
   total_questions: number;
 
@@ -52,6 +61,18 @@ export class QuizAttempt {
   @Column({ type: 'timestamp', nullable: true })
   started_at: Date;
 
+  // Questions presented in this attempt, in order; null for attempts that predate question banks
+  @Column({ type: 'uuid', array: true, nullable: true })
+  question_ids: string[] | null;
+
+  // Answer ids per question id in the order presented, when answers are shuffled
+  @Column({ type: 'jsonb', nullable: true })
+  answer_order: Record<string, string[]> | null;
+
+  // Set when the quiz is timed; answers after it (plus a grace period) are refused
+  @Column({ type: 'timestamp', nullable: true })
+  deadline_at: Date | null;
+
   @Column({ type: 'timestamp', nullable: true })
   completed_at: Date;
 
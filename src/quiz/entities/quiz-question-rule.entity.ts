@@ -0,0 +1,48 @@
+import {
+  Column,
+  Entity,
+  JoinColumn,
+  ManyToOne,
+  PrimaryGeneratedColumn,
+} from 'typeorm';
+import { QuestionBank } from '../../question-banks/entities/question-bank.entity';
+import { QuestionDifficulty } from '../../question/enums/question-difficulty.enum';
+import { Quiz } from './quiz.entity';
+
+/** "Draw `count` questions from a bank, optionally only those with these tags." */
+@Entity('quiz_question_rules')
+export class QuizQuestionRule {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ type: 'uuid' })
+  quiz_id: string;
+
+  @ManyToOne(() => Quiz, (quiz) => quiz.rules, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'quiz_id' })
+  quiz: Quiz;
+
+  @Column({ type: 'uuid' })
+  bank_id: string;
+
+  // Banks used by a quiz cannot be deleted
+  @ManyToOne(() => QuestionBank, { onDelete: 'RESTRICT' })
+  @JoinColumn({ name: 'bank_id' })
+  bank: QuestionBank;
+
+  @Column({ type: 'int' })
+  count: number;
+
+  @Column({ type: 'enum', enum: QuestionDifficulty, nullable: true })
+  difficulty: QuestionDifficulty | null;
+
+  @Column({ type: 'varchar', length: 100, nullable: true })
+  topic: string | null;
+
+  @Column({ type: 'uuid', nullable: true })
+  objective_id: string | null;
+
+  // Rules are drawn in this order
+  @Column({ type: 'int', default: 0 })
+  position: number;
+}
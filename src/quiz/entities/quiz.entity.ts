@@ -8,8 +8,11 @@ import {
   PrimaryGeneratedColumn,
   UpdateDateColumn,
 } from 'typeorm';
+import { QUIZ_PASSING_THRESHOLD } from '../../common/constants';
 import { Lesson } from '../../entities/lesson.entity';
 import { Question } from '../../question/entities/question.entity';
+import { ScoringPolicy } from '../enums/scoring-policy.enum';
+import { QuizQuestionRule } from './quiz-question-rule.entity';
 
 @Entity('quizzes')
 export class Quiz {
@@ -25,13 +28,47 @@ export class Quiz {
   @Column({ type: 'uuid' })
   lesson_id: string;
 
+  // Completed attempts allowed per learner; null means unlimited
+  @Column({ type: 'int', nullable: true })
+  max_attempts: number | null;
+
+  // Minutes a learner must wait after an attempt before the next one
+  @Column({ type: 'int', default: 0 })
+  cooldown_minutes: number;
+
+  // Minutes an attempt may take once started; null means untimed
+  @Column({ type: 'int', nullable: true })
+  time_limit_minutes: number | null;
+
+  // Score percentage needed to pass
+  @Column({ type: 'int', default: QUIZ_PASSING_THRESHOLD })
+  passing_percentage: number;
+
+  @Column({
+    type: 'enum',
+    enum: ScoringPolicy,
+    default: ScoringPolicy.HIGHEST,
+  })
+  scoring_policy: ScoringPolicy;
+
   @ManyToOne(() => Lesson)
   @JoinColumn({ name: 'lesson_id' })
   lesson: Lesson;
 
+  // Fixed questions, asked in every attempt
   @OneToMany(() => Question, (question) => question.quiz)
   questions: Question[];
 
+  // Questions drawn from banks for each attempt, on top of the fixed ones
+  @OneToMany(() => QuizQuestionRule, (rule) => rule.quiz)
+  rules: QuizQuestionRule[];
+
+  @Column({ type: 'boolean', default: false })
+  shuffle_questions: boolean;
+
+  @Column({ type: 'boolean', default: false })
+  shuffle_answers: boolean;
+
   @CreateDateColumn()
   created_at: Date;
 
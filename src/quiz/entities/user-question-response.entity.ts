@@ -25,15 +25,24 @@ export class UserQuestionResponse {
   @Column({ type: 'uuid', nullable: true })
   selected_answer_id: string;
 
+  // Picked answers of a multiple choice question
+  @Column({ type: 'uuid', array: true, nullable: true })
+  selected_answer_ids: string[] | null;
+
   @Column({ type: 'text', nullable: true })
   text_response: string;
 
   @Column({ type: 'boolean', default: false })
   is_correct: boolean;
 
-  @Column({ type: 'int', default: 0 })
+  // Fractional under partial credit; postgres returns decimals as strings
+  @Column({ type: 'decimal', precision: 6, scale: 2, default: 0 })
   points_earned: number;
 
+  // Reported by the client; null for older responses and clients that do not track it
+  @Column({ type: 'int', nullable: true })
+  time_spent_seconds: number | null;
+
   @ManyToOne(() => QuizAttempt, (attempt) => attempt.responses, {
     onDelete: 'CASCADE',
   })
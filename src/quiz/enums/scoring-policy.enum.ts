@@ -0,0 +1,6 @@
+/** Which completed attempts decide a learner's result on a quiz. */
+export enum ScoringPolicy {
+  HIGHEST = 'highest',
+  LATEST = 'latest',
+  AVERAGE = 'average',
+}
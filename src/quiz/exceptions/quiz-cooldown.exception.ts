@@ -0,0 +1,16 @@
+import { HttpException, HttpStatus } from '@nestjs/common';
+
+/** Thrown when a quiz is retaken before its cooldown ends; carries the Retry-After value. */
+export class QuizCooldownException extends HttpException {
+  constructor(readonly retryAfterSeconds: number) {
+    super(
+      {
+        statusCode: HttpStatus.TOO_MANY_REQUESTS,
+        message: 'Please wait before attempting this quiz again',
+        error: 'Too Many Requests',
+        retryAfter: retryAfterSeconds,
+      },
+      HttpStatus.TOO_MANY_REQUESTS,
+    );
+  }
+}
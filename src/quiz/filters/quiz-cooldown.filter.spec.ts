@@ -0,0 +1,27 @@
+import { ArgumentsHost, HttpStatus } from '@nestjs/common';
+import { QuizCooldownException } from '../exceptions/quiz-cooldown.exception';
+import { QuizCooldownFilter } from './quiz-cooldown.filter';
+
+describe('QuizCooldownFilter', () => {
+  it('should answer 429 with a Retry-After header', () => {
+    const response = {
+      status: jest.fn().mockReturnThis(),
+      setHeader: jest.fn().mockReturnThis(),
+      json: jest.fn(),
+    };
+    const host = {
+      switchToHttp: () => ({ getResponse: () => response }),
+    } as unknown as ArgumentsHost;
+
+    new QuizCooldownFilter().catch(new QuizCooldownException(120), host);
+
+    expect(response.status).toHaveBeenCalledWith(HttpStatus.TOO_MANY_REQUESTS);
+    expect(response.setHeader).toHaveBeenCalledWith('Retry-After', '120');
+    expect(response.json).toHaveBeenCalledWith(
+      expect.objectContaining({
+        statusCode: HttpStatus.TOO_MANY_REQUESTS,
+        retryAfter: 120,
+      }),
+    );
+  });
+});
@@ -0,0 +1,15 @@
+import { ArgumentsHost, Catch, ExceptionFilter } from '@nestjs/common';
+import { Response } from 'express';
+import { QuizCooldownException } from '../exceptions/quiz-cooldown.exception';
+
+@Catch(QuizCooldownException)
+export class QuizCooldownFilter implements ExceptionFilter {
+  catch(exception: QuizCooldownException, host: ArgumentsHost) {
+    const response = host.switchToHttp().getResponse<Response>();
+
+    response
+      .status(exception.getStatus())
+      .setHeader('Retry-After', String(exception.retryAfterSeconds))
+      .json(exception.getResponse());
+  }
+}
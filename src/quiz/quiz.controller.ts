@@ -8,29 +8,44 @@ import {
   Param,
   ParseUUIDPipe,
   Post,
+  Put,
+  UseFilters,
   UseGuards,
 } from '@nestjs/common';
 import { ApiOperation, ApiResponse, ApiTags } from '@nestjs/swagger';
-import { Roles } from '../common/decorators/roles.decorator';
+import { ApiKeyResource } from '../api-keys/decorators/api-key-resource.decorator';
+import { PermissionKey } from '../authorization/constants';
+import { CanManage } from '../authorization/decorators/can-manage.decorator';
+import { RequirePermissions } from '../authorization/decorators/require-permissions.decorator';
+import { OwnershipGuard } from '../authorization/guards/ownership.guard';
+import { PermissionsGuard } from '../authorization/guards/permissions.guard';
+import { CurrentUser } from '../common/decorators/current-user.decorator';
 import { AuthGuard } from '../common/guards/auth.guard';
-import { RolesGuard } from '../common/guards/roles.guard';
-import { UserRole } from '../users/entities/user.entity';
+import { AttemptSessionDto } from './dto/attempt-session.dto';
 import { CreateQuizDto } from './dto/create-quiz.dto';
+import { QuizAttemptHistoryDto } from './dto/quiz-attempt-history.dto';
+import { QuizItemAnalysisDto } from './dto/quiz-item-analysis.dto';
 import { QuizResponseDto } from './dto/quiz-response.dto';
 import { QuizResultDto } from './dto/quiz-result.dto';
-import { SubmitQuizDto } from './dto/submit-quiz.dto';
+import { SaveResponsesDto, SubmitQuizDto } from './dto/submit-quiz.dto';
 import { QuizAttempt } from './entities/quiz-attempt.entity';
 import { Quiz } from './entities/quiz.entity';
+import { QuizCooldownFilter } from './filters/quiz-cooldown.filter';
 import { QuizService } from './quiz.service';
+import { QuizItemAnalysisService } from './services/quiz-item-analysis.service';
 
 @Controller('quizzes')
+@ApiKeyResource('quizzes')
 @ApiTags('quizzes')
-@UseGuards(AuthGuard, RolesGuard)
-@Roles(UserRole.ADMIN)
+@UseGuards(AuthGuard, PermissionsGuard, OwnershipGuard)
 export class QuizController {
-  constructor(private readonly quizService: QuizService) {}
+  constructor(
+    private readonly quizService: QuizService,
+    private readonly quizItemAnalysisService: QuizItemAnalysisService,
+  ) {}
 
   @Post()
+  @CanManage('lesson', 'lesson_id', { from: 'body' })
   @ApiOperation({ summary: 'Create a new quiz' })
   @ApiResponse({
     status: 201,
@@ -55,16 +70,32 @@ export class QuizController {
   }
 
   @Get()
+  @RequirePermissions(PermissionKey.COURSE_MANAGE_ANY)
   findAll(): Promise<QuizResponseDto[]> {
     return this.quizService.findAll();
   }
 
   @Get(':id')
+  @CanManage('quiz')
   findOne(@Param('id', ParseUUIDPipe) id: string): Promise<QuizResponseDto> {
     return this.quizService.findOne(id);
   }
 
+  @Get(':id/item-analysis')
+  @CanManage('quiz')
+  @ApiOperation({
+    summary: 'Difficulty, discrimination and answer choices per question',
+  })
+  @ApiResponse({ status: 200, type: QuizItemAnalysisDto })
+  @ApiResponse({ status: 404, description: 'Quiz not found' })
+  getItemAnalysis(
+    @Param('id', ParseUUIDPipe) id: string,
+  ): Promise<QuizItemAnalysisDto> {
+    return this.quizItemAnalysisService.analyze(id);
+  }
+
   @Get('lesson/:lessonId')
+  @CanManage('lesson', 'lessonId')
   findByLesson(
     @Param('lessonId', ParseUUIDPipe) lessonId: string,
   ): Promise<QuizResponseDto[]> {
@@ -72,6 +103,7 @@ export class QuizController {
   }
 
   @Delete(':id')
+  @CanManage('quiz')
   @ApiOperation({ summary: 'Delete quiz by ID' })
   @ApiResponse({ status: 204, description: 'Quiz deleted successfully' })
   @ApiResponse({
@@ -101,8 +133,40 @@ export class QuizController {
     return this.quizService.remove(id);
   }
 
+  @Post(':id/start')
+  @ApiOperation({
+    summary: 'Start an attempt, or resume the one in progress',
+  })
+  @ApiResponse({ status: 200, type: AttemptSessionDto })
+  @ApiResponse({ status: 403, description: 'No attempts left for the quiz' })
+  @ApiResponse({
+    status: 429,
+    description: 'The cooldown since the last attempt has not ended',
+  })
+  @UseFilters(QuizCooldownFilter)
+  @HttpCode(HttpStatus.OK)
+  startAttempt(
+    @CurrentUser('id') userId: string,
+    @Param('id', ParseUUIDPipe) id: string,
+  ): Promise<AttemptSessionDto> {
+    return this.quizService.startAttempt(userId, id);
+  }
+
+  @Put('attempts/:attemptId/responses')
+  @ApiOperation({ summary: 'Autosave answers of your attempt in progress' })
+  @ApiResponse({ status: 200, type: AttemptSessionDto })
+  @ApiResponse({ status: 403, description: 'The time limit has passed' })
+  @ApiResponse({ status: 409, description: 'The attempt is already finished' })
+  saveProgress(
+    @CurrentUser('id') userId: string,
+    @Param('attemptId', ParseUUIDPipe) attemptId: string,
+    @Body() saveResponsesDto: SaveResponsesDto,
+  ): Promise<AttemptSessionDto> {
+    return this.quizService.saveProgress(userId, attemptId, saveResponsesDto);
+  }
+
   @Post('submit')
-  @ApiOperation({ summary: 'Submit quiz answers' })
+  @ApiOperation({ summary: 'Submit quiz answers as the current user' })
   @ApiResponse({
     status: 200,
     description: 'Quiz submitted successfully',
@@ -119,12 +183,27 @@ export class QuizController {
       },
     },
   })
+  @ApiResponse({
+    status: 403,
+    description: 'No attempts left, or the time limit has passed',
+  })
+  @ApiResponse({
+    status: 429,
+    description: 'The cooldown since the last attempt has not ended',
+  })
+  @UseFilters(QuizCooldownFilter)
   @HttpCode(HttpStatus.OK)
-  submitQuiz(@Body() submitQuizDto: SubmitQuizDto): Promise<QuizResultDto> {
-    return this.quizService.submitQuiz(submitQuizDto);
+  submitQuiz(
+    @CurrentUser('id') userId: string,
+    @Body() submitQuizDto: SubmitQuizDto,
+  ): Promise<QuizResultDto> {
+    return this.quizService.submitQuiz(userId, submitQuizDto);
   }
 
+  // Learners read their own attempts through /me/quiz-attempts
   @Get('attempt/:userId/:quizId')
+  @RequirePermissions(PermissionKey.PROGRESS_READ_ANY)
+  @ApiOperation({ summary: "Get a user's latest quiz attempt" })
   getUserQuizAttempt(
     @Param('userId', ParseUUIDPipe) userId: string,
     @Param('quizId', ParseUUIDPipe) quizId: string,
@@ -132,7 +211,23 @@ export class QuizController {
     return this.quizService.getUserQuizAttempt(userId, quizId);
   }
 
+  @Get('attempts/:userId/:quizId')
+  @RequirePermissions(PermissionKey.PROGRESS_READ_ANY)
+  @ApiOperation({ summary: "Get a user's attempt history for a quiz" })
+  @ApiResponse({ status: 200, type: QuizAttemptHistoryDto })
+  @ApiResponse({ status: 404, description: 'Quiz not found' })
+  getAttemptHistory(
+    @Param('userId', ParseUUIDPipe) userId: string,
+    @Param('quizId', ParseUUIDPipe) quizId: string,
+  ): Promise<QuizAttemptHistoryDto> {
+    return this.quizService.getAttemptHistory(userId, quizId);
+  }
+
   @Get('passed/:userId/:quizId')
+  @RequirePermissions(PermissionKey.PROGRESS_READ_ANY)
+  @ApiOperation({
+    summary: 'Check whether a user passed a quiz under its scoring policy',
+  })
   hasUserPassedQuiz(
     @Param('userId', ParseUUIDPipe) userId: string,
     @Param('quizId', ParseUUIDPipe) quizId: string,
@@ -1,13 +1,17 @@
 import { Module } from '@nestjs/common';
 import { TypeOrmModule } from '@nestjs/typeorm';
 import { Answer } from '../answer/entities/answers.entity';
+import { QuestionBank } from '../question-banks/entities/question-bank.entity';
 import { Question } from '../question/entities/question.entity';
 import { User } from '../users/entities/user.entity';
 import { QuizAttempt } from './entities/quiz-attempt.entity';
+import { QuizQuestionRule } from './entities/quiz-question-rule.entity';
 import { Quiz } from './entities/quiz.entity';
 import { UserQuestionResponse } from './entities/user-question-response.entity';
 import { QuizController } from './quiz.controller';
 import { QuizService } from './quiz.service';
+import { QuizAttemptExpiryService } from './services/quiz-attempt-expiry.service';
+import { QuizItemAnalysisService } from './services/quiz-item-analysis.service';
 import { QuizValidationService } from './services/quiz-validation.service';
 
 @Module({
@@ -15,14 +19,21 @@ import { QuizValidationService } from './services/quiz-validation.service';
     TypeOrmModule.forFeature([
       Quiz,
       QuizAttempt,
+      QuizQuestionRule,
       UserQuestionResponse,
       Question,
       Answer,
       User,
+      QuestionBank,
     ]),
   ],
   controllers: [QuizController],
-  providers: [QuizService, QuizValidationService],
-  exports: [QuizService],
+  providers: [
+    QuizService,
+    QuizValidationService,
+    QuizItemAnalysisService,
+    QuizAttemptExpiryService,
+  ],
+  exports: [QuizService, QuizValidationService],
 })
 export class QuizModule {}
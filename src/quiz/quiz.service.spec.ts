@@ -0,0 +1,573 @@
+import {
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+  HttpStatus,
+} from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { FindOperator, QueryFailedError } from 'typeorm';
+import { Answer } from '../answer/entities/answers.entity';
+import { OwnershipService } from '../authorization/services/ownership.service';
+import { CentralizedLoggerService } from '../common/logger/services/centralized-logger.service';
+import { QuestionBank } from '../question-banks/entities/question-bank.entity';
+import { Question, QuestionType } from '../question/entities/question.entity';
+import { User } from '../users/entities/user.entity';
+import { CreateQuizDto } from './dto/create-quiz.dto';
+import { AttemptStatus, QuizAttempt } from './entities/quiz-attempt.entity';
+import { QuizQuestionRule } from './entities/quiz-question-rule.entity';
+import { Quiz } from './entities/quiz.entity';
+import { UserQuestionResponse } from './entities/user-question-response.entity';
+import { ScoringPolicy } from './enums/scoring-policy.enum';
+import { QuizCooldownException } from './exceptions/quiz-cooldown.exception';
+import { QuizService } from './quiz.service';
+import { QuizValidationService } from './services/quiz-validation.service';
+
+describe('QuizService', () => {
+  let service: QuizService;
+
+  const quiz = {
+    id: 'quiz-1',
+    title: 'Timed',
+    max_attempts: null,
+    cooldown_minutes: 0,
+    time_limit_minutes: 10,
+    passing_percentage: 70,
+    scoring_policy: ScoringPolicy.HIGHEST,
+    questions: [
+      {
+        id: 'question-1',
+        text: 'Pick one',
+        type: QuestionType.UNIQUE,
+        points: '1.00',
+        negative_points: '0.00',
+        answers: [{ id: 'answer-1', text: 'Right', correct: true }],
+      },
+    ],
+    rules: [],
+    shuffle_questions: false,
+    shuffle_answers: false,
+  };
+  const bankQuestions = ['bank-question-1', 'bank-question-2'].map((id, i) => ({
+    id,
+    bank_id: 'bank-1',
+    topic: i === 0 ? 'algebra' : 'geometry',
+    text: id,
+    type: QuestionType.UNIQUE,
+    points: '2.00',
+    negative_points: '0.00',
+    answers: [{ id: `${id}-answer`, text: 'Right', correct: true }],
+  }));
+  const quizRepository = {
+    findOne: jest.fn(),
+    create: jest.fn((entity) => entity),
+    save: jest.fn((entity) => Promise.resolve({ id: 'quiz-2', ...entity })),
+  };
+  // Looks bank questions up by bank and topic or by a list of ids
+  const questionRepository = {
+    find: jest.fn(
+      ({
+        where,
+      }: {
+        where: {
+          bank_id?: string;
+          topic?: string;
+          id?: FindOperator<string[]>;
+        };
+      }) =>
+        Promise.resolve(
+          bankQuestions.filter((question) =>
+            where.bank_id
+              ? question.bank_id === where.bank_id &&
+                (!where.topic || question.topic === where.topic)
+              : where.id!.value.includes(question.id),
+          ),
+        ),
+    ),
+  };
+  const ruleRepository = {
+    create: jest.fn((entity) => entity),
+    save: jest.fn(),
+  };
+  const bankRepository = {
+    findOne: jest.fn(() =>
+      Promise.resolve({ id: 'bank-1', course_id: 'course-1' }),
+    ),
+  };
+  const attemptRepository = {
+    find: jest.fn(),
+    findOne: jest.fn(),
+    create: jest.fn((attempt) => attempt),
+    save: jest.fn((attempt) =>
+      Promise.resolve({ id: 'attempt-2', ...attempt }),
+    ),
+    update: jest.fn(),
+    count: jest.fn(),
+  };
+  const responseRepository = {
+    find: jest.fn(),
+    delete: jest.fn(),
+    create: jest.fn((response) => response),
+    save: jest.fn(),
+  };
+
+  const openAttempt = (deadline: Date) => ({
+    id: 'attempt-1',
+    user_id: 'learner-1',
+    quiz_id: quiz.id,
+    attempt_number: 1,
+    status: AttemptStatus.IN_PROGRESS,
+    started_at: new Date(deadline.getTime() - 10 * 60 * 1000),
+    deadline_at: deadline,
+  });
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    quizRepository.findOne.mockResolvedValue(quiz);
+    responseRepository.find.mockResolvedValue([]);
+    attemptRepository.update.mockResolvedValue({ affected: 1 });
+    attemptRepository.count.mockResolvedValue(1);
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        QuizService,
+        { provide: getRepositoryToken(Quiz), useValue: quizRepository },
+        {
+          provide: getRepositoryToken(Question),
+          useValue: questionRepository,
+        },
+        { provide: getRepositoryToken(Answer), useValue: {} },
+        {
+          provide: getRepositoryToken(QuizAttempt),
+          useValue: attemptRepository,
+        },
+        {
+          provide: getRepositoryToken(UserQuestionResponse),
+          useValue: responseRepository,
+        },
+        {
+          provide: getRepositoryToken(User),
+          useValue: {
+            findOne: jest.fn().mockResolvedValue({ id: 'learner-1' }),
+          },
+        },
+        {
+          provide: getRepositoryToken(QuizQuestionRule),
+          useValue: ruleRepository,
+        },
+        {
+          provide: getRepositoryToken(QuestionBank),
+          useValue: bankRepository,
+        },
+        {
+          provide: QuizValidationService,
+          useValue: { validateQuiz: jest.fn() },
+        },
+        {
+          provide: OwnershipService,
+          useValue: {
+            resolveCourseId: jest.fn().mockResolvedValue('course-1'),
+          },
+        },
+        {
+          provide: CentralizedLoggerService,
+          useValue: { setContext: jest.fn(), info: jest.fn() },
+        },
+      ],
+    }).compile();
+
+    service = module.get<QuizService>(QuizService);
+  });
+
+  it('should resume the attempt in progress with its saved answers', async () => {
+    const attempt = openAttempt(new Date(Date.now() + 5 * 60 * 1000));
+    attemptRepository.findOne.mockResolvedValue(attempt);
+    responseRepository.find.mockResolvedValue([
+      {
+        question_id: 'question-1',
+        selected_answer_id: 'answer-1',
+        text_response: null,
+        time_spent_seconds: 20,
+      },
+    ]);
+
+    const session = await service.startAttempt('learner-1', quiz.id);
+
+    expect(session).toMatchObject({
+      attempt_id: 'attempt-1',
+      responses: [
+        { question_id: 'question-1', selected_answer_id: 'answer-1' },
+      ],
+    });
+    expect(session.remaining_seconds).toBeGreaterThan(290);
+    expect(attemptRepository.save).not.toHaveBeenCalled();
+  });
+
+  it('should start a new attempt with a server-side deadline', async () => {
+    attemptRepository.findOne.mockResolvedValue(null);
+    attemptRepository.find.mockResolvedValue([]);
+
+    const session = await service.startAttempt('learner-1', quiz.id);
+
+    expect(session.attempt_number).toBe(1);
+    expect(session.deadline_at!.getTime() - session.started_at.getTime()).toBe(
+      10 * 60 * 1000,
+    );
+  });
+
+  it('should reject a late submission and abandon the empty attempt', async () => {
+    attemptRepository.findOne.mockResolvedValue(
+      openAttempt(new Date(Date.now() - 5 * 60 * 1000)),
+    );
+
+    await expect(
+      service.submitQuiz('learner-1', {
+        quiz_id: quiz.id,
+        responses: [
+          { question_id: 'question-1', selected_answer_id: 'answer-1' },
+        ],
+      }),
+    ).rejects.toThrow(ForbiddenException);
+    expect(attemptRepository.update).toHaveBeenCalledWith(
+      { id: 'attempt-1', status: AttemptStatus.IN_PROGRESS },
+      expect.objectContaining({ status: AttemptStatus.ABANDONED }),
+    );
+    expect(responseRepository.save).not.toHaveBeenCalled();
+  });
+
+  it('should require timed quizzes to be started before submitting', async () => {
+    attemptRepository.findOne.mockResolvedValue(null);
+
+    await expect(
+      service.submitQuiz('learner-1', { quiz_id: quiz.id, responses: [] }),
+    ).rejects.toThrow(BadRequestException);
+  });
+
+  it('should weigh questions by points and deduct negative marks', async () => {
+    quizRepository.findOne.mockResolvedValue({
+      ...quiz,
+      time_limit_minutes: null,
+      passing_percentage: 50,
+      questions: [
+        { ...quiz.questions[0], points: '3.00' },
+        {
+          id: 'question-2',
+          text: 'Pick again',
+          type: QuestionType.UNIQUE,
+          points: '1.00',
+          negative_points: '0.50',
+          answers: [
+            { id: 'answer-2', text: 'Right', correct: true },
+            { id: 'answer-3', text: 'Wrong', correct: false },
+          ],
+        },
+      ],
+    });
+    attemptRepository.findOne.mockResolvedValue(null);
+    attemptRepository.find.mockResolvedValue([]);
+    const responses = [
+      { question_id: 'question-1', selected_answer_id: 'answer-1' },
+      { question_id: 'question-2', selected_answer_id: 'answer-3' },
+    ];
+    responseRepository.find.mockResolvedValue(responses);
+
+    const result = await service.submitQuiz('learner-1', {
+      quiz_id: quiz.id,
+      responses,
+    });
+
+    expect(result).toMatchObject({
+      score: 2.5,
+      max_score: 4,
+      percentage: 62.5,
+      passing_percentage: 50,
+      passed: true,
+    });
+    expect(result.question_results.map((r) => r.points_earned)).toEqual([
+      3, -0.5,
+    ]);
+  });
+
+  it('should draw bank questions per attempt and score against the drawn set', async () => {
+    quizRepository.findOne.mockResolvedValue({
+      ...quiz,
+      time_limit_minutes: null,
+      rules: [{ bank_id: 'bank-1', count: 1 }],
+    });
+    attemptRepository.findOne.mockResolvedValue(null);
+    attemptRepository.find.mockResolvedValue([]);
+
+    const session = await service.startAttempt('learner-1', quiz.id);
+
+    const drawnId = session.questions[1].id;
+    expect(session.questions).toHaveLength(2);
+    expect(session.questions[0]).toEqual({
+      id: 'question-1',
+      text: 'Pick one',
+      type: QuestionType.UNIQUE,
+      points: 1,
+      answers: [{ id: 'answer-1', text: 'Right' }],
+    });
+    expect(bankQuestions.map(({ id }) => id)).toContain(drawnId);
+
+    const [[attempt]] = attemptRepository.save.mock.calls as [
+      [Partial<QuizAttempt>],
+    ];
+    expect(attempt).toMatchObject({
+      question_ids: ['question-1', drawnId],
+      total_questions: 2,
+    });
+    attemptRepository.findOne.mockResolvedValue({
+      id: 'attempt-2',
+      ...attempt,
+    });
+    const undrawnId = bankQuestions.find(({ id }) => id !== drawnId)!.id;
+    await expect(
+      service.submitQuiz('learner-1', {
+        quiz_id: quiz.id,
+        responses: [{ question_id: undrawnId }],
+      }),
+    ).rejects.toThrow(BadRequestException);
+
+    const responses = [
+      { question_id: 'question-1', selected_answer_id: 'answer-1' },
+      { question_id: drawnId, selected_answer_id: `${drawnId}-answer` },
+    ];
+    responseRepository.find.mockResolvedValue(responses);
+    const result = await service.submitQuiz('learner-1', {
+      quiz_id: quiz.id,
+      responses,
+    });
+
+    expect(result).toMatchObject({
+      score: 3,
+      max_score: 3,
+      total_questions: 2,
+      passed: true,
+    });
+  });
+
+  describe('create with bank rules', () => {
+    const createQuiz = (rules: CreateQuizDto['rules']) =>
+      service.create({
+        title: 'Drawn',
+        lesson_id: 'lesson-1',
+        cooldown_minutes: 0,
+        passing_percentage: 70,
+        rules,
+      } as CreateQuizDto);
+
+    it('should accept rules that can always draw their questions', async () => {
+      await createQuiz([
+        { bank_id: 'bank-1', topic: 'algebra', count: 1 },
+        { bank_id: 'bank-1', count: 1 },
+      ]);
+
+      expect(ruleRepository.save).toHaveBeenCalledWith([
+        expect.objectContaining({ topic: 'algebra', count: 1, position: 0 }),
+        expect.objectContaining({ topic: null, count: 1, position: 1 }),
+      ]);
+    });
+
+    it('should reject rules that together ask for more than the bank holds', async () => {
+      await expect(
+        createQuiz([
+          { bank_id: 'bank-1', count: 2 },
+          { bank_id: 'bank-1', count: 1 },
+        ]),
+      ).rejects.toThrow(
+        'Rule 2: the bank has 2 matching questions but earlier rules may draw 2 of them, 1 requested',
+      );
+      expect(quizRepository.save).not.toHaveBeenCalled();
+    });
+
+    it('should reject a rule whose questions an earlier rule may draw', async () => {
+      await expect(
+        createQuiz([
+          { bank_id: 'bank-1', count: 1 },
+          { bank_id: 'bank-1', topic: 'algebra', count: 1 },
+        ]),
+      ).rejects.toThrow(BadRequestException);
+      expect(quizRepository.save).not.toHaveBeenCalled();
+    });
+
+    it('should reject a bank from another course', async () => {
+      bankRepository.findOne.mockResolvedValueOnce({
+        id: 'bank-1',
+        course_id: 'course-2',
+      });
+
+      await expect(
+        createQuiz([{ bank_id: 'bank-1', count: 1 }]),
+      ).rejects.toThrow(
+        'Rule 1: question bank bank-1 not found in this course',
+      );
+    });
+  });
+
+  describe('attempt policy', () => {
+    const finishedAttempt = (
+      attemptNumber: number,
+      status: AttemptStatus,
+      completedAt: Date,
+    ) => ({
+      id: `attempt-${attemptNumber}`,
+      attempt_number: attemptNumber,
+      status,
+      completed_at: completedAt,
+    });
+    const longAgo = new Date(Date.now() - 24 * 60 * 60 * 1000);
+
+    beforeEach(() => {
+      attemptRepository.findOne.mockResolvedValue(null);
+    });
+
+    it('should refuse a new attempt once the limit is reached', async () => {
+      quizRepository.findOne.mockResolvedValue({ ...quiz, max_attempts: 2 });
+      attemptRepository.find.mockResolvedValue([
+        finishedAttempt(1, AttemptStatus.COMPLETED, longAgo),
+        finishedAttempt(2, AttemptStatus.COMPLETED, longAgo),
+      ]);
+
+      await expect(service.startAttempt('learner-1', quiz.id)).rejects.toThrow(
+        ForbiddenException,
+      );
+      expect(attemptRepository.save).not.toHaveBeenCalled();
+    });
+
+    it('should count abandoned attempts toward the limit', async () => {
+      quizRepository.findOne.mockResolvedValue({ ...quiz, max_attempts: 2 });
+      attemptRepository.find.mockResolvedValue([
+        finishedAttempt(1, AttemptStatus.COMPLETED, longAgo),
+        finishedAttempt(2, AttemptStatus.ABANDONED, longAgo),
+      ]);
+
+      await expect(service.startAttempt('learner-1', quiz.id)).rejects.toThrow(
+        'No attempts left: this quiz allows 2',
+      );
+    });
+
+    it('should allow another attempt while under the limit', async () => {
+      quizRepository.findOne.mockResolvedValue({ ...quiz, max_attempts: 2 });
+      attemptRepository.find.mockResolvedValue([
+        finishedAttempt(1, AttemptStatus.ABANDONED, longAgo),
+      ]);
+
+      const session = await service.startAttempt('learner-1', quiz.id);
+
+      expect(session.attempt_id).toBe('attempt-2');
+      const [[attempt]] = attemptRepository.save.mock.calls as [
+        [Partial<QuizAttempt>],
+      ];
+      expect(attempt.attempt_number).toBe(2);
+    });
+
+    it('should reject a start that lost the race for the attempt number', async () => {
+      quizRepository.findOne.mockResolvedValue(quiz);
+      attemptRepository.find.mockResolvedValue([]);
+      attemptRepository.save.mockRejectedValueOnce(
+        new QueryFailedError('INSERT INTO "quiz_attempts"', [], {
+          code: '23505',
+        } as unknown as Error),
+      );
+
+      await expect(service.startAttempt('learner-1', quiz.id)).rejects.toThrow(
+        ConflictException,
+      );
+    });
+
+    it('should enforce the cooldown since the latest finished attempt', async () => {
+      quizRepository.findOne.mockResolvedValue({
+        ...quiz,
+        cooldown_minutes: 30,
+      });
+      attemptRepository.find.mockResolvedValue([
+        finishedAttempt(
+          1,
+          AttemptStatus.COMPLETED,
+          new Date(Date.now() - 10 * 60 * 1000),
+        ),
+      ]);
+
+      const error = await service
+        .startAttempt('learner-1', quiz.id)
+        .catch((e: unknown) => e);
+
+      expect(error).toBeInstanceOf(QuizCooldownException);
+      const cooldown = error as QuizCooldownException;
+      expect(cooldown.getStatus()).toBe(HttpStatus.TOO_MANY_REQUESTS);
+      expect(cooldown.retryAfterSeconds).toBeGreaterThan(19 * 60);
+      expect(cooldown.retryAfterSeconds).toBeLessThanOrEqual(20 * 60);
+      expect(attemptRepository.save).not.toHaveBeenCalled();
+    });
+
+    it('should allow a new attempt once the cooldown has passed', async () => {
+      quizRepository.findOne.mockResolvedValue({
+        ...quiz,
+        cooldown_minutes: 30,
+      });
+      attemptRepository.find.mockResolvedValue([
+        finishedAttempt(1, AttemptStatus.ABANDONED, longAgo),
+      ]);
+
+      await expect(
+        service.startAttempt('learner-1', quiz.id),
+      ).resolves.toMatchObject({ attempt_id: 'attempt-2' });
+    });
+  });
+
+  describe('hasUserPassedQuiz', () => {
+    // Passed on the first try, then failed twice
+    const completedAttempts = [
+      { attempt_number: 1, percentage: '90.00', passed: true },
+      { attempt_number: 2, percentage: '50.00', passed: false },
+      { attempt_number: 3, percentage: '60.00', passed: false },
+    ];
+
+    beforeEach(() => {
+      attemptRepository.find.mockResolvedValue(completedAttempts);
+    });
+
+    it.each([
+      [ScoringPolicy.HIGHEST, true],
+      [ScoringPolicy.LATEST, false],
+      [ScoringPolicy.AVERAGE, false],
+    ])('should resolve the %s policy', async (policy, passed) => {
+      quizRepository.findOne.mockResolvedValue({
+        ...quiz,
+        scoring_policy: policy,
+      });
+
+      await expect(
+        service.hasUserPassedQuiz('learner-1', quiz.id),
+      ).resolves.toBe(passed);
+      expect(attemptRepository.find).toHaveBeenCalledWith({
+        where: {
+          user_id: 'learner-1',
+          quiz_id: quiz.id,
+          status: AttemptStatus.COMPLETED,
+        },
+      });
+    });
+
+    it('should pass on the average once it reaches the passing percentage', async () => {
+      quizRepository.findOne.mockResolvedValue({
+        ...quiz,
+        scoring_policy: ScoringPolicy.AVERAGE,
+        passing_percentage: 65,
+      });
+
+      await expect(
+        service.hasUserPassedQuiz('learner-1', quiz.id),
+      ).resolves.toBe(true);
+    });
+
+    it('should not pass without completed attempts', async () => {
+      attemptRepository.find.mockResolvedValue([]);
+
+      await expect(
+        service.hasUserPassedQuiz('learner-1', quiz.id),
+      ).resolves.toBe(false);
+    });
+  });
+});
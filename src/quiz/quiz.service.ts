@@ -1,27 +1,49 @@
 import {
   BadRequestException,
+  ConflictException,
+  ForbiddenException,
   Inject,
   Injectable,
   NotFoundException,
 } from '@nestjs/common';
 import { InjectRepository } from '@nestjs/typeorm';
-import { Repository } from 'typeorm';
-import { Answer } from '../answer/entities/answers.entity';
 import {
-  PERCENTAGE_MULTIPLIER,
-  QUIZ_PASSING_THRESHOLD,
-} from '../common/constants';
+  FindOptionsWhere,
+  In,
+  LessThan,
+  QueryFailedError,
+  Repository,
+} from 'typeorm';
+import { Answer } from '../answer/entities/answers.entity';
+import { OwnershipService } from '../authorization/services/ownership.service';
+import { PERCENTAGE_MULTIPLIER } from '../common/constants';
 import { CentralizedLoggerService } from '../common/logger/services/centralized-logger.service';
+import { QuestionBank } from '../question-banks/entities/question-bank.entity';
 import { Question, QuestionType } from '../question/entities/question.entity';
 import { User } from '../users/entities/user.entity';
-import { CreateQuizDto } from './dto/create-quiz.dto';
+import { QUIZ_EXPIRY_BATCH_SIZE, QUIZ_SUBMIT_GRACE_SECONDS } from './constants';
+import { AttemptSessionDto } from './dto/attempt-session.dto';
+import { CreateQuizDto, QuizRuleDto } from './dto/create-quiz.dto';
+import { QuizAttemptHistoryDto } from './dto/quiz-attempt-history.dto';
 import { QuizResponseDto } from './dto/quiz-response.dto';
 import { QuestionResultDto, QuizResultDto } from './dto/quiz-result.dto';
-import { UserAnswerDto, SubmitQuizDto } from './dto/submit-quiz.dto';
+import {
+  SaveResponsesDto,
+  SubmitQuizDto,
+  UserAnswerDto,
+} from './dto/submit-quiz.dto';
 import { AttemptStatus, QuizAttempt } from './entities/quiz-attempt.entity';
+import { QuizQuestionRule } from './entities/quiz-question-rule.entity';
 import { Quiz } from './entities/quiz.entity';
 import { UserQuestionResponse } from './entities/user-question-response.entity';
+import { QuizCooldownException } from './exceptions/quiz-cooldown.exception';
 import { QuizValidationService } from './services/quiz-validation.service';
+import { resolveAttempts } from './utils/attempt-scoring';
+import { scoreSelection } from './utils/multi-select-scoring';
+import { shuffle } from './utils/shuffle';
+
+// Attempts that count towards the attempt limit and the cooldown
+const FINISHED_STATUSES = [AttemptStatus.COMPLETED, AttemptStatus.ABANDONED];
 
 @Injectable()
 export class QuizService {
@@ -38,7 +60,12 @@ export class QuizService {
     private userQuestionResponseRepository: Repository<UserQuestionResponse>,
     @InjectRepository(User)
     private userRepository: Repository<User>,
+    @InjectRepository(QuizQuestionRule)
+    private quizQuestionRuleRepository: Repository<QuizQuestionRule>,
+    @InjectRepository(QuestionBank)
+    private questionBankRepository: Repository<QuestionBank>,
     private quizValidationService: QuizValidationService,
+    private ownershipService: OwnershipService,
     @Inject(CentralizedLoggerService)
     private readonly logger: CentralizedLoggerService,
   ) {
@@ -48,22 +75,33 @@ export class QuizService {
   async create(createQuizDto: CreateQuizDto): Promise<QuizResponseDto> {
     // Validate the quiz structure
     this.quizValidationService.validateQuiz(createQuizDto);
+    await this.assertRulesCanDraw(createQuizDto);
 
     // Create quiz
     const quiz = this.quizRepository.create({
       title: createQuizDto.title,
       description: createQuizDto.description,
       lesson_id: createQuizDto.lesson_id,
+      max_attempts: createQuizDto.max_attempts ?? null,
+      cooldown_minutes: createQuizDto.cooldown_minutes,
+      time_limit_minutes: createQuizDto.time_limit_minutes ?? null,
+      scoring_policy: createQuizDto.scoring_policy,
+      passing_percentage: createQuizDto.passing_percentage,
+      shuffle_questions: createQuizDto.shuffle_questions,
+      shuffle_answers: createQuizDto.shuffle_answers,
     });
 
     const savedQuiz = await this.quizRepository.save(quiz);
 
     // Create questions and answers
-    for (const questionDto of createQuizDto.questions) {
+    for (const questionDto of createQuizDto.questions ?? []) {
       const question = this.questionRepository.create({
         quiz_id: savedQuiz.id,
         text: questionDto.text,
         type: questionDto.type,
+        scoring: questionDto.scoring,
+        points: questionDto.points,
+        negative_points: questionDto.negative_points,
       });
 
       const savedQuestion = await this.questionRepository.save(question);
@@ -80,18 +118,33 @@ export class QuizService {
       }
     }
 
+    await this.quizQuestionRuleRepository.save(
+      (createQuizDto.rules ?? []).map((ruleDto, position) =>
+        this.quizQuestionRuleRepository.create({
+          quiz_id: savedQuiz.id,
+          bank_id: ruleDto.bank_id,
+          count: ruleDto.count,
+          difficulty: ruleDto.difficulty ?? null,
+          topic: ruleDto.topic ?? null,
+          objective_id: ruleDto.objective_id ?? null,
+          position,
+        }),
+      ),
+    );
+
     // Return the complete quiz with relations
     return this.findOne(savedQuiz.id);
   }
 
   async findAll(): Promise<QuizResponseDto[]> {
     return await this.quizRepository.find({
-      relations: ['lesson', 'questions', 'questions.answers'],
+      relations: ['lesson', 'questions', 'questions.answers', 'rules'],
       order: {
         created_at: 'DESC',
         questions: {
           created_at: 'DESC',
         },
+        rules: { position: 'ASC' },
       },
     });
   }
@@ -99,11 +152,12 @@ export class QuizService {
   async findOne(id: string): Promise<QuizResponseDto> {
     const quiz = await this.quizRepository.findOne({
       where: { id },
-      relations: ['lesson', 'questions', 'questions.answers'],
+      relations: ['lesson', 'questions', 'questions.answers', 'rules'],
       order: {
         questions: {
           created_at: 'DESC',
         },
+        rules: { position: 'ASC' },
       },
     });
 
@@ -117,12 +171,13 @@ export class QuizService {
   async findByLesson(lessonId: string): Promise<QuizResponseDto[]> {
     return await this.quizRepository.find({
       where: { lesson_id: lessonId },
-      relations: ['questions', 'questions.answers'],
+      relations: ['questions', 'questions.answers', 'rules'],
       order: {
         created_at: 'DESC',
         questions: {
           created_at: 'DESC',
         },
+        rules: { position: 'ASC' },
       },
     });
   }
@@ -142,89 +197,150 @@ export class QuizService {
     await this.quizRepository.delete(id);
   }
 
-  async submitQuiz(submitQuizDto: SubmitQuizDto): Promise<QuizResultDto> {
+  async submitQuiz(
+    userId: string,
+    submitQuizDto: SubmitQuizDto,
+  ): Promise<QuizResultDto> {
     this.logger.info('Quiz submission started', {
-      userId: submitQuizDto.user_id,
+      userId,
       quizId: submitQuizDto.quiz_id,
       responseCount: submitQuizDto.responses?.length || 0,
     });
 
     // Validate user exists
     const user = await this.userRepository.findOne({
-      where: { id: submitQuizDto.user_id },
+      where: { id: userId },
     });
     if (!user) {
       throw new NotFoundException('User not found');
     }
 
-    // Get quiz with questions and answers (raw entity, not DTO)
-    const quiz = await this.quizRepository.findOne({
-      where: { id: submitQuizDto.quiz_id },
-      relations: ['questions', 'questions.answers'],
-    });
+    const quiz = await this.findQuizForAttempt(submitQuizDto.quiz_id);
 
-    if (!quiz) {
-      throw new NotFoundException(`Quiz with ID ${submitQuizDto.quiz_id} not found`);
+    let attempt = await this.findOpenAttempt(userId, quiz.id);
+    if (attempt && this.isPastDeadline(attempt)) {
+      await this.finalizeAttempt(quiz, attempt);
+      throw new ForbiddenException(
+        'The time limit for this attempt has passed',
+      );
+    }
+    if (!attempt) {
+      if (this.requiresStart(quiz)) {
+        throw new BadRequestException(
+          quiz.time_limit_minutes !== null
+            ? 'Start this timed quiz before submitting it'
+            : 'Start this quiz before submitting it',
+        );
+      }
+      attempt = await this.openAttempt(userId, quiz);
     }
 
-    // Check if user already has an attempt (since we only allow one attempt per user per quiz)
-    const existingAttempt = await this.quizAttemptRepository.findOne({
-      where: {
-        user_id: submitQuizDto.user_id,
-        quiz_id: submitQuizDto.quiz_id,
-      },
+    const questions = await this.getAttemptQuestions(quiz, attempt);
+    this.assertQuestionsInAttempt(questions, submitQuizDto.responses);
+    await this.saveResponses(questions, attempt, submitQuizDto.responses);
+    const result = await this.finalizeAttempt(quiz, attempt);
+    if (!result) {
+      throw new ConflictException('This attempt has already been submitted');
+    }
+    return result;
+  }
+
+  /**
+   * Opens an attempt, or returns the user's attempt in progress so a learner
+   * can resume after reconnecting. Timed quizzes get a server-side deadline;
+   * the questions are drawn when the attempt opens.
+   */
+  async startAttempt(
+    userId: string,
+    quizId: string,
+  ): Promise<AttemptSessionDto> {
+    const quiz = await this.findQuizForAttempt(quizId);
+
+    const open = await this.findOpenAttempt(userId, quizId);
+    if (open && !this.isPastDeadline(open)) {
+      return this.toSession(open, await this.getAttemptQuestions(quiz, open));
+    }
+    if (open) {
+      await this.finalizeAttempt(quiz, open);
+    }
+
+    const attempt = await this.openAttempt(userId, quiz);
+    this.logger.info('Quiz attempt started', {
+      userId,
+      quizId,
+      attemptId: attempt.id,
+      deadline: attempt.deadline_at,
     });
+    return this.toSession(
+      attempt,
+      await this.getAttemptQuestions(quiz, attempt),
+    );
+  }
 
-    let quizAttempt: QuizAttempt;
+  /** Autosaves answers of an attempt in progress; later saves replace earlier ones. */
+  async saveProgress(
+    userId: string,
+    attemptId: string,
+    saveResponsesDto: SaveResponsesDto,
+  ): Promise<AttemptSessionDto> {
+    const attempt = await this.quizAttemptRepository.findOne({
+      where: { id: attemptId, user_id: userId },
+    });
+    if (!attempt) {
+      throw new NotFoundException(
+        `Quiz attempt with ID ${attemptId} not found`,
+      );
+    }
+    if (attempt.status !== AttemptStatus.IN_PROGRESS) {
+      throw new ConflictException('This attempt is already finished');
+    }
 
-    if (existingAttempt) {
-      // Update existing attempt
-      quizAttempt = existingAttempt;
-      // Clear previous responses
-      await this.userQuestionResponseRepository.delete({
-        quiz_attempt_id: quizAttempt.id,
-      });
-    } else {
-      // Create new attempt
-      quizAttempt = this.quizAttemptRepository.create({
-        user_id: submitQuizDto.user_id,
-        quiz_id: submitQuizDto.quiz_id,
-        started_at: new Date(),
-        total_questions: quiz.questions.length,
-      });
-      quizAttempt = await this.quizAttemptRepository.save(quizAttempt);
+    const quiz = await this.findQuizForAttempt(attempt.quiz_id);
+    if (this.isPastDeadline(attempt)) {
+      await this.finalizeAttempt(quiz, attempt);
+      throw new ForbiddenException(
+        'The time limit for this attempt has passed',
+      );
     }
 
+    const questions = await this.getAttemptQuestions(quiz, attempt);
+    this.assertQuestionsInAttempt(questions, saveResponsesDto.responses);
+    await this.saveResponses(questions, attempt, saveResponsesDto.responses);
+    return this.toSession(attempt, questions);
+  }
+
+  /**
+   * Grades the saved answers of an attempt against the questions it
+   * presented and closes it. An attempt whose time ran out before anything
+   * was answered is abandoned instead. Resolves to null when the attempt was
+   * already closed elsewhere.
+   */
+  async finalizeAttempt(
+    quiz: Quiz,
+    attempt: QuizAttempt,
+  ): Promise<QuizResultDto | null> {
+    const questions = await this.getAttemptQuestions(quiz, attempt);
+    const responses = await this.userQuestionResponseRepository.find({
+      where: { quiz_attempt_id: attempt.id },
+      order: { created_at: 'ASC' },
+    });
+
     const questionResults: QuestionResultDto[] = [];
     let totalScore = 0;
-
-    // Process each response
-    for (const responseDto of submitQuizDto.responses) {
-      const question = quiz.questions.find(
-        (q) => q.id === responseDto.question_id,
-      ) as unknown as Question;
+    for (const response of responses) {
+      const question = questions.find((q) => q.id === response.question_id);
+      // The question was deleted after it was answered
       if (!question) {
-        throw new BadRequestException(
-          `Question ${responseDto.question_id} not found in quiz`,
-        );
+        continue;
       }
 
-      const scoreResult = this.scoreQuestion(question, responseDto);
-
-      // Save user response
-      const userResponse = this.userQuestionResponseRepository.create({
-        quiz_attempt_id: quizAttempt.id,
-        question_id: responseDto.question_id,
-        selected_answer_id: responseDto.selected_answer_id,
-        text_response: responseDto.text_response,
-        is_correct: scoreResult.isCorrect,
-        points_earned: scoreResult.pointsEarned,
+      const scoreResult = this.scoreQuestion(question, {
+        question_id: response.question_id,
+        selected_answer_id: response.selected_answer_id,
+        selected_answer_ids: response.selected_answer_ids ?? undefined,
+        text_response: response.text_response,
       });
-
-      await this.userQuestionResponseRepository.save(userResponse);
-
       totalScore += scoreResult.pointsEarned;
-
       questionResults.push({
         question_id: question.id,
         question_text: question.text,
@@ -232,44 +348,518 @@ export class QuizService {
         correct_answer: scoreResult.correctAnswer,
         is_correct: scoreResult.isCorrect,
         points_earned: scoreResult.pointsEarned,
+        points_possible: scoreResult.pointsPossible,
       });
     }
 
-    // Calculate final score and percentage
+    // Calculate final score and percentage; negative marking cannot push the total below zero
+    totalScore = Math.max(Number(totalScore.toFixed(2)), 0);
+    const maxScore = questions.reduce(
+      (sum, question) => sum + Number(question.points),
+      0,
+    );
     const percentage =
-      quiz.questions.length > 0
-        ? (totalScore / quiz.questions.length) * PERCENTAGE_MULTIPLIER
-        : 0;
-    const passed = percentage >= QUIZ_PASSING_THRESHOLD; // 70% passing threshold
+      maxScore > 0 ? (totalScore / maxScore) * PERCENTAGE_MULTIPLIER : 0;
+    const status =
+      responses.length === 0 && this.isPastDeadline(attempt)
+        ? AttemptStatus.ABANDONED
+        : AttemptStatus.COMPLETED;
+    const passed =
+      status === AttemptStatus.COMPLETED &&
+      percentage >= quiz.passing_percentage;
+    const completedAt = new Date();
 
-    // Update quiz attempt
-    quizAttempt.score = totalScore;
-    quizAttempt.percentage = percentage;
-    quizAttempt.passed = passed;
-    quizAttempt.status = AttemptStatus.COMPLETED;
-    quizAttempt.completed_at = new Date();
+    // A submission and the expiry sweep may race; only one closes the attempt
+    const { affected } = await this.quizAttemptRepository.update(
+      { id: attempt.id, status: AttemptStatus.IN_PROGRESS },
+      {
+        score: totalScore,
+        max_score: maxScore,
+        total_questions: questions.length,
+        percentage,
+        passed,
+        status,
+        completed_at: completedAt,
+      },
+    );
+    if (!affected) {
+      return null;
+    }
+    this.logger.info('Quiz attempt finalized', {
+      attemptId: attempt.id,
+      quizId: quiz.id,
+      status,
+      percentage,
+    });
 
-    await this.quizAttemptRepository.save(quizAttempt);
+    const finishedAttempts = await this.quizAttemptRepository.count({
+      where: {
+        user_id: attempt.user_id,
+        quiz_id: quiz.id,
+        status: In(FINISHED_STATUSES),
+      },
+    });
 
     return {
-      attempt_id: quizAttempt.id,
+      attempt_id: attempt.id,
+      attempt_number: attempt.attempt_number,
+      attempts_remaining:
+        quiz.max_attempts === null
+          ? null
+          : Math.max(quiz.max_attempts - finishedAttempts, 0),
       quiz_id: quiz.id,
       quiz_title: quiz.title,
       score: totalScore,
-      total_questions: quiz.questions.length,
+      max_score: maxScore,
+      total_questions: questions.length,
       percentage: Number(percentage.toFixed(2)),
+      passing_percentage: quiz.passing_percentage,
       passed,
-      completed_at: quizAttempt.completed_at,
+      completed_at: completedAt,
       question_results: questionResults,
     };
   }
 
+  /** Closes in-progress attempts whose deadline has passed; returns how many. */
+  async finalizeExpiredAttempts(): Promise<number> {
+    const expired = await this.quizAttemptRepository.find({
+      where: {
+        status: AttemptStatus.IN_PROGRESS,
+        deadline_at: LessThan(
+          new Date(Date.now() - QUIZ_SUBMIT_GRACE_SECONDS * 1000),
+        ),
+      },
+      order: { deadline_at: 'ASC' },
+      take: QUIZ_EXPIRY_BATCH_SIZE,
+    });
+
+    let finalized = 0;
+    for (const attempt of expired) {
+      const quiz = await this.findQuizForAttempt(attempt.quiz_id);
+      if (await this.finalizeAttempt(quiz, attempt)) {
+        finalized++;
+      }
+    }
+    return finalized;
+  }
+
+  // Raw entity with questions, answers and rules, not the DTO
+  private async findQuizForAttempt(quizId: string): Promise<Quiz> {
+    const quiz = await this.quizRepository.findOne({
+      where: { id: quizId },
+      relations: ['questions', 'questions.answers', 'rules'],
+      order: {
+        questions: { created_at: 'ASC' },
+        rules: { position: 'ASC' },
+      },
+    });
+    if (!quiz) {
+      throw new NotFoundException(`Quiz with ID ${quizId} not found`);
+    }
+    return quiz;
+  }
+
+  /**
+   * Every rule must draw from a bank of the quiz's course holding enough
+   * matching questions, counting the worst case where earlier rules drew
+   * theirs from the same questions; rules are drawn in order.
+   */
+  private async assertRulesCanDraw(
+    createQuizDto: CreateQuizDto,
+  ): Promise<void> {
+    const rules = createQuizDto.rules ?? [];
+    if (rules.length === 0) {
+      return;
+    }
+
+    const courseId = await this.ownershipService.resolveCourseId(
+      'lesson',
+      createQuizDto.lesson_id,
+    );
+    const pools: Set<string>[] = [];
+    for (let index = 0; index < rules.length; index++) {
+      const rule = rules[index];
+      const bank = await this.questionBankRepository.findOne({
+        where: { id: rule.bank_id },
+        select: { id: true, course_id: true },
+      });
+      if (!bank || bank.course_id !== courseId) {
+        throw new BadRequestException(
+          `Rule ${index + 1}: question bank ${rule.bank_id} not found in this course`,
+        );
+      }
+
+      const pool = (
+        await this.questionRepository.find({
+          where: this.matchRule(rule),
+          select: { id: true },
+        })
+      ).map(({ id }) => id);
+      const contested = pools.reduce(
+        (taken, earlierPool, earlierIndex) =>
+          taken +
+          Math.min(
+            rules[earlierIndex].count,
+            pool.filter((id) => earlierPool.has(id)).length,
+          ),
+        0,
+      );
+      pools.push(new Set(pool));
+
+      if (pool.length - contested < rule.count) {
+        throw new BadRequestException(
+          contested > 0
+            ? `Rule ${index + 1}: the bank has ${pool.length} matching questions but earlier rules may draw ${contested} of them, ${rule.count} requested`
+            : `Rule ${index + 1}: the bank has ${pool.length} matching questions, ${rule.count} requested`,
+        );
+      }
+    }
+  }
+
+  /** Bank questions carrying every tag the rule sets. */
+  private matchRule(
+    rule: QuizRuleDto | QuizQuestionRule,
+  ): FindOptionsWhere<Question> {
+    const where: FindOptionsWhere<Question> = { bank_id: rule.bank_id };
+    if (rule.difficulty) {
+      where.difficulty = rule.difficulty;
+    }
+    if (rule.topic) {
+      where.topic = rule.topic;
+    }
+    if (rule.objective_id) {
+      where.objective_id = rule.objective_id;
+    }
+    return where;
+  }
+
+  // Drawn questions only exist once the attempt is open
+  private requiresStart(quiz: Quiz): boolean {
+    return quiz.time_limit_minutes !== null || quiz.rules.length > 0;
+  }
+
+  private assertQuestionsInAttempt(
+    questions: Question[],
+    responses: UserAnswerDto[],
+  ): void {
+    for (const responseDto of responses) {
+      const question = questions.find((q) => q.id === responseDto.question_id);
+      if (!question) {
+        throw new BadRequestException(
+          `Question ${responseDto.question_id} is not part of this attempt`,
+        );
+      }
+
+      const unknownAnswer = (responseDto.selected_answer_ids ?? []).find(
+        (answerId) => !question.answers.some(({ id }) => id === answerId),
+      );
+      if (unknownAnswer) {
+        throw new BadRequestException(
+          `Answer ${unknownAnswer} does not belong to question ${question.id}`,
+        );
+      }
+    }
+  }
+
+  private findOpenAttempt(
+    userId: string,
+    quizId: string,
+  ): Promise<QuizAttempt | null> {
+    return this.quizAttemptRepository.findOne({
+      where: {
+        user_id: userId,
+        quiz_id: quizId,
+        status: AttemptStatus.IN_PROGRESS,
+      },
+      order: { attempt_number: 'DESC' },
+    });
+  }
+
+  private async openAttempt(userId: string, quiz: Quiz): Promise<QuizAttempt> {
+    const previousAttempts = await this.quizAttemptRepository.find({
+      where: { user_id: userId, quiz_id: quiz.id },
+      order: { attempt_number: 'ASC' },
+    });
+    this.assertCanAttempt(quiz, previousAttempts);
+
+    const lastAttempt = previousAttempts[previousAttempts.length - 1];
+    const questions = await this.drawQuestions(quiz);
+    const startedAt = new Date();
+    const attempt = this.quizAttemptRepository.create({
+      user_id: userId,
+      quiz_id: quiz.id,
+      attempt_number: (lastAttempt?.attempt_number ?? 0) + 1,
+      started_at: startedAt,
+      deadline_at:
+        quiz.time_limit_minutes === null
+          ? null
+          : new Date(startedAt.getTime() + quiz.time_limit_minutes * 60 * 1000),
+      question_ids: questions.map(({ id }) => id),
+      answer_order: quiz.shuffle_answers
+        ? questions.reduce<Record<string, string[]>>((order, question) => {
+            order[question.id] = shuffle(question.answers).map(({ id }) => id);
+            return order;
+          }, {})
+        : null,
+      total_questions: questions.length,
+    });
+
+    // Concurrent starts collide on the unique attempt number
+    try {
+      return await this.quizAttemptRepository.save(attempt);
+    } catch (error) {
+      if (
+        error instanceof QueryFailedError &&
+        (error.driverError as { code?: string }).code === '23505'
+      ) {
+        throw new ConflictException(
+          'Another attempt at this quiz was started at the same time',
+        );
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * The fixed questions plus a random pick for each rule, never drawing a
+   * question twice. Shuffled as a whole when the quiz asks for it.
+   */
+  private async drawQuestions(quiz: Quiz): Promise<Question[]> {
+    const drawnIds = new Set(quiz.questions.map(({ id }) => id));
+    const pickedIds: string[] = [];
+    for (const rule of quiz.rules) {
+      const pool = await this.questionRepository.find({
+        where: this.matchRule(rule),
+        select: { id: true },
+      });
+      const picked = shuffle(
+        pool.map(({ id }) => id).filter((id) => !drawnIds.has(id)),
+      ).slice(0, rule.count);
+      picked.forEach((id) => drawnIds.add(id));
+      pickedIds.push(...picked);
+    }
+
+    const questions = [
+      ...quiz.questions,
+      ...(await this.findQuestions(quiz, pickedIds)),
+    ];
+    return quiz.shuffle_questions ? shuffle(questions) : questions;
+  }
+
+  /**
+   * The questions presented in the attempt, in order. Attempts opened before
+   * questions were drawn per attempt use the quiz's own.
+   */
+  private async getAttemptQuestions(
+    quiz: Quiz,
+    attempt: QuizAttempt,
+  ): Promise<Question[]> {
+    if (!attempt.question_ids) {
+      return quiz.questions;
+    }
+    return this.findQuestions(quiz, attempt.question_ids);
+  }
+
+  /**
+   * Questions with their answers in the order of `ids`, loading only those
+   * that are not the quiz's own. Deleted questions drop out.
+   */
+  private async findQuestions(quiz: Quiz, ids: string[]): Promise<Question[]> {
+    const bankIds = ids.filter(
+      (id) => !quiz.questions.some((question) => question.id === id),
+    );
+    const loaded = bankIds.length
+      ? await this.questionRepository.find({
+          where: { id: In(bankIds) },
+          relations: ['answers'],
+        })
+      : [];
+
+    const questions = [...quiz.questions, ...loaded];
+    return ids
+      .map((id) => questions.find((question) => question.id === id))
+      .filter((question): question is Question => question !== undefined);
+  }
+
+  private isPastDeadline(attempt: QuizAttempt): boolean {
+    return (
+      attempt.deadline_at !== null &&
+      Date.now() >
+        attempt.deadline_at.getTime() + QUIZ_SUBMIT_GRACE_SECONDS * 1000
+    );
+  }
+
+  private async saveResponses(
+    questions: Question[],
+    attempt: QuizAttempt,
+    responses: UserAnswerDto[],
+  ): Promise<void> {
+    // The last answer wins when a question appears twice
+    const byQuestion = new Map(
+      responses.map((responseDto) => [responseDto.question_id, responseDto]),
+    );
+    if (byQuestion.size === 0) {
+      return;
+    }
+
+    await this.userQuestionResponseRepository.delete({
+      quiz_attempt_id: attempt.id,
+      question_id: In([...byQuestion.keys()]),
+    });
+    await this.userQuestionResponseRepository.save(
+      [...byQuestion.values()].map((responseDto) => {
+        const question = questions.find(
+          (q) => q.id === responseDto.question_id,
+        ) as Question;
+        const scoreResult = this.scoreQuestion(question, responseDto);
+
+        return this.userQuestionResponseRepository.create({
+          quiz_attempt_id: attempt.id,
+          question_id: responseDto.question_id,
+          selected_answer_id: responseDto.selected_answer_id,
+          selected_answer_ids:
+            question.type === QuestionType.MULTIPLE
+              ? this.getSelectedIds(responseDto)
+              : null,
+          text_response: responseDto.text_response,
+          time_spent_seconds: responseDto.time_spent_seconds ?? null,
+          is_correct: scoreResult.isCorrect,
+          points_earned: scoreResult.pointsEarned,
+        });
+      }),
+    );
+  }
+
+  private async toSession(
+    attempt: QuizAttempt,
+    questions: Question[],
+  ): Promise<AttemptSessionDto> {
+    const responses = await this.userQuestionResponseRepository.find({
+      where: { quiz_attempt_id: attempt.id },
+      order: { created_at: 'ASC' },
+    });
+
+    return {
+      attempt_id: attempt.id,
+      attempt_number: attempt.attempt_number,
+      quiz_id: attempt.quiz_id,
+      status: attempt.status,
+      started_at: attempt.started_at,
+      deadline_at: attempt.deadline_at,
+      remaining_seconds:
+        attempt.deadline_at === null
+          ? null
+          : Math.max(
+              Math.ceil((attempt.deadline_at.getTime() - Date.now()) / 1000),
+              0,
+            ),
+      questions: questions.map((question) => ({
+        id: question.id,
+        text: question.text,
+        type: question.type,
+        points: Number(question.points),
+        // The answer of a text question is what the learner must type
+        answers:
+          question.type === QuestionType.TEXT
+            ? []
+            : this.orderAnswers(attempt, question).map(({ id, text }) => ({
+                id,
+                text,
+              })),
+      })),
+      responses: responses.map((response) => ({
+        question_id: response.question_id,
+        selected_answer_id: response.selected_answer_id,
+        selected_answer_ids: response.selected_answer_ids,
+        text_response: response.text_response,
+        time_spent_seconds: response.time_spent_seconds,
+      })),
+    };
+  }
+
+  /** The question's answers in the order the attempt presents them. */
+  private orderAnswers(attempt: QuizAttempt, question: Question): Answer[] {
+    const order = attempt.answer_order?.[question.id];
+    if (!order) {
+      return question.answers;
+    }
+    // Answers added after the attempt opened go last
+    const position = (answer: Answer) => {
+      const index = order.indexOf(answer.id);
+      return index === -1 ? order.length : index;
+    };
+    return [...question.answers].sort((a, b) => position(a) - position(b));
+  }
+
+  /** Enforces the attempt limit and the cooldown since the last attempt. */
+  private assertCanAttempt(quiz: Quiz, attempts: QuizAttempt[]): void {
+    const finished = attempts.filter((attempt) =>
+      FINISHED_STATUSES.includes(attempt.status),
+    );
+    if (quiz.max_attempts !== null && finished.length >= quiz.max_attempts) {
+      throw new ForbiddenException(
+        `No attempts left: this quiz allows ${quiz.max_attempts}`,
+      );
+    }
+
+    const nextAttemptAt = this.getNextAttemptAt(quiz, finished);
+    if (nextAttemptAt) {
+      throw new QuizCooldownException(
+        Math.ceil((nextAttemptAt.getTime() - Date.now()) / 1000),
+      );
+    }
+  }
+
+  /** When the cooldown after the latest finished attempt ends, if it has not yet. */
+  private getNextAttemptAt(quiz: Quiz, finished: QuizAttempt[]): Date | null {
+    const latest = finished[finished.length - 1];
+    if (!latest?.completed_at || quiz.cooldown_minutes <= 0) {
+      return null;
+    }
+
+    const nextAttemptAt = new Date(
+      latest.completed_at.getTime() + quiz.cooldown_minutes * 60 * 1000,
+    );
+    return nextAttemptAt.getTime() > Date.now() ? nextAttemptAt : null;
+  }
+
+  /**
+   * Weighs the answer's credit by the question's points. A wrong answer costs
+   * the question's negative points; a blank one costs nothing.
+   */
   private scoreQuestion(
     question: Question,
     responseDto: UserAnswerDto,
   ): {
     isCorrect: boolean;
     pointsEarned: number;
+    pointsPossible: number;
+    userAnswer: string;
+    correctAnswer: string;
+  } {
+    const { credit, answered, ...result } = this.scoreAnswer(
+      question,
+      responseDto,
+    );
+    const points = Number(question.points);
+    const penalty =
+      answered && credit === 0 ? Number(question.negative_points) : 0;
+
+    return {
+      ...result,
+      pointsEarned: Number((credit * points - penalty).toFixed(2)),
+      pointsPossible: points,
+    };
+  }
+
+  private scoreAnswer(
+    question: Question,
+    responseDto: UserAnswerDto,
+  ): {
+    isCorrect: boolean;
+    // Share of the question's points earned, 0-1
+    credit: number;
+    answered: boolean;
     userAnswer: string;
     correctAnswer: string;
   } {
@@ -305,7 +895,8 @@ export class QuizService {
     if (!responseDto.selected_answer_id) {
       return {
         isCorrect: false,
-        pointsEarned: 0,
+        credit: 0,
+        answered: false,
         userAnswer: 'No answer selected',
         correctAnswer: correctAnswers[0]?.text || 'Unknown',
       };
@@ -319,7 +910,8 @@ export class QuizService {
 
     return {
       isCorrect,
-      pointsEarned: isCorrect ? 1 : 0,
+      credit: isCorrect ? 1 : 0,
+      answered: true,
       userAnswer: selectedAnswer?.text || 'Unknown',
       correctAnswer: correctAnswers[0]?.text || 'Unknown',
     };
@@ -330,29 +922,46 @@ export class QuizService {
     responseDto: UserAnswerDto,
     correctAnswers: Answer[],
   ) {
-    if (!responseDto.selected_answer_id) {
+    const correctAnswer = correctAnswers.map((a) => a.text).join(', ');
+    const selectedIds = this.getSelectedIds(responseDto);
+    if (selectedIds.length === 0) {
       return {
         isCorrect: false,
-        pointsEarned: 0,
+        credit: 0,
+        answered: false,
         userAnswer: 'No answer selected',
-        correctAnswer: correctAnswers.map((a) => a.text).join(', '),
+        correctAnswer,
       };
     }
 
-    const selectedAnswer = question.answers.find(
-      (answer) => answer.id === responseDto.selected_answer_id,
+    const credit = scoreSelection(
+      question.scoring,
+      question.answers,
+      selectedIds,
     );
 
-    const isCorrect = selectedAnswer?.correct || false;
-
     return {
-      isCorrect,
-      pointsEarned: isCorrect ? 1 : 0,
-      userAnswer: selectedAnswer?.text || 'Unknown',
-      correctAnswer: correctAnswers.map((a) => a.text).join(', '),
+      isCorrect: credit === 1,
+      credit,
+      answered: true,
+      userAnswer: question.answers
+        .filter((answer) => selectedIds.includes(answer.id))
+        .map((answer) => answer.text)
+        .join(', '),
+      correctAnswer,
     };
   }
 
+  // Older clients send a single pick of a multiple choice question
+  private getSelectedIds(responseDto: UserAnswerDto): string[] {
+    if (responseDto.selected_answer_ids) {
+      return responseDto.selected_answer_ids;
+    }
+    return responseDto.selected_answer_id
+      ? [responseDto.selected_answer_id]
+      : [];
+  }
+
   private scoreTextQuestion(
     _question: Question,
     responseDto: UserAnswerDto,
@@ -361,7 +970,8 @@ export class QuizService {
     if (!responseDto.text_response) {
       return {
         isCorrect: false,
-        pointsEarned: 0,
+        credit: 0,
+        answered: false,
         userAnswer: 'No answer provided',
         correctAnswer: correctAnswers[0]?.text || 'Unknown',
       };
@@ -375,12 +985,14 @@ export class QuizService {
 
     return {
       isCorrect,
-      pointsEarned: isCorrect ? 1 : 0,
+      credit: isCorrect ? 1 : 0,
+      answered: true,
       userAnswer,
       correctAnswer,
     };
   }
 
+  /** The user's latest attempt at the quiz, with its responses. */
   async getUserQuizAttempt(
     userId: string,
     quizId: string,
@@ -396,11 +1008,86 @@ export class QuizService {
         'responses.question',
         'responses.selected_answer',
       ],
+      order: { attempt_number: 'DESC' },
+    });
+  }
+
+  /** Every attempt of the user at the quiz and the result under its scoring policy. */
+  async getAttemptHistory(
+    userId: string,
+    quizId: string,
+  ): Promise<QuizAttemptHistoryDto> {
+    const quiz = await this.quizRepository.findOne({ where: { id: quizId } });
+    if (!quiz) {
+      throw new NotFoundException(`Quiz with ID ${quizId} not found`);
+    }
+
+    const attempts = await this.quizAttemptRepository.find({
+      where: { user_id: userId, quiz_id: quizId },
+      order: { attempt_number: 'ASC' },
+    });
+    const finished = attempts.filter((attempt) =>
+      FINISHED_STATUSES.includes(attempt.status),
+    );
+    const result = resolveAttempts(
+      quiz.scoring_policy,
+      quiz.passing_percentage,
+      finished.filter((attempt) => attempt.status === AttemptStatus.COMPLETED),
+    );
+
+    return {
+      quiz_id: quizId,
+      user_id: userId,
+      scoring_policy: quiz.scoring_policy,
+      max_attempts: quiz.max_attempts,
+      attempts_used: finished.length,
+      attempts_remaining:
+        quiz.max_attempts === null
+          ? null
+          : Math.max(quiz.max_attempts - finished.length, 0),
+      next_attempt_at: this.getNextAttemptAt(quiz, finished),
+      percentage: result?.percentage ?? null,
+      passed: result?.passed ?? false,
+      attempts: attempts.map((attempt) => ({
+        attempt_id: attempt.id,
+        attempt_number: attempt.attempt_number,
+        status: attempt.status,
+        score: Number(attempt.score),
+        max_score: Number(attempt.max_score),
+        total_questions: attempt.total_questions,
+        percentage: Number(attempt.percentage),
+        passed: attempt.passed,
+        started_at: attempt.started_at,
+        deadline_at: attempt.deadline_at,
+        completed_at: attempt.completed_at,
+      })),
+    };
+  }
+
+  async findUserAttempts(userId: string): Promise<QuizAttempt[]> {
+    return await this.quizAttemptRepository.find({
+      where: { user_id: userId },
+      relations: ['quiz'],
+      order: { created_at: 'DESC' },
     });
   }
 
   async hasUserPassedQuiz(userId: string, quizId: string): Promise<boolean> {
-    const attempt = await this.getUserQuizAttempt(userId, quizId);
-    return attempt?.passed || false;
+    const quiz = await this.quizRepository.findOne({ where: { id: quizId } });
+    if (!quiz) {
+      return false;
+    }
+
+    const attempts = await this.quizAttemptRepository.find({
+      where: {
+        user_id: userId,
+        quiz_id: quizId,
+        status: AttemptStatus.COMPLETED,
+      },
+    });
+    return (
+      resolveAttempts(quiz.scoring_policy, quiz.passing_percentage, attempts)
+        ?.passed ?? false
+    );
   }
 }
@@ -0,0 +1,61 @@
+import {
+  Inject,
+  Injectable,
+  OnApplicationBootstrap,
+  OnModuleDestroy,
+} from '@nestjs/common';
+import { CentralizedLoggerService } from '../../common/logger/services/centralized-logger.service';
+import { QUIZ_EXPIRY_POLL_SECONDS } from '../constants';
+import { QuizService } from '../quiz.service';
+
+/**
+ * Finalizes timed attempts whose learner never submitted, so the result
+ * counts even when the browser was closed. Safe to run on every instance.
+ */
+@Injectable()
+export class QuizAttemptExpiryService
+  implements OnApplicationBootstrap, OnModuleDestroy
+{
+  private timer?: NodeJS.Timeout;
+  private running = false;
+
+  constructor(
+    private readonly quizService: QuizService,
+    @Inject(CentralizedLoggerService)
+    private readonly logger: CentralizedLoggerService,
+  ) {
+    this.logger.setContext(QuizAttemptExpiryService.name);
+  }
+
+  onApplicationBootstrap(): void {
+    this.timer = setInterval(
+      () => void this.run(),
+      QUIZ_EXPIRY_POLL_SECONDS * 1000,
+    );
+    this.timer.unref();
+  }
+
+  onModuleDestroy(): void {
+    clearInterval(this.timer);
+  }
+
+  async run(): Promise<void> {
+    if (this.running) {
+      return;
+    }
+    this.running = true;
+    try {
+      const finalized = await this.quizService.finalizeExpiredAttempts();
+      if (finalized > 0) {
+        this.logger.info('Finalized expired quiz attempts', { finalized });
+      }
+    } catch (error) {
+      this.logger.error(
+        'Failed to finalize expired quiz attempts',
+        error as Error,
+      );
+    } finally {
+      this.running = false;
+    }
+  }
+}
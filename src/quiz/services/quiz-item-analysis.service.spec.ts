@@ -0,0 +1,189 @@
+import { NotFoundException } from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { Answer } from '../../answer/entities/answers.entity';
+import { queryBuilderRepository } from '../../common/testing/query-builder.stub';
+import {
+  createTestDataSource,
+  recordQueries,
+  repositoryProviders,
+} from '../../common/testing/test-data-source';
+import { Question } from '../../question/entities/question.entity';
+import { ItemFlag } from '../dto/quiz-item-analysis.dto';
+import { QuizAttempt } from '../entities/quiz-attempt.entity';
+import { Quiz } from '../entities/quiz.entity';
+import { QuizItemAnalysisService } from './quiz-item-analysis.service';
+
+describe('QuizItemAnalysisService', () => {
+  let service: QuizItemAnalysisService;
+
+  const quizRepository = { exists: jest.fn() };
+  const attemptRepository = { count: jest.fn() };
+  const questionRows = [
+    {
+      questionId: 'q-easy',
+      text: 'Easy',
+      type: 'unique',
+      presented: '20',
+      responses: '20',
+      correct: '19',
+      discrimination: '0.31234',
+      averageTime: '12.5',
+    },
+    {
+      questionId: 'q-bad',
+      text: 'Misleading',
+      type: 'unique',
+      presented: '20',
+      responses: '18',
+      correct: '3',
+      discrimination: '-0.2',
+      averageTime: null,
+    },
+    {
+      // Drawn from a bank by only some of the attempts
+      questionId: 'q-drawn',
+      text: 'Drawn',
+      type: 'unique',
+      presented: '8',
+      responses: '8',
+      correct: '6',
+      discrimination: null,
+      averageTime: null,
+    },
+  ];
+  const answerRows = [
+    {
+      answerId: 'a-right',
+      questionId: 'q-bad',
+      text: 'Right',
+      correct: true,
+      selections: '3',
+    },
+    {
+      answerId: 'a-wrong',
+      questionId: 'q-bad',
+      text: 'Tempting',
+      correct: false,
+      selections: '15',
+    },
+  ];
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    quizRepository.exists.mockResolvedValue(true);
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        QuizItemAnalysisService,
+        { provide: getRepositoryToken(Quiz), useValue: quizRepository },
+        {
+          provide: getRepositoryToken(Question),
+          useValue: queryBuilderRepository({ many: [questionRows] }),
+        },
+        {
+          provide: getRepositoryToken(Answer),
+          useValue: queryBuilderRepository({ many: [answerRows] }),
+        },
+        {
+          provide: getRepositoryToken(QuizAttempt),
+          useValue: attemptRepository,
+        },
+      ],
+    }).compile();
+
+    service = module.get<QuizItemAnalysisService>(QuizItemAnalysisService);
+  });
+
+  it('should compute difficulty, discrimination and distractor rates', async () => {
+    attemptRepository.count.mockResolvedValue(20);
+
+    const analysis = await service.analyze('quiz-1');
+
+    expect(analysis.flags_enabled).toBe(true);
+    expect(analysis.questions[0]).toMatchObject({
+      question_id: 'q-easy',
+      percent_correct: 95,
+      discrimination: 0.312,
+      average_time_seconds: 12.5,
+      answers: [],
+      flags: [ItemFlag.TOO_EASY],
+    });
+    expect(analysis.questions[1]).toMatchObject({
+      percent_correct: 15,
+      average_time_seconds: null,
+      flags: [ItemFlag.TOO_HARD, ItemFlag.NEGATIVE_DISCRIMINATION],
+    });
+    expect(analysis.questions[1].answers[1]).toMatchObject({
+      answer_id: 'a-wrong',
+      selection_rate: 75,
+    });
+  });
+
+  it('should rate bank questions over the attempts that asked them', async () => {
+    attemptRepository.count.mockResolvedValue(20);
+
+    const analysis = await service.analyze('quiz-1');
+
+    expect(analysis.questions[2]).toMatchObject({
+      question_id: 'q-drawn',
+      presented: 8,
+      percent_correct: 75,
+      flags: [],
+    });
+  });
+
+  it('should not flag questions before enough attempts', async () => {
+    attemptRepository.count.mockResolvedValue(5);
+
+    const analysis = await service.analyze('quiz-1');
+
+    expect(analysis.flags_enabled).toBe(false);
+    expect(analysis.questions.every((q) => q.flags.length === 0)).toBe(true);
+  });
+
+  it('should reject unknown quizzes', async () => {
+    quizRepository.exists.mockResolvedValue(false);
+
+    await expect(service.analyze('missing')).rejects.toThrow(NotFoundException);
+  });
+
+  describe('against the entity metadata', () => {
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    it('should join responses to the attempts that presented each question', async () => {
+      const dataSource = await createTestDataSource();
+      const queries = recordQueries((sql) =>
+        sql.includes('"row_exists"') ? [{ row_exists: 1 }] : [],
+      );
+      const module: TestingModule = await Test.createTestingModule({
+        providers: [
+          QuizItemAnalysisService,
+          ...repositoryProviders(dataSource, [
+            Quiz,
+            Question,
+            Answer,
+            QuizAttempt,
+          ]),
+        ],
+      }).compile();
+
+      await module.get(QuizItemAnalysisService).analyze('quiz-1');
+
+      const questionStats = queries.find(({ sql }) =>
+        sql.includes('FROM "questions" "question"'),
+      )!;
+      expect(questionStats.sql).toContain(
+        'LEFT JOIN "user_question_responses" "response" ' +
+          'ON "response"."quiz_attempt_id" = "attempt"."id" AND "response"."question_id" = "question"."id"',
+      );
+      expect(questionStats.sql).toContain(
+        'WHERE ("question"."quiz_id" = $1 OR EXISTS (',
+      );
+      // Each named parameter is bound once however often it appears
+      expect(questionStats.parameters).toEqual(['quiz-1', 'completed']);
+    });
+  });
+});
@@ -0,0 +1,221 @@
+import { Injectable, NotFoundException } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { Answer } from '../../answer/entities/answers.entity';
+import { PERCENTAGE_MULTIPLIER } from '../../common/constants';
+import {
+  Question,
+  QuestionType,
+} from '../../question/entities/question.entity';
+import {
+  ITEM_ANALYSIS_MIN_ATTEMPTS,
+  ITEM_TOO_EASY_PERCENT,
+  ITEM_TOO_HARD_PERCENT,
+} from '../constants';
+import {
+  AnswerSelectionDto,
+  ItemFlag,
+  QuestionItemAnalysisDto,
+  QuizItemAnalysisDto,
+} from '../dto/quiz-item-analysis.dto';
+import { AttemptStatus, QuizAttempt } from '../entities/quiz-attempt.entity';
+import { Quiz } from '../entities/quiz.entity';
+import { UserQuestionResponse } from '../entities/user-question-response.entity';
+
+interface QuestionStatsRow {
+  questionId: string;
+  text: string;
+  type: QuestionType;
+  presented: string;
+  responses: string;
+  correct: string;
+  discrimination: string | null;
+  averageTime: string | null;
+}
+
+interface AnswerStatsRow {
+  answerId: string;
+  questionId: string;
+  text: string;
+  correct: boolean;
+  selections: string;
+}
+
+const round = (value: number, decimals = 2) =>
+  Math.round(value * 10 ** decimals) / 10 ** decimals;
+
+// The quiz's fixed questions and the bank questions its attempts drew
+const QUIZ_QUESTIONS = `(question.quiz_id = :quizId OR EXISTS (
+  SELECT 1 FROM quiz_attempts drawn
+  WHERE drawn.quiz_id = :quizId AND drawn.status = :status
+    AND question.id = ANY(drawn.question_ids)
+))`;
+
+/**
+ * Classical item analysis over the completed attempts of a quiz. A question
+ * an attempt asked but left unanswered counts as answered incorrectly; rates
+ * are over the attempts that asked the question.
+ */
+@Injectable()
+export class QuizItemAnalysisService {
+  constructor(
+    @InjectRepository(Quiz)
+    private readonly quizRepository: Repository<Quiz>,
+    @InjectRepository(Question)
+    private readonly questionRepository: Repository<Question>,
+    @InjectRepository(Answer)
+    private readonly answerRepository: Repository<Answer>,
+    @InjectRepository(QuizAttempt)
+    private readonly quizAttemptRepository: Repository<QuizAttempt>,
+  ) {}
+
+  async analyze(quizId: string): Promise<QuizItemAnalysisDto> {
+    if (!(await this.quizRepository.exists({ where: { id: quizId } }))) {
+      throw new NotFoundException(`Quiz with ID ${quizId} not found`);
+    }
+
+    const attempts = await this.quizAttemptRepository.count({
+      where: { quiz_id: quizId, status: AttemptStatus.COMPLETED },
+    });
+    const [questions, answers] = await Promise.all([
+      this.getQuestionStats(quizId),
+      this.getAnswerStats(quizId),
+    ]);
+
+    const flagsEnabled = attempts >= ITEM_ANALYSIS_MIN_ATTEMPTS;
+    return {
+      quiz_id: quizId,
+      attempts,
+      flags_enabled: flagsEnabled,
+      questions: questions.map((row) =>
+        this.toItem(
+          row,
+          answers.filter((answer) => answer.questionId === row.questionId),
+          flagsEnabled,
+        ),
+      ),
+    };
+  }
+
+  /**
+   * Per question: responses, correct answers, mean time and the point-biserial
+   * discrimination. The latter is the correlation between answering correctly
+   * and the score on the other questions, so the item does not inflate it.
+   */
+  private getQuestionStats(quizId: string): Promise<QuestionStatsRow[]> {
+    return this.questionRepository
+      .createQueryBuilder('question')
+      .leftJoin(
+        QuizAttempt,
+        'attempt',
+        `attempt.quiz_id = :quizId AND attempt.status = :status AND (
+          question.id = ANY(attempt.question_ids)
+          OR (attempt.question_ids IS NULL AND question.quiz_id = :quizId)
+        )`,
+        { quizId, status: AttemptStatus.COMPLETED },
+      )
+      .leftJoin(
+        UserQuestionResponse,
+        'response',
+        'response.quiz_attempt_id = attempt.id AND response.question_id = question.id',
+      )
+      .select('question.id', 'questionId')
+      .addSelect('question.text', 'text')
+      .addSelect('question.type', 'type')
+      .addSelect('COUNT(attempt.id)', 'presented')
+      .addSelect('COUNT(response.id)', 'responses')
+      .addSelect('COUNT(*) FILTER (WHERE response.is_correct)', 'correct')
+      .addSelect(
+        `CORR(
+          CASE WHEN response.is_correct THEN 1 ELSE 0 END,
+          attempt.score - COALESCE(response.points_earned, 0)
+        )`,
+        'discrimination',
+      )
+      .addSelect('AVG(response.time_spent_seconds)', 'averageTime')
+      .where(QUIZ_QUESTIONS, { quizId, status: AttemptStatus.COMPLETED })
+      .groupBy('question.id')
+      .orderBy('question.created_at', 'ASC')
+      .getRawMany<QuestionStatsRow>();
+  }
+
+  private getAnswerStats(quizId: string): Promise<AnswerStatsRow[]> {
+    return this.answerRepository
+      .createQueryBuilder('answer')
+      .innerJoin('answer.question', 'question')
+      .leftJoin(
+        UserQuestionResponse,
+        'response',
+        // Single picks and each answer of a multi-select
+        '(response.selected_answer_id = answer.id OR answer.id = ANY(response.selected_answer_ids))',
+      )
+      .leftJoin(
+        QuizAttempt,
+        'attempt',
+        // Bank questions are shared, so only this quiz's attempts count
+        'attempt.id = response.quiz_attempt_id AND attempt.quiz_id = :quizId AND attempt.status = :status',
+        { quizId, status: AttemptStatus.COMPLETED },
+      )
+      .select('answer.id', 'answerId')
+      .addSelect('answer.question_id', 'questionId')
+      .addSelect('answer.text', 'text')
+      .addSelect('answer.correct', 'correct')
+      .addSelect('COUNT(attempt.id)', 'selections')
+      .where(QUIZ_QUESTIONS, { quizId, status: AttemptStatus.COMPLETED })
+      .groupBy('answer.id')
+      .orderBy('answer.created_at', 'ASC')
+      .getRawMany<AnswerStatsRow>();
+  }
+
+  private toItem(
+    row: QuestionStatsRow,
+    answers: AnswerStatsRow[],
+    flagsEnabled: boolean,
+  ): QuestionItemAnalysisDto {
+    const presented = Number(row.presented);
+    const percentCorrect = presented
+      ? round((Number(row.correct) / presented) * PERCENTAGE_MULTIPLIER)
+      : 0;
+    const discrimination =
+      row.discrimination == null ? null : round(Number(row.discrimination), 3);
+
+    const flags: ItemFlag[] = [];
+    if (flagsEnabled) {
+      if (percentCorrect > ITEM_TOO_EASY_PERCENT) {
+        flags.push(ItemFlag.TOO_EASY);
+      }
+      if (percentCorrect < ITEM_TOO_HARD_PERCENT) {
+        flags.push(ItemFlag.TOO_HARD);
+      }
+      if (discrimination !== null && discrimination < 0) {
+        flags.push(ItemFlag.NEGATIVE_DISCRIMINATION);
+      }
+    }
+
+    return {
+      question_id: row.questionId,
+      question_text: row.text,
+      type: row.type,
+      presented,
+      responses: Number(row.responses),
+      percent_correct: percentCorrect,
+      discrimination,
+      average_time_seconds:
+        row.averageTime == null ? null : round(Number(row.averageTime)),
+      answers: answers.map(
+        (answer): AnswerSelectionDto => ({
+          answer_id: answer.answerId,
+          text: answer.text,
+          correct: answer.correct,
+          selections: Number(answer.selections),
+          selection_rate: presented
+            ? round(
+                (Number(answer.selections) / presented) * PERCENTAGE_MULTIPLIER,
+              )
+            : 0,
+        }),
+      ),
+      flags,
+    };
+  }
+}
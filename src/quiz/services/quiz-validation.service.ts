@@ -6,27 +6,35 @@ import { CreateQuizDto } from '../dto/create-quiz.dto';
 @Injectable()
 export class QuizValidationService {
   validateQuiz(createQuizDto: CreateQuizDto): void {
-    if (!createQuizDto.questions || createQuizDto.questions.length === 0) {
-      throw new BadRequestException('Quiz must have at least one question');
+    const questions = createQuizDto.questions ?? [];
+    if (questions.length === 0 && !createQuizDto.rules?.length) {
+      throw new BadRequestException(
+        'Quiz must have at least one question or question bank rule',
+      );
     }
 
-    createQuizDto.questions.forEach((question, index) => {
-      this.validateQuestion(question, index);
+    questions.forEach((question, index) => {
+      this.validateQuestion(question, `Question ${index + 1}`);
     });
   }
 
-  private validateQuestion(
+  /** Also used for questions added to a question bank. */
+  validateQuestion(
     question: CreateQuestionDto,
-    questionIndex: number,
+    questionPrefix = 'Question',
   ): void {
-    const questionPrefix = `Question ${questionIndex + 1}`;
-
     if (!question.answers || question.answers.length === 0) {
       throw new BadRequestException(
         `${questionPrefix}: Must have at least one answer`,
       );
     }
 
+    if (question.scoring && question.type !== QuestionType.MULTIPLE) {
+      throw new BadRequestException(
+        `${questionPrefix}: Only multiple choice questions take a scoring scheme`,
+      );
+    }
+
     switch (question.type) {
       case QuestionType.UNIQUE:
         this.validateUniqueQuestion(question, questionPrefix);
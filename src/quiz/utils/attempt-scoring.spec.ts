@@ -0,0 +1,39 @@
+import { ScoringPolicy } from '../enums/scoring-policy.enum';
+import { resolveAttempts } from './attempt-scoring';
+
+describe('resolveAttempts', () => {
+  const attempts = [
+    { attempt_number: 1, percentage: '80.00', passed: true },
+    { attempt_number: 2, percentage: '60.00', passed: false },
+    { attempt_number: 3, percentage: 50, passed: false },
+  ];
+
+  it('should return null before the first attempt', () => {
+    expect(resolveAttempts(ScoringPolicy.HIGHEST, 70, [])).toBeNull();
+  });
+
+  it('should keep the best attempt under the highest policy', () => {
+    expect(resolveAttempts(ScoringPolicy.HIGHEST, 70, attempts)).toEqual({
+      percentage: 80,
+      passed: true,
+    });
+  });
+
+  it('should judge the newest attempt under the latest policy', () => {
+    expect(resolveAttempts(ScoringPolicy.LATEST, 70, attempts)).toEqual({
+      percentage: 50,
+      passed: false,
+    });
+  });
+
+  it("should average the attempts against the quiz's pass mark", () => {
+    expect(resolveAttempts(ScoringPolicy.AVERAGE, 70, attempts)).toEqual({
+      percentage: 63.33,
+      passed: false,
+    });
+    expect(resolveAttempts(ScoringPolicy.AVERAGE, 60, attempts)).toEqual({
+      percentage: 63.33,
+      passed: true,
+    });
+  });
+});
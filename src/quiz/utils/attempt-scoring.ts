@@ -0,0 +1,56 @@
+import { ScoringPolicy } from '../enums/scoring-policy.enum';
+
+export interface ScoredAttempt {
+  attempt_number: number;
+  percentage: number | string;
+  passed: boolean;
+}
+
+export interface AttemptsResult {
+  percentage: number;
+  passed: boolean;
+}
+
+/**
+ * The learner's result over their completed attempts under `policy`, or null
+ * before the first one. Only the average is judged against
+ * `passingPercentage`; single attempts keep the verdict they were graded
+ * with. Percentages may arrive as decimal strings.
+ */
+export function resolveAttempts(
+  policy: ScoringPolicy,
+  passingPercentage: number,
+  attempts: ScoredAttempt[],
+): AttemptsResult | null {
+  if (attempts.length === 0) {
+    return null;
+  }
+
+  switch (policy) {
+    case ScoringPolicy.LATEST: {
+      const latest = attempts.reduce((last, attempt) =>
+        attempt.attempt_number > last.attempt_number ? attempt : last,
+      );
+      return { percentage: Number(latest.percentage), passed: latest.passed };
+    }
+
+    case ScoringPolicy.AVERAGE: {
+      const total = attempts.reduce(
+        (sum, attempt) => sum + Number(attempt.percentage),
+        0,
+      );
+      const percentage = Number((total / attempts.length).toFixed(2));
+      return { percentage, passed: percentage >= passingPercentage };
+    }
+
+    default: {
+      const highest = attempts.reduce((best, attempt) =>
+        Number(attempt.percentage) > Number(best.percentage) ? attempt : best,
+      );
+      return {
+        percentage: Number(highest.percentage),
+        passed: attempts.some((attempt) => attempt.passed),
+      };
+    }
+  }
+}
@@ -0,0 +1,44 @@
+import { MultiSelectScoring } from '../../question/entities/question.entity';
+import { scoreSelection } from './multi-select-scoring';
+
+describe('scoreSelection', () => {
+  // Two correct answers out of four
+  const answers = [
+    { id: 'a', correct: true },
+    { id: 'b', correct: true },
+    { id: 'c', correct: false },
+    { id: 'd', correct: false },
+  ];
+
+  it('should give full credit only for the exact set when all-or-nothing', () => {
+    const score = (ids: string[]) =>
+      scoreSelection(MultiSelectScoring.ALL_OR_NOTHING, answers, ids);
+
+    expect(score(['a', 'b'])).toBe(1);
+    expect(score(['a'])).toBe(0);
+    expect(score(['a', 'b', 'c'])).toBe(0);
+  });
+
+  it('should credit each answer classified right under partial credit', () => {
+    const score = (ids: string[]) =>
+      scoreSelection(MultiSelectScoring.PARTIAL, answers, ids);
+
+    expect(score(['a'])).toBe(0.75);
+    expect(score(['a', 'c'])).toBe(0.5);
+    expect(score(['a', 'b', 'c', 'd'])).toBe(0.5);
+  });
+
+  it('should subtract wrong picks and never go below zero with penalties', () => {
+    const score = (ids: string[]) =>
+      scoreSelection(MultiSelectScoring.PARTIAL_WITH_PENALTY, answers, ids);
+
+    expect(score(['a'])).toBe(0.5);
+    expect(score(['a', 'c'])).toBe(0);
+    expect(score(['a', 'b', 'c'])).toBe(0.5);
+    expect(score(['c', 'd'])).toBe(0);
+  });
+
+  it('should give nothing when no answer is picked', () => {
+    expect(scoreSelection(MultiSelectScoring.PARTIAL, answers, [])).toBe(0);
+  });
+});
@@ -0,0 +1,38 @@
+import { MultiSelectScoring } from '../../question/entities/question.entity';
+
+/**
+ * Credit between 0 and 1 for the answers picked on a multiple choice
+ * question. Picking nothing earns nothing under every scheme.
+ */
+export function scoreSelection(
+  scheme: MultiSelectScoring,
+  answers: { id: string; correct: boolean }[],
+  selectedIds: string[],
+): number {
+  const selected = new Set(selectedIds);
+  if (selected.size === 0) {
+    return 0;
+  }
+
+  const correct = answers.filter((answer) => answer.correct);
+  const wrong = answers.filter((answer) => !answer.correct);
+  const correctPicked = correct.filter(({ id }) => selected.has(id)).length;
+  const wrongPicked = wrong.filter(({ id }) => selected.has(id)).length;
+
+  switch (scheme) {
+    case MultiSelectScoring.PARTIAL:
+      return (
+        (correctPicked + wrong.length - wrongPicked) / (answers.length || 1)
+      );
+
+    case MultiSelectScoring.PARTIAL_WITH_PENALTY:
+      return Math.max(
+        correctPicked / (correct.length || 1) -
+          wrongPicked / (wrong.length || 1),
+        0,
+      );
+
+    default:
+      return correctPicked === correct.length && wrongPicked === 0 ? 1 : 0;
+  }
+}
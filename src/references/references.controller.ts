@@ -12,24 +12,29 @@ import {
   UseGuards,
 } from '@nestjs/common';
 import { ApiOperation, ApiResponse, ApiTags } from '@nestjs/swagger';
-import { Roles } from '../common/decorators/roles.decorator';
+import { ApiKeyResource } from '../api-keys/decorators/api-key-resource.decorator';
+import { PermissionKey } from '../authorization/constants';
+import { CanManage } from '../authorization/decorators/can-manage.decorator';
+import { RequirePermissions } from '../authorization/decorators/require-permissions.decorator';
+import { OwnershipGuard } from '../authorization/guards/ownership.guard';
+import { PermissionsGuard } from '../authorization/guards/permissions.guard';
 import { AuthGuard } from '../common/guards/auth.guard';
-import { RolesGuard } from '../common/guards/roles.guard';
 import { Reference } from '../entities/reference.entity';
-import { UserRole } from '../users/entities/user.entity';
 import { CreateReferenceDto } from './dto/create-reference.dto';
 import { ReferenceResponseDto } from './dto/reference-response.dto';
 import { UpdateReferenceDto } from './dto/update-reference.dto';
 import { ReferencesService } from './references.service';
 
 @Controller('references')
+@ApiKeyResource('courses')
 @ApiTags('references')
-@UseGuards(AuthGuard, RolesGuard)
-@Roles(UserRole.ADMIN)
+@UseGuards(AuthGuard, PermissionsGuard, OwnershipGuard)
 export class ReferencesController {
   constructor(private readonly referencesService: ReferencesService) {}
 
   @Post()
+  @CanManage('lesson', 'lesson_id', { from: 'body' })
+  @CanManage('module', 'module_id', { from: 'body' })
   @ApiOperation({ summary: 'Create a new reference' })
   @ApiResponse({
     status: 201,
@@ -55,11 +60,13 @@ export class ReferencesController {
   }
 
   @Get()
+  @RequirePermissions(PermissionKey.COURSE_MANAGE_ANY)
   findAll(): Promise<ReferenceResponseDto[]> {
     return this.referencesService.findAll();
   }
 
   @Get(':id')
+  @CanManage('reference')
   findOne(
     @Param('id', ParseUUIDPipe) id: string,
   ): Promise<ReferenceResponseDto> {
@@ -67,6 +74,7 @@ export class ReferencesController {
   }
 
   @Get('module/:moduleId')
+  @CanManage('module', 'moduleId')
   @ApiOperation({ summary: 'Get references by module ID' })
   @ApiResponse({
     status: 200,
@@ -91,6 +99,7 @@ export class ReferencesController {
   }
 
   @Get('lesson/:lessonId')
+  @CanManage('lesson', 'lessonId')
   @ApiOperation({ summary: 'Get references by lesson ID' })
   @ApiResponse({
     status: 200,
@@ -115,6 +124,9 @@ export class ReferencesController {
   }
 
   @Patch(':id')
+  @CanManage('reference')
+  @CanManage('lesson', 'lesson_id', { from: 'body' })
+  @CanManage('module', 'module_id', { from: 'body' })
   @ApiOperation({ summary: 'Update reference by ID' })
   @ApiResponse({
     status: 200,
@@ -143,6 +155,7 @@ export class ReferencesController {
   }
 
   @Delete(':id')
+  @CanManage('reference')
   @ApiOperation({ summary: 'Delete reference by ID' })
   @ApiResponse({ status: 204, description: 'Reference deleted successfully' })
   @ApiResponse({
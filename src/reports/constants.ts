@@ -0,0 +1,17 @@
+// Directory report files are written to when REPORTS_PATH is not set; it is never served statically
+export const REPORTS_DEFAULT_PATH = './reports';
+
+// Largest export streamed in the request; bigger ones must go through a report job
+export const REPORT_STREAM_MAX_ROWS = 10_000;
+
+// Rows read from the database per query while writing a report
+export const REPORT_BATCH_SIZE = 1_000;
+
+// How often each instance looks for queued jobs and expired files
+export const REPORT_JOB_POLL_SECONDS = 15;
+
+// How long a finished report stays available for download
+export const REPORT_RETENTION_HOURS = 24;
+
+// Running jobs older than this are assumed lost with their instance and marked failed
+export const REPORT_JOB_TIMEOUT_MINUTES = 60;
@@ -0,0 +1,100 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+import { IsEnum, IsOptional, IsUUID, ValidateNested } from 'class-validator';
+import { DateRangeFilterDto } from '../../common/dto/date-range-filter.dto';
+import { ReportJobStatus } from '../entities/report-job.entity';
+import { ReportFormat } from '../enums/report-format.enum';
+import { ReportType } from '../enums/report-type.enum';
+import type { ReportFilters } from '../interfaces/report-filters.interface';
+
+export class ReportFiltersDto
+  extends DateRangeFilterDto
+  implements ReportFilters
+{
+  @ApiPropertyOptional({ description: 'Only rows tied to this course' })
+  @IsOptional()
+  @IsUUID()
+  courseId?: string;
+
+  @ApiPropertyOptional({
+    description: 'Only rows tied to courses of this category',
+  })
+  @IsOptional()
+  @IsUUID()
+  categoryId?: string;
+}
+
+export class ExportReportQueryDto extends ReportFiltersDto {
+  @ApiPropertyOptional({ enum: ReportFormat, default: ReportFormat.CSV })
+  @IsOptional()
+  @IsEnum(ReportFormat)
+  format?: ReportFormat = ReportFormat.CSV;
+}
+
+export class CreateReportJobDto {
+  @ApiProperty({ enum: ReportType })
+  @IsEnum(ReportType)
+  type: ReportType;
+
+  @ApiPropertyOptional({ enum: ReportFormat, default: ReportFormat.CSV })
+  @IsOptional()
+  @IsEnum(ReportFormat)
+  format?: ReportFormat = ReportFormat.CSV;
+
+  @ApiPropertyOptional({ type: ReportFiltersDto })
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => ReportFiltersDto)
+  filters?: ReportFiltersDto;
+}
+
+export class ReportJobDto {
+  @ApiProperty()
+  id: string;
+
+  @ApiProperty({ enum: ReportType })
+  type: ReportType;
+
+  @ApiProperty({ enum: ReportFormat })
+  format: ReportFormat;
+
+  @ApiProperty({ type: ReportFiltersDto })
+  filters: ReportFilters;
+
+  @ApiProperty({ enum: ReportJobStatus })
+  status: ReportJobStatus;
+
+  @ApiProperty({ nullable: true, type: Number })
+  rowCount: number | null;
+
+  @ApiProperty({
+    description: 'File size in bytes',
+    nullable: true,
+    type: Number,
+  })
+  fileSize: number | null;
+
+  @ApiProperty({
+    description: 'Why the job failed',
+    nullable: true,
+    type: String,
+  })
+  error: string | null;
+
+  @ApiProperty({
+    description: 'Where to fetch the file once the job has completed',
+    nullable: true,
+    type: String,
+    example: '/reports/jobs/6f1c.../download',
+  })
+  downloadUrl: string | null;
+
+  @ApiProperty()
+  createdAt: Date;
+
+  @ApiProperty({ nullable: true, type: Date })
+  completedAt: Date | null;
+
+  @ApiProperty({ nullable: true, type: Date })
+  expiresAt: Date | null;
+}
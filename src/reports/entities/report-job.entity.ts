@@ -0,0 +1,77 @@
+import {
+  Column,
+  CreateDateColumn,
+  Entity,
+  Index,
+  JoinColumn,
+  ManyToOne,
+  PrimaryGeneratedColumn,
+} from 'typeorm';
+import { User } from '../../users/entities/user.entity';
+import { ReportFormat } from '../enums/report-format.enum';
+import { ReportType } from '../enums/report-type.enum';
+import type { ReportFilters } from '../interfaces/report-filters.interface';
+
+export enum ReportJobStatus {
+  QUEUED = 'queued',
+  RUNNING = 'running',
+  COMPLETED = 'completed',
+  FAILED = 'failed',
+  EXPIRED = 'expired',
+}
+
+/**
+ * An export generated in the background. The file lives under REPORTS_PATH
+ * until `expiresAt` and is only downloadable by the user who requested it.
+ */
+@Entity('report_jobs')
+@Index(['status', 'createdAt'])
+export class ReportJob {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ type: 'enum', enum: ReportType })
+  type: ReportType;
+
+  @Column({ type: 'enum', enum: ReportFormat })
+  format: ReportFormat;
+
+  @Column({ type: 'jsonb', default: {} })
+  filters: ReportFilters;
+
+  @Column({
+    type: 'enum',
+    enum: ReportJobStatus,
+    default: ReportJobStatus.QUEUED,
+  })
+  status: ReportJobStatus;
+
+  @Index()
+  @Column({ type: 'uuid' })
+  requestedById: string;
+
+  @ManyToOne(() => User, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'requestedById' })
+  requestedBy: User;
+
+  @Column({ type: 'int', nullable: true })
+  rowCount: number | null;
+
+  @Column({ type: 'bigint', nullable: true })
+  fileSize: string | null;
+
+  @Column({ type: 'varchar', length: 500, nullable: true })
+  error: string | null;
+
+  @CreateDateColumn()
+  createdAt: Date;
+
+  @Column({ type: 'timestamp', nullable: true })
+  startedAt: Date | null;
+
+  @Column({ type: 'timestamp', nullable: true })
+  completedAt: Date | null;
+
+  @Column({ type: 'timestamp', nullable: true })
+  expiresAt: Date | null;
+}
@@ -0,0 +1,4 @@
+export enum ReportFormat {
+  CSV = 'csv',
+  XLSX = 'xlsx',
+}
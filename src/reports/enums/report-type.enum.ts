@@ -0,0 +1,8 @@
+export enum ReportType {
+  USERS = 'users',
+  ENROLLMENTS = 'enrollments',
+  // One row per enrollment with its lesson completion
+  COURSE_PROGRESS = 'course-progress',
+  QUIZ_ATTEMPTS = 'quiz-attempts',
+  REVIEWS = 'reviews',
+}
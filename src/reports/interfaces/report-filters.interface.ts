@@ -0,0 +1,6 @@
+import { DateRangeFilterDto } from '../../common/dto/date-range-filter.dto';
+
+export interface ReportFilters extends DateRangeFilterDto {
+  courseId?: string;
+  categoryId?: string;
+}
@@ -0,0 +1,118 @@
+import {
+  Body,
+  Controller,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  ParseEnumPipe,
+  ParseUUIDPipe,
+  Post,
+  Query,
+  StreamableFile,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiBearerAuth,
+  ApiOperation,
+  ApiParam,
+  ApiProduces,
+  ApiResponse,
+  ApiTags,
+} from '@nestjs/swagger';
+import { PermissionKey } from '../authorization/constants';
+import { RequirePermissions } from '../authorization/decorators/require-permissions.decorator';
+import { PermissionsGuard } from '../authorization/guards/permissions.guard';
+import { CurrentUser } from '../common/decorators/current-user.decorator';
+import { AuthGuard } from '../common/guards/auth.guard';
+import {
+  CreateReportJobDto,
+  ExportReportQueryDto,
+  ReportJobDto,
+} from './dto/report.dto';
+import { ReportFormat } from './enums/report-format.enum';
+import { ReportType } from './enums/report-type.enum';
+import { ReportJobsService } from './services/report-jobs.service';
+import { ReportFile, ReportsService } from './services/reports.service';
+
+const toStreamableFile = ({ stream, fileName, contentType }: ReportFile) =>
+  new StreamableFile(stream, {
+    type: contentType,
+    disposition: `attachment; filename="${fileName}"`,
+  });
+
+@Controller('reports')
+@ApiTags('reports')
+@ApiBearerAuth()
+@UseGuards(AuthGuard, PermissionsGuard)
+@RequirePermissions(PermissionKey.REPORT_EXPORT)
+export class ReportsController {
+  constructor(
+    private readonly reportsService: ReportsService,
+    private readonly reportJobsService: ReportJobsService,
+  ) {}
+
+  @Get('export/:type')
+  @ApiOperation({
+    summary: 'Download a report directly',
+    description:
+      'For exports up to 10,000 rows; larger ones must be created as a report job.',
+  })
+  @ApiParam({ name: 'type', enum: ReportType })
+  @ApiProduces(
+    'text/csv',
+    'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  )
+  @ApiResponse({ status: 200, description: 'The report file' })
+  @ApiResponse({ status: 400, description: 'Too many rows to stream' })
+  async export(
+    @Param('type', new ParseEnumPipe(ReportType)) type: ReportType,
+    @Query() { format = ReportFormat.CSV, ...filters }: ExportReportQueryDto,
+  ): Promise<StreamableFile> {
+    return toStreamableFile(
+      await this.reportsService.open(type, format, filters),
+    );
+  }
+
+  @Post('jobs')
+  @HttpCode(HttpStatus.ACCEPTED)
+  @ApiOperation({ summary: 'Generate a report in the background' })
+  @ApiResponse({ status: 202, type: ReportJobDto })
+  createJob(
+    @CurrentUser('id') userId: string,
+    @Body() dto: CreateReportJobDto,
+  ): Promise<ReportJobDto> {
+    return this.reportJobsService.create(userId, dto);
+  }
+
+  @Get('jobs')
+  @ApiOperation({ summary: 'Your most recent report jobs' })
+  @ApiResponse({ status: 200, type: [ReportJobDto] })
+  findJobs(@CurrentUser('id') userId: string): Promise<ReportJobDto[]> {
+    return this.reportJobsService.findAll(userId);
+  }
+
+  @Get('jobs/:id')
+  @ApiOperation({ summary: 'Status of a report job' })
+  @ApiResponse({ status: 200, type: ReportJobDto })
+  @ApiResponse({ status: 404, description: 'Job not found' })
+  findJob(
+    @CurrentUser('id') userId: string,
+    @Param('id', ParseUUIDPipe) id: string,
+  ): Promise<ReportJobDto> {
+    return this.reportJobsService.findOne(userId, id);
+  }
+
+  @Get('jobs/:id/download')
+  @ApiOperation({ summary: 'Download the file of a completed report job' })
+  @ApiResponse({ status: 200, description: 'The report file' })
+  @ApiResponse({ status: 409, description: 'The job has not completed' })
+  async downloadJob(
+    @CurrentUser('id') userId: string,
+    @Param('id', ParseUUIDPipe) id: string,
+  ): Promise<StreamableFile> {
+    return toStreamableFile(
+      await this.reportJobsService.openDownload(userId, id),
+    );
+  }
+}
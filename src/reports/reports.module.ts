@@ -0,0 +1,25 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { Enrollment } from '../enrollment/entities/enrollment.entity';
+import { QuizAttempt } from '../quiz/entities/quiz-attempt.entity';
+import { Review } from '../reviews/entities/reviews.entity';
+import { User } from '../users/entities/user.entity';
+import { ReportJob } from './entities/report-job.entity';
+import { ReportsController } from './reports.controller';
+import { ReportJobsService } from './services/report-jobs.service';
+import { ReportsService } from './services/reports.service';
+
+@Module({
+  imports: [
+    TypeOrmModule.forFeature([
+      ReportJob,
+      User,
+      Enrollment,
+      QuizAttempt,
+      Review,
+    ]),
+  ],
+  controllers: [ReportsController],
+  providers: [ReportsService, ReportJobsService],
+})
+export class ReportsModule {}
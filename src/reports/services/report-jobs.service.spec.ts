@@ -0,0 +1,296 @@
+import { ConflictException, NotFoundException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import * as fs from 'node:fs/promises';
+import { tmpdir } from 'os';
+import * as path from 'path';
+import type { Writable } from 'stream';
+import { FindOperator } from 'typeorm';
+import { CentralizedLoggerService } from '../../common/logger/services/centralized-logger.service';
+import { ReportJob, ReportJobStatus } from '../entities/report-job.entity';
+import { ReportFormat } from '../enums/report-format.enum';
+import { ReportType } from '../enums/report-type.enum';
+import { ReportJobsService } from './report-jobs.service';
+import { ReportsService } from './reports.service';
+
+describe('ReportJobsService', () => {
+  let service: ReportJobsService;
+  let reportsPath: string;
+  let queued: ReportJob[];
+
+  const job = (overrides: Partial<ReportJob> = {}) =>
+    ({
+      id: 'job-1',
+      type: ReportType.USERS,
+      format: ReportFormat.CSV,
+      filters: {},
+      requestedById: 'admin-1',
+      status: ReportJobStatus.QUEUED,
+      createdAt: new Date('2024-03-01T10:00:00Z'),
+      ...overrides,
+    }) as ReportJob;
+
+  // Hands out the queued jobs one at a time, like a skip-locked select
+  const manager = {
+    findOne: jest.fn(() => Promise.resolve(queued.shift() ?? null)),
+    save: jest.fn((entity: ReportJob) => Promise.resolve(entity)),
+  };
+  const jobRepository = {
+    find: jest.fn(),
+    findOne: jest.fn(),
+    update: jest.fn(),
+    manager: {
+      transaction: jest.fn((work: (m: typeof manager) => Promise<unknown>) =>
+        work(manager),
+      ),
+    },
+  };
+  const reportsService = {
+    write: jest.fn(),
+    fileName: jest.fn(() => 'users-2024-03-01.csv'),
+  };
+  const logger = {
+    setContext: jest.fn(),
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+  };
+
+  const fileOf = (id: string, format = ReportFormat.CSV) =>
+    path.join(reportsPath, `${id}.${format}`);
+  const exists = (filePath: string) =>
+    fs.access(filePath).then(
+      () => true,
+      () => false,
+    );
+  const updatesOf = (id: string) =>
+    (
+      jobRepository.update.mock.calls as [
+        string | Partial<ReportJob>,
+        Partial<ReportJob>,
+      ][]
+    )
+      .filter(([criteria]) =>
+        typeof criteria === 'string' ? criteria === id : criteria.id === id,
+      )
+      .map(([, changes]) => changes);
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    reportsPath = await fs.mkdtemp(path.join(tmpdir(), 'report-jobs-'));
+    queued = [];
+    jobRepository.find.mockResolvedValue([]);
+    jobRepository.update.mockResolvedValue({ affected: 1 });
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ReportJobsService,
+        { provide: getRepositoryToken(ReportJob), useValue: jobRepository },
+        { provide: ReportsService, useValue: reportsService },
+        {
+          provide: ConfigService,
+          useValue: { get: jest.fn(() => reportsPath) },
+        },
+        { provide: CentralizedLoggerService, useValue: logger },
+      ],
+    }).compile();
+
+    service = module.get<ReportJobsService>(ReportJobsService);
+  });
+
+  afterEach(async () => {
+    await fs.rm(reportsPath, { recursive: true, force: true });
+  });
+
+  describe('tick', () => {
+    it('should claim queued jobs oldest first, skipping rows locked elsewhere', async () => {
+      queued = [job()];
+      reportsService.write.mockResolvedValue(0);
+
+      await service.tick();
+
+      expect(manager.findOne).toHaveBeenCalledWith(ReportJob, {
+        where: { status: ReportJobStatus.QUEUED },
+        order: { createdAt: 'ASC' },
+        lock: { mode: 'pessimistic_write', onLocked: 'skip_locked' },
+      });
+      expect(manager.save).toHaveBeenCalledWith(
+        expect.objectContaining({
+          id: 'job-1',
+          status: ReportJobStatus.RUNNING,
+          startedAt: expect.any(Date) as Date,
+        }),
+      );
+      // Claims until nothing is left
+      expect(manager.findOne).toHaveBeenCalledTimes(2);
+    });
+
+    it('should complete a job with its row count, file size and expiry', async () => {
+      queued = [job()];
+      reportsService.write.mockImplementation(
+        (_type, _format, _filters, output: Writable) =>
+          new Promise((resolve) => output.end('id\n1\n2\n', () => resolve(2))),
+      );
+
+      await service.tick();
+
+      const [completed] = updatesOf('job-1');
+      expect(completed).toMatchObject({
+        status: ReportJobStatus.COMPLETED,
+        rowCount: 2,
+        fileSize: '7',
+      });
+      expect(completed.expiresAt!.getTime()).toBeGreaterThan(
+        completed.completedAt!.getTime(),
+      );
+      expect(await fs.readFile(fileOf('job-1'), 'utf8')).toBe('id\n1\n2\n');
+      expect(jobRepository.update).toHaveBeenCalledWith(
+        { id: 'job-1', status: ReportJobStatus.RUNNING },
+        completed,
+      );
+    });
+
+    it('should drop the result of a job another instance already failed', async () => {
+      queued = [job()];
+      reportsService.write.mockImplementation(
+        (_type, _format, _filters, output: Writable) =>
+          new Promise((resolve) => output.end('id\n1\n', () => resolve(1))),
+      );
+      jobRepository.update.mockImplementation((criteria) =>
+        Promise.resolve({ affected: typeof criteria === 'object' ? 0 : 1 }),
+      );
+
+      await service.tick();
+
+      expect(await exists(fileOf('job-1'))).toBe(false);
+      expect(logger.warn).toHaveBeenCalledWith(
+        'Report job finalized elsewhere, result dropped',
+        { jobId: 'job-1' },
+      );
+      expect(logger.info).not.toHaveBeenCalledWith(
+        'Report job completed',
+        expect.anything(),
+      );
+    });
+
+    it('should fail a job and remove its partial file when writing throws', async () => {
+      queued = [job()];
+      reportsService.write.mockImplementation(
+        async (_type, _format, _filters, output: Writable) => {
+          await new Promise((resolve) => output.write('id\n1\n', resolve));
+          throw new Error('connection lost');
+        },
+      );
+
+      await service.tick();
+
+      expect(updatesOf('job-1')).toEqual([
+        expect.objectContaining({
+          status: ReportJobStatus.FAILED,
+          error: 'connection lost',
+        }),
+      ]);
+      expect(await exists(fileOf('job-1'))).toBe(false);
+      expect(logger.error).toHaveBeenCalledWith(
+        'Report job failed',
+        expect.any(Error),
+        { jobId: 'job-1' },
+      );
+    });
+
+    it('should expire finished jobs past their retention and delete their files', async () => {
+      const expired = job({
+        id: 'job-old',
+        format: ReportFormat.XLSX,
+        status: ReportJobStatus.COMPLETED,
+      });
+      await fs.writeFile(fileOf('job-old', ReportFormat.XLSX), 'data');
+      jobRepository.find.mockResolvedValue([expired]);
+
+      await service.tick();
+
+      const [[{ where }]] = jobRepository.find.mock.calls as [
+        [{ where: { status: string; expiresAt: FindOperator<Date> } }],
+      ];
+      expect(where.status).toBe(ReportJobStatus.COMPLETED);
+      expect(where.expiresAt.type).toBe('lessThan');
+      expect(await exists(fileOf('job-old', ReportFormat.XLSX))).toBe(false);
+      expect(updatesOf('job-old')).toEqual([
+        { status: ReportJobStatus.EXPIRED },
+      ]);
+    });
+
+    it('should fail jobs left running past the timeout', async () => {
+      await service.tick();
+
+      const [[criteria, changes]] = jobRepository.update.mock.calls as [
+        [{ status: string; startedAt: FindOperator<Date> }, Partial<ReportJob>],
+      ];
+      expect(criteria.status).toBe(ReportJobStatus.RUNNING);
+      expect(criteria.startedAt.type).toBe('lessThan');
+      expect(criteria.startedAt.value.getTime()).toBeLessThan(
+        Date.now() - 59 * 60 * 1000,
+      );
+      expect(changes).toMatchObject({
+        status: ReportJobStatus.FAILED,
+        error: 'The export was interrupted',
+      });
+    });
+  });
+
+  describe('openDownload', () => {
+    it("should not find another user's job", async () => {
+      jobRepository.findOne.mockResolvedValue(null);
+
+      await expect(service.openDownload('user-2', 'job-1')).rejects.toThrow(
+        NotFoundException,
+      );
+      expect(jobRepository.findOne).toHaveBeenCalledWith({
+        where: { id: 'job-1', requestedById: 'user-2' },
+      });
+    });
+
+    it('should refuse a job that has not completed', async () => {
+      jobRepository.findOne.mockResolvedValue(
+        job({ status: ReportJobStatus.RUNNING }),
+      );
+
+      await expect(service.openDownload('admin-1', 'job-1')).rejects.toThrow(
+        ConflictException,
+      );
+    });
+
+    it('should report a completed job whose file is gone', async () => {
+      jobRepository.findOne.mockResolvedValue(
+        job({ status: ReportJobStatus.COMPLETED }),
+      );
+
+      await expect(service.openDownload('admin-1', 'job-1')).rejects.toThrow(
+        'Report file is no longer available',
+      );
+    });
+
+    it('should stream the file of a completed job', async () => {
+      jobRepository.findOne.mockResolvedValue(
+        job({ status: ReportJobStatus.COMPLETED }),
+      );
+      await fs.writeFile(fileOf('job-1'), 'id\n');
+
+      const file = await service.openDownload('admin-1', 'job-1');
+      const content = await new Promise<string>((resolve, reject) => {
+        const chunks: Buffer[] = [];
+        file.stream
+          .on('data', (chunk: Buffer) => chunks.push(chunk))
+          .on('end', () => resolve(Buffer.concat(chunks).toString()))
+          .on('error', reject);
+      });
+
+      expect(content).toBe('id\n');
+      expect(file).toMatchObject({
+        fileName: 'users-2024-03-01.csv',
+        contentType: expect.stringContaining('text/csv') as string,
+      });
+    });
+  });
+});
@@ -0,0 +1,283 @@
+import {
+  ConflictException,
+  Inject,
+  Injectable,
+  NotFoundException,
+  OnApplicationBootstrap,
+  OnModuleDestroy,
+  OnModuleInit,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectRepository } from '@nestjs/typeorm';
+import { createReadStream, createWriteStream } from 'fs';
+import * as fs from 'node:fs/promises';
+import * as path from 'path';
+import { LessThan, Repository } from 'typeorm';
+import { CentralizedLoggerService } from '../../common/logger/services/centralized-logger.service';
+import {
+  REPORT_JOB_POLL_SECONDS,
+  REPORT_JOB_TIMEOUT_MINUTES,
+  REPORT_RETENTION_HOURS,
+  REPORTS_DEFAULT_PATH,
+} from '../constants';
+import { CreateReportJobDto, ReportJobDto } from '../dto/report.dto';
+import { ReportJob, ReportJobStatus } from '../entities/report-job.entity';
+import { ReportFormat } from '../enums/report-format.enum';
+import { REPORT_CONTENT_TYPES } from '../utils/report-writer';
+import { ReportFile, ReportsService } from './reports.service';
+
+/**
+ * Generates large exports in the background. Every instance polls for queued
+ * jobs and claims them with a skip-locked row lock, so each runs once. Files
+ * are written under REPORTS_PATH, which must be shared when several
+ * instances serve downloads.
+ */
+@Injectable()
+export class ReportJobsService
+  implements OnModuleInit, OnApplicationBootstrap, OnModuleDestroy
+{
+  private readonly reportsPath: string;
+  private timer?: NodeJS.Timeout;
+  private running = false;
+
+  constructor(
+    @InjectRepository(ReportJob)
+    private readonly jobRepository: Repository<ReportJob>,
+    private readonly reportsService: ReportsService,
+    configService: ConfigService,
+    @Inject(CentralizedLoggerService)
+    private readonly logger: CentralizedLoggerService,
+  ) {
+    this.logger.setContext(ReportJobsService.name);
+    this.reportsPath =
+      configService.get<string>('REPORTS_PATH') || REPORTS_DEFAULT_PATH;
+  }
+
+  async onModuleInit(): Promise<void> {
+    await fs.mkdir(this.reportsPath, { recursive: true });
+  }
+
+  onApplicationBootstrap(): void {
+    this.timer = setInterval(
+      () => void this.tick(),
+      REPORT_JOB_POLL_SECONDS * 1000,
+    );
+    this.timer.unref();
+  }
+
+  onModuleDestroy(): void {
+    clearInterval(this.timer);
+  }
+
+  async create(userId: string, dto: CreateReportJobDto): Promise<ReportJobDto> {
+    const job = await this.jobRepository.save(
+      this.jobRepository.create({
+        type: dto.type,
+        format: dto.format ?? ReportFormat.CSV,
+        filters: { ...dto.filters },
+        requestedById: userId,
+      }),
+    );
+    this.logger.info('Report job queued', {
+      jobId: job.id,
+      userId,
+      type: job.type,
+    });
+
+    // Start right away rather than on the next poll
+    void this.tick();
+    return this.toDto(job);
+  }
+
+  async findAll(userId: string): Promise<ReportJobDto[]> {
+    const jobs = await this.jobRepository.find({
+      where: { requestedById: userId },
+      order: { createdAt: 'DESC' },
+      take: 50,
+    });
+    return jobs.map((job) => this.toDto(job));
+  }
+
+  async findOne(userId: string, id: string): Promise<ReportJobDto> {
+    return this.toDto(await this.findOwnJob(userId, id));
+  }
+
+  async openDownload(userId: string, id: string): Promise<ReportFile> {
+    const job = await this.findOwnJob(userId, id);
+    if (job.status !== ReportJobStatus.COMPLETED) {
+      throw new ConflictException(`Report is ${job.status}, not ready`);
+    }
+
+    const filePath = this.filePath(job);
+    try {
+      await fs.access(filePath);
+    } catch {
+      throw new NotFoundException('Report file is no longer available');
+    }
+    return {
+      stream: createReadStream(filePath),
+      fileName: this.reportsService.fileName(
+        job.type,
+        job.format,
+        job.createdAt,
+      ),
+      contentType: REPORT_CONTENT_TYPES[job.format],
+    };
+  }
+
+  /** Housekeeping, then every queued job this instance can claim. */
+  async tick(): Promise<void> {
+    // A long export must not overlap the next poll
+    if (this.running) {
+      return;
+    }
+    this.running = true;
+    try {
+      await this.expireFinished();
+      await this.failInterrupted();
+      for (
+        let job = await this.claimNext();
+        job;
+        job = await this.claimNext()
+      ) {
+        await this.run(job);
+      }
+    } catch (error) {
+      this.logger.error('Failed to process report jobs', error as Error);
+    } finally {
+      this.running = false;
+    }
+  }
+
+  private async claimNext(): Promise<ReportJob | null> {
+    return this.jobRepository.manager.transaction(async (manager) => {
+      const job = await manager.findOne(ReportJob, {
+        where: { status: ReportJobStatus.QUEUED },
+        order: { createdAt: 'ASC' },
+        lock: { mode: 'pessimistic_write', onLocked: 'skip_locked' },
+      });
+      if (!job) {
+        return null;
+      }
+
+      job.status = ReportJobStatus.RUNNING;
+      job.startedAt = new Date();
+      return manager.save(job);
+    });
+  }
+
+  /**
+   * Both outcomes only apply while the job is still running here: once
+   * another instance has failed it as interrupted, the result is dropped.
+   */
+  private async run(job: ReportJob): Promise<void> {
+    const filePath = this.filePath(job);
+    const output = createWriteStream(filePath);
+    const stillRunning = { id: job.id, status: ReportJobStatus.RUNNING };
+
+    try {
+      const rowCount = await this.reportsService.write(
+        job.type,
+        job.format,
+        job.filters,
+        output,
+      );
+      const { size } = await fs.stat(filePath);
+      const completedAt = new Date();
+      const { affected } = await this.jobRepository.update(stillRunning, {
+        status: ReportJobStatus.COMPLETED,
+        rowCount,
+        fileSize: String(size),
+        completedAt,
+        expiresAt: new Date(
+          completedAt.getTime() + REPORT_RETENTION_HOURS * 60 * 60 * 1000,
+        ),
+      });
+      if (!affected) {
+        await fs.rm(filePath, { force: true });
+        this.logger.warn('Report job finalized elsewhere, result dropped', {
+          jobId: job.id,
+        });
+        return;
+      }
+      this.logger.info('Report job completed', { jobId: job.id, rowCount });
+    } catch (error) {
+      output.destroy();
+      await fs.rm(filePath, { force: true });
+      await this.jobRepository.update(stillRunning, {
+        status: ReportJobStatus.FAILED,
+        error: (error as Error).message.slice(0, 500),
+        completedAt: new Date(),
+      });
+      this.logger.error('Report job failed', error as Error, {
+        jobId: job.id,
+      });
+    }
+  }
+
+  private async expireFinished(): Promise<void> {
+    const expired = await this.jobRepository.find({
+      where: {
+        status: ReportJobStatus.COMPLETED,
+        expiresAt: LessThan(new Date()),
+      },
+    });
+    for (const job of expired) {
+      await fs.rm(this.filePath(job), { force: true });
+      await this.jobRepository.update(job.id, {
+        status: ReportJobStatus.EXPIRED,
+      });
+    }
+  }
+
+  /** Jobs left running by an instance that stopped mid-export. */
+  private async failInterrupted(): Promise<void> {
+    await this.jobRepository.update(
+      {
+        status: ReportJobStatus.RUNNING,
+        startedAt: LessThan(
+          new Date(Date.now() - REPORT_JOB_TIMEOUT_MINUTES * 60 * 1000),
+        ),
+      },
+      {
+        status: ReportJobStatus.FAILED,
+        error: 'The export was interrupted',
+        completedAt: new Date(),
+      },
+    );
+  }
+
+  private async findOwnJob(userId: string, id: string): Promise<ReportJob> {
+    const job = await this.jobRepository.findOne({
+      where: { id, requestedById: userId },
+    });
+    if (!job) {
+      throw new NotFoundException(`Report job with ID ${id} not found`);
+    }
+    return job;
+  }
+
+  private filePath(job: ReportJob): string {
+    return path.join(this.reportsPath, `${job.id}.${job.format}`);
+  }
+
+  private toDto(job: ReportJob): ReportJobDto {
+    return {
+      id: job.id,
+      type: job.type,
+      format: job.format,
+      filters: job.filters,
+      status: job.status,
+      rowCount: job.rowCount,
+      fileSize: job.fileSize === null ? null : Number(job.fileSize),
+      error: job.error,
+      downloadUrl:
+        job.status === ReportJobStatus.COMPLETED
+          ? `/reports/jobs/${job.id}/download`
+          : null,
+      createdAt: job.createdAt,
+      completedAt: job.completedAt,
+      expiresAt: job.expiresAt,
+    };
+  }
+}
@@ -0,0 +1,71 @@
+import { BadRequestException } from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+import { getRepositoryToken } from '@nestjs/typeorm';
+import { Enrollment } from '../../enrollment/entities/enrollment.entity';
+import { QuizAttempt } from '../../quiz/entities/quiz-attempt.entity';
+import { Review } from '../../reviews/entities/reviews.entity';
+import { User } from '../../users/entities/user.entity';
+import { REPORT_STREAM_MAX_ROWS } from '../constants';
+import { ReportFormat } from '../enums/report-format.enum';
+import { ReportType } from '../enums/report-type.enum';
+import { ReportsService } from './reports.service';
+
+describe('ReportsService', () => {
+  let service: ReportsService;
+  let rows: number;
+
+  const queryBuilder = {
+    select: jest.fn().mockReturnThis(),
+    addSelect: jest.fn().mockReturnThis(),
+    where: jest.fn().mockReturnThis(),
+    andWhere: jest.fn().mockReturnThis(),
+    getCount: jest.fn(() => Promise.resolve(rows)),
+  };
+  const userRepository = {
+    createQueryBuilder: jest.fn(() => queryBuilder),
+  };
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    rows = 0;
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ReportsService,
+        { provide: getRepositoryToken(User), useValue: userRepository },
+        { provide: getRepositoryToken(Enrollment), useValue: {} },
+        { provide: getRepositoryToken(QuizAttempt), useValue: {} },
+        { provide: getRepositoryToken(Review), useValue: {} },
+      ],
+    }).compile();
+
+    service = module.get<ReportsService>(ReportsService);
+  });
+
+  describe('open', () => {
+    it('should stream an export of up to the row cap', async () => {
+      rows = REPORT_STREAM_MAX_ROWS;
+      const write = jest.spyOn(service, 'write').mockResolvedValue(rows);
+
+      const file = await service.open(ReportType.USERS, ReportFormat.CSV, {});
+
+      expect(file.fileName).toMatch(/^users-\d{4}-\d{2}-\d{2}\.csv$/);
+      expect(write).toHaveBeenCalledWith(
+        ReportType.USERS,
+        ReportFormat.CSV,
+        {},
+        file.stream,
+      );
+    });
+
+    it('should send larger exports to a report job', async () => {
+      rows = REPORT_STREAM_MAX_ROWS + 1;
+      const write = jest.spyOn(service, 'write');
+
+      await expect(
+        service.open(ReportType.USERS, ReportFormat.CSV, {}),
+      ).rejects.toThrow(BadRequestException);
+      expect(write).not.toHaveBeenCalled();
+    });
+  });
+});
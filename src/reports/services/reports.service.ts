@@ -0,0 +1,416 @@
+import { BadRequestException, Injectable } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { PassThrough, type Readable, type Writable } from 'stream';
+import {
+  type ObjectLiteral,
+  Repository,
+  type SelectQueryBuilder,
+} from 'typeorm';
+import { ProgressStatus } from '../../course-progress/entities/course-progress.entity';
+import { Course } from '../../courses/entities/course.entity';
+import { Enrollment } from '../../enrollment/entities/enrollment.entity';
+import { Lesson } from '../../lessons/entities/lesson.entity';
+import { Module } from '../../modules/entities/module.entity';
+import { QuizAttempt } from '../../quiz/entities/quiz-attempt.entity';
+import { Review } from '../../reviews/entities/reviews.entity';
+import { User } from '../../users/entities/user.entity';
+import { UserAccountStatus } from '../../users/enums/user-account-status.enum';
+import { REPORT_BATCH_SIZE, REPORT_STREAM_MAX_ROWS } from '../constants';
+import { ReportFormat } from '../enums/report-format.enum';
+import { ReportType } from '../enums/report-type.enum';
+import type { ReportFilters } from '../interfaces/report-filters.interface';
+import {
+  REPORT_CONTENT_TYPES,
+  type ReportColumn,
+  type ReportRow,
+  writeReport,
+} from '../utils/report-writer';
+
+interface ReportSource {
+  columns: ReportColumn[];
+  // Selected columns that identify a row, used to page through the results
+  key: { expression: string; alias: string }[];
+  build: (filters: ReportFilters) => SelectQueryBuilder<ObjectLiteral>;
+  transform?: (row: ReportRow) => ReportRow;
+}
+
+export interface ReportFile {
+  stream: Readable;
+  fileName: string;
+  contentType: string;
+}
+
+/**
+ * Reads the exportable datasets in keyset-paginated batches and writes them
+ * as CSV or XLSX, so memory stays flat however many rows there are.
+ */
+@Injectable()
+export class ReportsService {
+  private readonly sources: Record<ReportType, ReportSource>;
+
+  constructor(
+    @InjectRepository(User)
+    private readonly userRepository: Repository<User>,
+    @InjectRepository(Enrollment)
+    private readonly enrollmentRepository: Repository<Enrollment>,
+    @InjectRepository(QuizAttempt)
+    private readonly attemptRepository: Repository<QuizAttempt>,
+    @InjectRepository(Review)
+    private readonly reviewRepository: Repository<Review>,
+  ) {
+    this.sources = {
+      [ReportType.USERS]: this.usersSource(),
+      [ReportType.ENROLLMENTS]: this.enrollmentsSource(),
+      [ReportType.COURSE_PROGRESS]: this.courseProgressSource(),
+      [ReportType.QUIZ_ATTEMPTS]: this.quizAttemptsSource(),
+      [ReportType.REVIEWS]: this.reviewsSource(),
+    };
+  }
+
+  count(type: ReportType, filters: ReportFilters): Promise<number> {
+    return this.sources[type].build(filters).getCount();
+  }
+
+  /** Streams a small export straight into the response. */
+  async open(
+    type: ReportType,
+    format: ReportFormat,
+    filters: ReportFilters,
+  ): Promise<ReportFile> {
+    const rows = await this.count(type, filters);
+    if (rows > REPORT_STREAM_MAX_ROWS) {
+      throw new BadRequestException(
+        `This export has ${rows} rows; exports over ${REPORT_STREAM_MAX_ROWS} rows must be created as a report job`,
+      );
+    }
+
+    const stream = new PassThrough();
+    // Errors after the headers are sent can only abort the download
+    this.write(type, format, filters, stream).catch((error: Error) =>
+      stream.destroy(error),
+    );
+    return {
+      stream,
+      fileName: this.fileName(type, format),
+      contentType: REPORT_CONTENT_TYPES[format],
+    };
+  }
+
+  /** Writes the whole report to `output`, ends it and resolves to the row count. */
+  write(
+    type: ReportType,
+    format: ReportFormat,
+    filters: ReportFilters,
+    output: Writable,
+  ): Promise<number> {
+    const source = this.sources[type];
+    return writeReport(
+      format,
+      type,
+      source.columns,
+      (handle) => this.forEachBatch(source, filters, handle),
+      output,
+    );
+  }
+
+  fileName(type: ReportType, format: ReportFormat, date = new Date()): string {
+    return `${type}-${date.toISOString().slice(0, 10)}.${format}`;
+  }
+
+  private async forEachBatch(
+    source: ReportSource,
+    filters: ReportFilters,
+    handle: (rows: ReportRow[]) => Promise<void>,
+  ): Promise<number> {
+    const keyList = source.key.map(({ expression }) => expression).join(', ');
+    let after: Record<string, unknown> | undefined;
+    let total = 0;
+
+    for (;;) {
+      const query = source.build(filters);
+      if (after) {
+        const params = source.key.map((_, index) => `:after${index}`);
+        query.andWhere(`(${keyList}) > (${params.join(', ')})`, after);
+      }
+      source.key.forEach(({ expression }, index) =>
+        index
+          ? query.addOrderBy(expression, 'ASC')
+          : query.orderBy(expression, 'ASC'),
+      );
+
+      const rows = await query.limit(REPORT_BATCH_SIZE).getRawMany<ReportRow>();
+      if (!rows.length) {
+        break;
+      }
+      await handle(source.transform ? rows.map(source.transform) : rows);
+      total += rows.length;
+      if (rows.length < REPORT_BATCH_SIZE) {
+        break;
+      }
+
+      const last = rows[rows.length - 1];
+      after = Object.fromEntries(
+        source.key.map(({ alias }, index) => [`after${index}`, last[alias]]),
+      );
+    }
+    return total;
+  }
+
+  private applyDateRange(
+    query: SelectQueryBuilder<ObjectLiteral>,
+    column: string,
+    { startDate, endDate }: ReportFilters,
+  ): void {
+    if (startDate) {
+      query.andWhere(`${column} >= :startDate`, {
+        startDate: new Date(startDate),
+      });
+    }
+    if (endDate) {
+      query.andWhere(`${column} <= :endDate`, { endDate: new Date(endDate) });
+    }
+  }
+
+  /** Filters on the course joined as `course`. */
+  private applyCourseFilters(
+    query: SelectQueryBuilder<ObjectLiteral>,
+    { courseId, categoryId }: ReportFilters,
+  ): void {
+    if (courseId) {
+      query.andWhere('course.id = :courseId', { courseId });
+    }
+    if (categoryId) {
+      query.andWhere('course.categoryId = :categoryId', { categoryId });
+    }
+  }
+
+  /** Accounts by signup date; course filters keep the learners enrolled there. */
+  private usersSource(): ReportSource {
+    return {
+      columns: [
+        { key: 'id', header: 'User ID' },
+        { key: 'name', header: 'Name' },
+        { key: 'email', header: 'Email' },
+        { key: 'role', header: 'Role' },
+        { key: 'status', header: 'Status' },
+        { key: 'emailVerifiedAt', header: 'Email verified at' },
+        { key: 'createdAt', header: 'Signed up at' },
+      ],
+      key: [{ expression: 'user.id', alias: 'id' }],
+      build: (filters) => {
+        const query = this.userRepository
+          .createQueryBuilder('user')
+          .select('user.id', 'id')
+          .addSelect('user.name', 'name')
+          .addSelect('user.email', 'email')
+          .addSelect('user.role', 'role')
+          .addSelect(
+            `CASE
+              WHEN user.anonymizedAt IS NOT NULL THEN '${UserAccountStatus.ANONYMIZED}'
+              WHEN user.suspendedAt IS NOT NULL THEN '${UserAccountStatus.SUSPENDED}'
+              ELSE '${UserAccountStatus.ACTIVE}'
+            END`,
+            'status',
+          )
+          .addSelect('user.emailVerifiedAt', 'emailVerifiedAt')
+          .addSelect('user.createdAt', 'createdAt')
+          .where('user.isServiceAccount = false');
+        this.applyDateRange(query, 'user.createdAt', filters);
+
+        if (filters.courseId || filters.categoryId) {
+          const enrolled = query
+            .subQuery()
+            .select('1')
+            .from(Enrollment, 'enrollment')
+            .innerJoin('enrollment.course', 'course')
+            .where('enrollment.user = user.id');
+          this.applyCourseFilters(enrolled, filters);
+          query.andWhere(`EXISTS ${enrolled.getQuery()}`, {
+            courseId: filters.courseId,
+            categoryId: filters.categoryId,
+          });
+        }
+        return query;
+      },
+    };
+  }
+
+  private enrollmentsSource(): ReportSource {
+    return {
+      columns: [
+        { key: 'id', header: 'Enrollment ID' },
+        { key: 'userId', header: 'User ID' },
+        { key: 'userEmail', header: 'Email' },
+        { key: 'courseId', header: 'Course ID' },
+        { key: 'courseTitle', header: 'Course' },
+        { key: 'enrolledAt', header: 'Enrolled at' },
+        { key: 'isActive', header: 'Active' },
+        { key: 'certificateIssuedAt', header: 'Certificate issued at' },
+      ],
+      key: [{ expression: 'enrollment.id', alias: 'id' }],
+      build: (filters) => {
+        const query = this.enrollmentRepository
+          .createQueryBuilder('enrollment')
+          .innerJoin('enrollment.user', 'user')
+          .innerJoin('enrollment.course', 'course')
+          .select('enrollment.id', 'id')
+          .addSelect('user.id', 'userId')
+          .addSelect('user.email', 'userEmail')
+          .addSelect('course.id', 'courseId')
+          .addSelect('course.title', 'courseTitle')
+          .addSelect('enrollment.enrolledAt', 'enrolledAt')
+          .addSelect('enrollment.isActive', 'isActive')
+          .addSelect('enrollment.issuedAt', 'certificateIssuedAt');
+        this.applyDateRange(query, 'enrollment.enrolledAt', filters);
+        this.applyCourseFilters(query, filters);
+        return query;
+      },
+    };
+  }
+
+  /** One row per enrollment; dates filter on the enrollment date. */
+  private courseProgressSource(): ReportSource {
+    return {
+      columns: [
+        { key: 'enrollmentId', header: 'Enrollment ID' },
+        { key: 'userEmail', header: 'Email' },
+        { key: 'courseId', header: 'Course ID' },
+        { key: 'courseTitle', header: 'Course' },
+        { key: 'totalLessons', header: 'Lessons' },
+        { key: 'completedLessons', header: 'Lessons completed' },
+        { key: 'progressPercent', header: 'Progress %' },
+        { key: 'lastActivityAt', header: 'Last activity at' },
+        { key: 'enrolledAt', header: 'Enrolled at' },
+      ],
+      key: [{ expression: 'enrollment.id', alias: 'enrollmentId' }],
+      build: (filters) => {
+        const query = this.enrollmentRepository
+          .createQueryBuilder('enrollment')
+          .innerJoin('enrollment.user', 'user')
+          .innerJoin('enrollment.course', 'course')
+          .leftJoin('enrollment.progress', 'progress');
+        const lessons = query
+          .subQuery()
+          .select('COUNT(*)')
+          .from(Lesson, 'lesson')
+          .innerJoin(Module, 'module', 'module.id = lesson.module_id')
+          .where('module.course_id = course.id')
+          .getQuery();
+
+        query
+          .select('enrollment.id', 'enrollmentId')
+          .addSelect('user.email', 'userEmail')
+          .addSelect('course.id', 'courseId')
+          .addSelect('course.title', 'courseTitle')
+          .addSelect(lessons, 'totalLessons')
+          .addSelect(
+            'COUNT(progress.id) FILTER (WHERE progress.status = :completed)',
+            'completedLessons',
+          )
+          .addSelect('MAX(progress.updatedAt)', 'lastActivityAt')
+          .addSelect('enrollment.enrolledAt', 'enrolledAt')
+          .setParameter('completed', ProgressStatus.COMPLETED)
+          .groupBy('enrollment.id')
+          .addGroupBy('user.id')
+          .addGroupBy('course.id');
+        this.applyDateRange(query, 'enrollment.enrolledAt', filters);
+        this.applyCourseFilters(query, filters);
+        return query;
+      },
+      transform: (row) => {
+        const total = Number(row.totalLessons);
+        const completed = Number(row.completedLessons);
+        return {
+          ...row,
+          totalLessons: total,
+          completedLessons: completed,
+          progressPercent: total
+            ? Math.round((completed / total) * 10000) / 100
+            : 0,
+        };
+      },
+    };
+  }
+
+  /** Attempts by start date; course filters apply through the quiz's lesson. */
+  private quizAttemptsSource(): ReportSource {
+    return {
+      columns: [
+        { key: 'id', header: 'Attempt ID' },
+        { key: 'userEmail', header: 'Email' },
+        { key: 'quizId', header: 'Quiz ID' },
+        { key: 'quizTitle', header: 'Quiz' },
+        { key: 'courseTitle', header: 'Course' },
+        { key: 'status', header: 'Status' },
+        { key: 'score', header: 'Score' },
+        { key: 'totalQuestions', header: 'Questions' },
+        { key: 'percentage', header: 'Percentage' },
+        { key: 'passed', header: 'Passed' },
+        { key: 'startedAt', header: 'Started at' },
+        { key: 'completedAt', header: 'Completed at' },
+      ],
+      key: [{ expression: 'attempt.id', alias: 'id' }],
+      build: (filters) => {
+        const query = this.attemptRepository
+          .createQueryBuilder('attempt')
+          .innerJoin('attempt.user', 'user')
+          .innerJoin('attempt.quiz', 'quiz')
+          .leftJoin(Lesson, 'lesson', 'lesson.id = quiz.lesson_id')
+          .leftJoin(Module, 'module', 'module.id = lesson.module_id')
+          .leftJoin(Course, 'course', 'course.id = module.course_id')
+          .select('attempt.id', 'id')
+          .addSelect('user.email', 'userEmail')
+          .addSelect('quiz.id', 'quizId')
+          .addSelect('quiz.title', 'quizTitle')
+          .addSelect('course.title', 'courseTitle')
+          .addSelect('attempt.status', 'status')
+          .addSelect('attempt.score', 'score')
+          .addSelect('attempt.total_questions', 'totalQuestions')
+          .addSelect('attempt.percentage', 'percentage')
+          .addSelect('attempt.passed', 'passed')
+          .addSelect('attempt.started_at', 'startedAt')
+          .addSelect('attempt.completed_at', 'completedAt');
+        this.applyDateRange(query, 'attempt.created_at', filters);
+        this.applyCourseFilters(query, filters);
+        return query;
+      },
+      transform: (row) => ({ ...row, percentage: Number(row.percentage) }),
+    };
+  }
+
+  private reviewsSource(): ReportSource {
+    return {
+      columns: [
+        { key: 'courseId', header: 'Course ID' },
+        { key: 'courseTitle', header: 'Course' },
+        { key: 'userId', header: 'User ID' },
+        { key: 'userEmail', header: 'Email' },
+        { key: 'rating', header: 'Rating' },
+        { key: 'title', header: 'Title' },
+        { key: 'content', header: 'Review' },
+        { key: 'createdAt', header: 'Created at' },
+      ],
+      key: [
+        { expression: 'review.courseId', alias: 'courseId' },
+        { expression: 'review.userId', alias: 'userId' },
+      ],
+      build: (filters) => {
+        const query = this.reviewRepository
+          .createQueryBuilder('review')
+          .innerJoin('review.user', 'user')
+          .innerJoin('review.course', 'course')
+          .select('review.courseId', 'courseId')
+          .addSelect('course.title', 'courseTitle')
+          .addSelect('review.userId', 'userId')
+          .addSelect('user.email', 'userEmail')
+          .addSelect('review.rating', 'rating')
+          .addSelect('review.title', 'title')
+          .addSelect('review.content', 'content')
+          .addSelect('review.createdAt', 'createdAt');
+        this.applyDateRange(query, 'review.createdAt', filters);
+        this.applyCourseFilters(query, filters);
+        return query;
+      },
+    };
+  }
+}
@@ -0,0 +1,47 @@
+import { PassThrough } from 'stream';
+import { ReportFormat } from '../enums/report-format.enum';
+import { ReportRow, toCsvCell, writeReport } from './report-writer';
+
+describe('report writer', () => {
+  it('should quote cells with separators and defuse formulas', () => {
+    expect(toCsvCell('plain')).toBe('plain');
+    expect(toCsvCell('a, "b"')).toBe('"a, ""b"""');
+    expect(toCsvCell('=HYPERLINK("x")')).toBe('"\'=HYPERLINK(""x"")"');
+    expect(toCsvCell(-3)).toBe('-3');
+    expect(toCsvCell(null)).toBe('');
+    expect(toCsvCell(new Date('2026-03-01T00:00:00Z'))).toBe(
+      '2026-03-01T00:00:00.000Z',
+    );
+  });
+
+  it('should write every batch as CSV', async () => {
+    const output = new PassThrough();
+    const chunks: Buffer[] = [];
+    output.on('data', (chunk: Buffer) => chunks.push(chunk));
+    const batches: ReportRow[][] = [
+      [{ id: '1', name: 'Ada' }],
+      [{ id: '2', name: 'Grace' }],
+    ];
+
+    const rowCount = await writeReport(
+      ReportFormat.CSV,
+      'users',
+      [
+        { key: 'id', header: 'ID' },
+        { key: 'name', header: 'Name' },
+      ],
+      async (handle) => {
+        for (const rows of batches) {
+          await handle(rows);
+        }
+        return 2;
+      },
+      output,
+    );
+
+    expect(rowCount).toBe(2);
+    expect(Buffer.concat(chunks).toString('utf8')).toBe(
+      '\uFEFFID,Name\r\n1,Ada\r\n2,Grace\r\n',
+    );
+  });
+});
@@ -0,0 +1,111 @@
+import { once } from 'events';
+import { stream as excel } from 'exceljs';
+import type { Writable } from 'stream';
+import { finished } from 'stream/promises';
+import { ReportFormat } from '../enums/report-format.enum';
+
+export interface ReportColumn {
+  key: string;
+  header: string;
+}
+
+export type ReportRow = Record<string, unknown>;
+
+/** Feeds every batch of rows to `handle` in order and resolves to the row count. */
+export type ReportBatches = (
+  handle: (rows: ReportRow[]) => Promise<void>,
+) => Promise<number>;
+
+export const REPORT_CONTENT_TYPES: Record<ReportFormat, string> = {
+  [ReportFormat.CSV]: 'text/csv; charset=utf-8',
+  [ReportFormat.XLSX]:
+    'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+};
+
+// Spreadsheet apps run cells starting with these as formulas
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+/** One CSV cell; text that a spreadsheet would evaluate is defused with a quote. */
+export function toCsvCell(value: unknown): string {
+  if (value === null || value === undefined) {
+    return '';
+  }
+
+  let text: string;
+  if (value instanceof Date) {
+    text = value.toISOString();
+  } else if (typeof value === 'string') {
+    text = FORMULA_PREFIX.test(value) ? `'${value}` : value;
+  } else if (typeof value === 'object') {
+    text = JSON.stringify(value);
+  } else {
+    text = String(value as number | boolean | bigint);
+  }
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+const toCsvLine = (cells: unknown[]) => `${cells.map(toCsvCell).join(',')}\r\n`;
+
+/** Writes the rows to `output` as they are read and ends it. */
+export async function writeReport(
+  format: ReportFormat,
+  sheetName: string,
+  columns: ReportColumn[],
+  batches: ReportBatches,
+  output: Writable,
+): Promise<number> {
+  const rowCount =
+    format === ReportFormat.XLSX
+      ? await writeXlsx(sheetName, columns, batches, output)
+      : await writeCsv(columns, batches, output);
+  await finished(output);
+  return rowCount;
+}
+
+async function writeCsv(
+  columns: ReportColumn[],
+  batches: ReportBatches,
+  output: Writable,
+): Promise<number> {
+  const write = async (chunk: string) => {
+    if (!output.write(chunk)) {
+      await once(output, 'drain');
+    }
+  };
+
+  // The byte order mark makes Excel read the file as UTF-8
+  await write(`\uFEFF${toCsvLine(columns.map(({ header }) => header))}`);
+  const rowCount = await batches((rows) =>
+    write(
+      rows.map((row) => toCsvLine(columns.map(({ key }) => row[key]))).join(''),
+    ),
+  );
+  output.end();
+  return rowCount;
+}
+
+async function writeXlsx(
+  sheetName: string,
+  columns: ReportColumn[],
+  batches: ReportBatches,
+  output: Writable,
+): Promise<number> {
+  const workbook = new excel.xlsx.WorkbookWriter({
+    stream: output,
+    useStyles: false,
+    useSharedStrings: false,
+  });
+  const sheet = workbook.addWorksheet(sheetName);
+  sheet.columns = columns.map(({ key, header }) => ({ key, header }));
+
+  const rowCount = await batches((rows) => {
+    for (const row of rows) {
+      sheet.addRow(row).commit();
+    }
+    return Promise.resolve();
+  });
+  sheet.commit();
+  // Ends the output stream once the archive is complete
+  await workbook.commit();
+  return rowCount;
+}
@@ -6,7 +6,6 @@ import {
   HttpCode,
   HttpStatus,
   Param,
-  Patch,
   Post,
   Put,
   Query,
@@ -20,8 +19,8 @@ import {
   ApiResponse,
   ApiTags,
 } from '@nestjs/swagger';
+import { DisallowImpersonation } from '../../impersonation/decorators/disallow-impersonation.decorator';
 import { CreateUserDto } from '../dto/create-user.dto';
-import { LinkWalletDto } from '../dto/link-wallet.dto';
 import { UpdateUserDto } from '../dto/update-user.dto';
 import { UserResponseDto } from '../dto/user-response.dto';
 import { UsersService } from '../providers/users.service';
@@ -117,8 +116,8 @@ export class UsersController {
   @ApiOperation({ summary: 'Get a user by their linked wallet address' })
   @ApiParam({
     name: 'address',
-    description: 'Ethereum-compatible wallet address',
-    example: '0xAbCdEf1234567890AbCdEf1234567890AbCdEf12',
+    description: 'Verified wallet address (Stellar public key)',
+    example: 'GBRPYHIL2CI3FNQ4BXLFMNDLFJUNPU2HY3ZMFSHONUCEOASW7QC7OX2H',
   })
   @ApiResponse({
     status: 200,
@@ -172,6 +171,7 @@ export class UsersController {
    * @throws {Error} User not found error if the user with the specified ID does not exist, or validation error if the update data is invalid.
    */
   @Put(':id')
+  @DisallowImpersonation()
   @HttpCode(HttpStatus.OK)
   @ApiOperation({ summary: 'Update user by ID' })
   @ApiResponse({ status: 200, description: 'User updated successfully' })
@@ -189,37 +189,6 @@ export class UsersController {
     return { message: 'User updated successfully', data: user };
   }
 
-  // PATCH /users/:id/wallet
-
-  @Patch(':id/wallet')
-  @HttpCode(HttpStatus.OK)
-  @ApiOperation({ summary: 'Link a Web3 wallet address to an existing user' })
-  @ApiParam({ name: 'id', description: 'UUID of the user to update' })
-  @ApiResponse({
-    status: 200,
-    description: 'Wallet linked successfully',
-    schema: {
-      type: 'object',
-      properties: { message: { type: 'string' }, data: { type: 'object' } },
-    },
-  })
-  @ApiResponse({
-    status: 400,
-    description: 'Bad request – invalid address format',
-  })
-  @ApiResponse({ status: 404, description: 'User not found' })
-  @ApiResponse({
-    status: 409,
-    description: 'Conflict – wallet already linked to another account',
-  })
-  async linkWallet(
-    @Param('id') id: string,
-    @Body() linkWalletDto: LinkWalletDto,
-  ): Promise<{ message: string; data: UserResponseDto }> {
-    const user = await this.usersService.linkWallet(id, linkWalletDto);
-    return { message: 'Wallet linked successfully', data: user };
-  }
-
   /*
    * Brief description: Deletes a user from the system by their unique identifier.
    * @param {string} id - The unique identifier of the user to delete.
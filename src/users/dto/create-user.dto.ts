@@ -2,7 +2,6 @@ import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
 import {
   IsEmail,
   IsEnum,
-  IsEthereumAddress,
   IsNotEmpty,
   IsOptional,
   IsString,
@@ -32,22 +31,4 @@ export class CreateUserDto {
   @IsOptional()
   @IsEnum(UserRole)
   role?: UserRole;
-
-  @ApiPropertyOptional({
-    description: 'Stellar public key linked to the user account',
-    example: 'GB...',
-  })
-  @IsOptional()
-  @IsString()
-  @MinLength(56)
-  stellarPublicKey?: string;
-
-  @ApiPropertyOptional({
-    description: 'Ethereum-compatible wallet address',
-    example: '0xAbCdEf1234567890AbCdEf1234567890AbCdEf12',
-  })
-  @IsOptional()
-  @IsString()
-  @IsEthereumAddress()
-  walletAddress?: string;
 }
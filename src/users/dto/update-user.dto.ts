@@ -1,7 +1,6 @@
 import {
   IsEmail,
   IsEnum,
-  IsEthereumAddress,
   IsOptional,
   IsString,
   MinLength,
@@ -26,14 +25,4 @@ export class UpdateUserDto {
   @IsOptional()
   @IsEnum(UserRole)
   role?: UserRole;
-
-  @IsOptional()
-  @IsString()
-  @MinLength(56)
-  stellarPublicKey?: string;
-
-  @IsOptional()
-  @IsString()
-  @IsEthereumAddress()
-  walletAddress?: string;
 }
@@ -1,5 +1,6 @@
 // users/dto/user-response.dto.ts
 import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { UserAccountStatus } from '../enums/user-account-status.enum';
 import { UserRole } from '../enums/user-role.enum';
 export { UserRole } from '../enums/user-role.enum';
 
@@ -17,19 +18,32 @@ export class UserResponseDto {
   role: UserRole;
 
   @ApiPropertyOptional({
-    description: 'Stellar public key linked to the user account',
+    description: 'Primary verified Stellar wallet, see GET /me/wallets',
     example: 'GB...',
     nullable: true,
   })
   stellarPublicKey: string | null;
 
   @ApiPropertyOptional({
-    description: 'Linked Web3 wallet address',
+    description: 'Legacy Web3 address linked without proof of ownership',
+    deprecated: true,
     example: '0xAbCdEf1234567890AbCdEf1234567890AbCdEf12',
     nullable: true,
   })
   walletAddress: string | null;
 
+  @ApiPropertyOptional({
+    description: 'When the user confirmed their email address',
+    nullable: true,
+  })
+  emailVerifiedAt?: Date | null;
+
+  @ApiPropertyOptional({
+    enum: UserAccountStatus,
+    default: UserAccountStatus.ACTIVE,
+  })
+  status?: UserAccountStatus;
+
   @ApiProperty()
   createdAt: Date;
 
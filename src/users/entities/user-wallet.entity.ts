@@ -0,0 +1,53 @@
+import {
+  Column,
+  CreateDateColumn,
+  Entity,
+  Index,
+  JoinColumn,
+  ManyToOne,
+  PrimaryGeneratedColumn,
+} from 'typeorm';
+import { User } from './user.entity';
+
+export enum WalletChain {
+  STELLAR = 'stellar',
+}
+
+/**
+ * A wallet whose ownership the user proved by signing a challenge. An
+ * address belongs to at most one user, and each user has at most one
+ * primary wallet.
+ */
+@Entity('user_wallets')
+@Index(['chain', 'address'], { unique: true })
+@Index(['userId'], { unique: true, where: '"is_primary" = true' })
+export class UserWallet {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Index()
+  @Column({ type: 'uuid' })
+  userId: string;
+
+  @ManyToOne(() => User, (user) => user.wallets, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'userId' })
+  user: User;
+
+  @Column({ type: 'enum', enum: WalletChain, default: WalletChain.STELLAR })
+  chain: WalletChain;
+
+  @Column({ type: 'varchar', length: 56 })
+  address: string;
+
+  @Column({ type: 'varchar', length: 100, nullable: true, default: null })
+  label: string | null;
+
+  @Column({ type: 'boolean', default: false })
+  isPrimary: boolean;
+
+  @Column({ type: 'timestamp' })
+  verifiedAt: Date;
+
+  @CreateDateColumn()
+  createdAt: Date;
+}
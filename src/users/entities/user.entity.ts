@@ -3,14 +3,18 @@ import {
   Column,
   CreateDateColumn,
   Entity,
+  JoinColumn,
+  ManyToOne,
   OneToMany,
   PrimaryGeneratedColumn,
   UpdateDateColumn,
 } from 'typeorm';
+import { Role } from '../../authorization/entities/role.entity';
 import { COLUMN_LENGTHS } from '../../common/constants';
 import { Course } from '../../courses/entities/course.entity';
 import { Enrollment } from '../../enrollment/entities/enrollment.entity';
 import { UserRole } from '../enums/user-role.enum';
+import { UserWallet } from './user-wallet.entity';
 export { UserRole } from '../enums/user-role.enum';
 
 @Entity('users')
@@ -34,9 +38,23 @@ export class User {
   })
   role: UserRole;
 
+  // Database-backed role; when null the role named after `role` applies
+  @Column({ type: 'uuid', nullable: true, default: null })
+  roleId: string | null;
+
+  @ManyToOne(() => Role, { nullable: true, onDelete: 'SET NULL' })
+  @JoinColumn({ name: 'roleId' })
+  assignedRole: Role | null;
+
+  // Non-human account that authenticates with API keys only
+  @Column({ type: 'boolean', default: false })
+  isServiceAccount: boolean;
+
+  // Mirrors the primary Stellar wallet in user_wallets
   @Column({ type: 'varchar', length: 56, unique: true, nullable: true })
-  stellarPublicKey: string;
+  stellarPublicKey: string | null;
 
+  // Legacy address linked without proof of ownership; no longer writable
   @Column({
     type: 'varchar',
     length: 56,
@@ -46,6 +64,27 @@ export class User {
   })
   walletAddress: string | null;
 
+  @Column({ type: 'timestamp', nullable: true, default: null })
+  emailVerifiedAt: Date | null;
+
+  // Suspended accounts cannot sign in and their tokens and API keys stop working
+  @Column({ type: 'timestamp', nullable: true, default: null })
+  suspendedAt: Date | null;
+
+  @Column({ type: 'varchar', length: 500, nullable: true, default: null })
+  suspensionReason: string | null;
+
+  // Set by an admin; sign-in is refused until the password is changed
+  @Column({ type: 'boolean', default: false })
+  passwordResetRequired: boolean;
+
+  // Personal data was scrubbed; the row only keeps learning records attached
+  @Column({ type: 'timestamp', nullable: true, default: null })
+  anonymizedAt: Date | null;
+
+  @OneToMany(() => UserWallet, (wallet) => wallet.user)
+  wallets: UserWallet[];
+
   @OneToMany(() => Course, (course) => course.professor)
   courses: Course[];
 
@@ -0,0 +1,6 @@
+// enums/user-account-status.enum.ts
+export enum UserAccountStatus {
+  ACTIVE = 'active',
+  SUSPENDED = 'suspended',
+  ANONYMIZED = 'anonymized',
+}
@@ -0,0 +1,13 @@
+import type { DateRangeFilterDto } from '../../common/dto/date-range-filter.dto';
+import type { UserAccountStatus } from '../enums/user-account-status.enum';
+import type { UserRole } from '../enums/user-role.enum';
+
+/** Narrows user listings; the date range applies to the signup date. */
+export interface UserListFilters extends DateRangeFilterDto {
+  // Case-insensitive part of the email address
+  email?: string;
+  role?: UserRole;
+  // Full address of a linked wallet or of the legacy wallet field
+  wallet?: string;
+  status?: UserAccountStatus;
+}
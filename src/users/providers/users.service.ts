@@ -8,10 +8,11 @@ import * as bcrypt from 'bcrypt';
 // Constants
 import { PASSWORD_SALT_ROUNDS } from '../../common/constants';
 import { CreateUserDto } from '../dto/create-user.dto';
-import { LinkWalletDto } from '../dto/link-wallet.dto';
 import { UpdateUserDto } from '../dto/update-user.dto';
 import { UserResponseDto } from '../dto/user-response.dto';
 import type { User } from '../entities/user.entity';
+import { UserAccountStatus } from '../enums/user-account-status.enum';
+import type { UserListFilters } from '../interfaces/user-list-filters.interface';
 import { UsersRepository } from '../users.repository';
 
 @Injectable()
@@ -26,6 +27,12 @@ export class UsersService {
       role: user.role,
       stellarPublicKey: user.stellarPublicKey ?? null,
       walletAddress: user.walletAddress ?? null,
+      emailVerifiedAt: user.emailVerifiedAt ?? null,
+      status: user.anonymizedAt
+        ? UserAccountStatus.ANONYMIZED
+        : user.suspendedAt
+          ? UserAccountStatus.SUSPENDED
+          : UserAccountStatus.ACTIVE,
       createdAt: user.createdAt,
       updatedAt: user.updatedAt,
     };
@@ -39,18 +46,6 @@ export class UsersService {
       throw new ConflictException('Email already exists');
     }
 
-    // Validate wallet uniqueness if provided at creation time
-    if (createUserDto.walletAddress) {
-      const walletExists = await this.usersRepository.walletExists(
-        createUserDto.walletAddress,
-      );
-      if (walletExists) {
-        throw new ConflictException(
-          'Wallet address is already linked to another account',
-        );
-      }
-    }
-
     const hashedPassword = await bcrypt.hash(
       createUserDto.password,
       PASSWORD_SALT_ROUNDS,
@@ -67,8 +62,13 @@ export class UsersService {
   async findAll(
     page?: number,
     limit?: number,
+    filters?: UserListFilters,
   ): Promise<{ users: UserResponseDto[]; total: number }> {
-    const { users, total } = await this.usersRepository.findAll(page, limit);
+    const { users, total } = await this.usersRepository.findAll(
+      page,
+      limit,
+      filters,
+    );
     return { users: users.map((u) => this.toResponseDto(u)), total };
   }
 
@@ -124,10 +124,7 @@ export class UsersService {
     if (!deleted) throw new NotFoundException(`User with ID ${id} not found`);
   }
 
-  /**
-   * Fetch a user by their linked wallet address.
-   * Address comparison is case-insensitive (stored lowercase in DB).
-   */
+  /** Fetch a user by one of their verified wallets. */
   async findByWalletAddress(walletAddress: string): Promise<UserResponseDto> {
     if (!walletAddress)
       throw new BadRequestException('Wallet address is required');
@@ -150,43 +147,32 @@ export class UsersService {
     return await this.usersRepository.findByEmailWithPassword(email);
   }
 
-  async findByStellarPublicKey(publicKey: string): Promise<User | null> {
-    return await this.usersRepository.findByStellarPublicKey(publicKey);
-  }
-
   /**
-   * Link a Web3 wallet address to an existing user profile.
-   * Ensures the address is not already taken by another account.
+   * Internal lookup used by AuthModule for flows keyed by email address
+   * (e.g. password reset). Returns null instead of throwing.
    */
-  async linkWallet(
-    id: string,
-    { walletAddress }: LinkWalletDto,
-  ): Promise<UserResponseDto> {
-    if (!id) throw new BadRequestException('User ID is required');
+  async findByEmail(email: string): Promise<User | null> {
+    return await this.usersRepository.findByEmail(email);
+  }
 
-    // Ensure the target user exists
-    const userExists = await this.usersRepository.exists(id);
-    if (!userExists)
-      throw new NotFoundException(`User with ID ${id} not found`);
+  /** Internal lookup used by AuthModule before issuing tokens. */
+  async findAccountState(
+    id: string,
+  ): Promise<Pick<
+    User,
+    'id' | 'suspendedAt' | 'passwordResetRequired' | 'anonymizedAt'
+  > | null> {
+    return await this.usersRepository.findAccountState(id);
+  }
 
-    // Prevent duplicate wallet links across accounts
-    const walletTaken = await this.usersRepository.walletExists(
-      walletAddress,
-      id,
-    );
-    if (walletTaken) {
-      throw new ConflictException(
-        'Wallet address is already linked to another account',
-      );
-    }
+  /** Whether the account is suspended or anonymised and must be refused. */
+  async isBlocked(id: string): Promise<boolean> {
+    return await this.usersRepository.isBlocked(id);
+  }
 
-    const updatedUser = await this.usersRepository.linkWallet(
-      id,
-      walletAddress,
-    );
-    if (!updatedUser)
-      throw new NotFoundException(`User with ID ${id} not found`);
+  async markEmailVerified(id: string): Promise<void> {
+    if (!id) throw new BadRequestException('User ID is required');
 
-    return this.toResponseDto(updatedUser);
+    await this.usersRepository.markEmailVerified(id);
   }
 }
@@ -1,10 +1,15 @@
 import { BadRequestException, Injectable } from '@nestjs/common';
 import { InjectRepository } from '@nestjs/typeorm';
-import type { Repository, SelectQueryBuilder } from 'typeorm';
+import { IsNull, Not, type Repository, type SelectQueryBuilder } from 'typeorm';
 import { DateRangeFilterDto } from '../common/dto/date-range-filter.dto';
 import type { CreateUserDto } from './dto/create-user.dto';
 import type { UpdateUserDto } from './dto/update-user.dto';
+import { UserWallet } from './entities/user-wallet.entity';
 import { User } from './entities/user.entity';
+import { UserAccountStatus } from './enums/user-account-status.enum';
+import type { UserListFilters } from './interfaces/user-list-filters.interface';
+
+const escapeLike = (value: string) => value.replace(/[\\%_]/g, '\\$&');
 
 @Injectable()
 export class UsersRepository {
@@ -32,21 +37,63 @@ export class UsersRepository {
     return queryBuilder;
   }
 
+  private applyListFilters(
+    queryBuilder: SelectQueryBuilder<User>,
+    filters: UserListFilters,
+  ): SelectQueryBuilder<User> {
+    this.applyDateFilters(queryBuilder, filters);
+
+    if (filters.email) {
+      queryBuilder.andWhere('user.email ILIKE :email', {
+        email: `%${escapeLike(filters.email)}%`,
+      });
+    }
+
+    if (filters.role) {
+      queryBuilder.andWhere('user.role = :role', { role: filters.role });
+    }
+
+    if (filters.wallet) {
+      const walletOwners = queryBuilder
+        .subQuery()
+        .select('wallet.userId')
+        .from(UserWallet, 'wallet')
+        .where('wallet.address = :wallet')
+        .getQuery();
+      queryBuilder.andWhere(
+        `(user.walletAddress = :wallet OR user.id IN ${walletOwners})`,
+        { wallet: filters.wallet },
+      );
+    }
+
+    switch (filters.status) {
+      case UserAccountStatus.ACTIVE:
+        queryBuilder
+          .andWhere('user.suspendedAt IS NULL')
+          .andWhere('user.anonymizedAt IS NULL');
+        break;
+      case UserAccountStatus.SUSPENDED:
+        queryBuilder
+          .andWhere('user.suspendedAt IS NOT NULL')
+          .andWhere('user.anonymizedAt IS NULL');
+        break;
+      case UserAccountStatus.ANONYMIZED:
+        queryBuilder.andWhere('user.anonymizedAt IS NOT NULL');
+        break;
+    }
+
+    return queryBuilder;
+  }
+
   async create(createUserDto: CreateUserDto): Promise<User> {
-    const user = this.userRepository.create({
-      ...createUserDto,
-      // Normalise wallet address to lowercase for consistent uniqueness checks
-      walletAddress: createUserDto.walletAddress
-        ? createUserDto.walletAddress.toLowerCase()
-        : null,
-    });
+    const user = this.userRepository.create(createUserDto);
     return await this.userRepository.save(user);
   }
 
   async findAll(
     page?: number,
     limit?: number,
-    filters?: DateRangeFilterDto,
+    filters?: UserListFilters,
   ): Promise<{ users: User[]; total: number }> {
     const queryBuilder = this.userRepository
       .createQueryBuilder('user')
@@ -56,13 +103,16 @@ export class UsersRepository {
         'user.email',
         'user.role',
         'user.walletAddress',
+        'user.emailVerifiedAt',
+        'user.suspendedAt',
+        'user.anonymizedAt',
         'user.createdAt',
         'user.updatedAt',
       ])
       .orderBy('user.createdAt', 'DESC');
 
     if (filters) {
-      this.applyDateFilters(queryBuilder, filters);
+      this.applyListFilters(queryBuilder, filters);
     }
 
     if (page && limit) {
@@ -83,6 +133,9 @@ export class UsersRepository {
         'email',
         'role',
         'walletAddress',
+        'emailVerifiedAt',
+        'suspendedAt',
+        'anonymizedAt',
         'createdAt',
         'updatedAt',
       ],
@@ -108,12 +161,6 @@ export class UsersRepository {
     });
   }
 
-  async findByStellarPublicKey(stellarPublicKey: string): Promise<User | null> {
-    return await this.userRepository.findOne({
-      where: { stellarPublicKey },
-    });
-  }
-
   /**
    * Used specifically for authentication to retrieve the user's hashed password.
    */
@@ -125,32 +172,62 @@ export class UsersRepository {
       .getOne();
   }
 
-  /** Find a user by their linked wallet address (case-insensitive). */
-  async findByWalletAddress(walletAddress: string): Promise<User | null> {
-    return await this.userRepository.findOne({
-      where: { walletAddress: walletAddress.toLowerCase() },
-      select: [
-        'id',
-        'name',
-        'email',
-        'role',
-        'walletAddress',
-        'createdAt',
-        'updatedAt',
-      ],
-    });
+  /** Find the owner of a verified wallet address. */
+  async findByWalletAddress(address: string): Promise<User | null> {
+    return await this.userRepository
+      .createQueryBuilder('user')
+      .innerJoin('user.wallets', 'wallet', 'wallet.address = :address', {
+        address,
+      })
+      .getOne();
   }
+
   async update(id: string, updateUserDto: UpdateUserDto): Promise<User | null> {
-    await this.userRepository.update(id, updateUserDto);
+    const changes: Partial<User> = { ...updateUserDto };
+    // Changing the legacy role drops any database role so the two agree again
+    if (updateUserDto.role) {
+      changes.roleId = null;
+    }
+    // A new password satisfies a reset forced by an admin
+    if (updateUserDto.password) {
+      changes.passwordResetRequired = false;
+    }
+    await this.userRepository.update(id, changes);
     return await this.findById(id);
   }
 
-  /** Persist only the walletAddress field for an existing user. */
-  async linkWallet(id: string, walletAddress: string): Promise<User | null> {
-    await this.userRepository.update(id, {
-      walletAddress: walletAddress.toLowerCase(),
+  /** Fields that decide whether the account may sign in or use its tokens. */
+  async findAccountState(
+    id: string,
+  ): Promise<Pick<
+    User,
+    'id' | 'suspendedAt' | 'passwordResetRequired' | 'anonymizedAt'
+  > | null> {
+    return await this.userRepository.findOne({
+      where: { id },
+      select: {
+        id: true,
+        suspendedAt: true,
+        passwordResetRequired: true,
+        anonymizedAt: true,
+      },
     });
-    return await this.findById(id);
+  }
+
+  /** Whether the account is suspended or anonymised. */
+  async isBlocked(id: string): Promise<boolean> {
+    const count = await this.userRepository.count({
+      where: [
+        { id, suspendedAt: Not(IsNull()) },
+        { id, anonymizedAt: Not(IsNull()) },
+      ],
+    });
+    return count > 0;
+  }
+
+  /** Record that the user proved ownership of their email address. */
+  async markEmailVerified(id: string): Promise<void> {
+    await this.userRepository.update(id, { emailVerifiedAt: new Date() });
   }
 
   async delete(id: string): Promise<boolean> {
@@ -175,22 +252,4 @@ export class UsersRepository {
     const count = await query.getCount();
     return count > 0;
   }
-
-  async walletExists(
-    walletAddress: string,
-    excludeId?: string,
-  ): Promise<boolean> {
-    const query = this.userRepository
-      .createQueryBuilder('user')
-      .where('user.walletAddress = :walletAddress', {
-        walletAddress: walletAddress.toLowerCase(),
-      });
-
-    if (excludeId) {
-      query.andWhere('user.id != :excludeId', { excludeId });
-    }
-
-    const count = await query.getCount();
-    return count > 0;
-  }
 }